@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { StatusBar } from "expo-status-bar";
 import { View, Text, TouchableOpacity } from "react-native";
 import MobileApp from "./app/MobileApp";
@@ -9,6 +9,8 @@ import { SessionProvider } from "./app/contexts/SessionContext";
 import { ContractProvider } from "./app/contexts/ContractContext";
 import { ErrorBoundary } from "./app/components/ErrorBoundary";
 import { CustomSplashScreen } from "./app/components/SplashScreen";
+import { runStorageMigrations } from "./app/utils/storageMigrations";
+import AppLockService from "./app/services/AppLockService";
 
 const LoadingFallback = () => (
   <View
@@ -65,12 +67,29 @@ const ErrorFallback = ({
 
 export default function App() {
   const [showSplash, setShowSplash] = useState(true);
+  const [storageReady, setStorageReady] = useState(false);
+
+  // Stored data has to be in the current schema before any provider loads
+  // it. Runs behind the splash screen; a failed step is rolled back and the
+  // app starts on the previous schema. The app lock loads here too, so a
+  // locked app never shows its first screen.
+  useEffect(() => {
+    runStorageMigrations()
+      .catch((error) => console.error("❌ Storage migrations failed:", error))
+      .then(() => AppLockService.getInstance().initialize())
+      .catch((error) => console.error("❌ App lock failed to load:", error))
+      .finally(() => setStorageReady(true));
+  }, []);
 
   // Ensure splash screen is immediately visible
   if (showSplash) {
     return <CustomSplashScreen onFinish={() => setShowSplash(false)} />;
   }
 
+  if (!storageReady) {
+    return <LoadingFallback />;
+  }
+
   return (
     <ErrorBoundary fallback={ErrorFallback}>
       <ThemeProvider>
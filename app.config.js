@@ -59,6 +59,13 @@ export default {
       ],
       "expo-font",
       "expo-secure-store",
+      [
+        "expo-local-authentication",
+        {
+          faceIDPermission:
+            "Allow $(PRODUCT_NAME) to use Face ID to unlock your contracts.",
+        },
+      ],
 
       // ===========================
       // ضيف هذا السطر الأخير لتعيين compile/target/buildTools
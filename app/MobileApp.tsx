@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
   View,
   StatusBar,
@@ -8,6 +8,8 @@ import {
   Animated,
   Platform,
   BackHandler,
+  Linking,
+  Modal,
 } from "react-native";
 import { useTheme } from "./contexts/ThemeContext";
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -15,6 +17,7 @@ import { useLanguage } from "./contexts/LanguageContext";
 import { useAuth } from "./contexts/AuthContext";
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useSession } from "./contexts/SessionContext";
+import { useContract } from "./contexts/ContractContext";
 import { AnalysisProgressCard } from './components/AnalysisProgressCard';
 import ProcessingService from './services/ProcessingService';
 import {
@@ -24,6 +27,8 @@ import {
 import { getOrCreateDeviceId } from "./utils/storage";
 import * as Notifications from "expo-notifications";
 import { computeAnalyticsFromLocal } from "./utils/analytics";
+import { parseResultsLink, resultsLinkFromNotification } from "./utils/deepLinks";
+import type { ResultsLink } from "./utils/deepLinks";
 
 // Import screens
 import HomeScreen from "./screens/HomeScreen";
@@ -33,9 +38,21 @@ import ProfileScreen from "./screens/ProfileScreen";
 import ResultsScreen from "./screens/ResultsScreen";
 import OnboardingScreen from "./screens/OnboardingScreen";
 import CameraScreen from "./screens/CameraScreen";
+import ReferenceLibraryScreen from "./screens/ReferenceLibraryScreen";
+import ExpertQueueScreen from "./screens/ExpertQueueScreen";
+import BatchAnalysisScreen from "./screens/BatchAnalysisScreen";
+import LoginScreen from "./screens/LoginScreen";
+import ExpertReviewService from "./services/ExpertReviewService";
+import BatchAnalysisService from "./services/BatchAnalysisService";
 
 // Import components
 import MobileNavigation from "./components/MobileNavigation";
+import OfflineBanner from "./components/OfflineBanner";
+import SyncConflictResolver from "./components/SyncConflictResolver";
+import AppLockOverlay from "./components/AppLockOverlay";
+import PrivacyShield from "./components/PrivacyShield";
+import { useAppLock } from "./hooks/useAppLock";
+import { useAnalysisJob } from "./hooks/useAnalysisJob";
 import { EnhancedHeader } from "./components/enhanced/EnhancedHeader";
 
 // Configure notifications
@@ -51,15 +68,25 @@ Notifications.setNotificationHandler({
 
 const MobileApp: React.FC = () => {
   const { theme } = useTheme();
-  const { language, isRTL } = useLanguage();
-  const { user, isLoading: authLoading } = useAuth();
-  const { sessionId: currentSessionId } = useSession();
+  const { language, isRTL, t } = useLanguage();
+  const { user, isLoading: authLoading, loginPrompt, dismissLoginPrompt } = useAuth();
+  const appLock = useAppLock();
+  const { sessionId: currentSessionId, loadSessionData } = useSession();
   const { isAnalyzingContract, analysisProgress } = useSession();
+  const { cancelAnalysis } = useContract();
 
   // Track active analysis jobs globally
   const [hasActiveAnalysis, setHasActiveAnalysis] = React.useState(false);
   const [isGlobalNavigationLocked, setIsGlobalNavigationLocked] = React.useState(false);
+  // First analysis tracked by ProcessingService, shown in a progress card
+  const [trackedSessionId, setTrackedSessionId] = useState<string | null>(null);
+  const trackedJob = useAnalysisJob(
+    trackedSessionId ? ProcessingService.getInstance().getStatusJobId(trackedSessionId) : null
+  );
+  const [cancellingSessionId, setCancellingSessionId] = useState<string | null>(null);
   const [currentScreen, setCurrentScreen] = useState<ScreenType>("home");
+  // Term to scroll to when the results screen opens (e.g. from a search match)
+  const [focusTermId, setFocusTermId] = useState<string | null>(null);
 
   useEffect(() => {
     const checkActiveJobs = () => {
@@ -68,6 +95,7 @@ const MobileApp: React.FC = () => {
       const hasActiveJobs = activeJobs.length > 0;
 
       setHasActiveAnalysis(hasActiveJobs || isAnalyzingContract);
+      setTrackedSessionId(activeJobs[0] ?? null);
       
       // Navigation should only be locked while actively analyzing
       // NOT during the completion/redirect phase
@@ -103,6 +131,23 @@ const MobileApp: React.FC = () => {
     useState(false);
   const [analyticsComputed, setAnalyticsComputed] = useState(false);
 
+  // Expert review notifications are sent by the service, in the app's language.
+  useEffect(() => {
+    ExpertReviewService.getInstance().setCompletionText((request) => ({
+      title: t("review.notification.title"),
+      body: t("review.notification.body").replace(
+        "{name}",
+        request.session_title || request.session_id,
+      ),
+    }));
+    BatchAnalysisService.getInstance().setCompletionText((batch, summary) => ({
+      title: t("batch.notification.title"),
+      body: t("batch.notification.body")
+        .replace("{completed}", String(summary.completed))
+        .replace("{total}", String(summary.total)),
+    }));
+  }, [language]);
+
   // Initialize notifications and services
   useEffect(() => {
     initializeNotifications();
@@ -142,9 +187,16 @@ const MobileApp: React.FC = () => {
 
           // Handle notification tap
           const data = response.notification.request.content.data;
-          if (data?.type === "analysis_complete" && data?.sessionId) {
-            // Navigate to results screen
-            setCurrentScreen("results");
+          const link = resultsLinkFromNotification(data);
+          if (
+            link &&
+            (data?.type === "analysis_complete" ||
+              data?.type === "expert_review_complete" ||
+              link.termId)
+          ) {
+            openResultsLinkRef.current(link);
+          } else if (data?.type === "batch_complete") {
+            handleNavigateRef.current("batch");
           }
         });
 
@@ -238,6 +290,9 @@ const MobileApp: React.FC = () => {
         case "camera":
         case "history":
         case "profile":
+        case "library":
+        case "reviews":
+        case "batch":
           // Navigate back to home
           console.log("🔙 Navigating back to home from:", currentScreen);
           handleNavigate("home");
@@ -353,9 +408,9 @@ const MobileApp: React.FC = () => {
     }
   }, [currentScreen]);
 
-  const handleNavigate = useCallback((screen: ScreenType, sessionId?: string) => {
+  const handleNavigate = useCallback((screen: ScreenType, sessionId?: string, termId?: string) => {
     try {
-      console.log('📍 Navigation request:', screen, sessionId);
+      console.log('📍 Navigation request:', screen, sessionId, termId);
 
       // Special case: Allow navigation to results even if analysis is still flagged
       // This handles the completion redirect scenario
@@ -382,6 +437,9 @@ const MobileApp: React.FC = () => {
 
       // Don't navigate if we're already on the target screen
       if (currentScreen === screen) {
+        if (screen === "results" && termId) {
+          setFocusTermId(termId);
+        }
         console.log("📍 Already on target screen, ignoring navigation");
         return;
       }
@@ -402,6 +460,7 @@ const MobileApp: React.FC = () => {
           // The sessionId will be handled by SessionContext when the screen loads
           console.log('📱 Navigating to results with session:', sessionId);
         }
+        setFocusTermId(screen === 'results' ? termId ?? null : null);
         setCurrentScreen(screen);
         Animated.timing(fadeAnim, {
           toValue: 1,
@@ -416,6 +475,63 @@ const MobileApp: React.FC = () => {
     }
   }, [isGlobalNavigationLocked, currentScreen, isAnalyzingContract, hasActiveAnalysis, fadeAnim, currentSessionId]);
 
+  const handleNavigateRef = useRef(handleNavigate);
+  handleNavigateRef.current = handleNavigate;
+
+  // Opens a session's results from a deep link or a notification, scrolled
+  // to the linked term when there is one.
+  const openResultsLink = useCallback(async (link: ResultsLink) => {
+    console.log("🔗 Opening results link:", link.sessionId, link.termId);
+    try {
+      await loadSessionData(link.sessionId);
+    } catch (error) {
+      console.error("❌ Failed to load linked session:", error);
+    }
+    handleNavigate("results", link.sessionId, link.termId);
+  }, [loadSessionData, handleNavigate]);
+
+  // Listeners registered once still reach the latest navigation state.
+  const openResultsLinkRef = useRef(openResultsLink);
+  openResultsLinkRef.current = openResultsLink;
+
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      const link = url ? parseResultsLink(url) : null;
+      if (link) {
+        openResultsLinkRef.current(link);
+      }
+    };
+
+    Linking.getInitialURL()
+      .then(handleUrl)
+      .catch((error) => console.warn("🔗 Failed to read initial link:", error));
+    const subscription = Linking.addEventListener("url", ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  const handleCancelTrackedAnalysis = useCallback(() => {
+    if (!trackedSessionId) return;
+    const sessionId = trackedSessionId;
+    Alert.alert(
+      t("cancelAnalysis.title") || "Cancel analysis?",
+      t("cancelAnalysis.message") || "The analysis will stop and this contract will be kept in your history as cancelled.",
+      [
+        { text: t("cancelAnalysis.keep") || "Keep analyzing", style: "cancel" },
+        {
+          text: t("cancelAnalysis.confirm") || "Cancel analysis",
+          style: "destructive",
+          onPress: async () => {
+            setCancellingSessionId(sessionId);
+            try {
+              await cancelAnalysis(sessionId);
+            } finally {
+              setCancellingSessionId(null);
+            }
+          },
+        },
+      ],
+    );
+  }, [trackedSessionId, cancelAnalysis, t]);
 
   const handleAnalysisComplete = (sessionId: string) => {
     // Clear camera file after successful analysis
@@ -462,6 +578,7 @@ const MobileApp: React.FC = () => {
           return (
             <UploadScreen
               onAnalysisComplete={handleAnalysisComplete}
+              onBatchStarted={() => handleNavigate("batch")}
               onBack={() => handleNavigate("home")}
               preSelectedFile={cameraGeneratedFile}
               fromCamera={!!cameraGeneratedFile}
@@ -484,11 +601,19 @@ const MobileApp: React.FC = () => {
           );
         case "profile":
           return <ProfileScreen onBack={() => handleNavigate("home")} />;
+        case "library":
+          return <ReferenceLibraryScreen onNavigate={handleNavigate} />;
+        case "reviews":
+          return <ExpertQueueScreen onNavigate={handleNavigate} />;
+        case "batch":
+          return <BatchAnalysisScreen onNavigate={handleNavigate} />;
         case "results":
           return currentSessionId ? (
             <ResultsScreen
               onBack={() => handleNavigate("home")}
               sessionId={currentSessionId}
+              focusTermId={focusTermId}
+              onFocusHandled={() => setFocusTermId(null)}
             />
           ) : (
             <HomeScreen onNavigate={handleNavigate} />
@@ -518,6 +643,24 @@ const MobileApp: React.FC = () => {
         <EnhancedHeader title={currentScreen} onNavigate={handleNavigate} />
       )}
 
+      {!showOnboarding && <OfflineBanner />}
+      {!showOnboarding && <SyncConflictResolver />}
+
+      {/* While ProcessingService runs an analysis, with a generic stage until
+          the server reports one; the upload screen shows its own progress. */}
+      {!showOnboarding &&
+        currentScreen !== "upload" &&
+        trackedSessionId &&
+        trackedJob?.status?.stage !== "completed" &&
+        trackedJob?.status?.stage !== "cancelled" && (
+          <AnalysisProgressCard
+            sessionId={trackedSessionId}
+            job={trackedJob}
+            onCancel={handleCancelTrackedAnalysis}
+            isCancelling={cancellingSessionId === trackedSessionId}
+          />
+        )}
+
       <Animated.View
         style={[
           styles.content,
@@ -544,11 +687,33 @@ const MobileApp: React.FC = () => {
         />
       )}
 
+      {/* Shown over the current screen so it keeps its state while the user
+          signs in again after the session expired. */}
+      <Modal
+        visible={!!loginPrompt && !showOnboarding && !appLock.isLocked}
+        animationType="slide"
+        onRequestClose={dismissLoginPrompt}
+      >
+        <LoginScreen />
+      </Modal>
+
+      <PrivacyShield
+        visible={
+          appLock.isObscured &&
+          appLock.settings.hideInAppSwitcher &&
+          SENSITIVE_SCREENS.includes(currentScreen)
+        }
+      />
+      <AppLockOverlay />
+
       
     </SafeAreaView>
   );
 };
 
+// Screens showing contract contents, hidden from the app switcher.
+const SENSITIVE_SCREENS: ScreenType[] = ["upload", "camera", "history", "results", "reviews", "batch"];
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -565,4 +730,7 @@ export type ScreenType =
   | "camera"
   | "history"
   | "profile"
-  | "results";
\ No newline at end of file
+  | "results"
+  | "library"
+  | "reviews"
+  | "batch";
\ No newline at end of file
@@ -3,21 +3,49 @@ import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Animated } from 'react-native';
 import { colors } from '../theme/colors';
 import { useLanguage } from '../contexts/LanguageContext';
+import type { AnalysisJobSnapshot } from '../services/AnalysisJobTracker';
+import {
+  ANALYSIS_STEPS,
+  analysisStageProgress,
+  analysisStepOf,
+  describeAnalysisStage,
+  formatAnalysisEta,
+} from '../utils/analysisStatus';
 
 interface AnalysisProgressCardProps {
   sessionId: string;
   onCancel?: () => void;
+  // Set while the cancellation is on its way to the server.
+  isCancelling?: boolean;
   onViewDetails?: () => void;
   progress?: number;
+  // Live status from the server; without one a generic stage is shown.
+  job?: AnalysisJobSnapshot | null;
 }
 
 export const AnalysisProgressCard: React.FC<AnalysisProgressCardProps> = ({
   sessionId,
   onCancel,
+  isCancelling = false,
   onViewDetails,
   progress = 0,
+  job,
 }) => {
   const { t } = useLanguage();
+  const liveStatus = job && !job.unavailable ? job.status : null;
+  const stageText = liveStatus
+    ? describeAnalysisStage(liveStatus, t)
+    : {
+        title: t('analyzing.job.inProgress.title') || 'Analyzing',
+        desc: t('analyzing.job.inProgress.desc') || 'Your contract is being analyzed',
+      };
+  const etaText = liveStatus ? formatAnalysisEta(job?.etaSeconds ?? null, t) : null;
+  // Overall progress: finished steps plus the share of the current one.
+  const shownProgress = liveStatus
+    ? ((analysisStepOf(liveStatus.stage) - 1 + (analysisStageProgress(liveStatus) ?? 0) / 100) /
+        ANALYSIS_STEPS.length) *
+      100
+    : progress;
   const [animValue] = React.useState(new Animated.Value(0));
 
   React.useEffect(() => {
@@ -59,18 +87,19 @@ export const AnalysisProgressCard: React.FC<AnalysisProgressCardProps> = ({
             {t('analyzing_contract') || 'Analyzing Contract'}
           </Text>
           <Text style={styles.subtitle}>
-            {t('processing_in_background') || 'Processing in background...'}
+            {`${stageText.title} · ${stageText.desc}`}
           </Text>
-          {progress > 0 && (
+          {shownProgress > 0 && (
             <View style={styles.progressBar}>
               <View 
                 style={[
                   styles.progressFill,
-                  { width: `${Math.min(progress, 100)}%` }
+                  { width: `${Math.min(shownProgress, 100)}%` }
                 ]} 
               />
             </View>
           )}
+          {!!etaText && <Text style={styles.etaText}>{etaText}</Text>}
         </View>
 
         <View style={styles.actions}>
@@ -87,11 +116,14 @@ export const AnalysisProgressCard: React.FC<AnalysisProgressCardProps> = ({
           
           {onCancel && (
             <TouchableOpacity 
-              style={styles.cancelButton}
+              style={[styles.cancelButton, isCancelling && styles.cancelButtonDisabled]}
               onPress={onCancel}
+              disabled={isCancelling}
             >
               <Text style={styles.cancelButtonText}>
-                {t('cancel') || 'Cancel'}
+                {isCancelling
+                  ? t('cancelAnalysis.cancelling') || 'Cancelling...'
+                  : t('common.cancel') || 'Cancel'}
               </Text>
             </TouchableOpacity>
           )}
@@ -156,6 +188,11 @@ const styles = StyleSheet.create({
     backgroundColor: colors.primary,
     borderRadius: 2,
   },
+  etaText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 6,
+  },
   actions: {
     flexDirection: 'column',
     gap: 8,
@@ -183,6 +220,9 @@ const styles = StyleSheet.create({
     minWidth: 60,
     alignItems: 'center',
   },
+  cancelButtonDisabled: {
+    opacity: 0.5,
+  },
   cancelButtonText: {
     color: colors.textSecondary,
     fontSize: 12,
@@ -1,9 +1,18 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { View, Text, StyleSheet, Animated, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, Animated, Dimensions, TouchableOpacity } from 'react-native';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { FileText, Search, CheckCircle, Sparkles, Loader, Eye, Brain, Shield, Zap } from 'lucide-react-native';
+import { FileText, Search, CheckCircle, Sparkles, Loader, Eye, Brain, Shield, Zap, ListChecks, XCircle } from 'lucide-react-native';
 import { colors, gradients } from '../theme/colors';
+import type { AnalysisStage } from '../services/api';
+import type { AnalysisJobSnapshot } from '../services/AnalysisJobTracker';
+import {
+  ANALYSIS_STEPS,
+  analysisStageProgress,
+  analysisStepOf,
+  describeAnalysisStage,
+  formatAnalysisEta,
+} from '../utils/analysisStatus';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -12,13 +21,39 @@ interface AnalyzingAnimationProps {
   stage?: number;
   progress?: number;
   currentStage?: string;
+  // Live status from the server; without one the steps advance on a timer.
+  job?: AnalysisJobSnapshot | null;
+  // Terms the server has reported so far; with onViewPartialResults, offers
+  // to open them while the rest are analysed.
+  partialTermsCount?: number;
+  onViewPartialResults?: () => void;
+  onCancel?: () => void;
+  // Set while the cancellation is on its way to the server.
+  isCancelling?: boolean;
 }
 
+const JOB_STAGE_ICONS: Record<AnalysisStage, typeof FileText> = {
+  queued: Loader,
+  extracting_text: FileText,
+  ocr: Eye,
+  segmenting_terms: Search,
+  analyzing_terms: Brain,
+  generating_report: Sparkles,
+  completed: CheckCircle,
+  failed: Shield,
+  cancelled: XCircle,
+};
+
 const AnalyzingAnimation: React.FC<AnalyzingAnimationProps> = ({ 
   isVisible, 
   stage = 1, 
   progress = 0,
-  currentStage
+  currentStage,
+  job,
+  partialTermsCount = 0,
+  onViewPartialResults,
+  onCancel,
+  isCancelling = false
 }) => {
   const { t } = useLanguage();
   const { theme } = useTheme();
@@ -202,7 +237,22 @@ const AnalyzingAnimation: React.FC<AnalyzingAnimationProps> = ({
     outputRange: ['0deg', '360deg'],
   });
 
-  const currentStageData = stages[Math.min(currentStep - 1, stages.length - 1)];
+  const liveStatus = job && !job.unavailable ? job.status : null;
+  const stepCount = liveStatus ? ANALYSIS_STEPS.length : stages.length;
+  const activeStep = liveStatus ? analysisStepOf(liveStatus.stage) : currentStep;
+  const activeProgress = liveStatus ? analysisStageProgress(liveStatus) : stepProgress;
+  const etaText = liveStatus ? formatAnalysisEta(job?.etaSeconds ?? null, t) : null;
+
+  const currentStageData = liveStatus
+    ? {
+        key: liveStatus.stage,
+        icon: JOB_STAGE_ICONS[liveStatus.stage],
+        color: liveStatus.stage === 'failed'
+          ? '#ef4444'
+          : liveStatus.stage === 'cancelled' ? '#6b7280' : colors.primary,
+        ...describeAnalysisStage(liveStatus, t),
+      }
+    : stages[Math.min(currentStep - 1, stages.length - 1)];
   const StageIcon = currentStageData.icon;
 
   if (!isVisible) return null;
@@ -334,35 +384,40 @@ const AnalyzingAnimation: React.FC<AnalyzingAnimationProps> = ({
         {/* Step Progress */}
         <View style={styles.progressContainer}>
           <Text style={[styles.stepText, { color: currentStageData.color }]}>
-            Step {currentStep} of {stages.length}
-          </Text>
-          <View style={styles.progressBar}>
-            <View 
-              style={[
-                styles.progressFill, 
-                { 
-                  width: `${stepProgress}%`,
-                  backgroundColor: currentStageData.color,
-                }
-              ]} 
-            />
-          </View>
-          <Text style={[styles.progressText, { color: currentStageData.color }]}>
-            {Math.round(stepProgress)}%
+            Step {activeStep} of {stepCount}
           </Text>
+          {activeProgress !== null && (
+            <>
+              <View style={styles.progressBar}>
+                <View 
+                  style={[
+                    styles.progressFill, 
+                    { 
+                      width: `${activeProgress}%`,
+                      backgroundColor: currentStageData.color,
+                    }
+                  ]} 
+                />
+              </View>
+              <Text style={[styles.progressText, { color: currentStageData.color }]}>
+                {Math.round(activeProgress)}%
+              </Text>
+            </>
+          )}
+          {!!etaText && <Text style={styles.etaText}>{etaText}</Text>}
         </View>
 
         {/* Stage Indicators */}
         <View style={styles.stageIndicators}>
-          {stages.map((stageItem, index) => (
+          {Array.from({ length: stepCount }, (_, index) => (
             <Animated.View 
-              key={stageItem.key}
+              key={`step${index}`}
               style={[
                 styles.stageIndicator,
                 { 
-                  backgroundColor: index < currentStep ? stageItem.color : (isDark ? '#374151' : '#e5e7eb'),
+                  backgroundColor: index < activeStep ? currentStageData.color : (isDark ? '#374151' : '#e5e7eb'),
                   transform: [{ 
-                    scale: index === currentStep - 1 ? pulseAnim.interpolate({
+                    scale: index === activeStep - 1 ? pulseAnim.interpolate({
                       inputRange: [1, 1.2],
                       outputRange: [1, 1.3],
                     }) : 1 
@@ -373,6 +428,31 @@ const AnalyzingAnimation: React.FC<AnalyzingAnimationProps> = ({
           ))}
         </View>
 
+        {/* Partial Results */}
+        {!!onViewPartialResults && partialTermsCount > 0 && (
+          <TouchableOpacity style={styles.partialButton} onPress={onViewPartialResults}>
+            <ListChecks size={16} color="#ffffff" />
+            <Text style={styles.partialButtonText}>
+              {(t('analyzing.viewPartial') || 'View analyzed terms ({count})')
+                .replace('{count}', String(partialTermsCount))}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {!!onCancel && (
+          <TouchableOpacity
+            style={[styles.cancelButton, isCancelling && styles.cancelButtonDisabled]}
+            onPress={onCancel}
+            disabled={isCancelling}
+          >
+            <Text style={styles.cancelButtonText}>
+              {isCancelling
+                ? t('cancelAnalysis.cancelling') || 'Cancelling...'
+                : t('cancelAnalysis.confirm') || 'Cancel analysis'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Enhanced Badges */}
         <View style={styles.badgeContainer}>
           <Animated.View style={[
@@ -564,11 +644,47 @@ const getStyles = (isDark: boolean) => StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  etaText: {
+    fontSize: 13,
+    color: isDark ? '#9ca3af' : '#6b7280',
+    marginTop: 6,
+  },
   stageIndicators: {
     flexDirection: 'row',
     gap: 8,
     marginBottom: 24,
   },
+  partialButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#10b981',
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  partialButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDark ? '#4b5563' : '#d1d5db',
+    marginBottom: 20,
+  },
+  cancelButtonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButtonText: {
+    color: isDark ? '#d1d5db' : '#6b7280',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   stageIndicator: {
     width: 12,
     height: 12,
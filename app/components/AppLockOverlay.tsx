@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, ActivityIndicator } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { useAppLock } from '../hooks/useAppLock';
+import AppLockService from '../services/AppLockService';
+import { Fingerprint, Lock } from 'lucide-react-native';
+
+// Full-screen lock shown over everything, modals included, while the app is
+// locked. Screens underneath stay mounted, so nothing in progress is lost.
+const AppLockOverlay: React.FC = () => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const { isLocked, isObscured, lockedOutUntil, settings } = useAppLock();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const promptedRef = useRef(false);
+
+  const usesPin = settings.method === 'pin';
+  const promptMessage = t('appLock.prompt') || "Unlock Shar'AI";
+
+  const promptBiometrics = async () => {
+    setIsChecking(true);
+    try {
+      await AppLockService.getInstance().unlockWithBiometrics(promptMessage);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // Ask for biometrics as soon as the lock shows in the foreground, once per
+  // lock.
+  useEffect(() => {
+    if (!isLocked) {
+      promptedRef.current = false;
+      setPin('');
+      setError(null);
+      return;
+    }
+    if (!usesPin && !isObscured && !promptedRef.current) {
+      promptedRef.current = true;
+      promptBiometrics();
+    }
+  }, [isLocked, isObscured, usesPin]);
+
+  // Tick while a PIN lockout runs so the countdown updates.
+  useEffect(() => {
+    if (!lockedOutUntil) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockedOutUntil]);
+
+  const secondsLeft = lockedOutUntil ? Math.max(0, Math.ceil((lockedOutUntil - now) / 1000)) : 0;
+  const isLockedOut = secondsLeft > 0;
+
+  const handlePinSubmit = async () => {
+    if (pin.length < 4 || isChecking || isLockedOut) return;
+    setIsChecking(true);
+    try {
+      const unlocked = await AppLockService.getInstance().unlockWithPin(pin);
+      if (!unlocked) {
+        setError(t('appLock.wrongPin') || 'Wrong PIN. Try again.');
+      }
+      setPin('');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Modal visible={isLocked} animationType="fade" onRequestClose={() => {}}>
+      <View style={styles.container}>
+        <View style={styles.iconCircle}>
+          <Lock size={32} color="#10b981" />
+        </View>
+        <Text style={styles.title}>{t('appLock.lockedTitle') || 'App Locked'}</Text>
+        <Text style={styles.subtitle}>
+          {usesPin
+            ? t('appLock.enterPin') || 'Enter your PIN to continue.'
+            : t('appLock.useBiometrics') || 'Use biometrics to continue.'}
+        </Text>
+
+        {usesPin ? (
+          <View style={styles.pinArea}>
+            <TextInput
+              style={styles.pinInput}
+              value={pin}
+              onChangeText={(text) => {
+                setPin(text.replace(/\D/g, ''));
+                setError(null);
+              }}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={6}
+              autoFocus
+              editable={!isLockedOut && !isChecking}
+              onSubmitEditing={handlePinSubmit}
+              placeholder="••••"
+              placeholderTextColor={isDark ? '#4b5563' : '#d1d5db'}
+            />
+            {isLockedOut ? (
+              <Text style={styles.errorText}>
+                {(t('appLock.lockedOut') || 'Too many wrong PINs. Try again in {seconds}s.').replace(
+                  '{seconds}',
+                  String(secondsLeft)
+                )}
+              </Text>
+            ) : (
+              !!error && <Text style={styles.errorText}>{error}</Text>
+            )}
+            <TouchableOpacity
+              style={[styles.button, (pin.length < 4 || isLockedOut || isChecking) && styles.buttonDisabled]}
+              onPress={handlePinSubmit}
+              disabled={pin.length < 4 || isLockedOut || isChecking}
+            >
+              {isChecking ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.buttonText}>{t('appLock.unlock') || 'Unlock'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[styles.button, styles.biometricButton, isChecking && styles.buttonDisabled]}
+            onPress={promptBiometrics}
+            disabled={isChecking}
+          >
+            <Fingerprint size={20} color="#ffffff" />
+            <Text style={styles.buttonText}>{t('appLock.unlock') || 'Unlock'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 12,
+    backgroundColor: isDark ? '#111827' : '#f9fafb',
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: isDark ? '#1f2937' : '#ffffff',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: isDark ? '#f9fafb' : '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    color: isDark ? '#9ca3af' : '#6b7280',
+  },
+  pinArea: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  pinInput: {
+    width: 180,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#d1d5db',
+    backgroundColor: isDark ? '#1f2937' : '#ffffff',
+    color: isDark ? '#f9fafb' : '#111827',
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  button: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    minWidth: 180,
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 10,
+    backgroundColor: '#10b981',
+  },
+  biometricButton: {
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default AppLockOverlay;
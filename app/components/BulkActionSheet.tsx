@@ -0,0 +1,294 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import type { BulkActionReport, BulkTermAction, FrontendAnalysisTerm } from '../contexts/SessionContext';
+import type { BatchProgress } from '../utils/batchQueue';
+import { CheckCircle, CloudOff, XCircle, MinusCircle, RotateCcw, RefreshCw, X } from 'lucide-react-native';
+
+interface BulkActionSheetProps {
+  visible: boolean;
+  action: BulkTermAction | null;
+  // The sheet tracks an undo rather than the action itself.
+  isUndo: boolean;
+  progress: BatchProgress | null;
+  // Set once the batch has finished.
+  report: BulkActionReport | null;
+  terms: FrontendAnalysisTerm[];
+  canUndo: boolean;
+  onCancel: () => void;
+  onUndo: () => void;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+export const BULK_ACTION_LABELS: Record<BulkTermAction, { key: string; fallback: string }> = {
+  accept_ai: { key: 'bulk.action.accept_ai', fallback: 'Accept AI suggestions' },
+  confirm: { key: 'bulk.action.confirm', fallback: 'Confirm' },
+  reset: { key: 'bulk.action.reset', fallback: 'Reset to original' },
+  mark_for_review: { key: 'bulk.action.mark_for_review', fallback: 'Mark for expert review' },
+};
+
+// Bottom sheet following a bulk action: live progress while the batch runs,
+// then a summary with the failed terms, a retry for them and an undo.
+const BulkActionSheet: React.FC<BulkActionSheetProps> = ({
+  visible,
+  action,
+  isUndo,
+  progress,
+  report,
+  terms,
+  canUndo,
+  onCancel,
+  onUndo,
+  onRetryFailed,
+  onClose,
+}) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  if (!action) return null;
+
+  const isRunning = !report;
+  const actionLabel = t(BULK_ACTION_LABELS[action].key) || BULK_ACTION_LABELS[action].fallback;
+  const title = isUndo
+    ? (t('bulk.undoTitle') || 'Undo: {action}').replace('{action}', actionLabel)
+    : actionLabel;
+  const total = report?.total ?? progress?.total ?? 0;
+  const completed = report ? report.total - report.skipped.length : progress?.completed ?? 0;
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const termText = (termId: string) =>
+    terms.find((term) => term.term_id === termId)?.term_text || termId;
+
+  const summaryRows = report
+    ? [
+        { count: report.succeeded.length, key: 'bulk.succeeded', fallback: '{count} done', color: '#10b981', Icon: CheckCircle },
+        { count: report.queued.length, key: 'bulk.queued', fallback: '{count} saved offline', color: '#f59e0b', Icon: CloudOff },
+        { count: report.failed.length, key: 'bulk.failed', fallback: '{count} failed', color: '#ef4444', Icon: XCircle },
+        { count: report.skipped.length, key: 'bulk.skipped', fallback: '{count} cancelled', color: '#6b7280', Icon: MinusCircle },
+      ].filter((row) => row.count > 0)
+    : [];
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={isRunning ? onCancel : onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>{title}</Text>
+            {!isRunning && (
+              <TouchableOpacity onPress={onClose}>
+                <X size={22} color={isDark ? '#d1d5db' : '#374151'} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.progressSection}>
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    width: `${percent}%`,
+                    backgroundColor: report && report.failed.length > 0 ? '#f59e0b' : '#10b981',
+                  },
+                ]}
+              />
+            </View>
+            <View style={styles.progressRow}>
+              {isRunning && <ActivityIndicator size="small" color="#10b981" />}
+              <Text style={styles.progressText}>
+                {(t('bulk.progress') || '{completed} of {total} terms')
+                  .replace('{completed}', String(completed))
+                  .replace('{total}', String(total))}
+              </Text>
+              {isRunning && !!progress?.failed && (
+                <Text style={[styles.progressText, { color: '#ef4444' }]}>
+                  {(t('bulk.failed') || '{count} failed').replace('{count}', String(progress.failed))}
+                </Text>
+              )}
+            </View>
+          </View>
+
+          {report && (
+            <ScrollView contentContainerStyle={styles.list}>
+              {summaryRows.map(({ count, key, fallback, color, Icon }) => (
+                <View key={key} style={styles.summaryRow}>
+                  <Icon size={16} color={color} />
+                  <Text style={[styles.summaryText, { color }]}>
+                    {(t(key) || fallback).replace('{count}', String(count))}
+                  </Text>
+                </View>
+              ))}
+
+              {report.queued.length > 0 && (
+                <Text style={styles.note}>
+                  {t('bulk.queuedNote') ||
+                    'The server could not be reached for some terms. Those changes were saved on this device and will sync automatically.'}
+                </Text>
+              )}
+
+              {report.failed.map((failure) => (
+                <View key={failure.termId} style={styles.failureCard}>
+                  <Text style={[styles.failureTerm, { textAlign: isRTL ? 'right' : 'left' }]} numberOfLines={2}>
+                    {termText(failure.termId)}
+                  </Text>
+                  <Text style={styles.failureError}>{failure.error}</Text>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <View style={styles.actions}>
+            {isRunning ? (
+              <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onCancel}>
+                <Text style={styles.secondaryButtonText}>{t('bulk.cancel') || 'Stop after current terms'}</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                {report!.failed.length > 0 && (
+                  <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={onRetryFailed}>
+                    <RefreshCw size={15} color="#ffffff" />
+                    <Text style={styles.primaryButtonText}>{t('bulk.retryFailed') || 'Retry failed'}</Text>
+                  </TouchableOpacity>
+                )}
+                {canUndo && (
+                  <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onUndo}>
+                    <RotateCcw size={15} color="#3b82f6" />
+                    <Text style={styles.secondaryButtonText}>{t('bulk.undo') || 'Undo whole batch'}</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onClose}>
+                  <Text style={styles.secondaryButtonText}>{t('bulk.close') || 'Close'}</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '80%',
+    backgroundColor: isDark ? '#111827' : '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 16,
+    paddingBottom: 24,
+  },
+  sheetHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: isDark ? '#f9fafb' : '#111827',
+  },
+  progressSection: {
+    paddingHorizontal: 16,
+    marginTop: 14,
+    gap: 8,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: isDark ? '#374151' : '#e5e7eb',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  progressRow: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#374151',
+  },
+  list: {
+    padding: 16,
+    gap: 10,
+  },
+  summaryRow: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 12,
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  failureCard: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? '#7f1d1d' : '#fecaca',
+    backgroundColor: isDark ? 'rgba(239, 68, 68, 0.1)' : '#fef2f2',
+    padding: 10,
+    gap: 4,
+  },
+  failureTerm: {
+    fontSize: 13,
+    color: isDark ? '#e5e7eb' : '#1f2937',
+  },
+  failureError: {
+    fontSize: 12,
+    color: '#ef4444',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  actions: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  button: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  primaryButton: {
+    backgroundColor: '#10b981',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#d1d5db',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#374151',
+  },
+});
+
+export default BulkActionSheet;
@@ -4,8 +4,9 @@ import { View, Text, StyleSheet } from 'react-native';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useSession } from '../contexts/SessionContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { CheckCircle, AlertTriangle, Info, TrendingUp, Shield, AlertOctagon } from 'lucide-react-native';
+import { CheckCircle, AlertTriangle, Info, TrendingUp, Shield, AlertOctagon, Clock } from 'lucide-react-native';
 import { Progress } from './ui/progress';
+import { TERM_SEVERITIES, SEVERITY_COLORS } from '../utils/termSeverity';
 
 const ComplianceBanner: React.FC = () => {
   const { t } = useLanguage();
@@ -32,16 +33,23 @@ const ComplianceBanner: React.FC = () => {
   const {
     currentUserEffectiveCompliantCount,
     currentUserEffectiveNonCompliantCount,
-    overallCompliancePercentage
+    overallCompliancePercentage,
+    weightedCompliancePercentage,
+    openIssuesBySeverity,
+    isProvisional,
+    pendingTerms
   } = complianceStats;
 
   const totalTerms = currentUserEffectiveCompliantCount + currentUserEffectiveNonCompliantCount;
+  const openSeverities = TERM_SEVERITIES.filter((severity) => openIssuesBySeverity[severity] > 0);
 
+  // The level follows the weighted score, so a single riba clause is not
+  // outweighed by many compliant boilerplate terms.
   const getComplianceLevel = () => {
-    if (overallCompliancePercentage >= 90) return 'excellent';
-    if (overallCompliancePercentage >= 80) return 'good';
-    if (overallCompliancePercentage >= 60) return 'moderate';
-    if (overallCompliancePercentage >= 40) return 'poor';
+    if (weightedCompliancePercentage >= 90) return 'excellent';
+    if (weightedCompliancePercentage >= 80) return 'good';
+    if (weightedCompliancePercentage >= 60) return 'moderate';
+    if (weightedCompliancePercentage >= 40) return 'poor';
     return 'critical';
   };
 
@@ -105,6 +113,19 @@ const ComplianceBanner: React.FC = () => {
     }
   };
 
+  const getTermsSubtitle = () => {
+    if (!isProvisional) {
+      return `${totalTerms} ${t('compliance.totalTerms') || 'total terms analyzed'}`;
+    }
+    if (pendingTerms > 0) {
+      return (t('compliance.analyzedOfTotal') || '{count} of {total} terms analyzed so far')
+        .replace('{count}', String(totalTerms))
+        .replace('{total}', String(totalTerms + pendingTerms));
+    }
+    return (t('compliance.analyzedSoFar') || '{count} terms analyzed so far')
+      .replace('{count}', String(totalTerms));
+  };
+
   const colors = getComplianceColors();
   const level = getComplianceLevel();
   
@@ -147,7 +168,7 @@ const ComplianceBanner: React.FC = () => {
             {getComplianceTitle()}
           </Text>
           <Text style={[styles.subtitle, { color: colors.accent }]}>
-            {totalTerms} {t('compliance.totalTerms') || 'total terms analyzed'}
+            {getTermsSubtitle()}
           </Text>
         </View>
         <View style={styles.percentageContainer}>
@@ -162,6 +183,16 @@ const ComplianceBanner: React.FC = () => {
         {getComplianceDescription()}
       </Text>
 
+      {/* The score covers only the terms analysed so far */}
+      {isProvisional && (
+        <View style={[styles.provisionalNote, { borderColor: colors.border }]}>
+          <Clock size={14} color={colors.accent} />
+          <Text style={[styles.provisionalText, { color: colors.accent }]}>
+            {t('compliance.provisional') || 'Provisional: the score may change as the remaining terms are analyzed.'}
+          </Text>
+        </View>
+      )}
+
       {/* Improved stats container */}
       <View style={styles.statsContainer}>
         <View style={[styles.statBox, styles.compliantStatBox]}>
@@ -189,6 +220,22 @@ const ComplianceBanner: React.FC = () => {
         </View>
       </View>
 
+      {openSeverities.length > 0 && (
+        <View style={styles.severityRow}>
+          {openSeverities.map((severity) => (
+            <View
+              key={severity}
+              style={[styles.severityChip, { borderColor: SEVERITY_COLORS[severity] }]}
+            >
+              <View style={[styles.severityDot, { backgroundColor: SEVERITY_COLORS[severity] }]} />
+              <Text style={[styles.severityChipText, { color: SEVERITY_COLORS[severity] }]}>
+                {openIssuesBySeverity[severity]} {t(`severity.${severity}`) || severity}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Enhanced progress bar */}
       <View style={styles.progressContainer}>
         <View style={styles.progressHeader}>
@@ -212,6 +259,24 @@ const ComplianceBanner: React.FC = () => {
             style={styles.progressBar}
           />
         </View>
+        <View style={[styles.progressHeader, styles.weightedHeader]}>
+          <Text style={[styles.progressLabel, { color: isDark ? '#9ca3af' : '#6b7280' }]}>
+            {t('compliance.weighted') || 'Weighted by Severity'}
+          </Text>
+          <Text style={[styles.progressPercentage, { color: colors.text }]}>
+            {Math.round(weightedCompliancePercentage)}%
+          </Text>
+        </View>
+        <View style={styles.progressBarContainer}>
+          <Progress
+            value={weightedCompliancePercentage}
+            indicatorStyle={{
+              backgroundColor: colors.accent,
+              borderRadius: 6,
+            }}
+            style={styles.progressBar}
+          />
+        </View>
       </View>
     </View>
   );
@@ -363,9 +428,56 @@ const getStyles = (isDark: boolean) => StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
+  provisionalNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  provisionalText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    lineHeight: 18,
+  },
+  severityRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  severityChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: isDark ? 'rgba(255, 255, 255, 0.05)' : 'rgba(255, 255, 255, 0.8)',
+  },
+  severityDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  severityChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   progressContainer: {
     gap: 8,
   },
+  weightedHeader: {
+    marginTop: 8,
+  },
   progressHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
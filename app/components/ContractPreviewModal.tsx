@@ -4,7 +4,8 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSession } from '../contexts/SessionContext';
 import { X, Download, ExternalLink, FileText, Eye, Share as ShareIcon, CheckCircle, Clock } from 'lucide-react-native';
-import { generatePdf, EnrichedTerm } from '../utils/pdfGenerator';
+import { generatePdf, EnrichedTerm, PdfReportSummary } from '../utils/pdfGenerator';
+import { TERM_SEVERITIES } from '../utils/termSeverity';
 import PDFViewer from './PDFViewer';
 import ContractGenerationModal from './ContractGenerationModal';
 
@@ -23,7 +24,7 @@ const ContractPreviewModal: React.FC<ContractPreviewModalProps> = ({
 }) => {
   const { t, isRTL } = useLanguage();
   const { theme } = useTheme();
-  const { sessionDetails, analysisTerms } = useSession();
+  const { sessionDetails, analysisTerms, complianceStats } = useSession();
   const [isLoading, setIsLoading] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
 
@@ -90,9 +91,25 @@ const ContractPreviewModal: React.FC<ContractPreviewModalProps> = ({
         reference_number: term.reference_number ?? null,
       }));
 
+      const summary: PdfReportSummary | undefined = complianceStats
+        ? {
+            compliancePercentage: complianceStats.overallCompliancePercentage,
+            weightedCompliancePercentage: complianceStats.weightedCompliancePercentage,
+            openIssuesBySeverity: complianceStats.openIssuesBySeverity,
+            labels: {
+              compliance: t('compliance.overall') || 'Overall Compliance',
+              weighted: t('compliance.weighted') || 'Weighted by Severity',
+              openIssues: t('compliance.openIssues') || 'Open issues',
+              severity: Object.fromEntries(
+                TERM_SEVERITIES.map(severity => [severity, t(`severity.${severity}`) || severity])
+              ) as PdfReportSummary['labels']['severity'],
+            },
+          }
+        : undefined;
+
       const fileName = `contract_preview_${new Date().getTime()}`;
       const title = t(documentTitle);
-      const generatedUri = await generatePdf(enrichedTermsForPdf, isRTL, fileName, title);
+      const generatedUri = await generatePdf(enrichedTermsForPdf, isRTL, fileName, title, summary);
 
       if (generatedUri) {
         setPdfUri(generatedUri);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useCallback } from "react";
+import React, { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { DimensionValue } from 'react-native';
 import {
   View,
@@ -14,7 +14,18 @@ import {
 } from "react-native";
 import { useLanguage } from "../contexts/LanguageContext";
 import { useTheme } from "../contexts/ThemeContext";
-import { useSession, FrontendAnalysisTerm } from "../contexts/SessionContext";
+import {
+  useSession,
+  FrontendAnalysisTerm,
+  GENERAL_QUESTION_KEY,
+} from "../contexts/SessionContext";
+import type {
+  BulkActionReport,
+  BulkTermAction,
+} from "../contexts/SessionContext";
+import type { BatchProgress } from "../utils/batchQueue";
+import { classifyIssue, ISSUE_CATEGORIES } from "../utils/termCategories";
+import type { IssueCategory } from "../utils/termCategories";
 import type {
   GenerateModifiedContractApiResponse,
   GenerateMarkedContractApiResponse,
@@ -23,6 +34,17 @@ import type {
 import * as apiService from "../services/api";
 import ContractPreviewModal from "./ContractPreviewModal";
 import QuestionAnimation from "./QuestionAnimation";
+import QaThreadView from "./QaThreadView";
+import TermSyncBadge from "./TermSyncBadge";
+import TermDiffView from "./TermDiffView";
+import TermRevisionTimeline from "./TermRevisionTimeline";
+import BulkActionSheet, { BULK_ACTION_LABELS } from "./BulkActionSheet";
+import ReferenceDetailSheet from "./ReferenceDetailSheet";
+import ReviewStateBadge from "./ReviewStateBadge";
+import ExpertReviewRequestSheet from "./ExpertReviewRequestSheet";
+import ReferenceLibraryService from "../services/ReferenceLibraryService";
+import type { ResolvedReference } from "../services/ReferenceLibraryService";
+import type { TermRevision } from "../../types/session";
 import ComplianceBanner from "./ComplianceBanner";
 import {
   CheckCircle,
@@ -45,13 +67,18 @@ import {
   Edit,
   FileSearch,
   Eye,
+  Square,
+  CheckSquare,
+  ListChecks,
+  RotateCcw,
+  ChevronsDown,
+  BookOpen,
 } from "lucide-react-native";
 import {
   getSessionDetails,
   askQuestion,
   confirmTermModification,
   reviewUserModification,
-  submitExpertFeedback as submitExpertFeedbackAPI,
 } from "../services/api";
 import { any } from "zod/v4";
 
@@ -191,8 +218,102 @@ const GeneratingContractAnimation: React.FC<{
   );
 };
 
-const ContractTermsList: React.FC = () => {
-  const { t, isRTL } = useLanguage();
+interface ContractTermsListProps {
+  // Term to scroll to, expand and briefly highlight once it is rendered.
+  focusTermId?: string | null;
+  onFocusHandled?: () => void;
+}
+
+// How long a focused term stays highlighted.
+const FOCUS_HIGHLIGHT_MS = 3000;
+
+// Height of the sticky compliance bar, kept clear when scrolling to a term.
+const STICKY_BAR_HEIGHT = 52;
+
+type TermFilter =
+  | "all"
+  | "non-compliant"
+  | "compliant"
+  | "confirmed"
+  | "expert-reviewed"
+  | "has-questions"
+  | "pending";
+
+type TermGrouping = "none" | "category" | "reference";
+
+const TERM_FILTERS: TermFilter[] = [
+  "all",
+  "non-compliant",
+  "compliant",
+  "confirmed",
+  "expert-reviewed",
+  "has-questions",
+  "pending",
+];
+
+const TERM_GROUPINGS: TermGrouping[] = ["none", "category", "reference"];
+
+interface TermGroup {
+  key: string;
+  // Empty for the single group of an ungrouped list.
+  title: string;
+  terms: FrontendAnalysisTerm[];
+}
+
+// Same rule as the session's compliance stats: an expert ruling wins, then
+// the review of the user's text, then the analysis.
+const isTermCompliant = (term: FrontendAnalysisTerm): boolean => {
+  if (
+    term.expert_override_is_valid_sharia !== null &&
+    term.expert_override_is_valid_sharia !== undefined
+  ) {
+    return term.expert_override_is_valid_sharia;
+  }
+  if (term.isUserConfirmed) {
+    return term.isReviewedSuggestionValid ?? true;
+  }
+  if (
+    term.isReviewedSuggestionValid !== null &&
+    term.isReviewedSuggestionValid !== undefined
+  ) {
+    return term.isReviewedSuggestionValid;
+  }
+  return term.is_valid_sharia;
+};
+
+interface BulkSheetState {
+  action: BulkTermAction;
+  isUndo: boolean;
+  progress: BatchProgress | null;
+  report: BulkActionReport | null;
+}
+
+// Terms a bulk action would change; the others are left out of the batch.
+const isEligibleForBulk = (
+  action: BulkTermAction,
+  term: FrontendAnalysisTerm,
+): boolean => {
+  switch (action) {
+    case "accept_ai":
+      return (
+        !!term.modified_term &&
+        !(term.isUserConfirmed && term.userModifiedText === term.modified_term)
+      );
+    case "confirm":
+      return !term.isUserConfirmed;
+    case "reset":
+      return (
+        !!term.isUserConfirmed ||
+        !!term.userModifiedText ||
+        !!term.reviewedSuggestion
+      );
+    case "mark_for_review":
+      return !term.expertReviewRequested;
+  }
+};
+
+const ContractTermsList: React.FC<ContractTermsListProps> = ({ focusTermId, onFocusHandled }) => {
+  const { t, isRTL, language } = useLanguage();
   const { theme } = useTheme();
   const {
     analysisTerms,
@@ -202,11 +323,16 @@ const ContractTermsList: React.FC = () => {
     isGeneratingMarkedContract,
     isProcessingGeneralQuestion,
     isReviewingModification,
+    isStreamingAnswer,
     error: sessionError,
     askQuestionAboutTerm,
     askGeneralContractQuestion,
+    stopQuestionStream,
+    getQaThread,
     reviewUserModification,
     confirmTermModification,
+    getTermRevisions,
+    revertTermToRevision,
     generateModifiedContract,
     generateMarkedContract,
     sessionId,
@@ -214,17 +340,37 @@ const ContractTermsList: React.FC = () => {
     updateTermLocally,
     isAnalyzingContract,
     clearSession,
-    currentUserRole,
+    permissions,
     updatePdfPreviewInfo,
     submitExpertFeedback,
     selectedSessionId,
     loadSessionData,
+    getTermOutboxEntries,
+    retryOutboxEntry,
+    discardOutboxEntry,
+    applyBulkTermAction,
+    undoBulkTermAction,
+    lastBulkAction,
+    isBulkProcessing,
+    complianceStats,
+    partialAnalysis,
+    getTermSyncState,
+    termReviewStates,
+    requestExpertReview,
   } = useSession();
 
   const isDark = theme === "dark";
   const styles = getStyles(isDark, isRTL);
 
-  const [activeFilter, setActiveFilter] = useState<string>("all");
+  const [activeFilter, setActiveFilter] = useState<TermFilter>("all");
+  const [grouping, setGrouping] = useState<TermGrouping>("none");
+  const [highlightedTermId, setHighlightedTermId] = useState<string | null>(null);
+  const scrollViewRef = useRef<ScrollView>(null);
+  const scrollY = useRef(0);
+  const termsListY = useRef(0);
+  // Card positions are relative to their group, groups to the list.
+  const groupPositions = useRef<Record<string, number>>({});
+  const termPositions = useRef<Record<string, number>>({});
   const [expandedTerms, setExpandedTerms] = useState<Record<string, boolean>>(
     {},
   );
@@ -246,8 +392,6 @@ const ContractTermsList: React.FC = () => {
   const [isGeneralQuestionModalOpen, setIsGeneralQuestionModalOpen] =
     useState(false);
   const [generalQuestionText, setGeneralQuestionText] = useState("");
-  const [generalQuestionAnswerDisplay, setGeneralQuestionAnswerDisplay] =
-    useState<string | null>(null);
 
   const [expertFeedbackTermId, setExpertFeedbackTermId] = useState<
     string | null
@@ -259,27 +403,200 @@ const ContractTermsList: React.FC = () => {
     Record<string, boolean>
   >({});
 
+  const [isSelectionMode, setIsSelectionMode] = useState(false);
+  const [selectedTermIds, setSelectedTermIds] = useState<string[]>([]);
+  const [bulkSheet, setBulkSheet] = useState<BulkSheetState | null>(null);
+  const bulkAbortRef = useRef<AbortController | null>(null);
+  const [isReviewRequestOpen, setIsReviewRequestOpen] = useState(false);
+  const [referenceSheet, setReferenceSheet] = useState<{
+    reference: ResolvedReference;
+    rawReference: string;
+    termId: string;
+  } | null>(null);
+
   const [isPreviewModalOpen, setIsPreviewModalOpen] = useState(false);
   const [previewFileType, setPreviewFileType] = useState<
     "modified" | "marked" | null
   >(null);
 
+  // Question waiting for the first chunk of its answer, if any. Once the
+  // answer starts streaming it renders in place and the overlay goes away.
+  const pendingQuestionKey = useMemo(() => {
+    if (
+      isProcessingGeneralQuestion &&
+      !isStreamingAnswer[GENERAL_QUESTION_KEY]
+    ) {
+      return GENERAL_QUESTION_KEY;
+    }
+    if (
+      askingQuestionForTermId &&
+      isTermProcessing?.[askingQuestionForTermId] &&
+      !isStreamingAnswer[askingQuestionForTermId]
+    ) {
+      return askingQuestionForTermId;
+    }
+    return null;
+  }, [
+    isProcessingGeneralQuestion,
+    askingQuestionForTermId,
+    isTermProcessing,
+    isStreamingAnswer,
+  ]);
+
   // Check if any processing is happening for question animation
   const isAnyProcessing = useMemo(() => {
     return (
-      isProcessingGeneralQuestion ||
-      (askingQuestionForTermId &&
-        isTermProcessing?.[askingQuestionForTermId]) ||
+      !!pendingQuestionKey ||
       Object.values(isReviewingModification || {}).some(Boolean) ||
       Object.values(isSubmittingExpertFeedback).some(Boolean)
     );
-  }, [
-    isProcessingGeneralQuestion,
-    askingQuestionForTermId,
-    isTermProcessing,
-    isReviewingModification,
-    isSubmittingExpertFeedback,
-  ]);
+  }, [pendingQuestionKey, isReviewingModification, isSubmittingExpertFeedback]);
+
+  const showSavedOfflineAlert = useCallback(() => {
+    Alert.alert(
+      t("sync.savedOffline") || "Saved Offline",
+      t("sync.savedOfflineMessage") ||
+        "The server could not be reached. Your change was saved on this device and will sync automatically.",
+    );
+  }, [t]);
+
+  const handleRevertTerm = useCallback(
+    (term: FrontendAnalysisTerm, revision: TermRevision) => {
+      Alert.alert(
+        t("revisions.revertTitle") || "Revert Term?",
+        t("revisions.revertMessage") ||
+          "This text will be reviewed again and confirmed as the term's current version. The history keeps every earlier version.",
+        [
+          { text: t("term.cancel") || "Cancel", style: "cancel" },
+          {
+            text: t("revisions.revert") || "Revert to this",
+            onPress: async () => {
+              const result = await revertTermToRevision(term.term_id, revision.id);
+              if (result === "queued") {
+                showSavedOfflineAlert();
+              }
+            },
+          },
+        ],
+      );
+    },
+    [revertTermToRevision, showSavedOfflineAlert, t],
+  );
+
+  const toggleSelectionMode = useCallback(() => {
+    setIsSelectionMode((prev) => !prev);
+    setSelectedTermIds([]);
+  }, []);
+
+  const toggleTermSelected = useCallback((termId: string) => {
+    setSelectedTermIds((prev) =>
+      prev.includes(termId)
+        ? prev.filter((id) => id !== termId)
+        : [...prev, termId],
+    );
+  }, []);
+
+  // Runs a bulk action, or the undo of the latest one, behind the progress
+  // sheet. Failed terms stay selected so they can be retried.
+  const runBulkAction = useCallback(
+    async (action: BulkTermAction, termIds: string[], undoBatchId?: string) => {
+      const controller = new AbortController();
+      bulkAbortRef.current = controller;
+      setBulkSheet({ action, isUndo: !!undoBatchId, progress: null, report: null });
+
+      const options = {
+        signal: controller.signal,
+        onProgress: (progress: BatchProgress) =>
+          setBulkSheet((prev) => (prev ? { ...prev, progress } : prev)),
+      };
+      const report = undoBatchId
+        ? await undoBulkTermAction(undoBatchId, options)
+        : await applyBulkTermAction(action, termIds, options);
+      bulkAbortRef.current = null;
+
+      if (!report) {
+        setBulkSheet(null);
+        return;
+      }
+      setBulkSheet((prev) => (prev ? { ...prev, report } : prev));
+      setSelectedTermIds([
+        ...report.failed.map((failure) => failure.termId),
+        ...report.skipped,
+      ]);
+    },
+    [applyBulkTermAction, undoBulkTermAction],
+  );
+
+  const handleBulkAction = useCallback(
+    (action: BulkTermAction) => {
+      const selected = (analysisTerms || []).filter((term) =>
+        selectedTermIds.includes(term.term_id),
+      );
+      const eligible = selected.filter((term) => isEligibleForBulk(action, term));
+      const actionLabel =
+        t(BULK_ACTION_LABELS[action].key) || BULK_ACTION_LABELS[action].fallback;
+
+      if (eligible.length === 0) {
+        Alert.alert(
+          actionLabel,
+          t("bulk.nothingToDo") || "None of the selected terms need this action.",
+        );
+        return;
+      }
+
+      const termIds = eligible.map((term) => term.term_id);
+      if (action === "mark_for_review") {
+        runBulkAction(action, termIds);
+        return;
+      }
+
+      const leftOut = selected.length - eligible.length;
+      Alert.alert(
+        actionLabel,
+        (t("bulk.confirmMessage") || "Apply to {count} terms?").replace(
+          "{count}",
+          String(eligible.length),
+        ) +
+          (leftOut > 0
+            ? " " +
+              (t("bulk.leftOut") || "{count} selected terms don't need it and will be left as they are.").replace(
+                "{count}",
+                String(leftOut),
+              )
+            : ""),
+        [
+          { text: t("term.cancel") || "Cancel", style: "cancel" },
+          { text: actionLabel, onPress: () => runBulkAction(action, termIds) },
+        ],
+      );
+    },
+    [analysisTerms, selectedTermIds, runBulkAction, t],
+  );
+
+  const handleUndoBulkAction = useCallback(() => {
+    if (!lastBulkAction) return;
+    runBulkAction(lastBulkAction.action, [], lastBulkAction.batchId);
+  }, [lastBulkAction, runBulkAction]);
+
+  const handleRetryFailedBulk = useCallback(() => {
+    const report = bulkSheet?.report;
+    if (!bulkSheet || !report) return;
+    if (bulkSheet.isUndo && report.undoOf) {
+      runBulkAction(bulkSheet.action, [], report.undoOf);
+    } else {
+      runBulkAction(
+        bulkSheet.action,
+        report.failed.map((failure) => failure.termId),
+      );
+    }
+  }, [bulkSheet, runBulkAction]);
+
+  const handleStopQuestion = useCallback(
+    (key: string) => {
+      stopQuestionStream(key === GENERAL_QUESTION_KEY ? undefined : key);
+    },
+    [stopQuestionStream],
+  );
 
   useEffect(() => {
     if (sessionError) {
@@ -287,6 +604,187 @@ const ContractTermsList: React.FC = () => {
     }
   }, [sessionError, t]);
 
+  const matchesFilter = useCallback(
+    (term: FrontendAnalysisTerm, filter: TermFilter): boolean => {
+      switch (filter) {
+        case "all":
+          return true;
+        case "compliant":
+          return isTermCompliant(term);
+        case "non-compliant":
+          return !isTermCompliant(term);
+        case "confirmed":
+          return !!term.isUserConfirmed;
+        case "expert-reviewed":
+          return !!term.has_expert_feedback;
+        case "has-questions":
+          return getQaThread(term.term_id).length > 0;
+        case "pending":
+          // Edited or reviewed but not confirmed, or waiting to sync.
+          return (
+            (!term.isUserConfirmed &&
+              !!(term.userModifiedText || term.reviewedSuggestion)) ||
+            getTermSyncState(term.term_id) !== null
+          );
+      }
+    },
+    [getQaThread, getTermSyncState],
+  );
+
+  const filterCounts = useMemo(
+    () =>
+      Object.fromEntries(
+        TERM_FILTERS.map((filter) => [
+          filter,
+          (analysisTerms || []).filter((term) => matchesFilter(term, filter))
+            .length,
+        ]),
+      ) as Record<TermFilter, number>,
+    [analysisTerms, matchesFilter],
+  );
+
+  const filteredTerms = useMemo(
+    () =>
+      (analysisTerms || []).filter((term) => matchesFilter(term, activeFilter)),
+    [analysisTerms, activeFilter, matchesFilter],
+  );
+
+  // Terms as displayed: grouped when asked, each group in document order.
+  const termGroups = useMemo((): TermGroup[] => {
+    if (grouping === "none") {
+      return [{ key: "all", title: "", terms: filteredTerms }];
+    }
+
+    const groups = new Map<string, TermGroup>();
+    const add = (key: string, title: string, term: FrontendAnalysisTerm) => {
+      const group = groups.get(key) ?? { key, title, terms: [] };
+      group.terms.push(term);
+      groups.set(key, group);
+    };
+
+    if (grouping === "category") {
+      const categoryOrder = [...ISSUE_CATEGORIES, "no-issue"];
+      filteredTerms.forEach((term) => {
+        const category: IssueCategory | "no-issue" = isTermCompliant(term)
+          ? "no-issue"
+          : classifyIssue(term.sharia_issue);
+        add(category, t(`group.category.${category}`) || category, term);
+      });
+      return Array.from(groups.values()).sort(
+        (a, b) => categoryOrder.indexOf(a.key) - categoryOrder.indexOf(b.key),
+      );
+    }
+
+    filteredTerms.forEach((term) => {
+      const reference = term.reference_number?.trim();
+      if (reference) {
+        add(`ref:${reference}`, reference, term);
+      } else {
+        add("no-reference", t("group.noReference") || "No reference", term);
+      }
+    });
+    // Referenced groups in order of first appearance, unreferenced last.
+    return Array.from(groups.values()).sort(
+      (a, b) => Number(a.key === "no-reference") - Number(b.key === "no-reference"),
+    );
+  }, [filteredTerms, grouping, t]);
+
+  const termGroupKeys = useMemo(() => {
+    const keys: Record<string, string> = {};
+    termGroups.forEach((group) =>
+      group.terms.forEach((term) => {
+        keys[term.term_id] = group.key;
+      }),
+    );
+    return keys;
+  }, [termGroups]);
+
+  // Position of a term card within the scroll view, once laid out.
+  const getTermOffset = useCallback(
+    (termId: string): number | undefined => {
+      const termY = termPositions.current[termId];
+      const groupY = groupPositions.current[termGroupKeys[termId]];
+      if (termY === undefined || groupY === undefined) return undefined;
+      return termsListY.current + groupY + termY;
+    },
+    [termGroupKeys],
+  );
+
+  // Expands and highlights a term, then scrolls to it. Scrolling waits a
+  // moment so the expanded card has been laid out.
+  const revealTerm = useCallback(
+    (termId: string, onDone?: () => void) => {
+      setExpandedTerms({ [termId]: true });
+      setHighlightedTermId(termId);
+
+      return setTimeout(() => {
+        const offset = getTermOffset(termId);
+        if (offset !== undefined) {
+          scrollViewRef.current?.scrollTo({
+            y: Math.max(0, offset - STICKY_BAR_HEIGHT - 12),
+            animated: true,
+          });
+        }
+        onDone?.();
+      }, 300);
+    },
+    [getTermOffset],
+  );
+
+  // Jump to a term requested by the caller, e.g. a search match or a deep
+  // link.
+  useEffect(() => {
+    if (!focusTermId || !analysisTerms?.some((term) => term.term_id === focusTermId)) return;
+
+    setActiveFilter("all");
+    const timer = revealTerm(focusTermId, onFocusHandled);
+    return () => clearTimeout(timer);
+  }, [focusTermId, analysisTerms, onFocusHandled]);
+
+  // Other terms citing the standard open in the reference sheet.
+  const referenceCitingTerms = useMemo(() => {
+    if (!referenceSheet || !analysisTerms) return [];
+    return ReferenceLibraryService.getInstance()
+      .findCitingTerms(analysisTerms, referenceSheet.reference.standardNumber)
+      .filter((term) => term.term_id !== referenceSheet.termId);
+  }, [referenceSheet, analysisTerms]);
+
+  const handleSelectCitingTerm = useCallback(
+    (termId: string) => {
+      setReferenceSheet(null);
+      setActiveFilter("all");
+      revealTerm(termId);
+    },
+    [revealTerm],
+  );
+
+  // Issues in display order, for jumping from one to the next.
+  const displayedIssueIds = useMemo(
+    () =>
+      termGroups.flatMap((group) =>
+        group.terms.filter((term) => !isTermCompliant(term)).map((term) => term.term_id),
+      ),
+    [termGroups],
+  );
+
+  // The first issue below the top of the viewport, wrapping to the first.
+  const handleNextIssue = useCallback(() => {
+    if (displayedIssueIds.length === 0) return;
+    const viewportTop = scrollY.current + STICKY_BAR_HEIGHT + 24;
+    const next =
+      displayedIssueIds.find((termId) => {
+        const offset = getTermOffset(termId);
+        return offset !== undefined && offset > viewportTop && termId !== highlightedTermId;
+      }) ?? displayedIssueIds[0];
+    revealTerm(next);
+  }, [displayedIssueIds, getTermOffset, highlightedTermId, revealTerm]);
+
+  useEffect(() => {
+    if (!highlightedTermId) return;
+    const timer = setTimeout(() => setHighlightedTermId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedTermId]);
+
   const toggleTerm = useCallback((termId: string) => {
     setExpandedTerms((prev) => {
       const isOpen = !!prev[termId];
@@ -308,14 +806,13 @@ const ContractTermsList: React.FC = () => {
       if (!questionText || (isTermProcessing && isTermProcessing[termId]))
         return;
       setAskingQuestionForTermId(termId);
+      // Clear the input right away; the question shows up in the thread and
+      // the input stays open for a follow-up.
+      setTermQuestions((prev) => ({ ...prev, [termId]: "" }));
       const answer = await askQuestionAboutTerm(termId, questionText);
-      setAskingQuestionForTermId(null);
-      if (answer) {
-        Alert.alert(
-          t("term.answerReceived") || "Answer Received",
-          t("term.answerReceivedMessage") || "Your question has been answered.",
-        );
-      } else {
+      // The answer renders in place as it streams; an empty string means the
+      // user stopped it before anything arrived.
+      if (answer === null) {
         Alert.alert(
           t("error.interactionFailed") || "Error",
           "Failed to get an answer to your question.",
@@ -326,12 +823,11 @@ const ContractTermsList: React.FC = () => {
   );
 
   const handleSendGeneralQuestion = useCallback(async () => {
-    if (!generalQuestionText.trim()) return;
-    setGeneralQuestionAnswerDisplay(null);
-    const answer = await askGeneralContractQuestion(generalQuestionText.trim());
-    if (answer) {
-      setGeneralQuestionAnswerDisplay(answer);
-    } else {
+    const questionText = generalQuestionText.trim();
+    if (!questionText) return;
+    setGeneralQuestionText("");
+    const answer = await askGeneralContractQuestion(questionText);
+    if (answer === null) {
       Alert.alert(
         t("error.interactionFailed") || "Error",
         "Failed to get an answer to your question.",
@@ -346,8 +842,11 @@ const ContractTermsList: React.FC = () => {
           term.term_id,
           term.currentQaAnswer,
           term.term_text,
+          { source: "qa_answer" },
         );
-        if (success) {
+        if (success === "queued") {
+          showSavedOfflineAlert();
+        } else if (success) {
           Alert.alert(
             t("review.suggestionReviewed") || "Success",
             t("review.suggestionReviewedDesc") ||
@@ -371,7 +870,7 @@ const ContractTermsList: React.FC = () => {
         }
       }
     },
-    [reviewUserModification, editingTermId, analysisTerms, t],
+    [reviewUserModification, editingTermId, analysisTerms, showSavedOfflineAlert, t],
   );
 
   const handleSubmitExpertFeedback = useCallback(async () => {
@@ -385,7 +884,9 @@ const ContractTermsList: React.FC = () => {
         term_id: expertFeedbackTermId,
         feedback_data: {
           aiAnalysisApproved: currentExpertFeedback.aiAnalysisApproved ?? null,
-          expertIsValidSharia: currentExpertFeedback.expertIsValidSharia ?? false,
+          expertIsValidSharia: permissions.canOverrideCompliance
+            ? currentExpertFeedback.expertIsValidSharia ?? false
+            : undefined,
           expertComment: currentExpertFeedback.expertComment || '',
           expertCorrectedShariaIssue: currentExpertFeedback.expertCorrectedShariaIssue,
           expertCorrectedReference: currentExpertFeedback.expertCorrectedReference,
@@ -393,7 +894,7 @@ const ContractTermsList: React.FC = () => {
         }
       };
 
-      const success = await submitExpertFeedbackAPI(payload);
+      const success = await submitExpertFeedback(payload);
 
       if (success) {
         setExpertFeedbackTermId(null);
@@ -406,6 +907,11 @@ const ContractTermsList: React.FC = () => {
           expertCorrectedSuggestion: ''
         });
 
+        if (success === "queued") {
+          showSavedOfflineAlert();
+          return;
+        }
+
         // Refresh session data
         if (selectedSessionId) {
           await loadSessionData(selectedSessionId);
@@ -425,7 +931,7 @@ const ContractTermsList: React.FC = () => {
     } finally {
       setIsSubmittingExpertFeedback(prev => ({ ...prev, [expertFeedbackTermId]: false }));
     }
-  }, [expertFeedbackTermId, selectedSessionId, currentExpertFeedback, submitExpertFeedbackAPI, loadSessionData, t]);
+  }, [expertFeedbackTermId, selectedSessionId, currentExpertFeedback, permissions, submitExpertFeedback, loadSessionData, showSavedOfflineAlert, t]);
 
   const handleConfirmChanges = useCallback(
     async (term: FrontendAnalysisTerm) => {
@@ -443,7 +949,10 @@ const ContractTermsList: React.FC = () => {
         term.term_id,
         textToConfirm,
       );
-      if (success) {
+      if (success === "queued") {
+        showSavedOfflineAlert();
+        setEditingTermId(null);
+      } else if (success) {
         Alert.alert(
           t("term.confirmed") || "Confirmed",
           t("term.confirmedMessage") || "Changes have been confirmed.",
@@ -456,7 +965,13 @@ const ContractTermsList: React.FC = () => {
         );
       }
     },
-    [isTermProcessing, isReviewingModification, confirmTermModification, t],
+    [
+      isTermProcessing,
+      isReviewingModification,
+      confirmTermModification,
+      showSavedOfflineAlert,
+      t,
+    ],
   );
 
   const handleEditSuggestion = useCallback((term: FrontendAnalysisTerm) => {
@@ -480,7 +995,10 @@ const ContractTermsList: React.FC = () => {
         currentEditText,
         term.term_text,
       );
-      if (success) {
+      if (success === "queued") {
+        setEditingTermId(null);
+        showSavedOfflineAlert();
+      } else if (success) {
         setEditingTermId(null);
         Alert.alert(
           t("review.editSentForReview") || "Success",
@@ -494,7 +1012,7 @@ const ContractTermsList: React.FC = () => {
         );
       }
     },
-    [analysisTerms, currentEditText, reviewUserModification, t],
+    [analysisTerms, currentEditText, reviewUserModification, showSavedOfflineAlert, t],
   );
 
   const handleStartNewAnalysis = useCallback(() => {
@@ -603,35 +1121,10 @@ const ContractTermsList: React.FC = () => {
     [t],
   );
 
-  const filteredTerms = useMemo(() => {
-    if (!analysisTerms) return [];
-
-    return analysisTerms.filter((term) => {
-      if (activeFilter === "all") return true;
-      let isEffectivelyCompliant = term.is_valid_sharia;
-
-      if (
-        term.expert_override_is_valid_sharia !== null &&
-        term.expert_override_is_valid_sharia !== undefined
-      ) {
-        isEffectivelyCompliant = term.expert_override_is_valid_sharia;
-      } else if (term.isUserConfirmed) {
-        isEffectivelyCompliant =
-          term.isReviewedSuggestionValid !== null && term.isReviewedSuggestionValid !== undefined
-            ? term.isReviewedSuggestionValid
-            : true;
-      } else if (
-        term.isReviewedSuggestionValid !== null &&
-        term.isReviewedSuggestionValid !== undefined
-      ) {
-        isEffectivelyCompliant = term.isReviewedSuggestionValid;
-      }
-
-      if (activeFilter === "compliant") return isEffectivelyCompliant;
-      if (activeFilter === "non-compliant") return !isEffectivelyCompliant;
-      return true;
-    });
-  }, [analysisTerms, activeFilter]);
+  const expertFeedbackTerm = useMemo(
+    () => analysisTerms?.find((term) => term.term_id === expertFeedbackTermId),
+    [analysisTerms, expertFeedbackTermId],
+  );
 
   if (
     (isFetchingSession || isAnalyzingContract) &&
@@ -728,6 +1221,7 @@ const ContractTermsList: React.FC = () => {
   }
 
   const renderTerm = (term: FrontendAnalysisTerm, index: number) => {
+    const qaThread = getQaThread(term.term_id);
     let isEffectivelyCompliant: boolean = term.is_valid_sharia;
 
     // Expert override takes highest priority
@@ -758,14 +1252,34 @@ const ContractTermsList: React.FC = () => {
           "");
 
     const isExpanded = expandedTerms[term.term_id] || false;
+    const isSelected = isSelectionMode && selectedTermIds.includes(term.term_id);
 
     return (
-      <View key={term.term_id} style={styles.termCard}>
+      <View
+        key={term.term_id}
+        style={[
+          styles.termCard,
+          (highlightedTermId === term.term_id || isSelected) && styles.termCardHighlighted,
+        ]}
+        onLayout={(event) => {
+          termPositions.current[term.term_id] = event.nativeEvent.layout.y;
+        }}
+      >
         <TouchableOpacity
           style={styles.termHeader}
-          onPress={() => toggleTerm(term.term_id)}
+          onPress={() =>
+            isSelectionMode
+              ? toggleTermSelected(term.term_id)
+              : toggleTerm(term.term_id)
+          }
           activeOpacity={0.7}
         >
+          {isSelectionMode &&
+            (isSelected ? (
+              <CheckSquare size={22} color="#10b981" />
+            ) : (
+              <Square size={22} color={isDark ? "#6b7280" : "#9ca3af"} />
+            ))}
           <Text
             style={[styles.termText, { textAlign: isRTL ? "right" : "left" }]}
             numberOfLines={isExpanded ? undefined : 3}
@@ -799,6 +1313,26 @@ const ContractTermsList: React.FC = () => {
           </View>
         </TouchableOpacity>
 
+        {termReviewStates[term.term_id] ? (
+          <ReviewStateBadge
+            state={termReviewStates[term.term_id].state}
+            comment={termReviewStates[term.term_id].expert_comment}
+          />
+        ) : term.expertReviewRequested && !term.has_expert_feedback && (
+          <View style={styles.reviewRequestedTag}>
+            <ExpertIcon size={13} color="#f59e0b" />
+            <Text style={styles.reviewRequestedText}>
+              {t("bulk.reviewRequested") || "Expert review requested"}
+            </Text>
+          </View>
+        )}
+
+        <TermSyncBadge
+          entries={getTermOutboxEntries(term.term_id)}
+          onRetry={retryOutboxEntry}
+          onDiscard={discardOutboxEntry}
+        />
+
         {isExpanded && (
           <View style={styles.termContent}>
             <View style={styles.termDetails}>
@@ -875,12 +1409,49 @@ const ContractTermsList: React.FC = () => {
                   >
                     {term.reference_number}
                   </Text>
+                  {ReferenceLibraryService.getInstance()
+                    .resolve(term.reference_number)
+                    .map((reference) => (
+                      <TouchableOpacity
+                        key={reference.standardNumber}
+                        style={styles.referenceLink}
+                        onPress={() =>
+                          setReferenceSheet({
+                            reference,
+                            rawReference: term.reference_number!,
+                            termId: term.term_id,
+                          })
+                        }
+                      >
+                        <BookOpen size={14} color="#3b82f6" />
+                        <Text style={styles.referenceLinkText} numberOfLines={1}>
+                          {(t("library.standardShort") || "Standard {number}").replace(
+                            "{number}",
+                            String(reference.standardNumber),
+                          )}
+                          {reference.standard
+                            ? ` · ${language === "ar" ? reference.standard.title.ar : reference.standard.title.en}`
+                            : ""}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
                 </View>
               )}
+
+              {editingTermId !== term.term_id && <TermDiffView term={term} />}
+
+              <TermRevisionTimeline
+                revisions={getTermRevisions(term.term_id)}
+                onRevert={(revision) => handleRevertTerm(term, revision)}
+                isBusy={
+                  !!isTermProcessing?.[term.term_id] ||
+                  !!isReviewingModification?.[term.term_id]
+                }
+              />
             </View>
 
             {/* Expert Feedback Section - Only show for expert users */}
-            {currentUserRole === "shariah_expert" && (
+            {permissions.canSubmitExpertFeedback && (
               <View style={styles.expertFeedbackSection}>
                 <TouchableOpacity
                   style={styles.expertFeedbackButton}
@@ -1105,42 +1676,66 @@ const ContractTermsList: React.FC = () => {
                         }
                         multiline
                       />
-                      <TouchableOpacity
-                        style={styles.sendButton}
-                        onPress={() => handleSendQuestion(term.term_id)}
-                        disabled={
-                          (isTermProcessing &&
-                            isTermProcessing[term.term_id]) ||
-                          !termQuestions[term.term_id]?.trim()
-                        }
-                      >
-                        {isTermProcessing && isTermProcessing[term.term_id] ? (
-                          <ActivityIndicator size="small" color="#ffffff" />
-                        ) : (
-                          <Send size={16} color="#ffffff" />
-                        )}
-                        <Text style={styles.sendButtonText}>
-                          {t("button.send") || "Send"}
-                        </Text>
-                      </TouchableOpacity>
+                      {isStreamingAnswer[term.term_id] ? (
+                        <TouchableOpacity
+                          style={[styles.sendButton, styles.stopButton]}
+                          onPress={() => handleStopQuestion(term.term_id)}
+                        >
+                          <Square size={14} color="#ffffff" fill="#ffffff" />
+                          <Text style={styles.sendButtonText}>
+                            {t("button.stop") || "Stop"}
+                          </Text>
+                        </TouchableOpacity>
+                      ) : (
+                        <TouchableOpacity
+                          style={styles.sendButton}
+                          onPress={() => handleSendQuestion(term.term_id)}
+                          disabled={
+                            (isTermProcessing &&
+                              isTermProcessing[term.term_id]) ||
+                            !termQuestions[term.term_id]?.trim()
+                          }
+                        >
+                          {isTermProcessing && isTermProcessing[term.term_id] ? (
+                            <ActivityIndicator size="small" color="#ffffff" />
+                          ) : (
+                            <Send size={16} color="#ffffff" />
+                          )}
+                          <Text style={styles.sendButtonText}>
+                            {t("button.send") || "Send"}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
                     </View>
                   )}
 
-                  {/* Display the current Q&A answer for this term */}
-                  {term.currentQaAnswer && (
+                  {/* Q&A conversation for this term; sessions from before
+                      threads existed only have the latest answer */}
+                  {(qaThread.length > 0 || term.currentQaAnswer) && (
                     <View style={styles.termAnswerContainer}>
                       <Text style={styles.termAnswerTitle}>
-                        {t("term.answer") || "Answer"}
-                      </Text>
-                      <Text
-                        style={[
-                          styles.termAnswerText,
-                          { textAlign: isRTL ? "right" : "left" },
-                        ]}
-                      >
-                        {term.currentQaAnswer}
+                        {qaThread.length > 0
+                          ? t("qa.conversation") || "Conversation"
+                          : t("term.answer") || "Answer"}
                       </Text>
-                      {term.currentQaAnswer && !term.userModifiedText && !term.reviewedSuggestion && (
+                      {qaThread.length > 0 ? (
+                        <View style={styles.termThreadContainer}>
+                          <QaThreadView
+                            messages={qaThread}
+                            isStreaming={!!isTermProcessing?.[term.term_id]}
+                          />
+                        </View>
+                      ) : (
+                        <Text
+                          style={[
+                            styles.termAnswerText,
+                            { textAlign: isRTL ? "right" : "left" },
+                          ]}
+                        >
+                          {term.currentQaAnswer}
+                        </Text>
+                      )}
+                      {term.currentQaAnswer && !isStreamingAnswer[term.term_id] && !term.userModifiedText && !term.reviewedSuggestion && (
                         <TouchableOpacity
                           style={styles.useAnswerButton}
                           onPress={() => handleUseAnswerAsSuggestion(term)}
@@ -1179,7 +1774,16 @@ const ContractTermsList: React.FC = () => {
   return (
     <View style={styles.container}>
       {/* Question Animation Overlay */}
-      {isAnyProcessing && <QuestionAnimation isVisible={true} />}
+      {isAnyProcessing && (
+        <QuestionAnimation
+          isVisible={true}
+          onStop={
+            pendingQuestionKey
+              ? () => handleStopQuestion(pendingQuestionKey)
+              : undefined
+          }
+        />
+      )}
 
       {/* Generation Animation Overlay */}
       {(isGeneratingContract || isGeneratingMarkedContract) &&
@@ -1203,13 +1807,81 @@ const ContractTermsList: React.FC = () => {
 
       {/* Main Scrollable Content */}
       <ScrollView
+        ref={scrollViewRef}
         style={styles.mainScrollView}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.scrollContainer}
+        stickyHeaderIndices={[1]}
+        scrollEventThrottle={16}
+        onScroll={(event) => {
+          scrollY.current = event.nativeEvent.contentOffset.y;
+        }}
       >
         {/* Compliance Banner */}
         <ComplianceBanner />
 
+        {/* Sticky Compliance Mini-Bar */}
+        <View style={styles.miniBarContainer}>
+          {complianceStats && complianceStats.totalTerms > 0 && (
+            <View style={styles.miniBar}>
+              <View
+                style={[
+                  styles.miniBarScore,
+                  {
+                    backgroundColor:
+                      complianceStats.overallCompliancePercentage >= 80
+                        ? "#10b981"
+                        : complianceStats.overallCompliancePercentage >= 50
+                          ? "#f59e0b"
+                          : "#ef4444",
+                  },
+                ]}
+              >
+                <Text style={styles.miniBarScoreText}>
+                  {Math.round(complianceStats.overallCompliancePercentage)}%
+                </Text>
+              </View>
+              <View style={styles.miniBarStats}>
+                <Text style={styles.miniBarText}>
+                  {(t("miniBar.compliant") || "{count}/{total} compliant")
+                    .replace("{count}", String(complianceStats.currentUserEffectiveCompliantCount))
+                    .replace("{total}", String(complianceStats.totalTerms))}
+                  {complianceStats.isProvisional &&
+                    ` · ${t("miniBar.provisional") || "provisional"}`}
+                </Text>
+                <View style={styles.miniBarTrack}>
+                  <View
+                    style={[
+                      styles.miniBarFill,
+                      {
+                        width: `${complianceStats.overallCompliancePercentage}%` as DimensionValue,
+                      },
+                    ]}
+                  />
+                </View>
+              </View>
+              <TouchableOpacity
+                style={[
+                  styles.nextIssueButton,
+                  displayedIssueIds.length === 0 && styles.nextIssueButtonDisabled,
+                ]}
+                onPress={handleNextIssue}
+                disabled={displayedIssueIds.length === 0}
+              >
+                <ChevronsDown size={16} color="#ffffff" />
+                <Text style={styles.nextIssueButtonText}>
+                  {displayedIssueIds.length === 0
+                    ? t("miniBar.noIssues") || "No issues"
+                    : (t("miniBar.nextIssue") || "Next issue ({count})").replace(
+                        "{count}",
+                        String(displayedIssueIds.length),
+                      )}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
         {/* Header */}
         <View style={styles.header}>
           <Text style={styles.title}>
@@ -1231,8 +1903,13 @@ const ContractTermsList: React.FC = () => {
         </View>
 
         {/* Filter Tabs */}
-        <View style={styles.filterTabs}>
-          {["all", "compliant", "non-compliant"].map((filterValue) => (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterTabs}
+          contentContainerStyle={styles.filterTabsContent}
+        >
+          {TERM_FILTERS.map((filterValue) => (
             <TouchableOpacity
               key={filterValue}
               style={[
@@ -1247,53 +1924,224 @@ const ContractTermsList: React.FC = () => {
                   activeFilter === filterValue && styles.filterTabTextActive,
                 ]}
               >
-                {t('filter.' + filterValue) || filterValue}
+                {t('filter.' + filterValue) || filterValue} ({filterCounts[filterValue]})
               </Text>
             </TouchableOpacity>
           ))}
-        </View>
+        </ScrollView>
 
-        {/* Terms List */}
-        {Array.isArray(analysisTerms) && filteredTerms.length > 0 ? (
-          <View style={styles.termsList}>
-            {filteredTerms.map((term, index) => renderTerm(term, index))}
-          </View>
-        ) : (
-          <View style={styles.emptyContainer}>
-            <Text
-              style={[
-                styles.emptyText,
-                { color: isDark ? "#9ca3af" : "#6b7280" },
-              ]}
-            >
-              {t("term.noTermsForFilter") ||
-                "No terms match the selected filter."}
-            </Text>
+        {/* Grouping */}
+        {Array.isArray(analysisTerms) && analysisTerms.length > 0 && (
+          <View style={styles.groupingRow}>
+            <Text style={styles.groupingLabel}>{t("group.by") || "Group by"}</Text>
+            {TERM_GROUPINGS.map((value) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.groupingChip, grouping === value && styles.groupingChipActive]}
+                onPress={() => setGrouping(value)}
+              >
+                <Text
+                  style={[
+                    styles.groupingChipText,
+                    grouping === value && styles.groupingChipTextActive,
+                  ]}
+                >
+                  {t(`group.option.${value}`) || value}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
         )}
 
-        {/* Contract Generation Section */}
+        {/* Selection Toolbar */}
         {Array.isArray(analysisTerms) && analysisTerms.length > 0 && (
-          <View style={styles.generationSection}>
-            <Text style={styles.generationTitle}>
-              {t("contract.reviewContract") || "Review Contract"}
-            </Text>
-            <Text style={styles.generationSubtitle}>
-              {t("contract.generateInfo") ||
-                "Generate your modified or marked contract"}
-            </Text>
-
-            <View style={styles.generationButtons}>
-              <TouchableOpacity
-                style={[styles.generateButton, styles.generateModifiedButton]}
-                onPress={handleGenerateContract}
-                disabled={
-                  isGeneratingContract ||
-                  isGeneratingMarkedContract ||
-                  isFetchingSession ||
-                  isAnalyzingContract
-                }
-              >
+          isSelectionMode ? (
+            <View style={styles.selectionToolbar}>
+              <View style={styles.selectionRow}>
+                <Text style={styles.selectionCount}>
+                  {(t("bulk.selected") || "{count} selected").replace(
+                    "{count}",
+                    String(selectedTermIds.length),
+                  )}
+                </Text>
+                <TouchableOpacity
+                  onPress={() =>
+                    setSelectedTermIds(
+                      filteredTerms.every((term) => selectedTermIds.includes(term.term_id))
+                        ? []
+                        : filteredTerms.map((term) => term.term_id),
+                    )
+                  }
+                >
+                  <Text style={styles.selectionLink}>
+                    {filteredTerms.length > 0 &&
+                    filteredTerms.every((term) => selectedTermIds.includes(term.term_id))
+                      ? t("bulk.clearSelection") || "Clear"
+                      : t("bulk.selectAll") || "Select all"}
+                  </Text>
+                </TouchableOpacity>
+                {permissions.canRequestExpertReview && selectedTermIds.length > 0 && (
+                  <TouchableOpacity onPress={() => setIsReviewRequestOpen(true)}>
+                    <Text style={styles.selectionLink}>
+                      {t("review.request.sendSelected") || "Send to expert"}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={toggleSelectionMode}>
+                  <Text style={styles.selectionLink}>{t("bulk.done") || "Done"}</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.bulkActions}>
+                {(
+                  [
+                    { action: "accept_ai", Icon: Sparkles, color: "#3b82f6" },
+                    { action: "confirm", Icon: CheckCircle, color: "#10b981" },
+                    { action: "reset", Icon: RotateCcw, color: "#ef4444" },
+                    { action: "mark_for_review", Icon: ExpertIcon, color: "#f59e0b" },
+                  ] as const
+                ).map(({ action, Icon, color }) => {
+                  const isDisabled = selectedTermIds.length === 0 || isBulkProcessing;
+                  return (
+                    <TouchableOpacity
+                      key={action}
+                      style={[
+                        styles.bulkActionButton,
+                        { borderColor: color },
+                        isDisabled && styles.bulkActionButtonDisabled,
+                      ]}
+                      onPress={() => handleBulkAction(action)}
+                      disabled={isDisabled}
+                    >
+                      <Icon size={14} color={color} />
+                      <Text style={[styles.bulkActionText, { color }]}>
+                        {t(BULK_ACTION_LABELS[action].key) ||
+                          BULK_ACTION_LABELS[action].fallback}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ) : (
+            <View style={styles.listActionsRow}>
+              {permissions.canRequestExpertReview && (
+                <TouchableOpacity
+                  style={styles.selectModeButton}
+                  onPress={() => setIsReviewRequestOpen(true)}
+                >
+                  <ExpertIcon size={16} color="#f59e0b" />
+                  <Text style={[styles.selectModeButtonText, { color: "#f59e0b" }]}>
+                    {t("review.request.button") || "Request expert review"}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.selectModeButton} onPress={toggleSelectionMode}>
+                <ListChecks size={16} color={isDark ? "#10b981" : "#059669"} />
+                <Text style={styles.selectModeButtonText}>
+                  {t("bulk.selectTerms") || "Select terms"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )
+        )}
+
+        {/* Terms List */}
+        {Array.isArray(analysisTerms) && filteredTerms.length > 0 ? (
+          <View
+            style={styles.termsList}
+            onLayout={(event) => {
+              termsListY.current = event.nativeEvent.layout.y;
+            }}
+          >
+            {termGroups.map((group) => (
+              <View
+                key={group.key}
+                style={styles.termGroup}
+                onLayout={(event) => {
+                  groupPositions.current[group.key] = event.nativeEvent.layout.y;
+                }}
+              >
+                {!!group.title && (
+                  <View style={styles.groupHeader}>
+                    <Text style={styles.groupTitle} numberOfLines={2}>
+                      {group.title}
+                    </Text>
+                    <Text style={styles.groupCount}>{group.terms.length}</Text>
+                  </View>
+                )}
+                {group.terms.map((term, index) => renderTerm(term, index))}
+              </View>
+            ))}
+          </View>
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Text
+              style={[
+                styles.emptyText,
+                { color: isDark ? "#9ca3af" : "#6b7280" },
+              ]}
+            >
+              {t("term.noTermsForFilter") ||
+                "No terms match the selected filter."}
+            </Text>
+          </View>
+        )}
+
+        {/* Terms still being analysed */}
+        {partialAnalysis && (
+          <View style={styles.partialPlaceholder}>
+            {partialAnalysis.failed ? (
+              <AlertCircle size={20} color="#ef4444" />
+            ) : (
+              <ActivityIndicator
+                size="small"
+                color={isDark ? "#10b981" : "#059669"}
+              />
+            )}
+            <View style={styles.partialPlaceholderContent}>
+              <Text style={styles.partialPlaceholderTitle}>
+                {partialAnalysis.failed
+                  ? t("term.partial.stopped") || "Analysis stopped"
+                  : complianceStats && complianceStats.pendingTerms > 0
+                    ? (t("term.partial.pending") || "Still analyzing {count} more terms").replace(
+                        "{count}",
+                        String(complianceStats.pendingTerms),
+                      )
+                    : t("term.partial.analyzing") || "Still analyzing the remaining terms"}
+              </Text>
+              <Text style={styles.partialPlaceholderText}>
+                {partialAnalysis.failed
+                  ? t("term.partial.stoppedDesc") ||
+                    "Only the terms above were analyzed. Upload the contract again for a full analysis."
+                  : t("term.partial.analyzingDesc") ||
+                    "They appear here as they are analyzed. You can already ask about the terms above."}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Contract Generation Section */}
+        {Array.isArray(analysisTerms) && analysisTerms.length > 0 && (
+          <View style={styles.generationSection}>
+            <Text style={styles.generationTitle}>
+              {t("contract.reviewContract") || "Review Contract"}
+            </Text>
+            <Text style={styles.generationSubtitle}>
+              {t("contract.generateInfo") ||
+                "Generate your modified or marked contract"}
+            </Text>
+
+            <View style={styles.generationButtons}>
+              <TouchableOpacity
+                style={[styles.generateButton, styles.generateModifiedButton]}
+                onPress={handleGenerateContract}
+                disabled={
+                  isGeneratingContract ||
+                  isGeneratingMarkedContract ||
+                  isFetchingSession ||
+                  isAnalyzingContract
+                }
+              >
                 {isGeneratingContract ? (
                   <ActivityIndicator size="small" color="#ffffff" />
                 ) : (
@@ -1374,6 +2222,41 @@ const ContractTermsList: React.FC = () => {
         )}
       </ScrollView>
 
+      <BulkActionSheet
+        visible={!!bulkSheet}
+        action={bulkSheet?.action ?? null}
+        isUndo={!!bulkSheet?.isUndo}
+        progress={bulkSheet?.progress ?? null}
+        report={bulkSheet?.report ?? null}
+        terms={analysisTerms || []}
+        canUndo={
+          !!lastBulkAction &&
+          !bulkSheet?.isUndo &&
+          lastBulkAction.batchId === bulkSheet?.report?.batchId
+        }
+        onCancel={() => bulkAbortRef.current?.abort()}
+        onUndo={handleUndoBulkAction}
+        onRetryFailed={handleRetryFailedBulk}
+        onClose={() => setBulkSheet(null)}
+      />
+
+      <ExpertReviewRequestSheet
+        visible={isReviewRequestOpen}
+        terms={analysisTerms || []}
+        selectedTermIds={isSelectionMode ? selectedTermIds : []}
+        onSubmit={requestExpertReview}
+        onClose={() => setIsReviewRequestOpen(false)}
+      />
+
+      <ReferenceDetailSheet
+        visible={!!referenceSheet}
+        reference={referenceSheet?.reference ?? null}
+        rawReference={referenceSheet?.rawReference}
+        citingTerms={referenceCitingTerms}
+        onSelectTerm={handleSelectCitingTerm}
+        onClose={() => setReferenceSheet(null)}
+      />
+
       {/* General Question Modal */}
       <Modal
         visible={isGeneralQuestionModalOpen}
@@ -1391,7 +2274,6 @@ const ContractTermsList: React.FC = () => {
               onPress={() => {
                 setIsGeneralQuestionModalOpen(false);
                 setGeneralQuestionText("");
-                setGeneralQuestionAnswerDisplay(null);
               }}
             >
               <XCircle size={24} color={isDark ? "#9ca3af" : "#6b7280"} />
@@ -1399,6 +2281,15 @@ const ContractTermsList: React.FC = () => {
           </View>
 
           <ScrollView style={styles.modalContent}>
+            {getQaThread().length > 0 && (
+              <View style={styles.generalThreadContainer}>
+                <QaThreadView
+                  messages={getQaThread()}
+                  isStreaming={!!isProcessingGeneralQuestion}
+                />
+              </View>
+            )}
+
             <TextInput
               style={[
                 styles.generalQuestionInput,
@@ -1414,41 +2305,27 @@ const ContractTermsList: React.FC = () => {
               multiline
             />
 
-            {isProcessingGeneralQuestion && (
-              <View style={styles.processingContainer}>
-                <ActivityIndicator
-                  size="small"
-                  color={isDark ? "#10b981" : "#059669"}
-                />
-                <Text style={styles.processingText}>
-                  {t("processing") || "Processing..."}
-                </Text>
-              </View>
-            )}
+            {isProcessingGeneralQuestion &&
+              !isStreamingAnswer[GENERAL_QUESTION_KEY] && (
+                <View style={styles.processingContainer}>
+                  <ActivityIndicator
+                    size="small"
+                    color={isDark ? "#10b981" : "#059669"}
+                  />
+                  <Text style={styles.processingText}>
+                    {t("processing") || "Processing..."}
+                  </Text>
+                </View>
+              )}
 
-            {generalQuestionAnswerDisplay && !isProcessingGeneralQuestion && (
-              <View style={styles.answerContainer}>
-                <Text style={styles.answerTitle}>
-                  {t("term.answer") || "Answer"}
-                </Text>
-                <Text
-                  style={[
-                    styles.answerText,
-                    { textAlign: isRTL ? "right" : "left" },
-                  ]}
-                >
-                  {generalQuestionAnswerDisplay}
-                </Text>
-              </View>
-            )}
           </ScrollView>
 
           <View style={styles.modalFooter}>
             <TouchableOpacity
               style={styles.modalCancelButton}
               onPress={() => {
+                handleStopQuestion(GENERAL_QUESTION_KEY);
                 setIsGeneralQuestionModalOpen(false);
-                setGeneralQuestionAnswerDisplay(null);
                 setGeneralQuestionText("");
               }}
             >
@@ -1456,28 +2333,40 @@ const ContractTermsList: React.FC = () => {
                 {t("term.cancel") || "Cancel"}
               </Text>
             </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.modalSendButton}
-              onPress={handleSendGeneralQuestion}
-              disabled={
-                isProcessingGeneralQuestion || !generalQuestionText.trim()
-              }
-            >
-              {isProcessingGeneralQuestion ? (
-                <ActivityIndicator size="small" color="#ffffff" />
-              ) : (
-                <Send size={16} color="#ffffff" />
-              )}
-              <Text style={styles.modalSendButtonText}>
-                {t("button.send") || "Send"}
-              </Text>
-            </TouchableOpacity>
+            {isStreamingAnswer[GENERAL_QUESTION_KEY] ? (
+              <TouchableOpacity
+                style={[styles.modalSendButton, styles.stopButton]}
+                onPress={() => handleStopQuestion(GENERAL_QUESTION_KEY)}
+              >
+                <Square size={14} color="#ffffff" fill="#ffffff" />
+                <Text style={styles.modalSendButtonText}>
+                  {t("button.stop") || "Stop"}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.modalSendButton}
+                onPress={handleSendGeneralQuestion}
+                disabled={
+                  isProcessingGeneralQuestion || !generalQuestionText.trim()
+                }
+              >
+                {isProcessingGeneralQuestion ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Send size={16} color="#ffffff" />
+                )}
+                <Text style={styles.modalSendButtonText}>
+                  {t("button.send") || "Send"}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </Modal>
 
       {/* Expert Feedback Modal */}
-      {expertFeedbackTermId && currentUserRole === 'shariah_expert' && (
+      {expertFeedbackTermId && permissions.canSubmitExpertFeedback && (
         <Modal
           visible={true}
           animationType="slide"
@@ -1502,6 +2391,10 @@ const ContractTermsList: React.FC = () => {
 
             <ScrollView style={styles.modalContent}>
               <View style={styles.expertFeedbackForm}>
+                {expertFeedbackTerm && (
+                  <TermDiffView term={expertFeedbackTerm} initialMode="sideBySide" />
+                )}
+
                 <Text style={styles.feedbackLabel}>
                   {t('expert.aiAnalysisApproval') || 'Do you approve the AI analysis?'}
                 </Text>
@@ -1534,37 +2427,41 @@ const ContractTermsList: React.FC = () => {
                   </TouchableOpacity>
                 </View>
 
-                <Text style={styles.feedbackLabel}>
-                  {t('expert.isValidSharia') || 'Is this term Sharia compliant?'}
-                </Text>
-                <View style={styles.approvalButtons}>
-                  <TouchableOpacity
-                    style={[
-                      styles.approvalButton,
-                      currentExpertFeedback.expertIsValidSharia === true && styles.approvalButtonActive,
-                    ]}
-                    onPress={() =>
-                      setCurrentExpertFeedback(prev => ({ ...prev, expertIsValidSharia: true }))
-                    }
-                  >
-                    <Text style={styles.approvalButtonText}>
-                      {t('expert.compliant') || 'Compliant'}
-                    </Text>
-                  </TouchableOpacity>
-                  <TouchableOpacity
-                    style={[
-                      styles.approvalButton,
-                      currentExpertFeedback.expertIsValidSharia === false && styles.approvalButtonActive,
-                    ]}
-                    onPress={() =>
-                      setCurrentExpertFeedback(prev => ({ ...prev, expertIsValidSharia: false }))
-                    }
-                  >
-                    <Text style={styles.approvalButtonText}>
-                      {t('expert.nonCompliant') || 'Non-Compliant'}
+                {permissions.canOverrideCompliance && (
+                  <>
+                    <Text style={styles.feedbackLabel}>
+                      {t('expert.isValidSharia') || 'Is this term Sharia compliant?'}
                     </Text>
-                  </TouchableOpacity>
-                </View>
+                    <View style={styles.approvalButtons}>
+                      <TouchableOpacity
+                        style={[
+                          styles.approvalButton,
+                          currentExpertFeedback.expertIsValidSharia === true && styles.approvalButtonActive,
+                        ]}
+                        onPress={() =>
+                          setCurrentExpertFeedback(prev => ({ ...prev, expertIsValidSharia: true }))
+                        }
+                      >
+                        <Text style={styles.approvalButtonText}>
+                          {t('expert.compliant') || 'Compliant'}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[
+                          styles.approvalButton,
+                          currentExpertFeedback.expertIsValidSharia === false && styles.approvalButtonActive,
+                        ]}
+                        onPress={() =>
+                          setCurrentExpertFeedback(prev => ({ ...prev, expertIsValidSharia: false }))
+                        }
+                      >
+                        <Text style={styles.approvalButtonText}>
+                          {t('expert.nonCompliant') || 'Non-Compliant'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
 
                 <Text style={styles.feedbackLabel}>
                   {t('expert.comment') || 'Expert Comment'}
@@ -1751,16 +2648,20 @@ const getStyles = (isDark: boolean, isRTL: boolean) =>
       fontWeight: "500",
     },
     filterTabs: {
-      flexDirection: "row",
+      flexGrow: 0,
       backgroundColor: isDark ? "#374151" : "#f3f4f6",
       borderRadius: 8,
       margin: 16,
       marginTop: 8,
+    },
+    filterTabsContent: {
+      flexDirection: isRTL ? "row-reverse" : "row",
       padding: 4,
+      gap: 4,
     },
     filterTab: {
-      flex: 1,
       paddingVertical: 8,
+      paddingHorizontal: 12,
       alignItems: "center",
       borderRadius: 6,
     },
@@ -1780,6 +2681,157 @@ const getStyles = (isDark: boolean, isRTL: boolean) =>
       paddingTop: 0,
       gap: 16,
     },
+    partialPlaceholder: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      gap: 12,
+      marginHorizontal: 16,
+      marginBottom: 16,
+      padding: 16,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderStyle: "dashed",
+      borderColor: isDark ? "#374151" : "#d1d5db",
+      backgroundColor: isDark ? "#1f2937" : "#f9fafb",
+    },
+    partialPlaceholderContent: {
+      flex: 1,
+      gap: 4,
+    },
+    partialPlaceholderTitle: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: isDark ? "#f3f4f6" : "#111827",
+      textAlign: isRTL ? "right" : "left",
+    },
+    partialPlaceholderText: {
+      fontSize: 13,
+      lineHeight: 18,
+      color: isDark ? "#9ca3af" : "#6b7280",
+      textAlign: isRTL ? "right" : "left",
+    },
+    termGroup: {
+      gap: 16,
+    },
+    groupHeader: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      gap: 8,
+      paddingTop: 4,
+      borderBottomWidth: 1,
+      borderBottomColor: isDark ? "#374151" : "#e5e7eb",
+      paddingBottom: 6,
+    },
+    groupTitle: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: "700",
+      color: isDark ? "#f9fafb" : "#111827",
+      textAlign: isRTL ? "right" : "left",
+    },
+    groupCount: {
+      minWidth: 24,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 10,
+      overflow: "hidden",
+      textAlign: "center",
+      fontSize: 12,
+      fontWeight: "700",
+      color: isDark ? "#d1d5db" : "#374151",
+      backgroundColor: isDark ? "#374151" : "#e5e7eb",
+    },
+    groupingRow: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      flexWrap: "wrap",
+      gap: 6,
+      marginHorizontal: 16,
+      marginBottom: 12,
+    },
+    groupingLabel: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: isDark ? "#9ca3af" : "#6b7280",
+    },
+    groupingChip: {
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: isDark ? "#374151" : "#d1d5db",
+    },
+    groupingChipActive: {
+      backgroundColor: "#10b981",
+      borderColor: "#10b981",
+    },
+    groupingChipText: {
+      fontSize: 12,
+      color: isDark ? "#d1d5db" : "#374151",
+    },
+    groupingChipTextActive: {
+      color: "#ffffff",
+      fontWeight: "600",
+    },
+    miniBarContainer: {
+      backgroundColor: isDark ? "#111827" : "#ffffff",
+    },
+    miniBar: {
+      height: STICKY_BAR_HEIGHT,
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      gap: 10,
+      paddingHorizontal: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: isDark ? "#374151" : "#e5e7eb",
+    },
+    miniBarScore: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 8,
+    },
+    miniBarScoreText: {
+      color: "#ffffff",
+      fontSize: 13,
+      fontWeight: "700",
+    },
+    miniBarStats: {
+      flex: 1,
+      gap: 4,
+    },
+    miniBarText: {
+      fontSize: 12,
+      fontWeight: "600",
+      color: isDark ? "#d1d5db" : "#374151",
+      textAlign: isRTL ? "right" : "left",
+    },
+    miniBarTrack: {
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: isDark ? "#374151" : "#e5e7eb",
+      overflow: "hidden",
+    },
+    miniBarFill: {
+      height: "100%",
+      backgroundColor: "#10b981",
+    },
+    nextIssueButton: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      gap: 4,
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      borderRadius: 8,
+      backgroundColor: "#ef4444",
+    },
+    nextIssueButtonDisabled: {
+      backgroundColor: isDark ? "#374151" : "#9ca3af",
+    },
+    nextIssueButtonText: {
+      color: "#ffffff",
+      fontSize: 12,
+      fontWeight: "600",
+    },
     termCard: {
       backgroundColor: isDark ? "#1f2937" : "#ffffff",
       borderRadius: 12,
@@ -1792,6 +2844,93 @@ const getStyles = (isDark: boolean, isRTL: boolean) =>
       elevation: 3,
       marginBottom: 8,
     },
+    termCardHighlighted: {
+      borderColor: "#10b981",
+      borderWidth: 2,
+    },
+    reviewRequestedTag: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      alignSelf: isRTL ? "flex-end" : "flex-start",
+      gap: 4,
+      marginHorizontal: 16,
+      marginBottom: 8,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 10,
+      backgroundColor: isDark ? "rgba(245, 158, 11, 0.15)" : "#fef3c7",
+    },
+    reviewRequestedText: {
+      fontSize: 12,
+      fontWeight: "600",
+      color: isDark ? "#fbbf24" : "#b45309",
+    },
+    listActionsRow: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      justifyContent: "flex-end",
+      flexWrap: "wrap",
+      gap: 16,
+      marginHorizontal: 16,
+      marginBottom: 8,
+    },
+    selectModeButton: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      gap: 6,
+    },
+    selectModeButtonText: {
+      color: isDark ? "#10b981" : "#059669",
+      fontSize: 14,
+      fontWeight: "500",
+    },
+    selectionToolbar: {
+      marginHorizontal: 16,
+      marginBottom: 12,
+      padding: 12,
+      gap: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: isDark ? "#374151" : "#e5e7eb",
+      backgroundColor: isDark ? "#1f2937" : "#f9fafb",
+    },
+    selectionRow: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      gap: 16,
+    },
+    selectionCount: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: "600",
+      color: isDark ? "#f9fafb" : "#111827",
+      textAlign: isRTL ? "right" : "left",
+    },
+    selectionLink: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: isDark ? "#10b981" : "#059669",
+    },
+    bulkActions: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    bulkActionButton: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      gap: 6,
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      borderRadius: 8,
+      borderWidth: 1,
+    },
+    bulkActionButtonDisabled: {
+      opacity: 0.4,
+    },
+    bulkActionText: {
+      fontSize: 13,
+      fontWeight: "600",
+    },
     termHeader: {
       flexDirection: isRTL ? "row-reverse" : "row",
       padding: 16,
@@ -1882,6 +3021,25 @@ const getStyles = (isDark: boolean, isRTL: boolean) =>
       fontSize: 14,
       lineHeight: 20,
     },
+    referenceLink: {
+      flexDirection: isRTL ? "row-reverse" : "row",
+      alignItems: "center",
+      alignSelf: isRTL ? "flex-end" : "flex-start",
+      gap: 6,
+      marginTop: 8,
+      paddingHorizontal: 10,
+      paddingVertical: 5,
+      borderRadius: 14,
+      backgroundColor: isDark ? "rgba(59, 130, 246, 0.15)" : "#ffffff",
+      borderWidth: 1,
+      borderColor: "#93c5fd",
+    },
+    referenceLinkText: {
+      flexShrink: 1,
+      fontSize: 12,
+      fontWeight: "600",
+      color: "#2563eb",
+    },
     suggestionSection: {
       gap: 12,
     },
@@ -2077,6 +3235,9 @@ const getStyles = (isDark: boolean, isRTL: boolean) =>
       fontSize: 16,
       fontWeight: "600",
     },
+    stopButton: {
+      backgroundColor: "#ef4444",
+    },
     generationSection: {
       borderTopWidth: 1,
       borderTopColor: isDark ? "#374151" : "#e5e7eb",
@@ -2198,25 +3359,6 @@ const getStyles = (isDark: boolean, isRTL: boolean) =>
       fontSize: 14,
       color: isDark ? "#9ca3af" : "#6b7280",
     },
-    answerContainer: {
-      backgroundColor: isDark ? "#1e3a8a" : "#dbeafe",
-      borderRadius: 8,
-      padding: 14,
-      marginTop: 12,
-    },
-    answerTitle: {
-      fontSize: 12,
-      fontWeight: "bold",
-      color: isDark ? "#93c5fd" : "#1e40af",
-      textTransform: "uppercase",
-      letterSpacing: 0.5,
-      marginBottom: 8,
-    },
-    answerText: {
-      fontSize: 16,
-      color: isDark ? "#93c5fd" : "#1e40af",
-      lineHeight: 24,
-    },
     modalFooter: {
       flexDirection: isRTL ? "row-reverse" : "row",
       justifyContent: "flex-end",
@@ -2266,6 +3408,12 @@ const getStyles = (isDark: boolean, isRTL: boolean) =>
       letterSpacing: 0.5,
       marginBottom: 8,
     },
+    termThreadContainer: {
+      marginBottom: 12,
+    },
+    generalThreadContainer: {
+      marginBottom: 16,
+    },
     termAnswerText: {
       fontSize: 16,
       color: isDark ? "#93c5fd" : "#1e40af",
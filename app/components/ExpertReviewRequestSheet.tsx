@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, StyleSheet, Modal, ActivityIndicator } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import type { FrontendAnalysisTerm } from '../contexts/SessionContext';
+import { UserCheck, X } from 'lucide-react-native';
+
+type ReviewScope = 'session' | 'flagged' | 'selected';
+
+interface ExpertReviewRequestSheetProps {
+  visible: boolean;
+  terms: FrontendAnalysisTerm[];
+  // Terms picked in selection mode, if any.
+  selectedTermIds: string[];
+  // Resolves to whether the request was sent; `termIds` is null for the whole
+  // contract.
+  onSubmit: (termIds: string[] | null, note: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Bottom sheet for sending the contract, the flagged terms or the selected
+// terms to a Sharia expert, with an optional note.
+const ExpertReviewRequestSheet: React.FC<ExpertReviewRequestSheetProps> = ({
+  visible,
+  terms,
+  selectedTermIds,
+  onSubmit,
+  onClose,
+}) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  const flaggedTermIds = terms.filter((term) => term.expertReviewRequested).map((term) => term.term_id);
+  const defaultScope: ReviewScope =
+    selectedTermIds.length > 0 ? 'selected' : flaggedTermIds.length > 0 ? 'flagged' : 'session';
+
+  const [scope, setScope] = useState<ReviewScope>(defaultScope);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setScope(defaultScope);
+      setNote('');
+    }
+  }, [visible]);
+
+  const options: Array<{ value: ReviewScope; key: string; fallback: string; count: number }> = [
+    { value: 'session', key: 'review.scope.session', fallback: 'Whole contract', count: terms.length },
+    { value: 'flagged', key: 'review.scope.flagged', fallback: 'Terms marked for review', count: flaggedTermIds.length },
+    { value: 'selected', key: 'review.scope.selected', fallback: 'Selected terms', count: selectedTermIds.length },
+  ];
+
+  const termIdsFor = (value: ReviewScope): string[] | null =>
+    value === 'session' ? null : value === 'flagged' ? flaggedTermIds : selectedTermIds;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      if (await onSubmit(termIdsFor(scope), note)) {
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <View style={styles.titleRow}>
+              <UserCheck size={20} color="#f59e0b" />
+              <Text style={styles.sheetTitle}>{t('review.request.title') || 'Request Expert Review'}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={isSubmitting}>
+              <X size={22} color={isDark ? '#d1d5db' : '#374151'} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.description}>
+            {t('review.request.description') ||
+              'A Sharia expert will review the terms and approve, reject or ask for changes to each one. You will be notified when the review is complete.'}
+          </Text>
+
+          <View style={styles.options}>
+            {options.map((option) => {
+              const isSelected = scope === option.value;
+              const isDisabled = option.count === 0;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.option, isSelected && styles.optionSelected, isDisabled && styles.optionDisabled]}
+                  onPress={() => setScope(option.value)}
+                  disabled={isDisabled}
+                >
+                  <View style={[styles.radio, isSelected && styles.radioSelected]} />
+                  <Text style={styles.optionText}>{t(option.key) || option.fallback}</Text>
+                  <Text style={styles.optionCount}>{option.count}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder={t('review.request.notePlaceholder') || 'Note for the expert (optional)'}
+            placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
+            multiline
+            maxLength={500}
+            textAlign={isRTL ? 'right' : 'left'}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('review.request.submit') || 'Send for Review'}</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onClose} disabled={isSubmitting}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel') || 'Cancel'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: isDark ? '#111827' : '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 16,
+    paddingBottom: 24,
+    gap: 14,
+  },
+  sheetHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+  },
+  titleRow: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: isDark ? '#f9fafb' : '#111827',
+  },
+  description: {
+    paddingHorizontal: 16,
+    fontSize: 13,
+    lineHeight: 19,
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  options: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  option: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#e5e7eb',
+  },
+  optionSelected: {
+    borderColor: '#f59e0b',
+    backgroundColor: isDark ? 'rgba(245, 158, 11, 0.1)' : '#fffbeb',
+  },
+  optionDisabled: {
+    opacity: 0.4,
+  },
+  radio: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: isDark ? '#6b7280' : '#9ca3af',
+  },
+  radioSelected: {
+    borderColor: '#f59e0b',
+    backgroundColor: '#f59e0b',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 14,
+    color: isDark ? '#e5e7eb' : '#1f2937',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  optionCount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: isDark ? '#9ca3af' : '#6b7280',
+  },
+  noteInput: {
+    marginHorizontal: 16,
+    minHeight: 72,
+    padding: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#d1d5db',
+    color: isDark ? '#f9fafb' : '#111827',
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  button: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButton: {
+    backgroundColor: '#f59e0b',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#d1d5db',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#374151',
+  },
+});
+
+export default ExpertReviewRequestSheet;
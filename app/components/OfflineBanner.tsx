@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { WifiOff, Wifi } from 'lucide-react-native';
+import ConnectivityService from '../services/ConnectivityService';
+import { useConnectivity } from '../hooks/useConnectivity';
+
+// How long the "back online" confirmation stays visible.
+const RECONNECTED_NOTICE_MS = 3000;
+
+const OfflineBanner: React.FC = () => {
+  const { t, isRTL } = useLanguage();
+  const { isOnline } = useConnectivity();
+  const [isChecking, setIsChecking] = useState(false);
+  const [showReconnected, setShowReconnected] = useState(false);
+  const wasOffline = useRef(false);
+  const styles = getStyles(isRTL);
+
+  useEffect(() => {
+    if (isOnline === false) {
+      wasOffline.current = true;
+      setShowReconnected(false);
+      return;
+    }
+    if (isOnline && wasOffline.current) {
+      wasOffline.current = false;
+      setShowReconnected(true);
+      const timer = setTimeout(() => setShowReconnected(false), RECONNECTED_NOTICE_MS);
+      return () => clearTimeout(timer);
+    }
+  }, [isOnline]);
+
+  const handleRetry = async () => {
+    setIsChecking(true);
+    try {
+      await ConnectivityService.getInstance().check(true);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (showReconnected) {
+    return (
+      <View style={[styles.banner, styles.onlineBanner]}>
+        <Wifi size={16} color="#ffffff" />
+        <Text style={styles.message}>
+          {t('connectivity.backOnline') || 'Back online. Syncing your changes…'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (isOnline !== false) return null;
+
+  return (
+    <View style={[styles.banner, styles.offlineBanner]}>
+      <WifiOff size={16} color="#ffffff" />
+      <Text style={styles.message}>
+        {t('connectivity.offline') || "Can't reach the server. Changes will sync when the connection returns."}
+      </Text>
+      <TouchableOpacity style={styles.retryButton} onPress={handleRetry} disabled={isChecking}>
+        {isChecking ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.retryText}>{t('connectivity.retry') || 'Retry'}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const getStyles = (isRTL: boolean) => StyleSheet.create({
+  banner: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  offlineBanner: {
+    backgroundColor: '#f59e0b',
+  },
+  onlineBanner: {
+    backgroundColor: '#10b981',
+  },
+  message: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  retryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    minWidth: 56,
+    alignItems: 'center',
+  },
+  retryText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
+
+export default OfflineBanner;
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, StyleSheet, Modal, ActivityIndicator } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { isValidPin } from '../services/AppLockService';
+import { KeyRound, X } from 'lucide-react-native';
+
+interface PinSetupSheetProps {
+  visible: boolean;
+  // Resolves once the PIN is stored; the sheet closes itself afterwards.
+  onSubmit: (pin: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Bottom sheet for choosing the app lock PIN, entered twice.
+const PinSetupSheet: React.FC<PinSetupSheetProps> = ({ visible, onSubmit, onClose }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setConfirmation('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!isValidPin(pin)) {
+      setError(t('appLock.pinInvalid') || 'The PIN must be 4 to 6 digits.');
+      return;
+    }
+    if (pin !== confirmation) {
+      setError(t('appLock.pinMismatch') || 'The PINs do not match.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(pin);
+      onClose();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : String(submitError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const digitsOnly = (setter: (value: string) => void) => (text: string) => {
+    setter(text.replace(/\D/g, ''));
+    setError(null);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <View style={styles.titleRow}>
+              <KeyRound size={20} color="#10b981" />
+              <Text style={styles.sheetTitle}>{t('appLock.setPin') || 'Set a PIN'}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={isSubmitting}>
+              <X size={22} color={isDark ? '#d1d5db' : '#374151'} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.description}>
+            {t('appLock.pinDescription') || 'Choose a 4 to 6 digit PIN. You will need it to open the app.'}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={pin}
+            onChangeText={digitsOnly(setPin)}
+            placeholder={t('appLock.pinPlaceholder') || 'PIN'}
+            placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={6}
+            autoFocus
+          />
+          <TextInput
+            style={styles.input}
+            value={confirmation}
+            onChangeText={digitsOnly(setConfirmation)}
+            placeholder={t('appLock.confirmPinPlaceholder') || 'Confirm PIN'}
+            placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={6}
+            onSubmitEditing={handleSubmit}
+          />
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('appLock.savePin') || 'Save PIN'}</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onClose} disabled={isSubmitting}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel') || 'Cancel'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: isDark ? '#111827' : '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 16,
+    paddingBottom: 24,
+    gap: 14,
+  },
+  sheetHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+  },
+  titleRow: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: isDark ? '#f9fafb' : '#111827',
+  },
+  description: {
+    paddingHorizontal: 16,
+    fontSize: 13,
+    lineHeight: 19,
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  input: {
+    marginHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#d1d5db',
+    color: isDark ? '#f9fafb' : '#111827',
+    fontSize: 20,
+    letterSpacing: 6,
+    textAlign: 'center',
+  },
+  errorText: {
+    paddingHorizontal: 16,
+    fontSize: 13,
+    color: '#ef4444',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  actions: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  button: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButton: {
+    backgroundColor: '#10b981',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#d1d5db',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#374151',
+  },
+});
+
+export default PinSetupSheet;
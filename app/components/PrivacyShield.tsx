@@ -0,0 +1,42 @@
+import React from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { useTheme } from '../contexts/ThemeContext';
+import { ShieldCheck } from 'lucide-react-native';
+
+interface PrivacyShieldProps {
+  visible: boolean;
+}
+
+// Blurs the screen while the app is inactive or in the background, so the
+// app switcher snapshot does not show contract contents. Android blur is
+// not reliable yet, so it gets an opaque cover instead.
+const PrivacyShield: React.FC<PrivacyShieldProps> = ({ visible }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+
+  if (!visible) return null;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {Platform.OS === 'ios' ? (
+        <BlurView style={StyleSheet.absoluteFill} intensity={90} tint={isDark ? 'dark' : 'light'} />
+      ) : (
+        <View style={[StyleSheet.absoluteFill, { backgroundColor: isDark ? '#111827' : '#f9fafb' }]} />
+      )}
+      <View style={styles.center}>
+        <ShieldCheck size={48} color="#10b981" />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  center: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default PrivacyShield;
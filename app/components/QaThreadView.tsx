@@ -0,0 +1,139 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { MessageSquare, Sparkles } from 'lucide-react-native';
+import type { QaMessage } from '../../types/session';
+
+interface QaThreadViewProps {
+  messages: QaMessage[];
+  // The last message is still receiving its answer.
+  isStreaming?: boolean;
+}
+
+const formatTime = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return isNaN(date.getTime())
+    ? ''
+    : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const QaThreadView: React.FC<QaThreadViewProps> = ({ messages, isStreaming = false }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  if (messages.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {messages.map((message, index) => {
+        const isLast = index === messages.length - 1;
+        const isPending = isLast && isStreaming;
+
+        return (
+          <View key={message.id} style={styles.turn}>
+            <View style={[styles.bubble, styles.questionBubble]}>
+              <View style={styles.bubbleHeader}>
+                <MessageSquare size={12} color={isDark ? '#bfdbfe' : '#1e40af'} />
+                <Text style={styles.questionLabel}>
+                  {t('qa.you') || 'You'}
+                </Text>
+                <Text style={styles.timestamp}>{formatTime(message.askedAt)}</Text>
+              </View>
+              <Text style={[styles.questionText, { textAlign: isRTL ? 'right' : 'left' }]}>
+                {message.question}
+              </Text>
+            </View>
+
+            <View style={[styles.bubble, styles.answerBubble]}>
+              <View style={styles.bubbleHeader}>
+                <Sparkles size={12} color="#10b981" />
+                <Text style={styles.answerLabel}>
+                  {t('qa.assistant') || 'Assistant'}
+                </Text>
+                <Text style={styles.timestamp}>{formatTime(message.answeredAt)}</Text>
+              </View>
+              <Text style={[styles.answerText, { textAlign: isRTL ? 'right' : 'left' }]}>
+                {message.answer || (isPending ? '…' : '')}
+                {isPending && message.answer ? ' ▍' : ''}
+              </Text>
+              {message.stopped && (
+                <Text style={styles.stoppedText}>
+                  {t('qa.stopped') || 'Answer stopped'}
+                </Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  turn: {
+    gap: 6,
+  },
+  bubble: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    maxWidth: '92%',
+  },
+  questionBubble: {
+    alignSelf: isRTL ? 'flex-start' : 'flex-end',
+    backgroundColor: isDark ? '#1e3a8a' : '#dbeafe',
+  },
+  answerBubble: {
+    alignSelf: isRTL ? 'flex-end' : 'flex-start',
+    backgroundColor: isDark ? '#064e3b' : '#ecfdf5',
+    borderWidth: 1,
+    borderColor: isDark ? '#065f46' : '#a7f3d0',
+  },
+  bubbleHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  questionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: isDark ? '#bfdbfe' : '#1e40af',
+    textTransform: 'uppercase',
+  },
+  answerLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: isDark ? '#6ee7b7' : '#047857',
+    textTransform: 'uppercase',
+  },
+  timestamp: {
+    fontSize: 10,
+    color: isDark ? '#9ca3af' : '#6b7280',
+  },
+  questionText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: isDark ? '#dbeafe' : '#1e3a8a',
+  },
+  answerText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: isDark ? '#d1fae5' : '#064e3b',
+  },
+  stoppedText: {
+    marginTop: 6,
+    fontSize: 11,
+    fontStyle: 'italic',
+    color: isDark ? '#fbbf24' : '#b45309',
+  },
+});
+
+export default QaThreadView;
@@ -1,16 +1,18 @@
 import React, { useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, Animated, Dimensions, Modal } from 'react-native';
+import { View, Text, StyleSheet, Animated, Dimensions, Modal, TouchableOpacity } from 'react-native';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { MessageSquare, Brain, Sparkles, Search, Zap } from 'lucide-react-native';
+import { MessageSquare, Brain, Sparkles, Search, Zap, Square } from 'lucide-react-native';
 
 const { width: screenWidth } = Dimensions.get('window');
 
 interface QuestionAnimationProps {
   isVisible: boolean;
+  // Shows a stop button that cancels the pending request.
+  onStop?: () => void;
 }
 
-const QuestionAnimation: React.FC<QuestionAnimationProps> = ({ isVisible }) => {
+const QuestionAnimation: React.FC<QuestionAnimationProps> = ({ isVisible, onStop }) => {
   const { t } = useLanguage();
   const { theme } = useTheme();
 
@@ -248,6 +250,13 @@ const QuestionAnimation: React.FC<QuestionAnimationProps> = ({ isVisible }) => {
             <Zap size={12} color="#ffffff" />
             <Text style={styles.energyText}>AI Active</Text>
           </Animated.View>
+
+          {onStop && (
+            <TouchableOpacity style={styles.stopButton} onPress={onStop}>
+              <Square size={14} color="#ffffff" fill="#ffffff" />
+              <Text style={styles.stopButtonText}>{t('button.stop') || 'Stop'}</Text>
+            </TouchableOpacity>
+          )}
         </Animated.View>
       </View>
     </Modal>
@@ -383,6 +392,21 @@ const getStyles = (isDark: boolean) => StyleSheet.create({
     fontSize: 11,
     fontWeight: 'bold',
   },
+  stopButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 20,
+    backgroundColor: '#ef4444',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  stopButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
 
 export default QuestionAnimation;
\ No newline at end of file
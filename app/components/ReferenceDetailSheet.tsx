@@ -0,0 +1,271 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { BookOpen, ChevronRight, ChevronLeft, Link2, X } from 'lucide-react-native';
+import type { ResolvedReference } from '../services/ReferenceLibraryService';
+import type { LocalizedText } from '../data/shariaStandards';
+import { isRtlText } from '../utils/textDiff';
+
+export interface CitingTerm {
+  term_id: string;
+  term_text: string;
+}
+
+interface ReferenceDetailSheetProps {
+  visible: boolean;
+  reference: ResolvedReference | null;
+  // The reference as the analysis wrote it.
+  rawReference?: string | null;
+  // Other terms of the contract citing the same standard.
+  citingTerms?: CitingTerm[];
+  onSelectTerm?: (termId: string) => void;
+  onClose: () => void;
+}
+
+// Bottom sheet explaining a cited Shari'ah standard from the bundled library,
+// with links to the other terms of the contract that cite it.
+const ReferenceDetailSheet: React.FC<ReferenceDetailSheetProps> = ({
+  visible,
+  reference,
+  rawReference,
+  citingTerms = [],
+  onSelectTerm,
+  onClose,
+}) => {
+  const { t, isRTL, language } = useLanguage();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  if (!reference) return null;
+
+  const { standard, standardNumber, clause } = reference;
+  const localized = (text: LocalizedText) => (language === 'ar' ? text.ar : text.en);
+  const Chevron = isRTL ? ChevronLeft : ChevronRight;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <View style={styles.headerTitle}>
+              <BookOpen size={20} color="#3b82f6" />
+              <Text style={styles.standardNumber}>
+                {(t('library.standardNumber') || 'Shari\'ah Standard No. {number}').replace(
+                  '{number}',
+                  String(standardNumber),
+                )}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={isDark ? '#d1d5db' : '#374151'} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {standard ? (
+              <>
+                <Text style={styles.title}>{localized(standard.title)}</Text>
+                <Text style={styles.scope}>{localized(standard.scope)}</Text>
+              </>
+            ) : (
+              <Text style={styles.note}>
+                {t('library.notBundled') ||
+                  'This standard is not in the offline library. Check the published AAOIFI standards for its text.'}
+              </Text>
+            )}
+
+            {!!rawReference && (
+              <View style={styles.citation}>
+                <Text style={styles.sectionLabel}>{t('library.citedAs') || 'Cited as'}</Text>
+                <Text
+                  style={[
+                    styles.citationText,
+                    { writingDirection: isRtlText(rawReference) ? 'rtl' : 'ltr', textAlign: isRtlText(rawReference) ? 'right' : 'left' },
+                  ]}
+                >
+                  {rawReference}
+                </Text>
+                {clause && (
+                  <Text style={styles.clause}>
+                    {(t('library.clause') || 'Clause {clause}').replace('{clause}', clause)}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {standard && (
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>{t('library.keyRulings') || 'Key rulings'}</Text>
+                {standard.rulings.map((ruling) => (
+                  <View key={ruling.id} style={styles.ruling}>
+                    <View style={styles.rulingBullet} />
+                    <Text style={styles.rulingText}>{localized(ruling.text)}</Text>
+                  </View>
+                ))}
+                <Text style={styles.note}>
+                  {t('library.summaryNote') ||
+                    'Summaries for orientation only; the official AAOIFI text prevails.'}
+                </Text>
+              </View>
+            )}
+
+            {citingTerms.length > 0 && (
+              <View style={styles.section}>
+                <View style={styles.headerTitle}>
+                  <Link2 size={15} color={isDark ? '#9ca3af' : '#6b7280'} />
+                  <Text style={styles.sectionLabel}>
+                    {(t('library.otherTerms') || 'Other terms in this contract citing this standard ({count})').replace(
+                      '{count}',
+                      String(citingTerms.length),
+                    )}
+                  </Text>
+                </View>
+                {citingTerms.map((term) => {
+                  const textIsRtl = isRtlText(term.term_text);
+                  return (
+                    <TouchableOpacity
+                      key={term.term_id}
+                      style={styles.termLink}
+                      onPress={() => onSelectTerm?.(term.term_id)}
+                      disabled={!onSelectTerm}
+                    >
+                      <Text
+                        style={[
+                          styles.termLinkText,
+                          { writingDirection: textIsRtl ? 'rtl' : 'ltr', textAlign: textIsRtl ? 'right' : 'left' },
+                        ]}
+                        numberOfLines={2}
+                      >
+                        {term.term_text}
+                      </Text>
+                      {onSelectTerm && <Chevron size={16} color="#3b82f6" />}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: isDark ? '#111827' : '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 16,
+    paddingBottom: 24,
+  },
+  sheetHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+  },
+  headerTitle: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+    flexShrink: 1,
+  },
+  standardNumber: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#3b82f6',
+    textTransform: 'uppercase',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: isDark ? '#f9fafb' : '#111827',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  scope: {
+    fontSize: 14,
+    lineHeight: 21,
+    color: isDark ? '#d1d5db' : '#4b5563',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  citation: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? '#1e3a8a' : '#bfdbfe',
+    backgroundColor: isDark ? 'rgba(59, 130, 246, 0.1)' : '#eff6ff',
+    padding: 12,
+    gap: 4,
+  },
+  citationText: {
+    fontSize: 14,
+    color: isDark ? '#bfdbfe' : '#1e40af',
+  },
+  clause: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3b82f6',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  section: {
+    gap: 8,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  ruling: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 8,
+  },
+  rulingBullet: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    backgroundColor: '#10b981',
+  },
+  rulingText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 21,
+    color: isDark ? '#e5e7eb' : '#1f2937',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  note: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  termLink: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#e5e7eb',
+    padding: 10,
+  },
+  termLinkText: {
+    flex: 1,
+    fontSize: 13,
+    color: isDark ? '#e5e7eb' : '#1f2937',
+  },
+});
+
+export default ReferenceDetailSheet;
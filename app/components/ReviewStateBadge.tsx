@@ -0,0 +1,86 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { Clock, Eye, CheckCircle, XCircle, AlertTriangle } from 'lucide-react-native';
+import type { ReviewState } from '../services/api';
+
+interface ReviewStateBadgeProps {
+  state: ReviewState;
+  // Shown under the badge once the expert has decided.
+  comment?: string | null;
+  compact?: boolean;
+}
+
+export const REVIEW_STATE_META: Record<
+  ReviewState,
+  { key: string; fallback: string; color: string; Icon: typeof Clock }
+> = {
+  requested: { key: 'review.state.requested', fallback: 'Review requested', color: '#f59e0b', Icon: Clock },
+  in_review: { key: 'review.state.in_review', fallback: 'In review', color: '#3b82f6', Icon: Eye },
+  approved: { key: 'review.state.approved', fallback: 'Approved by expert', color: '#10b981', Icon: CheckCircle },
+  rejected: { key: 'review.state.rejected', fallback: 'Rejected by expert', color: '#ef4444', Icon: XCircle },
+  needs_changes: { key: 'review.state.needs_changes', fallback: 'Needs changes', color: '#8b5cf6', Icon: AlertTriangle },
+};
+
+// Where a term stands in its expert review, with the expert's comment.
+const ReviewStateBadge: React.FC<ReviewStateBadgeProps> = ({ state, comment, compact = false }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const styles = getStyles(theme === 'dark', isRTL);
+  const meta = REVIEW_STATE_META[state] ?? REVIEW_STATE_META.requested;
+  const { Icon } = meta;
+
+  return (
+    <View style={[styles.container, compact && styles.containerCompact]}>
+      <View style={[styles.badge, { borderColor: meta.color }]}>
+        <Icon size={compact ? 11 : 13} color={meta.color} />
+        <Text style={[styles.label, compact && styles.labelCompact, { color: meta.color }]}>
+          {t(meta.key) || meta.fallback}
+        </Text>
+      </View>
+      {!compact && !!comment && (
+        <Text style={styles.comment} numberOfLines={3}>
+          “{comment}”
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    gap: 4,
+    alignItems: isRTL ? 'flex-end' : 'flex-start',
+  },
+  containerCompact: {
+    marginHorizontal: 0,
+    marginBottom: 0,
+  },
+  badge: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  labelCompact: {
+    fontSize: 11,
+  },
+  comment: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+});
+
+export default ReviewStateBadge;
@@ -218,7 +218,7 @@ export const CustomSplashScreen: React.FC<SplashScreenProps> = ({ onFinish }) =>
           },
         ]}
       >
-        <Text style={styles.appName}>Shar'AI</Text>
+        <Text style={styles.appName}>{"Shar'AI"}</Text>
         <Text style={styles.tagline}>AI for Shariah</Text>
         <Text style={styles.subtitle}>Intelligent Islamic Finance Analysis</Text>
       </Animated.View>
@@ -0,0 +1,300 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSession } from '../contexts/SessionContext';
+import { GitMerge, Smartphone, Cloud, X } from 'lucide-react-native';
+import type { ConflictChoice, SyncConflict, SyncedTermField, SyncedValue } from '../services/SessionSyncService';
+
+const FIELD_LABELS: Record<SyncedTermField, { key: string; fallback: string }> = {
+  is_confirmed_by_user: { key: 'sync.field.confirmed', fallback: 'Confirmed by user' },
+  confirmed_modified_text: { key: 'sync.field.confirmedText', fallback: 'Confirmed text' },
+  expert_override_is_valid_sharia: { key: 'sync.field.expertRuling', fallback: 'Expert ruling' },
+  has_expert_feedback: { key: 'sync.field.expertFeedback', fallback: 'Expert feedback' },
+};
+
+const formatTime = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '' : date.toLocaleString();
+};
+
+// Lists conflicting term edits and lets the user keep this device's value or
+// take the other device's, field by field. Renders a banner while any exist.
+const SyncConflictResolver: React.FC = () => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const { syncConflicts, resolveSyncConflict } = useSession();
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  // Group by term so all fields of one term are decided together.
+  const groups = useMemo(() => {
+    const byTerm = new Map<string, SyncConflict[]>();
+    syncConflicts.forEach((conflict) => {
+      const key = `${conflict.sessionId}:${conflict.termId}`;
+      byTerm.set(key, [...(byTerm.get(key) || []), conflict]);
+    });
+    return Array.from(byTerm.values());
+  }, [syncConflicts]);
+
+  if (syncConflicts.length === 0) return null;
+
+  const formatValue = (field: SyncedTermField, value: SyncedValue) => {
+    if (value === null || value === '') return t('sync.value.notSet') || 'Not set';
+    if (field === 'expert_override_is_valid_sharia') {
+      return value
+        ? t('filter.compliant') || 'Compliant'
+        : t('filter.non-compliant') || 'Non-Compliant';
+    }
+    if (typeof value === 'boolean') {
+      return value ? t('sync.value.yes') || 'Yes' : t('sync.value.no') || 'No';
+    }
+    return value;
+  };
+
+  const handleResolve = async (conflict: SyncConflict, choice: ConflictChoice) => {
+    setResolvingId(conflict.id);
+    try {
+      await resolveSyncConflict(conflict.id, choice);
+    } finally {
+      setResolvingId(null);
+    }
+    if (syncConflicts.length <= 1) setIsOpen(false);
+  };
+
+  const renderSide = (
+    conflict: SyncConflict,
+    choice: ConflictChoice,
+  ) => {
+    const isLocal = choice === 'local';
+    const Icon = isLocal ? Smartphone : Cloud;
+    const isResolving = resolvingId === conflict.id;
+
+    return (
+      <View style={styles.side}>
+        <View style={styles.sideHeader}>
+          <Icon size={14} color={isLocal ? '#3b82f6' : '#10b981'} />
+          <Text style={styles.sideTitle}>
+            {isLocal
+              ? t('sync.thisDevice') || 'This device'
+              : t('sync.otherDevice') || 'Other device'}
+          </Text>
+        </View>
+        <Text style={[styles.sideValue, { textAlign: isRTL ? 'right' : 'left' }]}>
+          {formatValue(conflict.field, isLocal ? conflict.local : conflict.remote)}
+        </Text>
+        <Text style={styles.sideTime}>
+          {formatTime(isLocal ? conflict.localUpdatedAt : conflict.remoteUpdatedAt)}
+        </Text>
+        <TouchableOpacity
+          style={[styles.keepButton, { backgroundColor: isLocal ? '#3b82f6' : '#10b981' }]}
+          onPress={() => handleResolve(conflict, choice)}
+          disabled={resolvingId !== null}
+        >
+          {isResolving ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.keepButtonText}>
+              {isLocal
+                ? t('sync.keepThisDevice') || 'Keep this'
+                : t('sync.useOtherDevice') || 'Use this'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.banner} onPress={() => setIsOpen(true)} activeOpacity={0.8}>
+        <GitMerge size={16} color="#ffffff" />
+        <Text style={styles.bannerText}>
+          {(t('sync.conflictsBanner') || '{count} edits conflict with another device').replace(
+            '{count}',
+            String(syncConflicts.length),
+          )}
+        </Text>
+        <Text style={styles.bannerAction}>{t('sync.review') || 'Review'}</Text>
+      </TouchableOpacity>
+
+      <Modal visible={isOpen} animationType="slide" transparent onRequestClose={() => setIsOpen(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>
+                {t('sync.conflictsTitle') || 'Resolve Sync Conflicts'}
+              </Text>
+              <TouchableOpacity onPress={() => setIsOpen(false)}>
+                <X size={22} color={isDark ? '#d1d5db' : '#374151'} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.sheetSubtitle}>
+              {t('sync.conflictsDescription') ||
+                'These terms were changed differently on this device and on another one. Choose which version to keep.'}
+            </Text>
+
+            <ScrollView contentContainerStyle={styles.list}>
+              {groups.map((conflicts) => (
+                <View key={`${conflicts[0].sessionId}:${conflicts[0].termId}`} style={styles.card}>
+                  <Text style={styles.sessionName} numberOfLines={1}>
+                    {conflicts[0].sessionName}
+                  </Text>
+                  <Text style={[styles.termText, { textAlign: isRTL ? 'right' : 'left' }]} numberOfLines={3}>
+                    {conflicts[0].termText}
+                  </Text>
+
+                  {conflicts.map((conflict) => (
+                    <View key={conflict.id} style={styles.fieldBlock}>
+                      <Text style={styles.fieldLabel}>
+                        {t(FIELD_LABELS[conflict.field].key) || FIELD_LABELS[conflict.field].fallback}
+                      </Text>
+                      <View style={styles.sides}>
+                        {renderSide(conflict, 'local')}
+                        {renderSide(conflict, 'remote')}
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  banner: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#3b82f6',
+  },
+  bannerText: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  bannerAction: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
+    textDecorationLine: 'underline',
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: isDark ? '#111827' : '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 16,
+  },
+  sheetHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: isDark ? '#f9fafb' : '#111827',
+  },
+  sheetSubtitle: {
+    fontSize: 13,
+    color: isDark ? '#9ca3af' : '#6b7280',
+    paddingHorizontal: 16,
+    marginTop: 6,
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#e5e7eb',
+    backgroundColor: isDark ? '#1f2937' : '#f9fafb',
+    padding: 12,
+    gap: 8,
+  },
+  sessionName: {
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  termText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: isDark ? '#e5e7eb' : '#1f2937',
+  },
+  fieldBlock: {
+    gap: 6,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: isDark ? '#d1d5db' : '#374151',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  sides: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 8,
+  },
+  side: {
+    flex: 1,
+    borderRadius: 10,
+    padding: 10,
+    gap: 6,
+    backgroundColor: isDark ? '#111827' : '#ffffff',
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#e5e7eb',
+  },
+  sideHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  sideTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#374151',
+  },
+  sideValue: {
+    fontSize: 14,
+    color: isDark ? '#f9fafb' : '#111827',
+  },
+  sideTime: {
+    fontSize: 10,
+    color: isDark ? '#6b7280' : '#9ca3af',
+  },
+  keepButton: {
+    marginTop: 'auto',
+    borderRadius: 8,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  keepButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
+
+export default SyncConflictResolver;
@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import type { FrontendAnalysisTerm } from '../contexts/SessionContext';
+import { GitCompare, Columns2, AlignLeft } from 'lucide-react-native';
+import { diffWords, getDiffStats, hasChanges, isRtlText, DiffSegment } from '../utils/textDiff';
+
+type TermVersionKey = 'original' | 'ai' | 'reviewed' | 'confirmed';
+type DiffMode = 'inline' | 'sideBySide';
+
+interface TermVersion {
+  key: TermVersionKey;
+  text: string;
+}
+
+interface TermDiffViewProps {
+  term: FrontendAnalysisTerm;
+  // Starts in side-by-side mode, for wide layouts such as the expert modal.
+  initialMode?: DiffMode;
+}
+
+const VERSION_LABELS: Record<TermVersionKey, { key: string; fallback: string }> = {
+  original: { key: 'diff.version.original', fallback: 'Original' },
+  ai: { key: 'diff.version.ai', fallback: 'AI suggestion' },
+  reviewed: { key: 'diff.version.reviewed', fallback: 'Reviewed' },
+  confirmed: { key: 'diff.version.confirmed', fallback: 'Confirmed' },
+};
+
+// Versions of a term in the order they come about. The confirmed text is the
+// user's own while the session is open and the server's once reloaded.
+const getTermVersions = (term: FrontendAnalysisTerm): TermVersion[] => {
+  const candidates: Array<[TermVersionKey, string | null | undefined]> = [
+    ['original', term.term_text],
+    ['ai', term.modified_term],
+    ['reviewed', term.reviewedSuggestion],
+    ['confirmed', term.isUserConfirmed ? term.userModifiedText || term.confirmed_modified_text : null],
+  ];
+  return candidates
+    .filter((candidate): candidate is [TermVersionKey, string] => !!candidate[1]?.trim())
+    .map(([key, text]) => ({ key, text }));
+};
+
+// Word-level comparison of two versions of a term, inline or side by side,
+// with pickers for which versions to compare. Renders nothing while the term
+// has a single version.
+const TermDiffView: React.FC<TermDiffViewProps> = ({ term, initialMode = 'inline' }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  const versions = useMemo(
+    () => getTermVersions(term),
+    [term.term_text, term.modified_term, term.reviewedSuggestion, term.isUserConfirmed, term.userModifiedText, term.confirmed_modified_text]
+  );
+  const latestKey = versions[versions.length - 1]?.key;
+
+  const [mode, setMode] = useState<DiffMode>(initialMode);
+  const [fromKey, setFromKey] = useState<TermVersionKey>('original');
+  const [toKey, setToKey] = useState<TermVersionKey | undefined>(latestKey);
+
+  // Follow the newest version as it appears (review, confirmation).
+  useEffect(() => {
+    setToKey(latestKey);
+  }, [latestKey]);
+
+  const from = versions.find((version) => version.key === fromKey) ?? versions[0];
+  const to = versions.find((version) => version.key === toKey) ?? versions[versions.length - 1];
+
+  const segments = useMemo(
+    () => (from && to ? diffWords(from.text, to.text) : []),
+    [from?.text, to?.text]
+  );
+
+  if (versions.length < 2 || !from || !to) return null;
+
+  const stats = getDiffStats(segments);
+  const changed = hasChanges(segments);
+  const textIsRtl = isRtlText(to.text || from.text);
+  const textDirection = {
+    writingDirection: textIsRtl ? ('rtl' as const) : ('ltr' as const),
+    textAlign: textIsRtl ? ('right' as const) : ('left' as const),
+  };
+
+  const label = (key: TermVersionKey) => t(VERSION_LABELS[key].key) || VERSION_LABELS[key].fallback;
+
+  const renderSegments = (parts: DiffSegment[]) =>
+    parts.map((segment, index) => (
+      <Text
+        key={index}
+        style={
+          segment.type === 'insert'
+            ? styles.inserted
+            : segment.type === 'delete'
+              ? styles.deleted
+              : undefined
+        }
+      >
+        {segment.text}
+      </Text>
+    ));
+
+  const renderPicker = (
+    title: string,
+    selected: TermVersionKey,
+    disabled: TermVersionKey,
+    onSelect: (key: TermVersionKey) => void
+  ) => (
+    <View style={styles.pickerRow}>
+      <Text style={styles.pickerTitle}>{title}</Text>
+      <View style={styles.chips}>
+        {versions.map((version) => {
+          const isSelected = version.key === selected;
+          const isDisabled = version.key === disabled;
+          return (
+            <TouchableOpacity
+              key={version.key}
+              style={[styles.chip, isSelected && styles.chipSelected, isDisabled && styles.chipDisabled]}
+              onPress={() => onSelect(version.key)}
+              disabled={isDisabled}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {label(version.key)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <GitCompare size={15} color="#3b82f6" />
+        <Text style={styles.title}>{t('diff.title') || 'Compare Versions'}</Text>
+        <View style={styles.modeToggle}>
+          <TouchableOpacity
+            style={[styles.modeButton, mode === 'inline' && styles.modeButtonActive]}
+            onPress={() => setMode('inline')}
+            accessibilityLabel={t('diff.inline') || 'Inline'}
+          >
+            <AlignLeft size={14} color={mode === 'inline' ? '#ffffff' : isDark ? '#9ca3af' : '#6b7280'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.modeButton, mode === 'sideBySide' && styles.modeButtonActive]}
+            onPress={() => setMode('sideBySide')}
+            accessibilityLabel={t('diff.sideBySide') || 'Side by side'}
+          >
+            <Columns2 size={14} color={mode === 'sideBySide' ? '#ffffff' : isDark ? '#9ca3af' : '#6b7280'} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {renderPicker(t('diff.from') || 'From', from.key, to.key, setFromKey)}
+      {renderPicker(t('diff.to') || 'To', to.key, from.key, setToKey)}
+
+      {!changed ? (
+        <Text style={styles.noChanges}>{t('diff.noChanges') || 'These versions are identical.'}</Text>
+      ) : mode === 'inline' ? (
+        <View style={styles.textBox}>
+          <Text style={[styles.diffText, textDirection]}>{renderSegments(segments)}</Text>
+        </View>
+      ) : (
+        <View style={styles.columns}>
+          <View style={[styles.textBox, styles.column]}>
+            <Text style={styles.columnTitle}>{label(from.key)}</Text>
+            <Text style={[styles.diffText, textDirection]}>
+              {renderSegments(segments.filter((segment) => segment.type !== 'insert'))}
+            </Text>
+          </View>
+          <View style={[styles.textBox, styles.column]}>
+            <Text style={styles.columnTitle}>{label(to.key)}</Text>
+            <Text style={[styles.diffText, textDirection]}>
+              {renderSegments(segments.filter((segment) => segment.type !== 'delete'))}
+            </Text>
+          </View>
+        </View>
+      )}
+
+      {changed && (
+        <View style={styles.legend}>
+          <Text style={[styles.inserted, styles.legendItem]}>
+            {(t('diff.added') || '+{count} added').replace('{count}', String(stats.added))}
+          </Text>
+          <Text style={[styles.deleted, styles.legendItem]}>
+            {(t('diff.removed') || '-{count} removed').replace('{count}', String(stats.removed))}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    marginTop: 12,
+    gap: 8,
+  },
+  header: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDark ? '#f9fafb' : '#111827',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  modeToggle: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#e5e7eb',
+    overflow: 'hidden',
+  },
+  modeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  modeButtonActive: {
+    backgroundColor: '#3b82f6',
+  },
+  pickerRow: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  pickerTitle: {
+    width: 40,
+    fontSize: 12,
+    fontWeight: '600',
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  chips: {
+    flex: 1,
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#d1d5db',
+  },
+  chipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 12,
+    color: isDark ? '#d1d5db' : '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  textBox: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: isDark ? '#374151' : '#e5e7eb',
+    backgroundColor: isDark ? '#111827' : '#f9fafb',
+    padding: 10,
+  },
+  diffText: {
+    fontSize: 14,
+    lineHeight: 22,
+    color: isDark ? '#e5e7eb' : '#1f2937',
+  },
+  inserted: {
+    backgroundColor: isDark ? 'rgba(16, 185, 129, 0.25)' : '#d1fae5',
+    color: isDark ? '#6ee7b7' : '#065f46',
+  },
+  deleted: {
+    backgroundColor: isDark ? 'rgba(239, 68, 68, 0.25)' : '#fee2e2',
+    color: isDark ? '#fca5a5' : '#991b1b',
+    textDecorationLine: 'line-through',
+  },
+  columns: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 8,
+  },
+  column: {
+    flex: 1,
+    gap: 6,
+  },
+  columnTitle: {
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  noChanges: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: isDark ? '#9ca3af' : '#6b7280',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  legend: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 8,
+  },
+  legendItem: {
+    fontSize: 11,
+    fontWeight: '600',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+    textDecorationLine: 'none',
+  },
+});
+
+export default TermDiffView;
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  History,
+  ChevronDown,
+  RotateCcw,
+  FileText,
+  Sparkles,
+  Edit3,
+  MessageSquare,
+  UserCheck,
+  CloudOff,
+} from 'lucide-react-native';
+import type { TermRevision, TermRevisionSource } from '../../types/session';
+import { isRtlText } from '../utils/textDiff';
+
+interface TermRevisionTimelineProps {
+  // Oldest first, as stored.
+  revisions: TermRevision[];
+  onRevert: (revision: TermRevision) => void;
+  // Disables reverting while the term is being reviewed or confirmed.
+  isBusy?: boolean;
+}
+
+const SOURCE_META: Record<
+  TermRevisionSource,
+  { key: string; fallback: string; color: string; Icon: typeof FileText }
+> = {
+  original: { key: 'revisions.source.original', fallback: 'Original text', color: '#6b7280', Icon: FileText },
+  ai_suggestion: { key: 'revisions.source.ai_suggestion', fallback: 'AI suggestion', color: '#3b82f6', Icon: Sparkles },
+  user_edit: { key: 'revisions.source.user_edit', fallback: 'User edit', color: '#10b981', Icon: Edit3 },
+  qa_answer: { key: 'revisions.source.qa_answer', fallback: 'Q&A answer', color: '#8b5cf6', Icon: MessageSquare },
+  expert_correction: { key: 'revisions.source.expert_correction', fallback: 'Expert correction', color: '#f59e0b', Icon: UserCheck },
+  revert: { key: 'revisions.source.revert', fallback: 'Revert', color: '#ef4444', Icon: RotateCcw },
+};
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '' : date.toLocaleString();
+};
+
+// Collapsible timeline of a term's revisions, newest first, with a revert
+// action on every earlier text.
+const TermRevisionTimeline: React.FC<TermRevisionTimelineProps> = ({ revisions, onRevert, isBusy = false }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  if (revisions.length === 0) return null;
+
+  const latest = revisions[revisions.length - 1];
+  const newestFirst = [...revisions].reverse();
+
+  const authorLabel = (revision: TermRevision) => {
+    if (!revision.author) return t('revisions.author.unknown') || 'Earlier session';
+    if (revision.author.role === 'system') return t('revisions.author.system') || 'Analysis';
+    return (
+      revision.author.name ||
+      (revision.author.role === 'shariah_expert'
+        ? t('revisions.author.expert') || 'Sharia expert'
+        : t('revisions.author.user') || 'You')
+    );
+  };
+
+  const findRevision = (id?: string) => revisions.find((revision) => revision.id === id);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.toggle} onPress={() => setIsOpen(!isOpen)} activeOpacity={0.7}>
+        <History size={15} color={isDark ? '#9ca3af' : '#6b7280'} />
+        <Text style={styles.toggleText}>
+          {(t('revisions.title') || 'Revision History ({count})').replace('{count}', String(revisions.length))}
+        </Text>
+        <ChevronDown
+          size={16}
+          color={isDark ? '#9ca3af' : '#6b7280'}
+          style={{ transform: [{ rotate: isOpen ? '180deg' : '0deg' }] }}
+        />
+      </TouchableOpacity>
+
+      {isOpen &&
+        newestFirst.map((revision, index) => {
+          const meta = SOURCE_META[revision.source] ?? SOURCE_META.user_edit;
+          const { Icon } = meta;
+          const isLast = index === newestFirst.length - 1;
+          // Reverting to the text the term already has would change nothing.
+          const canRevert = revision.text !== latest.text && !revision.queued;
+          const restored = findRevision(revision.revertedFromId);
+          const textIsRtl = isRtlText(revision.text);
+
+          return (
+            <View key={revision.id} style={styles.item}>
+              <View style={styles.rail}>
+                <View style={[styles.dot, { backgroundColor: meta.color }]}>
+                  <Icon size={11} color="#ffffff" />
+                </View>
+                {!isLast && <View style={styles.line} />}
+              </View>
+
+              <View style={styles.body}>
+                <View style={styles.itemHeader}>
+                  <Text style={[styles.source, { color: meta.color }]}>
+                    {t(meta.key) || meta.fallback}
+                  </Text>
+                  <Text style={styles.action}>
+                    {t(`revisions.action.${revision.action}`) || revision.action}
+                  </Text>
+                  {revision.batchId && (
+                    <Text style={styles.action}>· {t('revisions.bulk') || 'Bulk action'}</Text>
+                  )}
+                  {revision.queued && <CloudOff size={12} color="#f59e0b" />}
+                </View>
+                <Text style={styles.meta}>
+                  {authorLabel(revision)} · {formatTime(revision.createdAt)}
+                </Text>
+
+                {restored && (
+                  <Text style={styles.meta}>
+                    {(t('revisions.restoredFrom') || 'Restores the version from {time}').replace(
+                      '{time}',
+                      formatTime(restored.createdAt),
+                    )}
+                  </Text>
+                )}
+
+                <Text
+                  style={[
+                    styles.text,
+                    {
+                      writingDirection: textIsRtl ? 'rtl' : 'ltr',
+                      textAlign: textIsRtl ? 'right' : 'left',
+                    },
+                  ]}
+                  numberOfLines={4}
+                >
+                  {revision.text}
+                </Text>
+
+                {revision.isValidSharia !== undefined && revision.isValidSharia !== null && (
+                  <Text
+                    style={[
+                      styles.ruling,
+                      { color: revision.isValidSharia ? '#10b981' : '#ef4444' },
+                    ]}
+                  >
+                    {revision.isValidSharia
+                      ? t('term.compliant') || 'Compliant'
+                      : t('term.non-compliant') || 'Non-Compliant'}
+                    {!revision.isValidSharia && revision.shariaIssue ? ` · ${revision.shariaIssue}` : ''}
+                  </Text>
+                )}
+
+                {canRevert && (
+                  <TouchableOpacity
+                    style={[styles.revertButton, isBusy && styles.revertButtonDisabled]}
+                    onPress={() => onRevert(revision)}
+                    disabled={isBusy}
+                  >
+                    <RotateCcw size={12} color="#3b82f6" />
+                    <Text style={styles.revertButtonText}>
+                      {t('revisions.revert') || 'Revert to this'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        })}
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  toggle: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  toggleText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#374151',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  item: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 10,
+  },
+  rail: {
+    alignItems: 'center',
+    width: 20,
+  },
+  dot: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    marginVertical: 2,
+    backgroundColor: isDark ? '#374151' : '#e5e7eb',
+  },
+  body: {
+    flex: 1,
+    paddingBottom: 14,
+    gap: 3,
+  },
+  itemHeader: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  source: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  action: {
+    fontSize: 12,
+    color: isDark ? '#9ca3af' : '#6b7280',
+  },
+  meta: {
+    fontSize: 11,
+    color: isDark ? '#6b7280' : '#9ca3af',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  text: {
+    marginTop: 4,
+    fontSize: 13,
+    lineHeight: 19,
+    color: isDark ? '#e5e7eb' : '#1f2937',
+  },
+  ruling: {
+    fontSize: 12,
+    fontWeight: '600',
+    textAlign: isRTL ? 'right' : 'left',
+  },
+  revertButton: {
+    alignSelf: isRTL ? 'flex-end' : 'flex-start',
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+  },
+  revertButtonDisabled: {
+    opacity: 0.5,
+  },
+  revertButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+});
+
+export default TermRevisionTimeline;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { CloudOff, AlertCircle, RefreshCw, Trash2 } from 'lucide-react-native';
+import type { OutboxEntry } from '../services/OutboxService';
+
+interface TermSyncBadgeProps {
+  // Outbox entries of a single term, oldest first.
+  entries: OutboxEntry[];
+  onRetry: (entryId: string) => void;
+  onDiscard: (entryId: string) => void;
+}
+
+const TermSyncBadge: React.FC<TermSyncBadgeProps> = ({ entries, onRetry, onDiscard }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const styles = getStyles(isDark, isRTL);
+
+  if (entries.length === 0) return null;
+
+  // Actions target the entry that holds the term back: the failed one, or the
+  // oldest still waiting.
+  const failedEntry = entries.find((entry) => entry.status === 'failed');
+  const target = failedEntry ?? entries[0];
+  const isFailed = !!failedEntry;
+  const color = isFailed ? '#ef4444' : '#f59e0b';
+
+  const confirmDiscard = () => {
+    Alert.alert(
+      t('sync.discardTitle') || 'Discard Change?',
+      t('sync.discardMessage') || 'This change will not be sent to the server and the term will go back to its previous state.',
+      [
+        { text: t('common.cancel') || 'Cancel', style: 'cancel' },
+        {
+          text: t('sync.discard') || 'Discard',
+          style: 'destructive',
+          onPress: () => onDiscard(target.id),
+        },
+      ],
+    );
+  };
+
+  return (
+    <View style={[styles.container, { borderColor: color }]}>
+      <View style={styles.statusRow}>
+        {isFailed ? <AlertCircle size={14} color={color} /> : <CloudOff size={14} color={color} />}
+        <Text style={[styles.statusText, { color }]}>
+          {isFailed
+            ? t('sync.failed') || 'Sync failed'
+            : t('sync.pending') || 'Pending sync'}
+          {entries.length > 1 ? ` (${entries.length})` : ''}
+        </Text>
+      </View>
+
+      {isFailed && target.lastError ? (
+        <Text style={[styles.errorText, { textAlign: isRTL ? 'right' : 'left' }]} numberOfLines={2}>
+          {target.lastError}
+        </Text>
+      ) : null}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => onRetry(target.id)}>
+          <RefreshCw size={13} color={isDark ? '#d1d5db' : '#374151'} />
+          <Text style={styles.actionText}>{t('sync.retry') || 'Retry'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={confirmDiscard}>
+          <Trash2 size={13} color="#ef4444" />
+          <Text style={[styles.actionText, styles.discardText]}>
+            {t('sync.discard') || 'Discard'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    backgroundColor: isDark ? '#1f2937' : '#fffbeb',
+    gap: 6,
+  },
+  statusRow: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  errorText: {
+    fontSize: 12,
+    color: isDark ? '#fca5a5' : '#b91c1c',
+  },
+  actions: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: isDark ? '#374151' : '#f3f4f6',
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#374151',
+  },
+  discardText: {
+    color: '#ef4444',
+  },
+});
+
+export default TermSyncBadge;
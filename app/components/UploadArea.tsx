@@ -31,6 +31,7 @@ const UploadArea: React.FC<UploadAreaProps> = ({
   const { addContract } = useContract();
   const { 
     uploadAndAnalyzeContract, 
+    cancelUpload,
     isUploading, 
     uploadProgress, 
     isAnalyzingContract,
@@ -278,6 +279,9 @@ const UploadArea: React.FC<UploadAreaProps> = ({
                   </View>
                   <Text style={styles.progressText}>{Math.round(uploadProgress)}%</Text>
                 </View>
+                <TouchableOpacity style={styles.cancelUploadButton} onPress={cancelUpload}>
+                  <Text style={styles.cancelUploadText}>{t('common.cancel') || 'Cancel'}</Text>
+                </TouchableOpacity>
               </Animated.View>
             ) : selectedFile ? (
               <View style={styles.statusContainer}>
@@ -513,6 +517,19 @@ const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
     fontWeight: '600',
     color: '#3b82f6',
   },
+  cancelUploadButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: isDark ? '#4b5563' : '#d1d5db',
+  },
+  cancelUploadText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: isDark ? '#d1d5db' : '#6b7280',
+  },
   analyzeButtonContainer: {
     marginTop: 20,
     alignItems: 'center',
@@ -1,7 +1,20 @@
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
 import { Alert } from 'react-native';
 import { storage, storageKeys } from '../utils/storage';
 import { authApi, LoginCredentials, SignupCredentials, User } from '../services/api';
+import AuthTokenManager from '../services/AuthTokenManager';
+
+// Why the sign-in screen is showing: the user asked to sign in, or the
+// server no longer accepts the stored credentials.
+export type LoginPromptReason = 'sign_in' | 'session_expired';
+
+export interface LoginPrompt {
+  reason: LoginPromptReason;
+  // Form to open with; defaults to signing in.
+  mode?: 'login' | 'signup';
+  // The account that was signed in, to fill in the form.
+  email?: string;
+}
 
 // ✅ النوع بعد التعديل
 interface AuthContextType {
@@ -12,6 +25,9 @@ interface AuthContextType {
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
   isGuestMode: boolean; // ✅ تمت الإضافة هنا
+  loginPrompt: LoginPrompt | null;
+  promptLogin: (mode?: 'login' | 'signup') => void;
+  dismissLoginPrompt: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,6 +35,28 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [loginPrompt, setLoginPrompt] = useState<LoginPrompt | null>(null);
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+
+  // The token manager clears the credentials when they cannot be renewed.
+  // Only the signed-in user is dropped here: sessions, queued edits and the
+  // screen underneath the sign-in prompt stay as they are.
+  useEffect(() => {
+    const tokens = AuthTokenManager.getInstance();
+    const unsubscribe = tokens.subscribe((event) => {
+      if (event.type !== 'session_expired') return;
+      const expiredUser = userRef.current;
+      storage.deleteItemAsync(storageKeys.USER_DATA).catch((error) =>
+        console.error('❌ Failed to clear user data:', error)
+      );
+      setUser(null);
+      if (expiredUser) {
+        setLoginPrompt({ reason: 'session_expired', email: expiredUser.email });
+      }
+    });
+    return unsubscribe;
+  }, []);
 
   useEffect(() => {
     const loadStoredAuth = async () => {
@@ -26,15 +64,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         console.log('🔐 Loading stored authentication data...');
         
         // Use default values to prevent crashes
-        const storedToken = await storage.getItemAsync(storageKeys.AUTH_TOKEN);
+        const tokens = AuthTokenManager.getInstance();
+        await tokens.initialize();
+        const hasToken = await tokens.hasCredentials();
         const storedUser = await storage.getItemAsync(storageKeys.USER_DATA);
 
         console.log('🔐 Retrieved auth data:', { 
-          hasToken: !!storedToken, 
+          hasToken, 
           hasUser: !!storedUser 
         });
 
-        if (storedToken && storedUser) {
+        if (hasToken && storedUser) {
           try {
             const parsedUser = JSON.parse(storedUser);
             setUser(parsedUser);
@@ -42,7 +82,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           } catch (parseError) {
             console.error('❌ Failed to parse stored user data:', parseError);
             // Clear corrupted data
-            await storage.deleteItemAsync(storageKeys.AUTH_TOKEN);
+            await AuthTokenManager.getInstance().clear();
             await storage.deleteItemAsync(storageKeys.USER_DATA);
           }
         } else {
@@ -59,66 +99,70 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     loadStoredAuth();
   }, []);
 
+  // Signing in does not touch isLoading: the app keeps the current screen
+  // mounted so work started before the session expired is still there.
   const login = async (credentials: LoginCredentials) => {
     try {
-      setIsLoading(true);
       const response = await authApi.login(credentials);
 
-      await storage.setItemAsync(storageKeys.AUTH_TOKEN, response.token);
+      await AuthTokenManager.getInstance().setTokens(response);
       await storage.setItemAsync(storageKeys.USER_DATA, JSON.stringify(response.user));
 
       setUser(response.user);
+      setLoginPrompt(null);
     } catch (error) {
       console.error('Login failed:', error);
       Alert.alert('Login Failed', 'Please check your credentials and try again.');
       throw error;
-    } finally {
-      setIsLoading(false);
     }
   };
 
   const signup = async (credentials: SignupCredentials) => {
     try {
-      setIsLoading(true);
       const response = await authApi.signup(credentials);
 
-      await storage.setItemAsync(storageKeys.AUTH_TOKEN, response.token);
+      await AuthTokenManager.getInstance().setTokens(response);
       await storage.setItemAsync(storageKeys.USER_DATA, JSON.stringify(response.user));
 
       setUser(response.user);
+      setLoginPrompt(null);
     } catch (error) {
       console.error('Signup failed:', error);
       Alert.alert('Signup Failed', 'Please try again.');
       throw error;
-    } finally {
-      setIsLoading(false);
     }
   };
 
   const logout = async () => {
     try {
-      await storage.deleteItemAsync(storageKeys.AUTH_TOKEN);
+      await AuthTokenManager.getInstance().clear();
       await storage.deleteItemAsync(storageKeys.USER_DATA);
       setUser(null);
+      setLoginPrompt(null);
     } catch (error) {
       console.error('Logout failed:', error);
     }
   };
 
+  // An expired session is handled by the token manager, so a failure here
+  // (offline, server error) keeps the user signed in.
   const refreshUser = async () => {
     try {
-      const storedToken = await storage.getItemAsync(storageKeys.AUTH_TOKEN);
-      if (storedToken) {
+      if (await AuthTokenManager.getInstance().hasCredentials()) {
         const response = await authApi.getProfile();
         await storage.setItemAsync(storageKeys.USER_DATA, JSON.stringify(response));
         setUser(response);
       }
     } catch (error) {
       console.error('Failed to refresh user:', error);
-      await logout();
     }
   };
 
+  const promptLogin = (mode: 'login' | 'signup' = 'login') =>
+    setLoginPrompt({ reason: 'sign_in', mode });
+
+  const dismissLoginPrompt = () => setLoginPrompt(null);
+
   // ✅ متغير isGuestMode الجديد
   const isGuestMode = user === null;
 
@@ -130,7 +174,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       signup,
       logout,
       refreshUser,
-      isGuestMode // ✅ تم تمريره هنا
+      isGuestMode, // ✅ تم تمريره هنا
+      loginPrompt,
+      promptLogin,
+      dismissLoginPrompt,
     }}>
       {children}
     </AuthContext.Provider>
@@ -6,11 +6,13 @@ import React, {
   ReactNode,
   useCallback,
 } from "react";
-import { storage, storeSessionData, getOfflineAnalyses } from '../utils/storage';
+import { storage, storageKeys, storeSessionData, getOfflineAnalyses } from '../utils/storage';
 import { SessionDetails, LocalContract } from '../../types/session';
 import { computeAnalyticsFromLocal } from '../utils/analytics';
 import ProcessingService from '../services/ProcessingService';
 import BackgroundTaskManager from '../services/BackgroundTaskManager';
+import BatchAnalysisService from '../services/BatchAnalysisService';
+import ConnectivityService from '../services/ConnectivityService';
 import { notificationsService } from '../services/NotificationsService';
 import { activateKeepAwake, deactivateKeepAwake } from 'expo-keep-awake';
 import { useSession } from './SessionContext';
@@ -27,10 +29,17 @@ interface ContractContextType {
   error: string | null;
   // Background processing functions
   startBackgroundAnalysis: (sessionId: string, file: any) => Promise<void>;
+  // Stops a running analysis on the device and the server and marks its
+  // contract as cancelled.
+  cancelAnalysis: (sessionId: string) => Promise<void>;
+  // Analyses several files, `concurrency` at a time; resolves to the batch id.
+  startBatchAnalysis: (files: any[], concurrency?: number) => Promise<string>;
   isAnalyzing: (sessionId: string) => boolean;
   getActiveAnalyses: () => string[];
   refreshAnalytics: () => Promise<void>;
   analytics: any;
+  // Whether the backend is reachable; true until a probe says otherwise.
+  isOnline: boolean;
 }
 
 const ContractContext = createContext<ContractContextType | undefined>(undefined);
@@ -44,6 +53,7 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
   const [analytics, setAnalytics] = useState<any>(null);
   const [processingService] = useState(() => ProcessingService.getInstance());
   const [backgroundTaskManager] = useState(() => BackgroundTaskManager.getInstance());
+  const [isOnline, setIsOnline] = useState(() => ConnectivityService.getInstance().isOnline());
 
   useEffect(() => {
     initializeServices();
@@ -59,6 +69,12 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
       // Initialize background task manager
       await backgroundTaskManager.initialize();
       
+      // Continue batch analyses interrupted by the app closing
+      await BatchAnalysisService.getInstance().initialize();
+      
+      // Start watching backend reachability
+      ConnectivityService.getInstance().start();
+      
       // Initialize notifications
       await notificationsService.requestPermissions();
       
@@ -84,7 +100,7 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
       console.log('🔄 Loading contracts and refreshing analytics...');
       
       // Load from local storage (primary source)
-      const localData = await storage.getItemAsync('contracts_local');
+      const localData = await storage.getItemAsync(storageKeys.LOCAL_CONTRACTS);
       let localContracts: LocalContract[] = [];
       
       if (localData) {
@@ -143,7 +159,7 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
       
       // Save merged contracts back to local storage
       if (finalContracts.length > localContracts.length) {
-        await storage.setItemAsync('contracts_local', JSON.stringify(finalContracts));
+        await storage.setItemAsync(storageKeys.LOCAL_CONTRACTS, JSON.stringify(finalContracts));
         console.log('💾 Merged contracts saved to local storage');
       }
       
@@ -170,9 +186,43 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
     }
   }, []);
 
+  // Sync everything that piled up while the backend was unreachable as soon
+  // as it comes back.
+  useEffect(() => {
+    const connectivity = ConnectivityService.getInstance();
+    setIsOnline(connectivity.isOnline());
+
+    return connectivity.subscribe(async ({ state, reconnected }) => {
+      setIsOnline(state.isOnline !== false);
+      if (!reconnected) return;
+
+      try {
+        console.log('🔄 Backend reachable again, syncing pending data...');
+        const hasNewData = await backgroundTaskManager.syncPendingData();
+        if (hasNewData) {
+          await Promise.all([loadContracts(), refreshAnalytics()]);
+        }
+      } catch (error) {
+        console.error('❌ Sync on reconnect failed:', error);
+      }
+    });
+  }, [backgroundTaskManager, loadContracts, refreshAnalytics]);
+
+  // Analyses of a batch reach history as they complete
+  useEffect(() => {
+    return BatchAnalysisService.getInstance().subscribe(async (event) => {
+      if (event.type !== 'fileCompleted' && event.type !== 'completed') return;
+      try {
+        await Promise.all([loadContracts(), refreshAnalytics()]);
+      } catch (error) {
+        console.error('❌ Failed to refresh after batch progress:', error);
+      }
+    });
+  }, [loadContracts, refreshAnalytics]);
+
   const saveContracts = async (contractsToSave: LocalContract[]) => {
     try {
-      await storage.setItemAsync('contracts_local', JSON.stringify(contractsToSave));
+      await storage.setItemAsync(storageKeys.LOCAL_CONTRACTS, JSON.stringify(contractsToSave));
       // Auto-refresh analytics when contracts change
       await refreshAnalytics();
     } catch (error) {
@@ -271,7 +321,7 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
   const clearContracts = async () => {
     try {
       setContracts([]);
-      await storage.deleteItemAsync('contracts_local');
+      await storage.deleteItemAsync(storageKeys.LOCAL_CONTRACTS);
       await refreshAnalytics();
       console.log('🧹 All contracts cleared');
     } catch (error) {
@@ -314,6 +364,37 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const cancelAnalysis = async (sessionId: string) => {
+    console.log('🛑 Cancelling analysis for session:', sessionId);
+    try {
+      await processingService.cancelAnalysis(sessionId);
+    } catch (error) {
+      console.error('❌ Failed to cancel analysis:', error);
+    }
+
+    // Kept in history as cancelled, not as a failed or pending analysis
+    if (contracts.some(c => c.id === sessionId)) {
+      await updateContract(sessionId, {
+        isProcessing: false,
+        status: 'cancelled',
+        cancelledAt: new Date().toISOString(),
+      });
+    }
+
+    // ProcessingService releases keep awake once no analysis is left; other
+    // analyses still running keep navigation locked as well
+    if (processingService.getActiveJobs().length === 0) {
+      console.log('🔓 Unlocking navigation - analysis cancelled');
+      setIsAnalyzingContract(false);
+    }
+  };
+
+  const startBatchAnalysis = async (files: any[], concurrency?: number): Promise<string> => {
+    console.log(`📦 Starting batch analysis of ${files.length} files`);
+    const batch = await BatchAnalysisService.getInstance().startBatch(files, { concurrency });
+    return batch.id;
+  };
+
   const isAnalyzing = (sessionId: string): boolean => {
     const activeJobs = processingService.getActiveJobs();
     return activeJobs.includes(sessionId);
@@ -334,10 +415,13 @@ export const ContractProvider = ({ children }: { children: ReactNode }) => {
       isLoading,
       error,
       startBackgroundAnalysis,
+      cancelAnalysis,
+      startBatchAnalysis,
       isAnalyzing,
       getActiveAnalyses,
       refreshAnalytics,
-      analytics
+      analytics,
+      isOnline
     }}>
       {children}
     </ContractContext.Provider>
@@ -6,26 +6,147 @@ import React, {
   useCallback,
   useMemo,
   useEffect,
+  useRef,
 } from "react";
 import { Alert } from "react-native";
 import {
+  getQaThreads,
   getSessionData,
+  getTermRevisions,
+  removeQaThreads,
+  removeTermRevisions,
   storage,
   storageKeys,
+  storeQaThreads,
   storeSessionData,
+  storeTermRevisions,
 } from "../utils/storage";
+import { useAuth } from "./AuthContext";
 import * as api from "../services/api";
+import OutboxService, { isTransientError } from "../services/OutboxService";
+import { runBatch } from "../utils/batchQueue";
+import type { BatchProgress } from "../utils/batchQueue";
+import {
+  computeWeightedCompliance,
+  countIssuesBySeverity,
+} from "../utils/termSeverity";
+import type { TermSeverity } from "../utils/termSeverity";
+import type { OutboxEntry, OutboxMutation } from "../services/OutboxService";
+import ConnectivityService from "../services/ConnectivityService";
+import SessionSyncService, {
+  SYNCED_TERM_FIELDS,
+  syncedValuesForMutation,
+} from "../services/SessionSyncService";
+import type {
+  ConflictChoice,
+  SyncConflict,
+} from "../services/SessionSyncService";
+import ExpertReviewService from "../services/ExpertReviewService";
+import AnalysisJobTracker from "../services/AnalysisJobTracker";
+import { forgetResumableUpload } from "../services/ResumableUpload";
+import type { AnalysisJobSnapshot } from "../services/AnalysisJobTracker";
+import type { TermReviewStatus } from "../services/ExpertReviewService";
 import type {
   SessionDetailsApiResponse,
   GenerateModifiedContractApiResponse,
   GenerateMarkedContractApiResponse,
   ApiAnalysisTerm,
   ExpertFeedbackPayload,
+  ExpertReviewRequest,
   CloudinaryFileInfo,
+  UserRole,
 } from "../services/api";
+import {
+  getAccountRole,
+  getEffectiveRole,
+  getPermissions,
+} from "../utils/permissions";
+import type { Permissions } from "../utils/permissions";
+import type {
+  QaMessage,
+  QaThreads,
+  TermRevision,
+  TermRevisionSource,
+  TermRevisions,
+} from "../../types/session";
+
+// Bulk actions send at most this many confirmations at once, and start them
+// at least this far apart.
+const BULK_CONCURRENCY = 2;
+const BULK_INTERVAL_MS = 300;
+
+// Turns typed API errors into messages the user can act on; anything else
+// falls back to its own message or the supplied default.
+const describeApiError = (err: unknown, fallback: string): string => {
+  if (err instanceof api.AuthError) {
+    return "Your session has expired. Please sign in again.";
+  }
+  if (err instanceof api.NetworkError) {
+    return "Unable to reach the server. Please check your connection and try again.";
+  }
+  if (err instanceof api.TimeoutError) {
+    return err.message || "The server took too long to respond. Please try again.";
+  }
+  if (err instanceof api.ServerError) {
+    return "The server encountered an error. Please try again later.";
+  }
+  if (err instanceof api.ForbiddenError) {
+    return "Your account is not allowed to do this.";
+  }
+  if (err instanceof api.ValidationError) {
+    return err.message || fallback;
+  }
+  if (err instanceof api.IncompatibleResponseError) {
+    return `The server sent a response this version of the app cannot read (field "${err.path}"). Please update the app or try again later.`;
+  }
+  if (err instanceof Error) {
+    return err.message;
+  }
+  if (typeof err === "string") {
+    return err;
+  }
+  return fallback;
+};
+
+// Key used for the general contract question in the streaming and thread maps.
+export const GENERAL_QUESTION_KEY = "__general__";
+
+// How many earlier turns of a thread are sent to /interact as context.
+const MAX_QA_CONTEXT_TURNS = 6;
+
+// Re-applies changes still waiting in the offline outbox on top of terms
+// loaded from storage or the server.
+const withQueuedChanges = <T extends { term_id: string }>(
+  sid: string,
+  terms: T[],
+): T[] => {
+  const queued = OutboxService.getInstance().getEntries(sid);
+  if (queued.length === 0) return terms;
+
+  return terms.map((term) =>
+    queued
+      .filter((entry) => entry.mutation.termId === term.term_id)
+      .reduce<T>((patched, entry) => ({ ...patched, ...entry.patch }), term),
+  );
+};
+
+// Adds the terms of a partial analysis that are not shown yet. Terms already
+// shown keep their local state (answers, edits) until the session is loaded.
+const mergePartialTerms = (
+  current: FrontendAnalysisTerm[],
+  incoming: ApiAnalysisTerm[],
+): FrontendAnalysisTerm[] => {
+  const known = new Set(current.map((term) => term.term_id));
+  const added = incoming.filter((term) => {
+    if (known.has(term.term_id)) return false;
+    known.add(term.term_id);
+    return true;
+  });
+  return added.length > 0 ? [...current, ...added] : current;
+};
 
 // --- Type Definitions ---
-export type UserRole = "regular_user" | "shariah_expert";
+export type { UserRole };
 
 export interface SessionInteraction {
   sessionId: string;
@@ -49,6 +170,9 @@ export interface FrontendAnalysisTerm extends ApiAnalysisTerm {
   expertFeedbackHistory?: ExpertFeedbackPayload[];
   lastModified?: string;
   interactionCount?: number;
+  // Flagged by the user for a Sharia expert to look at. Flagged terms are
+  // what requestExpertReview sends when no terms are given.
+  expertReviewRequested?: boolean;
 }
 
 export interface SessionDetails extends SessionDetailsApiResponse {
@@ -64,13 +188,88 @@ export interface ExtendedSessionDetailsApiResponse
   isBookmarked?: boolean;
 }
 
+// Sync state of a term with changes waiting in the offline outbox.
+export type TermSyncState = "pending" | "failed";
+
+// `"queued"` means the server was unreachable: the change was applied locally
+// and will be sent when the outbox is replayed.
+export type MutationResult = boolean | "queued";
+
+// Term fields a bulk action can change.
+type BulkTermSnapshot = Pick<
+  FrontendAnalysisTerm,
+  | "isUserConfirmed"
+  | "userModifiedText"
+  | "reviewedSuggestion"
+  | "isReviewedSuggestionValid"
+  | "reviewedSuggestionIssue"
+  | "expertReviewRequested"
+>;
+
+// How a text reached the review or confirmation, for the revision log.
+export interface TermRevisionOptions {
+  source?: TermRevisionSource;
+  revertedFromId?: string;
+  batchId?: string;
+}
+
+export type BulkTermAction =
+  | "accept_ai"
+  | "confirm"
+  | "reset"
+  | "mark_for_review";
+
+export interface BulkActionFailure {
+  termId: string;
+  error: string;
+}
+
+export interface BulkActionReport {
+  batchId: string;
+  action: BulkTermAction;
+  // Set on the report of an undo, to the batch it reverted.
+  undoOf?: string;
+  total: number;
+  succeeded: string[];
+  // Applied locally and waiting in the offline outbox.
+  queued: string[];
+  failed: BulkActionFailure[];
+  // Never started because the batch was cancelled.
+  skipped: string[];
+}
+
+export interface BulkActionOptions {
+  onProgress?: (progress: BatchProgress) => void;
+  signal?: AbortSignal;
+}
+
 interface ComplianceStats {
   totalTerms: number;
   currentUserEffectiveCompliantCount: number;
   currentUserEffectiveNonCompliantCount: number;
   overallCompliancePercentage: number;
+  // Compliant share of terms weighted by the severity of their issues.
+  weightedCompliancePercentage: number;
+  // Issues still open, by severity.
+  openIssuesBySeverity: Record<TermSeverity, number>;
   expertReviewedTerms: number;
   userModifiedTerms: number;
+  // Set while the analysis is still running: the figures cover only the
+  // terms analysed so far.
+  isProvisional: boolean;
+  // Terms the server has yet to analyse, when it reported the total.
+  pendingTerms: number;
+}
+
+// An analysis whose terms are shown as the server reports them, before the
+// whole session is available.
+export interface PartialAnalysis {
+  jobId: string;
+  // Session the server files the analysis under, once it has reported it.
+  sessionId: string | null;
+  termsTotal: number | null;
+  // The analysis failed or was cancelled before every term was analysed.
+  failed: boolean;
 }
 
 interface SessionContextType {
@@ -78,12 +277,25 @@ interface SessionContextType {
   analysisTerms: FrontendAnalysisTerm[] | null;
   complianceStats: ComplianceStats | null;
   sessionDetails: SessionDetails | null;
+  // Set while analysisTerms holds the partial results of a running analysis;
+  // cleared once a session is loaded.
+  partialAnalysis: PartialAnalysis | null;
+  // Shows the terms of a running analysis as they arrive. The job must be
+  // followed by AnalysisJobTracker.
+  followPartialAnalysis: (jobId: string) => void;
+  // Role the app acts as: the account's role, or "regular_user" while an
+  // expert previews the regular user's view.
   currentUserRole: UserRole;
+  // Role of the signed-in account, as assigned by the server.
+  accountRole: UserRole;
+  // What the current role may do; check these rather than the role.
+  permissions: Permissions;
+  isPreviewingAsRegularUser: boolean;
+  // Ignored for accounts that cannot preview.
+  setPreviewAsRegularUser: (enabled: boolean) => void;
   sessionInteractions: SessionInteraction[];
   selectedSessionId: string | null;
   loadSessionData: (sessionId: string) => Promise<void>;
-  toggleUserRole: () => void;
-  setUserRole: (role: UserRole) => void;
   isUploading: boolean;
   uploadProgress: number;
   analysisProgress: number;
@@ -97,27 +309,90 @@ interface SessionContextType {
   isAskingQuestion: boolean;
   isReviewingModification: Record<string, boolean>;
   isProcessingGeneralQuestion: boolean;
+  // Keyed by term_id (or GENERAL_QUESTION_KEY); true once the first chunk
+  // of a streamed answer has arrived.
+  isStreamingAnswer: Record<string, boolean>;
   error: string | null;
   uploadError: string | null;
   analysisError: string | null;
   uploadAndAnalyzeContract: (file: any) => Promise<string | null>;
+  // Stops the upload of uploadAndAnalyzeContract and its analysis on the
+  // server; the upload then resolves to null without an error.
+  cancelUpload: () => void;
   askQuestionAboutTerm: (
     termId: string,
     question: string,
   ) => Promise<string | null>;
   askGeneralContractQuestion: (question: string) => Promise<string | null>;
+  stopQuestionStream: (termId?: string) => void;
+  // Conversation threads of the active session, keyed by term_id or
+  // GENERAL_QUESTION_KEY.
+  qaThreads: QaThreads;
+  getQaThread: (termId?: string) => QaMessage[];
   reviewUserModification: (
     termId: string,
     userTextToReview: string,
     originalTermText: string,
-  ) => Promise<boolean>;
+    options?: TermRevisionOptions,
+  ) => Promise<MutationResult>;
   confirmTermModification: (
     termId: string,
     textToConfirm: string,
-  ) => Promise<boolean>;
+    options?: TermRevisionOptions,
+  ) => Promise<MutationResult>;
+  // Revision log of a term in the active session, oldest first.
+  getTermRevisions: (termId: string) => TermRevision[];
+  // Reviews the revision's text again and confirms the result.
+  revertTermToRevision: (
+    termId: string,
+    revisionId: string,
+  ) => Promise<MutationResult>;
+  // Applies one action to several terms through a throttled queue. Resolves
+  // to null while another bulk action is still running.
+  applyBulkTermAction: (
+    action: BulkTermAction,
+    termIds: string[],
+    options?: BulkActionOptions,
+  ) => Promise<BulkActionReport | null>;
+  // Puts every term of the batch back as it was before it.
+  undoBulkTermAction: (
+    batchId: string,
+    options?: BulkActionOptions,
+  ) => Promise<BulkActionReport | null>;
+  // The latest bulk action of the session, while it can still be undone.
+  lastBulkAction: BulkActionReport | null;
+  isBulkProcessing: boolean;
   generateModifiedContract: () => Promise<GenerateModifiedContractApiResponse | null>;
   generateMarkedContract: () => Promise<GenerateMarkedContractApiResponse | null>;
-  submitExpertFeedback: (payload: ExpertFeedbackPayload) => Promise<boolean>;
+  submitExpertFeedback: (
+    payload: ExpertFeedbackPayload,
+  ) => Promise<MutationResult>;
+  // Whether the backend is reachable; true until a probe says otherwise.
+  isOnline: boolean;
+  // Offline outbox entries of the active session, oldest first.
+  outboxEntries: OutboxEntry[];
+  getTermSyncState: (termId: string) => TermSyncState | null;
+  getTermOutboxEntries: (termId: string) => OutboxEntry[];
+  retryOutboxEntry: (entryId: string) => Promise<void>;
+  discardOutboxEntry: (entryId: string) => Promise<void>;
+  // Term edits made on this and another device that could not be merged,
+  // across all sessions.
+  syncConflicts: SyncConflict[];
+  resolveSyncConflict: (
+    conflictId: string,
+    choice: ConflictChoice,
+  ) => Promise<void>;
+  // Expert review requests of the active session, newest first, and where
+  // each requested term stands.
+  expertReviewRequests: ExpertReviewRequest[];
+  termReviewStates: Record<string, TermReviewStatus>;
+  // Sends the given terms, or the whole contract when `termIds` is null, to
+  // the expert review queue.
+  requestExpertReview: (
+    termIds: string[] | null,
+    note?: string,
+  ) => Promise<boolean>;
+  refreshExpertReviews: () => Promise<void>;
   loadSessionFromHistory: (session: SessionDetailsApiResponse) => void;
   clearSession: () => void;
   getLocalSessions: () => Promise<SessionDetailsApiResponse[]>;
@@ -150,8 +425,7 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
   const [sessionDetails, setSessionDetails] = useState<SessionDetails | null>(
     null,
   );
-  const [currentUserRole, setCurrentUserRole] =
-    useState<UserRole>("regular_user");
+  const [previewAsRegularUser, setPreviewAsRegularUserState] = useState(false);
   const [sessionInteractions, setSessionInteractions] = useState<
     SessionInteraction[]
   >([]);
@@ -176,22 +450,61 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
   >({});
   const [isProcessingGeneralQuestion, setIsProcessingGeneralQuestion] =
     useState(false);
+  const [isStreamingAnswer, setIsStreamingAnswer] = useState<
+    Record<string, boolean>
+  >({});
+  const questionStreamsRef = useRef(new Map<string, AbortController>());
+  const uploadRef = useRef<{
+    controller: AbortController;
+    jobId: string;
+    file: any;
+  } | null>(null);
+  const [qaThreads, setQaThreads] = useState<QaThreads>({});
+  const qaThreadsRef = useRef<QaThreads>({});
+  const [termRevisions, setTermRevisions] = useState<TermRevisions>({});
+  const termRevisionsRef = useRef<TermRevisions>({});
+  const [lastBulkAction, setLastBulkAction] =
+    useState<BulkActionReport | null>(null);
+  const [isBulkProcessing, setIsBulkProcessing] = useState(false);
+  // Term fields as they were before the latest bulk action, for its undo.
+  const bulkUndoRef = useRef<{
+    batchId: string;
+    snapshots: Record<string, BulkTermSnapshot>;
+  } | null>(null);
+  const { user, refreshUser } = useAuth();
+  const accountRole = getAccountRole(user);
+  const currentUserRole = getEffectiveRole(accountRole, previewAsRegularUser);
+  const permissions = useMemo(
+    () => getPermissions(currentUserRole),
+    [currentUserRole],
+  );
+  const [allOutboxEntries, setAllOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [allExpertReviews, setAllExpertReviews] = useState<
+    ExpertReviewRequest[]
+  >([]);
+  const sessionIdRef = useRef<string | null>(null);
+  const [partialAnalysis, setPartialAnalysis] =
+    useState<PartialAnalysis | null>(null);
+  const [isOnline, setIsOnline] = useState(() =>
+    ConnectivityService.getInstance().isOnline(),
+  );
 
   // Error states
   const [error, setError] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
 
-  // Initialize user role from storage
+  // Restore the role preview; the role itself comes from the account
   useEffect(() => {
-    const loadUserRole = async () => {
+    const loadRolePreview = async () => {
       try {
-        const storedRole = await storage.getItemAsync(storageKeys.USER_ROLE);
-        if (storedRole) {
-          setCurrentUserRole(storedRole as UserRole);
-        }
+        const storedPreview = await storage.getItemAsync(
+          storageKeys.ROLE_PREVIEW,
+        );
+        setPreviewAsRegularUserState(storedPreview === "regular_user");
       } catch (error) {
-        console.error("Failed to load user role:", error);
+        console.error("Failed to load role preview:", error);
       }
     };
 
@@ -208,24 +521,150 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
       }
     };
 
-    loadUserRole();
+    loadRolePreview();
     loadInteractions();
   }, []);
 
-  const setUserRole = useCallback(async (role: UserRole) => {
-    try {
-      setCurrentUserRole(role);
-      await storage.setItemAsync(storageKeys.USER_ROLE, role);
-    } catch (error) {
-      console.error("Failed to save user role:", error);
-    }
+  // Restore the Q&A threads whenever a session becomes active, including
+  // sessions reopened from history.
+  useEffect(() => {
+    let cancelled = false;
+    qaThreadsRef.current = {};
+    setQaThreads({});
+    if (!sessionId) return;
+
+    getQaThreads(sessionId).then((threads) => {
+      if (cancelled) return;
+      // Keep any turn asked while the stored threads were loading.
+      const merged: QaThreads = { ...threads };
+      Object.entries(qaThreadsRef.current).forEach(([key, messages]) => {
+        merged[key] = [...(merged[key] || []), ...messages];
+      });
+      qaThreadsRef.current = merged;
+      setQaThreads(merged);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Same for the term revision logs.
+  useEffect(() => {
+    let cancelled = false;
+    termRevisionsRef.current = {};
+    setTermRevisions({});
+    bulkUndoRef.current = null;
+    setLastBulkAction(null);
+    if (!sessionId) return;
+
+    getTermRevisions(sessionId).then((stored) => {
+      if (cancelled) return;
+      const merged: TermRevisions = { ...stored };
+      Object.entries(termRevisionsRef.current).forEach(([termId, revisions]) => {
+        merged[termId] = [...(merged[termId] || []), ...revisions];
+      });
+      termRevisionsRef.current = merged;
+      setTermRevisions(merged);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    sessionIdRef.current = sessionId;
+  }, [sessionId]);
+
+  // Merge the terms of a running analysis into the session as the server
+  // reports them.
+  const partialJobId = partialAnalysis?.jobId ?? null;
+  useEffect(() => {
+    if (!partialJobId) return;
+    const tracker = AnalysisJobTracker.getInstance();
+
+    const applySnapshot = (snapshot: AnalysisJobSnapshot) => {
+      const status = snapshot.status;
+      if (snapshot.jobId !== partialJobId || !status?.session_id) return;
+      const partialSessionId = status.session_id;
+
+      // The first report of the session replaces whatever was shown before.
+      const isNewSession = sessionIdRef.current !== partialSessionId;
+      if (isNewSession) {
+        console.log("🧩 Showing partial results for session:", partialSessionId);
+        sessionIdRef.current = partialSessionId;
+        setSessionId(partialSessionId);
+        setSelectedSessionId(partialSessionId);
+        setSessionDetails(null);
+      }
+      setAnalysisTerms((prev) =>
+        mergePartialTerms(isNewSession || !prev ? [] : prev, snapshot.terms),
+      );
+      setPartialAnalysis((prev) =>
+        prev?.jobId === partialJobId
+          ? {
+              ...prev,
+              sessionId: partialSessionId,
+              termsTotal: status.terms_total ?? prev.termsTotal,
+              failed: status.stage === "failed" || status.stage === "cancelled",
+            }
+          : prev,
+      );
+    };
+
+    const current = tracker.getSnapshot(partialJobId);
+    if (current) applySnapshot(current);
+    return tracker.subscribe(applySnapshot);
+  }, [partialJobId]);
+
+  const followPartialAnalysis = useCallback((jobId: string) => {
+    setPartialAnalysis((prev) =>
+      prev?.jobId === jobId
+        ? prev
+        : { jobId, sessionId: null, termsTotal: null, failed: false },
+    );
+  }, []);
+
+  useEffect(() => {
+    const connectivity = ConnectivityService.getInstance();
+    setIsOnline(connectivity.isOnline());
+    return connectivity.subscribe(({ state }) =>
+      setIsOnline(state.isOnline !== false),
+    );
   }, []);
 
-  const toggleUserRole = useCallback(() => {
-    const newRole =
-      currentUserRole === "regular_user" ? "shariah_expert" : "regular_user";
-    setUserRole(newRole);
-  }, [currentUserRole, setUserRole]);
+  const setPreviewAsRegularUser = useCallback(
+    async (enabled: boolean) => {
+      if (enabled && !getPermissions(accountRole).canPreviewAsRegularUser) {
+        return;
+      }
+      try {
+        setPreviewAsRegularUserState(enabled);
+        if (enabled) {
+          await storage.setItemAsync(storageKeys.ROLE_PREVIEW, "regular_user");
+        } else {
+          await storage.deleteItemAsync(storageKeys.ROLE_PREVIEW);
+        }
+      } catch (error) {
+        console.error("Failed to save role preview:", error);
+      }
+    },
+    [accountRole],
+  );
+
+  // The server refused a call for this account's role; reload the profile in
+  // case the role was changed since sign-in.
+  const handleForbidden = useCallback(
+    (err: unknown) => {
+      if (err instanceof api.ForbiddenError && user) {
+        refreshUser().catch((error) =>
+          console.warn("⚠️ Failed to refresh the user profile:", error),
+        );
+      }
+    },
+    [user, refreshUser],
+  );
 
   const addInteraction = useCallback(
     async (
@@ -373,6 +812,10 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         storageKeys.SESSION_INTERACTIONS,
         JSON.stringify(updatedInteractions),
       );
+
+      // And its Q&A conversation threads and term revisions
+      await removeQaThreads(sessionIdToDelete);
+      await removeTermRevisions(sessionIdToDelete);
     } catch (error) {
       console.error("Failed to delete local session:", error);
     }
@@ -397,9 +840,13 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const clearSession = useCallback(async () => {
+    questionStreamsRef.current.forEach((controller) => controller.abort());
+    questionStreamsRef.current.clear();
+    setIsStreamingAnswer({});
     setSessionId(null);
     setAnalysisTerms(null);
     setSessionDetails(null);
+    setPartialAnalysis(null);
     setIsUploading(false);
     setUploadProgress(0);
     setAnalysisProgress(0);
@@ -461,7 +908,8 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
             totalInteractions: getSessionInteractions(sid).length,
             lastInteractionTime: getSessionInteractions(sid)[0]?.timestamp,
           } as SessionDetails);
-          setAnalysisTerms(enrichedTerms);
+          setAnalysisTerms(withQueuedChanges(localData.session_id, enrichedTerms));
+          setPartialAnalysis(null);
           return;
         }
 
@@ -516,17 +964,13 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
           totalInteractions: getSessionInteractions(sid).length,
           lastInteractionTime: getSessionInteractions(sid)[0]?.timestamp,
         } as SessionDetails);
-        setAnalysisTerms(enrichedTerms);
+        setAnalysisTerms(withQueuedChanges(sessionData.session_id, enrichedTerms));
+        setPartialAnalysis(null);
         await saveSessionLocally(sessionData);
       } catch (err: any) {
         console.error("SessionContext: Error loading session", err);
 
-        let errorMessage = "Failed to load session.";
-        if (err instanceof Error) {
-          errorMessage = err.message;
-        } else if (typeof err === "string") {
-          errorMessage = err;
-        }
+        const errorMessage = describeApiError(err, "Failed to load session.");
 
         setError(errorMessage);
         Alert.alert("Session Load Error", errorMessage);
@@ -549,6 +993,14 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     setUploadError(null);
     setAnalysisError(null);
 
+    const jobId = `job_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    const controller = new AbortController();
+    uploadRef.current = { controller, jobId, file };
+    // A cancel can land after the upload itself has finished
+    const throwIfCancelled = () => {
+      if (controller.signal.aborted) throw new api.CancelledError();
+    };
+
     try {
       console.log("📤 Starting upload:", {
         name: file.name,
@@ -572,21 +1024,15 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
       const BackgroundTaskManager = (await import("../services/BackgroundTaskManager")).default;
       const backgroundTaskManager = BackgroundTaskManager.getInstance();
 
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + Math.random() * 10;
-        });
-      }, 200);
-
       try {
         // Try foreground upload first
-        const response = await api.uploadContract(file, setUploadProgress);
+        const response = await api.uploadContract(file, setUploadProgress, {
+          jobId,
+          signal: controller.signal,
+        });
+        throwIfCancelled();
         await loadSessionData(response.session_id);
+        throwIfCancelled();
 
         // Add upload interaction
         await addInteraction({
@@ -597,13 +1043,28 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         // Start analysis tracking (both foreground and background)
         const { default: ProcessingService } = await import("../services/ProcessingService");
         const processingService = ProcessingService.getInstance();
+        throwIfCancelled();
         await processingService.startAnalysis(response.session_id);
+        if (controller.signal.aborted) {
+          await processingService.cancelAnalysis(response.session_id, jobId);
+          throwIfCancelled();
+        }
 
         // Ensure background processing is active for screen navigation
         console.log('🔄 Background processing active for session:', response.session_id);
 
         return response.session_id;
       } catch (uploadError) {
+        // Rejected uploads would fail the same way in the background, so only
+        // transient failures (network, timeout, 5xx) fall back to it.
+        if (
+          uploadError instanceof api.ValidationError ||
+          uploadError instanceof api.AuthError ||
+          uploadError instanceof api.CancelledError ||
+          uploadError instanceof api.IncompatibleResponseError
+        ) {
+          throw uploadError;
+        }
         console.log("📤 Foreground upload failed, starting background upload:", uploadError);
 
         // Start background upload as fallback with proper session ID
@@ -619,23 +1080,25 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         return tempSessionId;
       }
     } catch (err: any) {
-      // Fix 3: Properly handle error type checking
-      let message = "Failed to upload or analyze contract.";
-      if (err instanceof Error) {
-        message = err.message;
-      } else if (typeof err === "string") {
-        message = err;
+      if (err instanceof api.CancelledError) {
+        console.log("🛑 Upload cancelled:", jobId);
+        return null;
       }
 
+      const message = describeApiError(
+        err,
+        "Failed to upload or analyze contract.",
+      );
+
       console.error("❌ Upload/analysis failed:", message, err);
 
       // Set appropriate error message
-      if (message.includes("400")) {
+      if (err instanceof api.ValidationError && err.status === 413) {
+        setUploadError("File too large. Please use a smaller file.");
+      } else if (err instanceof api.ValidationError) {
         setUploadError(
           "Invalid file format. Please check your file and try again.",
         );
-      } else if (message.includes("413")) {
-        setUploadError("File too large. Please use a smaller file.");
       } else {
         setUploadError(message);
       }
@@ -645,12 +1108,32 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
       Alert.alert("Analysis Error", message);
       return null;
     } finally {
+      if (uploadRef.current?.controller === controller) {
+        uploadRef.current = null;
+      }
       setIsUploading(false);
       setIsAnalyzingContract(false);
       setUploadProgress(0);
     }
   };
 
+  const cancelUpload = useCallback(() => {
+    const upload = uploadRef.current;
+    if (!upload) return;
+    console.log("🛑 Cancelling upload:", upload.jobId);
+    upload.controller.abort();
+    // The server may already be analysing what it received
+    api.cancelAnalysis(upload.jobId).catch((error) => {
+      if (!api.isNotFoundError(error)) {
+        console.warn("⚠️ Failed to cancel analysis on the server:", error);
+      }
+    });
+    // Otherwise picking the same file again would resume this upload
+    forgetResumableUpload(upload.file).catch((error) =>
+      console.warn("⚠️ Failed to clear saved upload progress:", error),
+    );
+  }, []);
+
   const updateTermLocally = useCallback(
     (params: Partial<FrontendAnalysisTerm> & { term_id: string }) => {
       setAnalysisTerms((prev) =>
@@ -671,6 +1154,330 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     [],
   );
 
+  // Mirror the offline outbox and fold replay results back into the terms of
+  // the active session.
+  useEffect(() => {
+    const outbox = OutboxService.getInstance();
+    const unsubscribe = outbox.subscribe((event) => {
+      if (event.type === "changed") {
+        setAllOutboxEntries(event.entries);
+        return;
+      }
+
+      const { mutation } = event.entry;
+      if (mutation.sessionId !== sessionIdRef.current) return;
+
+      if (event.type === "applied" && mutation.type === "review_modification") {
+        const review = event.response as api.ReviewModificationApiResponse;
+        // A later queued change (e.g. a confirmation) keeps the user's text.
+        const textIsFinal = !outbox.hasQueuedFor(
+          mutation.sessionId,
+          mutation.termId,
+        );
+        updateTermLocally({
+          term_id: mutation.termId,
+          ...(textIsFinal
+            ? {
+                userModifiedText: review.reviewed_text,
+                reviewedSuggestion: review.reviewed_text,
+              }
+            : {}),
+          isReviewedSuggestionValid: review.is_still_valid_sharia,
+          reviewedSuggestionIssue: review.new_sharia_issue || null,
+        });
+      }
+
+      if (event.type === "discarded") {
+        // Restore the term, then re-apply the changes still queued for it.
+        const stillQueued = outbox
+          .getEntries(mutation.sessionId)
+          .filter((entry) => entry.mutation.termId === mutation.termId);
+        SessionSyncService.getInstance()
+          .revertLocalTermChange(
+            mutation.sessionId,
+            mutation.termId,
+            stillQueued.map((entry) => syncedValuesForMutation(entry.mutation)),
+          )
+          .catch((error) =>
+            console.warn("⚠️ Failed to revert local change for sync:", error),
+          );
+        updateTermLocally({
+          term_id: mutation.termId,
+          ...event.entry.rollback,
+          ...Object.assign({}, ...stillQueued.map((entry) => entry.patch)),
+        });
+      }
+    });
+
+    setAllOutboxEntries(outbox.getEntries());
+    outbox
+      .initialize()
+      .then(() => outbox.replay())
+      .catch((error) =>
+        console.error("❌ Failed to initialize the offline outbox:", error),
+      );
+
+    return unsubscribe;
+  }, [updateTermLocally]);
+
+  // Edits queued while the session had expired go out once the user has
+  // signed in again; those of another account stay queued.
+  useEffect(() => {
+    const outbox = OutboxService.getInstance();
+    if (user) {
+      outbox.setOwner(user.id);
+    }
+    if (user && outbox.hasPending()) {
+      outbox
+        .replay()
+        .catch((error) =>
+          console.error("❌ Outbox replay after sign-in failed:", error),
+        );
+    }
+  }, [user?.id]);
+
+  // Mirror sync conflicts and apply merged changes from other devices to the
+  // active session.
+  useEffect(() => {
+    const sync = SessionSyncService.getInstance();
+    const unsubscribe = sync.subscribe((event) => {
+      if (event.type === "conflicts_changed") {
+        setSyncConflicts(event.conflicts);
+        return;
+      }
+
+      const { session } = event;
+      if (session.session_id !== sessionIdRef.current) return;
+
+      const syncedTerms = new Map(
+        session.analysis_results.map((term) => [term.term_id, term]),
+      );
+      setAnalysisTerms((prev) =>
+        prev
+          ? prev.map((term) => {
+              const synced = syncedTerms.get(term.term_id);
+              if (!synced) return term;
+              return {
+                ...term,
+                ...Object.fromEntries(
+                  SYNCED_TERM_FIELDS.map((field) => [field, synced[field]]),
+                ),
+                updated_at: synced.updated_at,
+                ...(synced.is_confirmed_by_user
+                  ? {
+                      isUserConfirmed: true,
+                      userModifiedText:
+                        synced.confirmed_modified_text ?? term.userModifiedText,
+                    }
+                  : {}),
+              };
+            })
+          : prev,
+      );
+    });
+
+    setSyncConflicts(sync.getConflicts());
+    sync
+      .initialize()
+      .catch((error) =>
+        console.error("❌ Failed to load sync conflicts:", error),
+      );
+
+    return unsubscribe;
+  }, []);
+
+  const resolveSyncConflict = useCallback(
+    async (conflictId: string, choice: ConflictChoice) => {
+      const conflict = SessionSyncService.getInstance()
+        .getConflicts()
+        .find((c) => c.id === conflictId);
+      if (!conflict) return;
+
+      const outbox = OutboxService.getInstance();
+      if (choice === "remote") {
+        // Queued edits of that field lost against the other device.
+        await outbox.supersede(
+          outbox
+            .getEntries(conflict.sessionId)
+            .filter(
+              (entry) =>
+                entry.mutation.termId === conflict.termId &&
+                conflict.field in syncedValuesForMutation(entry.mutation),
+            )
+            .map((entry) => entry.id),
+        );
+      }
+
+      await SessionSyncService.getInstance().resolveConflict(conflictId, choice);
+
+      if (choice === "local" && outbox.hasPending()) {
+        outbox
+          .replay()
+          .catch((error) =>
+            console.error("❌ Outbox replay after resolving failed:", error),
+          );
+      }
+    },
+    [],
+  );
+
+  // Mirror the user's expert review requests and refresh them once loaded,
+  // so reviews completed while the app was closed show up.
+  useEffect(() => {
+    const reviews = ExpertReviewService.getInstance();
+    const unsubscribe = reviews.subscribe((event) => {
+      if (event.type === "changed") {
+        setAllExpertReviews(event.requests);
+      }
+    });
+
+    setAllExpertReviews(reviews.getRequests());
+    reviews
+      .initialize()
+      .then(() => (reviews.hasOpenRequests() ? reviews.refresh() : null))
+      .catch((error) =>
+        console.warn("⚠️ Failed to refresh expert reviews:", error),
+      );
+
+    return unsubscribe;
+  }, []);
+
+  const expertReviewRequests = useMemo(
+    () => allExpertReviews.filter((request) => request.session_id === sessionId),
+    [allExpertReviews, sessionId],
+  );
+
+  const termReviewStates = useMemo(
+    () =>
+      sessionId ? ExpertReviewService.getInstance().getTermStates(sessionId) : {},
+    // allExpertReviews changes whenever the service's requests do.
+    [allExpertReviews, sessionId],
+  );
+
+  const requestExpertReview = useCallback(
+    async (termIds: string[] | null, note?: string): Promise<boolean> => {
+      if (!sessionId || !analysisTerms || !permissions.canRequestExpertReview) {
+        return false;
+      }
+
+      const wanted = termIds ? new Set(termIds) : null;
+      const terms = analysisTerms.filter(
+        (term) => !wanted || wanted.has(term.term_id),
+      );
+      if (terms.length === 0) return false;
+
+      try {
+        await ExpertReviewService.getInstance().requestReview({
+          session_id: sessionId,
+          session_title: sessionDetails?.original_filename,
+          scope: wanted ? "terms" : "session",
+          note: note?.trim() || undefined,
+          terms: terms.map((term) => ({
+            term_id: term.term_id,
+            term_text: term.userModifiedText || term.term_text,
+            sharia_issue: term.sharia_issue || undefined,
+          })),
+        });
+        terms.forEach((term) =>
+          updateTermLocally({ term_id: term.term_id, expertReviewRequested: true }),
+        );
+        return true;
+      } catch (err) {
+        const errorMessage = describeApiError(
+          err,
+          "Failed to request an expert review",
+        );
+        handleForbidden(err);
+        Alert.alert("Expert Review", errorMessage);
+        return false;
+      }
+    },
+    [
+      sessionId,
+      analysisTerms,
+      sessionDetails,
+      permissions,
+      updateTermLocally,
+      handleForbidden,
+    ],
+  );
+
+  const refreshExpertReviews = useCallback(async () => {
+    try {
+      await ExpertReviewService.getInstance().refresh();
+    } catch (error) {
+      console.warn("⚠️ Failed to refresh expert reviews:", error);
+    }
+  }, []);
+
+  const outboxEntries = useMemo(
+    () =>
+      allOutboxEntries.filter((entry) => entry.mutation.sessionId === sessionId),
+    [allOutboxEntries, sessionId],
+  );
+
+  const getTermOutboxEntries = useCallback(
+    (termId: string) =>
+      outboxEntries.filter((entry) => entry.mutation.termId === termId),
+    [outboxEntries],
+  );
+
+  const getTermSyncState = useCallback(
+    (termId: string): TermSyncState | null => {
+      const entries = getTermOutboxEntries(termId);
+      if (entries.length === 0) return null;
+      return entries.some((entry) => entry.status === "failed")
+        ? "failed"
+        : "pending";
+    },
+    [getTermOutboxEntries],
+  );
+
+  const retryOutboxEntry = useCallback(async (entryId: string) => {
+    await OutboxService.getInstance().retry(entryId);
+  }, []);
+
+  const discardOutboxEntry = useCallback(async (entryId: string) => {
+    await OutboxService.getInstance().discard(entryId);
+  }, []);
+
+  // While offline, or behind queued changes of the same term, mutations go
+  // straight to the outbox so they reach the server in order.
+  const shouldQueueMutation = (sid: string, termId: string) =>
+    !isOnline || OutboxService.getInstance().hasQueuedFor(sid, termId);
+
+  // Saves a mutation to the outbox and applies its effect to the term right
+  // away, remembering the previous values so it can be discarded later.
+  const queueTermMutation = async (
+    mutation: OutboxMutation,
+    patch: Partial<FrontendAnalysisTerm>,
+  ) => {
+    const term = analysisTerms?.find((t) => t.term_id === mutation.termId);
+    const rollback = Object.fromEntries(
+      Object.keys(patch).map((field) => [
+        field,
+        term?.[field as keyof FrontendAnalysisTerm] ?? null,
+      ]),
+    );
+    updateTermLocally({ term_id: mutation.termId, ...patch });
+    await OutboxService.getInstance().enqueue(mutation, patch, rollback);
+    recordSyncedChange(mutation);
+  };
+
+  // Stamps an edit into the stored session so session sync can tell it was
+  // made on this device.
+  const recordSyncedChange = (mutation: OutboxMutation) => {
+    SessionSyncService.getInstance()
+      .recordLocalTermChange(
+        mutation.sessionId,
+        mutation.termId,
+        syncedValuesForMutation(mutation),
+      )
+      .catch((error) =>
+        console.warn("⚠️ Failed to record local change for sync:", error),
+      );
+  };
+
   const updatePdfPreviewInfo = useCallback(
     (type: "modified" | "marked", pdfInfo: CloudinaryFileInfo) => {
       setSessionDetails((prev) => {
@@ -687,6 +1494,138 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     [],
   );
 
+  // One in-flight answer per term (or general question); asking again aborts
+  // the previous stream.
+  const beginQuestionStream = (key: string): AbortController => {
+    questionStreamsRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    questionStreamsRef.current.set(key, controller);
+    return controller;
+  };
+
+  const endQuestionStream = (key: string, controller: AbortController) => {
+    if (questionStreamsRef.current.get(key) === controller) {
+      questionStreamsRef.current.delete(key);
+      setIsStreamingAnswer((prev) => ({ ...prev, [key]: false }));
+    }
+  };
+
+  // Applies `update` to one thread; streaming chunks skip persistence and
+  // the final answer writes the whole session's threads to storage.
+  const updateQaThread = useCallback(
+    (
+      threadKey: string,
+      update: (messages: QaMessage[]) => QaMessage[],
+      persist = false,
+    ) => {
+      const next = {
+        ...qaThreadsRef.current,
+        [threadKey]: update(qaThreadsRef.current[threadKey] || []),
+      };
+      qaThreadsRef.current = next;
+      setQaThreads(next);
+      if (persist && sessionId) {
+        storeQaThreads(sessionId, next);
+      }
+    },
+    [sessionId],
+  );
+
+  const getQaThread = useCallback(
+    (termId?: string): QaMessage[] =>
+      qaThreads[termId ?? GENERAL_QUESTION_KEY] || [],
+    [qaThreads],
+  );
+
+  // Asks a question inside a conversation thread: the turn is appended right
+  // away, filled in as the answer streams, and earlier turns of the same
+  // thread are sent along as context. Resolves with the (possibly partial)
+  // answer and whether the user stopped it; other failures drop the turn and
+  // rethrow.
+  const askInThread = async (
+    threadKey: string,
+    question: string,
+    onPartialAnswer: (partialAnswer: string) => void,
+    term?: FrontendAnalysisTerm,
+  ): Promise<{ answer: string; stopped: boolean }> => {
+    if (!sessionId) {
+      throw new Error("No active session");
+    }
+    const history = (qaThreadsRef.current[threadKey] || [])
+      .filter((message) => message.answer)
+      .slice(-MAX_QA_CONTEXT_TURNS)
+      .map(({ question, answer }) => ({ question, answer }));
+
+    const messageId = `qa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const setMessage = (changes: Partial<QaMessage>, persist = false) =>
+      updateQaThread(
+        threadKey,
+        (messages) =>
+          messages.map((m) => (m.id === messageId ? { ...m, ...changes } : m)),
+        persist,
+      );
+
+    updateQaThread(threadKey, (messages) => [
+      ...messages,
+      {
+        id: messageId,
+        question,
+        answer: "",
+        askedAt: new Date().toISOString(),
+        termId: term?.term_id,
+        termText: term?.term_text,
+      },
+    ]);
+
+    const controller = beginQuestionStream(threadKey);
+    let partialAnswer = "";
+
+    try {
+      const answer = await api.askQuestion(
+        sessionId,
+        question,
+        term?.term_id,
+        term?.term_text,
+        {
+          signal: controller.signal,
+          history,
+          onChunk: (text) => {
+            if (!partialAnswer) {
+              setIsStreamingAnswer((prev) => ({ ...prev, [threadKey]: true }));
+            }
+            partialAnswer = text;
+            setMessage({ answer: text });
+            onPartialAnswer(text);
+          },
+        },
+      );
+      setMessage({ answer, answeredAt: new Date().toISOString() }, true);
+      return { answer, stopped: false };
+    } catch (err) {
+      // Stopped by the user: keep whatever part of the answer arrived.
+      if (err instanceof api.CancelledError && partialAnswer) {
+        setMessage(
+          {
+            answer: partialAnswer,
+            answeredAt: new Date().toISOString(),
+            stopped: true,
+          },
+          true,
+        );
+        return { answer: partialAnswer, stopped: true };
+      }
+      updateQaThread(threadKey, (messages) =>
+        messages.filter((m) => m.id !== messageId),
+      );
+      if (err instanceof api.CancelledError) {
+        return { answer: "", stopped: true };
+      }
+      throw err;
+    } finally {
+      endQuestionStream(threadKey, controller);
+    }
+  };
+
   const askQuestionAboutTerm = async (
     termId: string,
     question: string,
@@ -698,13 +1637,26 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     setIsAskingQuestion(true);
     setIsTermProcessing((prev) => ({ ...prev, [termId]: true }));
 
+    const showAnswer = (answer: string) =>
+      setAnalysisTerms((prevTerms) =>
+        prevTerms
+          ? prevTerms.map((t) =>
+              t.term_id === termId ? { ...t, currentQaAnswer: answer } : t,
+            )
+          : null,
+      );
+
     try {
-      const answer = await api.askQuestion(
-        sessionId,
-        question,
+      const { answer, stopped } = await askInThread(
         termId,
-        term.term_text,
+        question,
+        showAnswer,
+        term,
       );
+      if (stopped) {
+        console.log("⏹️ Answer stream stopped for term:", termId);
+        if (!answer) return answer;
+      }
 
       // Ensure immutable update with proper state management
       setAnalysisTerms((prevTerms) => {
@@ -725,20 +1677,14 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
       await addInteraction({
         type: "question_asked",
         termId,
-        data: { question, answer },
+        data: stopped ? { question, answer, stopped } : { question, answer },
       });
 
       return answer;
     } catch (err: any) {
       console.error("Error asking question about term:", err);
 
-      // Fix 3: Properly handle error type checking
-      let errorMessage = "Failed to get answer";
-      if (err instanceof Error) {
-        errorMessage = err.message;
-      } else if (typeof err === "string") {
-        errorMessage = err;
-      }
+      const errorMessage = describeApiError(err, "Failed to get answer");
 
       Alert.alert("Interaction Error", errorMessage);
       return null;
@@ -756,23 +1702,27 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     setIsAskingQuestion(true);
 
     try {
-      const answer = await api.askQuestion(sessionId, question);
+      const { answer, stopped } = await askInThread(
+        GENERAL_QUESTION_KEY,
+        question,
+        () => {},
+      );
+      if (stopped) {
+        console.log("⏹️ General answer stream stopped");
+        if (!answer) return answer;
+      }
 
       // Add interaction
       await addInteraction({
         type: "question_asked",
-        data: { question, answer, type: "general" },
+        data: stopped
+          ? { question, answer, type: "general", stopped }
+          : { question, answer, type: "general" },
       });
 
       return answer;
     } catch (err: any) {
-      // Fix 3: Properly handle error type checking
-      let errorMessage = "Failed to get answer";
-      if (err instanceof Error) {
-        errorMessage = err.message;
-      } else if (typeof err === "string") {
-        errorMessage = err;
-      }
+      const errorMessage = describeApiError(err, "Failed to get answer");
 
       Alert.alert("Interaction Error", errorMessage);
       return null;
@@ -782,15 +1732,152 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const stopQuestionStream = useCallback((termId?: string) => {
+    questionStreamsRef.current.get(termId ?? GENERAL_QUESTION_KEY)?.abort();
+  }, []);
+
+  // --- Term revisions ---
+
+  // A term's log starts with the texts it had before any recorded change:
+  // the analyzed text, the AI suggestion and a confirmation made before
+  // revisions were recorded.
+  const baselineRevisions = (termId: string): TermRevision[] => {
+    const term = analysisTerms?.find((t) => t.term_id === termId);
+    if (!term) return [];
+
+    const analyzedAt = sessionDetails?.analysis_timestamp || new Date().toISOString();
+    const baseline: TermRevision[] = [
+      {
+        id: `rev_${termId}_original`,
+        termId,
+        text: term.term_text,
+        source: "original",
+        action: "analyzed",
+        createdAt: analyzedAt,
+        author: { role: "system" },
+        isValidSharia: term.is_valid_sharia,
+        shariaIssue: term.sharia_issue || null,
+      },
+    ];
+    if (term.modified_term) {
+      baseline.push({
+        id: `rev_${termId}_ai`,
+        termId,
+        text: term.modified_term,
+        source: "ai_suggestion",
+        action: "suggested",
+        createdAt: analyzedAt,
+        author: { role: "system" },
+      });
+    }
+    const earlierConfirmation = term.isUserConfirmed
+      ? term.userModifiedText
+      : term.confirmed_modified_text;
+    if (earlierConfirmation) {
+      baseline.push({
+        id: `rev_${termId}_confirmed`,
+        termId,
+        text: earlierConfirmation,
+        source: earlierConfirmation === term.modified_term ? "ai_suggestion" : "user_edit",
+        action: "confirmed",
+        createdAt: term.lastModified || analyzedAt,
+      });
+    }
+    return baseline;
+  };
+
+  // Appends to a term's log; earlier entries are never touched.
+  const recordTermRevision = (
+    termId: string,
+    entry: Omit<TermRevision, "id" | "termId" | "createdAt" | "author">,
+  ) => {
+    if (!sessionId) return;
+
+    const existing = termRevisionsRef.current[termId];
+    const revision: TermRevision = {
+      ...entry,
+      id: `rev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      termId,
+      createdAt: new Date().toISOString(),
+      author: {
+        id: user?.id,
+        name: user?.username || user?.email,
+        role: accountRole,
+      },
+    };
+    const next = {
+      ...termRevisionsRef.current,
+      [termId]: [...(existing?.length ? existing : baselineRevisions(termId)), revision],
+    };
+    termRevisionsRef.current = next;
+    setTermRevisions(next);
+    storeTermRevisions(sessionId, next);
+  };
+
+  // Where a confirmed text came from: the latest revision with that text, or
+  // a user edit if it never went through one.
+  const sourceOfText = (termId: string, text: string): TermRevisionSource => {
+    const log = termRevisionsRef.current[termId]?.length
+      ? termRevisionsRef.current[termId]
+      : baselineRevisions(termId);
+    const match = [...log].reverse().find((revision) => revision.text === text);
+    return match?.source ?? "user_edit";
+  };
+
+  const getTermRevisionLog = useCallback(
+    (termId: string): TermRevision[] => termRevisions[termId] || [],
+    [termRevisions],
+  );
+
   const reviewUserModification = async (
     termId: string,
     userTextToReview: string,
     originalTermText: string,
-  ): Promise<boolean> => {
+    options: TermRevisionOptions = {},
+  ): Promise<MutationResult> => {
     if (!sessionId) return false;
+    const source = options.source ?? "user_edit";
     setIsReviewingModification((prev) => ({ ...prev, [termId]: true }));
 
+    // Until the server has reviewed the text, the user's own text is shown.
+    const queueReview = async (): Promise<MutationResult> => {
+      await queueTermMutation(
+        {
+          type: "review_modification",
+          sessionId,
+          termId,
+          userModifiedText: userTextToReview,
+          originalTermText,
+        },
+        {
+          userModifiedText: userTextToReview,
+          isReviewedSuggestionValid: null,
+          reviewedSuggestionIssue: null,
+          isUserConfirmed: false,
+        },
+      );
+      recordTermRevision(termId, {
+        text: userTextToReview,
+        source,
+        action: "suggested",
+        revertedFromId: options.revertedFromId,
+        batchId: options.batchId,
+        queued: true,
+      });
+      await addInteraction({
+        type: "term_modified",
+        termId,
+        data: { originalText: originalTermText, queued: true },
+      });
+      return "queued";
+    };
+
     try {
+      if (shouldQueueMutation(sessionId, termId)) {
+        return await queueReview();
+      }
+
+
       const reviewResponse = await api.reviewUserModification(
         sessionId,
         termId,
@@ -805,6 +1892,15 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         reviewedSuggestionIssue: reviewResponse.new_sharia_issue || null,
         isUserConfirmed: false,
       });
+      recordTermRevision(termId, {
+        text: reviewResponse.reviewed_text,
+        source,
+        action: "reviewed",
+        isValidSharia: reviewResponse.is_still_valid_sharia,
+        shariaIssue: reviewResponse.new_sharia_issue || null,
+        revertedFromId: options.revertedFromId,
+        batchId: options.batchId,
+      });
 
       // Add interaction
       await addInteraction({
@@ -819,14 +1915,12 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
 
       return true;
     } catch (err: any) {
-      // Fix 3: Properly handle error type checking
-      let errorMessage = "Failed to review modification";
-      if (err instanceof Error) {
-        errorMessage = err.message;
-      } else if (typeof err === "string") {
-        errorMessage = err;
+      if (isTransientError(err)) {
+        return await queueReview();
       }
 
+      const errorMessage = describeApiError(err, "Failed to review modification");
+
       Alert.alert("Review Error", errorMessage);
       return false;
     } finally {
@@ -834,37 +1928,96 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Sends a confirmation, or queues it while the server is unreachable, and
+  // applies it to the term. Errors the server returned are rethrown.
+  const sendTermConfirmation = async (
+    sid: string,
+    termId: string,
+    textToConfirm: string,
+    options: TermRevisionOptions = {},
+  ): Promise<true | "queued"> => {
+    const source = options.source ?? sourceOfText(termId, textToConfirm);
+    const mutation: OutboxMutation = {
+      type: "confirm_modification",
+      sessionId: sid,
+      termId,
+      modifiedText: textToConfirm,
+    };
+
+    const queueConfirmation = async (): Promise<"queued"> => {
+      await queueTermMutation(mutation, {
+        isUserConfirmed: true,
+        userModifiedText: textToConfirm,
+      });
+      recordTermRevision(termId, {
+        text: textToConfirm,
+        source,
+        action: "confirmed",
+        revertedFromId: options.revertedFromId,
+        batchId: options.batchId,
+        queued: true,
+      });
+      return "queued";
+    };
+
+    if (shouldQueueMutation(sid, termId)) {
+      return await queueConfirmation();
+    }
+
+    try {
+      await api.confirmTermModification(sid, termId, textToConfirm);
+    } catch (err: any) {
+      if (isTransientError(err)) {
+        return await queueConfirmation();
+      }
+      throw err;
+    }
+
+    recordSyncedChange(mutation);
+    updateTermLocally({
+      term_id: termId,
+      isUserConfirmed: true,
+      userModifiedText: textToConfirm,
+    });
+    recordTermRevision(termId, {
+      text: textToConfirm,
+      source,
+      action: "confirmed",
+      revertedFromId: options.revertedFromId,
+      batchId: options.batchId,
+    });
+    return true;
+  };
+
   const confirmTermModification = async (
     termId: string,
     textToConfirm: string,
-  ): Promise<boolean> => {
+    options: TermRevisionOptions = {},
+  ): Promise<MutationResult> => {
     if (!sessionId) return false;
     setIsTermProcessing((prev) => ({ ...prev, [termId]: true }));
 
     try {
-      await api.confirmTermModification(sessionId, termId, textToConfirm);
-      updateTermLocally({
-        term_id: termId,
-        isUserConfirmed: true,
-        userModifiedText: textToConfirm,
-      });
+      const result = await sendTermConfirmation(
+        sessionId,
+        termId,
+        textToConfirm,
+        options,
+      );
 
       // Add interaction
       await addInteraction({
         type: "term_modified",
         termId,
-        data: { confirmedText: textToConfirm, action: "confirmed" },
+        data:
+          result === "queued"
+            ? { confirmedText: textToConfirm, action: "confirmed", queued: true }
+            : { confirmedText: textToConfirm, action: "confirmed" },
       });
 
-      return true;
+      return result;
     } catch (err: any) {
-      // Fix 3: Properly handle error type checking
-      let errorMessage = "Failed to confirm modification";
-      if (err instanceof Error) {
-        errorMessage = err.message;
-      } else if (typeof err === "string") {
-        errorMessage = err;
-      }
+      const errorMessage = describeApiError(err, "Failed to confirm modification");
 
       Alert.alert("Confirmation Error", errorMessage);
       return false;
@@ -873,6 +2026,282 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const revertTermToRevision = async (
+    termId: string,
+    revisionId: string,
+  ): Promise<MutationResult> => {
+    const term = analysisTerms?.find((t) => t.term_id === termId);
+    const revision = termRevisionsRef.current[termId]?.find(
+      (entry) => entry.id === revisionId,
+    );
+    if (!term || !revision) return false;
+
+    const options: TermRevisionOptions = {
+      source: "revert",
+      revertedFromId: revision.id,
+    };
+    const reviewed = await reviewUserModification(
+      termId,
+      revision.text,
+      term.term_text,
+      options,
+    );
+    if (!reviewed) return false;
+
+    // Confirm what the review produced: the revision it just recorded.
+    const log = termRevisionsRef.current[termId] || [];
+    const textToConfirm = log[log.length - 1]?.text ?? revision.text;
+    const confirmed = await confirmTermModification(termId, textToConfirm, options);
+    if (!confirmed) return false;
+    return reviewed === true && confirmed === true ? true : "queued";
+  };
+
+  const snapshotForBulk = (term: FrontendAnalysisTerm): BulkTermSnapshot => ({
+    isUserConfirmed: term.isUserConfirmed ?? false,
+    userModifiedText: term.userModifiedText ?? null,
+    reviewedSuggestion: term.reviewedSuggestion ?? null,
+    isReviewedSuggestionValid: term.isReviewedSuggestionValid ?? null,
+    reviewedSuggestionIssue: term.reviewedSuggestionIssue ?? null,
+    expertReviewRequested: term.expertReviewRequested ?? false,
+  });
+
+  // Runs one step per term through the batch queue and sorts the outcomes.
+  const runBulkBatch = async (
+    batchId: string,
+    action: BulkTermAction,
+    termIds: string[],
+    step: (termId: string) => Promise<true | "queued">,
+    options: BulkActionOptions,
+  ): Promise<BulkActionReport> => {
+    const throttled = action !== "mark_for_review";
+    const results = await runBatch(
+      termIds,
+      async (termId) => {
+        setIsTermProcessing((prev) => ({ ...prev, [termId]: true }));
+        try {
+          return await step(termId);
+        } finally {
+          setIsTermProcessing((prev) => ({ ...prev, [termId]: false }));
+        }
+      },
+      {
+        // Local-only changes need no throttling.
+        concurrency: throttled ? BULK_CONCURRENCY : termIds.length,
+        intervalMs: throttled ? BULK_INTERVAL_MS : 0,
+        signal: options.signal,
+        onProgress: options.onProgress,
+      },
+    );
+
+    const report: BulkActionReport = {
+      batchId,
+      action,
+      total: termIds.length,
+      succeeded: [],
+      queued: [],
+      failed: [],
+      skipped: [],
+    };
+    results.forEach((result) => {
+      if (result.status === "skipped") {
+        report.skipped.push(result.item);
+      } else if (result.status === "rejected") {
+        report.failed.push({
+          termId: result.item,
+          error: describeApiError(result.error, "Failed to confirm modification"),
+        });
+      } else if (result.value === "queued") {
+        report.queued.push(result.item);
+      } else {
+        report.succeeded.push(result.item);
+      }
+    });
+    return report;
+  };
+
+  const applyBulkTermAction = async (
+    action: BulkTermAction,
+    termIds: string[],
+    options: BulkActionOptions = {},
+  ): Promise<BulkActionReport | null> => {
+    const sid = sessionId;
+    if (!sid || !analysisTerms || isBulkProcessing) return null;
+    const terms = new Map(analysisTerms.map((term) => [term.term_id, term]));
+    const batchId = `bulk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const snapshots: Record<string, BulkTermSnapshot> = {};
+
+    const step = async (termId: string): Promise<true | "queued"> => {
+      const term = terms.get(termId);
+      if (!term) throw new Error("This term is no longer part of the session.");
+      snapshots[termId] = snapshotForBulk(term);
+
+      switch (action) {
+        case "accept_ai": {
+          if (!term.modified_term) {
+            throw new Error("There is no AI suggestion for this term.");
+          }
+          const result = await sendTermConfirmation(sid, termId, term.modified_term, {
+            source: "ai_suggestion",
+            batchId,
+          });
+          // The suggestion replaces any reviewed edit, and its verdict.
+          updateTermLocally({
+            term_id: termId,
+            isReviewedSuggestionValid: null,
+            reviewedSuggestionIssue: null,
+          });
+          return result;
+        }
+        case "confirm":
+          return sendTermConfirmation(
+            sid,
+            termId,
+            term.userModifiedText ??
+              term.reviewedSuggestion ??
+              term.modified_term ??
+              term.term_text,
+            { batchId },
+          );
+        case "reset": {
+          // The backend cannot drop a confirmation, so the original wording
+          // is confirmed in its place; locally the term is unmodified again.
+          const result = await sendTermConfirmation(sid, termId, term.term_text, {
+            source: "original",
+            batchId,
+          });
+          updateTermLocally({
+            term_id: termId,
+            isUserConfirmed: false,
+            userModifiedText: null,
+            reviewedSuggestion: null,
+            isReviewedSuggestionValid: null,
+            reviewedSuggestionIssue: null,
+          });
+          return result;
+        }
+        case "mark_for_review":
+          updateTermLocally({ term_id: termId, expertReviewRequested: true });
+          return true;
+      }
+    };
+
+    setIsBulkProcessing(true);
+    try {
+      const report = await runBulkBatch(batchId, action, termIds, step, options);
+      const applied = [...report.succeeded, ...report.queued];
+      if (applied.length > 0) {
+        bulkUndoRef.current = {
+          batchId,
+          snapshots: Object.fromEntries(
+            applied.map((termId) => [termId, snapshots[termId]]),
+          ),
+        };
+        setLastBulkAction(report);
+        await addInteraction({
+          type: "term_modified",
+          data: {
+            bulkAction: action,
+            batchId,
+            termIds: applied,
+            failedCount: report.failed.length,
+          },
+        });
+      }
+      console.log(
+        `📦 Bulk ${action}: ${report.succeeded.length} done, ${report.queued.length} queued, ${report.failed.length} failed, ${report.skipped.length} skipped`,
+      );
+      return report;
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  const undoBulkTermAction = async (
+    batchId: string,
+    options: BulkActionOptions = {},
+  ): Promise<BulkActionReport | null> => {
+    const sid = sessionId;
+    const undo = bulkUndoRef.current;
+    if (
+      !sid ||
+      !analysisTerms ||
+      isBulkProcessing ||
+      !undo ||
+      undo.batchId !== batchId ||
+      !lastBulkAction
+    ) {
+      return null;
+    }
+    const { action } = lastBulkAction;
+    const terms = new Map(analysisTerms.map((term) => [term.term_id, term]));
+    const undoBatchId = `bulk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const step = async (termId: string): Promise<true | "queued"> => {
+      const snapshot = undo.snapshots[termId];
+      const term = terms.get(termId);
+      if (!term || !snapshot) {
+        throw new Error("This term is no longer part of the session.");
+      }
+
+      let result: true | "queued" = true;
+      if (action !== "mark_for_review") {
+        // Re-confirm what the server had before: the earlier confirmation,
+        // or the original wording for a term that was never confirmed.
+        const previousText =
+          (snapshot.isUserConfirmed && snapshot.userModifiedText) ||
+          term.confirmed_modified_text ||
+          term.term_text;
+        result = await sendTermConfirmation(sid, termId, previousText, {
+          source: "revert",
+          batchId: undoBatchId,
+        });
+      }
+      updateTermLocally({ term_id: termId, ...snapshot });
+      return result;
+    };
+
+    setIsBulkProcessing(true);
+    try {
+      const report = await runBulkBatch(
+        undoBatchId,
+        action,
+        Object.keys(undo.snapshots),
+        step,
+        options,
+      );
+      report.undoOf = batchId;
+
+      // Terms the undo could not restore stay undoable.
+      const remaining = [
+        ...report.failed.map((failure) => failure.termId),
+        ...report.skipped,
+      ];
+      if (remaining.length > 0) {
+        bulkUndoRef.current = {
+          batchId,
+          snapshots: Object.fromEntries(
+            remaining.map((termId) => [termId, undo.snapshots[termId]]),
+          ),
+        };
+      } else {
+        bulkUndoRef.current = null;
+        setLastBulkAction(null);
+      }
+      await addInteraction({
+        type: "term_modified",
+        data: {
+          bulkAction: action,
+          batchId: undoBatchId,
+          undoOf: batchId,
+          termIds: [...report.succeeded, ...report.queued],
+        },
+      });
+      return report;
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
   const generateModifiedContract =
     async (): Promise<GenerateModifiedContractApiResponse | null> => {
       if (!sessionId) return null;
@@ -915,13 +2344,7 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         }
         return response;
       } catch (err: any) {
-        // Fix 3: Properly handle error type checking
-        let errorMessage = "Failed to generate contract";
-        if (err instanceof Error) {
-          errorMessage = err.message;
-        } else if (typeof err === "string") {
-          errorMessage = err;
-        }
+        const errorMessage = describeApiError(err, "Failed to generate contract");
 
         Alert.alert("Generation Error", errorMessage);
         return null;
@@ -972,13 +2395,7 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         }
         return response;
       } catch (err: any) {
-        // Fix 3: Properly handle error type checking
-        let errorMessage = "Failed to generate contract";
-        if (err instanceof Error) {
-          errorMessage = err.message;
-        } else if (typeof err === "string") {
-          errorMessage = err;
-        }
+        const errorMessage = describeApiError(err, "Failed to generate contract");
 
         Alert.alert("Generation Error", errorMessage);
         return null;
@@ -989,22 +2406,84 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
 
   const submitExpertFeedback = async (
     payload: ExpertFeedbackPayload,
-  ): Promise<boolean> => {
+  ): Promise<MutationResult> => {
     if (!sessionId) return false;
+    if (!permissions.canSubmitExpertFeedback) {
+      Alert.alert("Feedback Error", "Only Sharia experts can submit expert feedback.");
+      return false;
+    }
+    // Without the capability the verdict is left to the AI analysis.
+    if (!permissions.canOverrideCompliance) {
+      payload = {
+        ...payload,
+        feedback_data: { ...payload.feedback_data, expertIsValidSharia: undefined },
+      };
+    }
+
+    const feedbackPatch: Partial<FrontendAnalysisTerm> = {
+      has_expert_feedback: true,
+      ...(payload.feedback_data.expertIsValidSharia !== undefined
+        ? {
+            expert_override_is_valid_sharia:
+              payload.feedback_data.expertIsValidSharia,
+          }
+        : {}),
+      expertFeedbackHistory: [
+        ...(analysisTerms?.find((t) => t.term_id === payload.term_id)
+          ?.expertFeedbackHistory || []),
+        payload,
+      ],
+    };
+    const correctedText = payload.feedback_data.expertCorrectedSuggestion?.trim();
+
+    const queueFeedback = async (): Promise<MutationResult> => {
+      await queueTermMutation(
+        {
+          type: "expert_feedback",
+          sessionId,
+          termId: payload.term_id,
+          payload,
+        },
+        feedbackPatch,
+      );
+      if (correctedText) {
+        recordTermRevision(payload.term_id, {
+          text: correctedText,
+          source: "expert_correction",
+          action: "suggested",
+          isValidSharia: payload.feedback_data.expertIsValidSharia,
+          queued: true,
+        });
+      }
+      await addInteraction({
+        type: "expert_feedback",
+        termId: payload.term_id,
+        data: { ...payload.feedback_data, queued: true },
+      });
+      return "queued";
+    };
 
     try {
+      if (shouldQueueMutation(sessionId, payload.term_id)) {
+        return await queueFeedback();
+      }
+
       await api.submitExpertFeedback(payload);
-      updateTermLocally({
-        term_id: payload.term_id,
-        has_expert_feedback: true,
-        expert_override_is_valid_sharia:
-          payload.feedback_data.expertIsValidSharia,
-        expertFeedbackHistory: [
-          ...(analysisTerms?.find((t) => t.term_id === payload.term_id)
-            ?.expertFeedbackHistory || []),
-          payload,
-        ],
+      recordSyncedChange({
+        type: "expert_feedback",
+        sessionId,
+        termId: payload.term_id,
+        payload,
       });
+      updateTermLocally({ term_id: payload.term_id, ...feedbackPatch });
+      if (correctedText) {
+        recordTermRevision(payload.term_id, {
+          text: correctedText,
+          source: "expert_correction",
+          action: "suggested",
+          isValidSharia: payload.feedback_data.expertIsValidSharia,
+        });
+      }
 
       // Add interaction
       await addInteraction({
@@ -1015,14 +2494,13 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
 
       return true;
     } catch (err: any) {
-      // Fix 3: Properly handle error type checking
-      let errorMessage = "Failed to submit feedback";
-      if (err instanceof Error) {
-        errorMessage = err.message;
-      } else if (typeof err === "string") {
-        errorMessage = err;
+      if (isTransientError(err)) {
+        return await queueFeedback();
       }
 
+      handleForbidden(err);
+      const errorMessage = describeApiError(err, "Failed to submit feedback");
+
       Alert.alert("Feedback Error", errorMessage);
       return false;
     }
@@ -1070,7 +2548,9 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
           const convertedTerms = sessionData.analysis_results.map(
             convertApiTermToFrontend,
           );
-          setAnalysisTerms(convertedTerms);
+          setAnalysisTerms(
+            withQueuedChanges(sessionData.session_id, convertedTerms),
+          );
           console.log("✅ Converted analysis terms:", convertedTerms.length);
         } else {
           console.warn("⚠️ No analysis results found in session data");
@@ -1109,24 +2589,32 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     if (!analysisTerms) return null;
 
     const totalTerms = analysisTerms.length;
+    const isProvisional = partialAnalysis !== null;
+    const pendingTerms =
+      isProvisional && partialAnalysis.termsTotal !== null
+        ? Math.max(partialAnalysis.termsTotal - totalTerms, 0)
+        : 0;
     if (totalTerms === 0) {
       return {
         totalTerms: 0,
         currentUserEffectiveCompliantCount: 0,
         currentUserEffectiveNonCompliantCount: 0,
         overallCompliancePercentage: 0,
+        weightedCompliancePercentage: 0,
+        openIssuesBySeverity: { critical: 0, high: 0, medium: 0, low: 0 },
         expertReviewedTerms: 0,
         userModifiedTerms: 0,
+        isProvisional,
+        pendingTerms,
       };
     }
 
-    const compliantCount = analysisTerms.filter(
-      (t) =>
-        t.expert_override_is_valid_sharia ??
-        (t.isUserConfirmed
-          ? (t.isReviewedSuggestionValid ?? true)
-          : t.is_valid_sharia),
-    ).length;
+    const isCompliant = (t: FrontendAnalysisTerm) =>
+      t.expert_override_is_valid_sharia ??
+      (t.isUserConfirmed
+        ? (t.isReviewedSuggestionValid ?? true)
+        : t.is_valid_sharia);
+    const compliantCount = analysisTerms.filter(isCompliant).length;
 
     const expertReviewedTerms = analysisTerms.filter(
       (t) => t.has_expert_feedback,
@@ -1140,14 +2628,23 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
       currentUserEffectiveCompliantCount: compliantCount,
       currentUserEffectiveNonCompliantCount: totalTerms - compliantCount,
       overallCompliancePercentage: (compliantCount / totalTerms) * 100,
+      weightedCompliancePercentage: computeWeightedCompliance(
+        analysisTerms,
+        isCompliant,
+      ),
+      openIssuesBySeverity: countIssuesBySeverity(analysisTerms, isCompliant),
       expertReviewedTerms,
       userModifiedTerms,
+      isProvisional,
+      pendingTerms,
     };
-  }, [analysisTerms]);
+  }, [analysisTerms, partialAnalysis]);
 
   // Fix 2: Optimize session data persistence to avoid SecureStore size limits
   useEffect(() => {
     const saveSessionData = async () => {
+      // Partial results are not restored; the session is saved once loaded.
+      if (partialAnalysis) return;
       if (sessionId && analysisTerms) {
         try {
           // Validate sessionId before storing
@@ -1179,6 +2676,7 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
               isReviewedSuggestionValid: term.isReviewedSuggestionValid,
               lastModified: term.lastModified,
               interactionCount: term.interactionCount,
+              expertReviewRequested: term.expertReviewRequested,
             }));
 
             const termsDataString = JSON.stringify(essentialTerms);
@@ -1225,7 +2723,7 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     };
 
     saveSessionData();
-  }, [sessionId, analysisTerms, sessionDetails]);
+  }, [sessionId, analysisTerms, sessionDetails, partialAnalysis]);
 
   // Restore session data on app start
   useEffect(() => {
@@ -1265,10 +2763,14 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         analysisTerms,
         complianceStats,
         sessionDetails,
+        partialAnalysis,
+        followPartialAnalysis,
         currentUserRole,
+        accountRole,
+        permissions,
+        isPreviewingAsRegularUser: currentUserRole !== accountRole,
+        setPreviewAsRegularUser,
         sessionInteractions,
-        toggleUserRole,
-        setUserRole,
         isUploading,
         uploadProgress,
         analysisProgress,
@@ -1282,17 +2784,40 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
         isAskingQuestion,
         isReviewingModification,
         isProcessingGeneralQuestion,
+        isStreamingAnswer,
         error,
         uploadError,
         analysisError,
         uploadAndAnalyzeContract,
+        cancelUpload,
         askQuestionAboutTerm,
         askGeneralContractQuestion,
+        stopQuestionStream,
+        qaThreads,
+        getQaThread,
         reviewUserModification,
         confirmTermModification,
+        getTermRevisions: getTermRevisionLog,
+        revertTermToRevision,
+        applyBulkTermAction,
+        undoBulkTermAction,
+        lastBulkAction,
+        isBulkProcessing,
         generateModifiedContract,
         generateMarkedContract,
         submitExpertFeedback,
+        isOnline,
+        outboxEntries,
+        getTermSyncState,
+        getTermOutboxEntries,
+        retryOutboxEntry,
+        discardOutboxEntry,
+        syncConflicts,
+        resolveSyncConflict,
+        expertReviewRequests,
+        termReviewStates,
+        requestExpertReview,
+        refreshExpertReviews,
         loadSessionFromHistory,
         clearSession,
         getLocalSessions,
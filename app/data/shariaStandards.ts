@@ -0,0 +1,454 @@
+// Bundled catalogue of the AAOIFI Shari'ah Standards most often cited in
+// contract analyses, so references can be explained offline. Rulings are
+// short paraphrases for orientation, not the official text; the full
+// standards are published by AAOIFI.
+
+export interface LocalizedText {
+  en: string;
+  ar: string;
+}
+
+export interface StandardRuling {
+  // Stable within its standard; not the official clause number.
+  id: string;
+  text: LocalizedText;
+}
+
+export interface ShariaStandard {
+  number: number;
+  title: LocalizedText;
+  scope: LocalizedText;
+  rulings: StandardRuling[];
+}
+
+export const SHARIA_STANDARDS: ShariaStandard[] = [
+  {
+    number: 1,
+    title: { en: 'Trading in Currencies', ar: 'المتاجرة في العملات' },
+    scope: {
+      en: 'Buying and selling currencies, including spot, forward and swap transactions.',
+      ar: 'بيع العملات وشراؤها، بما في ذلك المعاملات العاجلة والآجلة والمبادلة.',
+    },
+    rulings: [
+      {
+        id: 'spot',
+        text: {
+          en: 'An exchange of currencies must be settled on the spot, with both counter-values received before the parties separate.',
+          ar: 'يجب التقابض في مبادلة العملات في مجلس العقد قبل تفرق المتعاقدين.',
+        },
+      },
+      {
+        id: 'forward',
+        text: {
+          en: 'Forward and futures currency contracts are not permitted, as delivery of one or both counter-values is deferred.',
+          ar: 'لا تجوز العقود الآجلة والمستقبلية في العملات لتأجيل قبض أحد البدلين أو كليهما.',
+        },
+      },
+    ],
+  },
+  {
+    number: 3,
+    title: { en: 'Procrastinating Debtor', ar: 'المدين المماطل' },
+    scope: {
+      en: 'Measures against a solvent debtor who delays payment of a due debt.',
+      ar: 'الإجراءات المتخذة تجاه المدين الموسر الذي يماطل في سداد الدين الحال.',
+    },
+    rulings: [
+      {
+        id: 'no-increase',
+        text: {
+          en: 'A debtor may not be charged any increase on the debt, whether agreed in advance or imposed at default, as compensation for delay.',
+          ar: 'لا يجوز اشتراط زيادة على الدين مقابل التأخير، سواء نص عليها في العقد أو فرضت عند المماطلة.',
+        },
+      },
+      {
+        id: 'charity',
+        text: {
+          en: 'The contract may oblige a procrastinating debtor to pay an amount to charity; the creditor may not benefit from it.',
+          ar: 'يجوز أن ينص العقد على التزام المدين المماطل بالتصدق بمبلغ على أن يصرف في وجوه الخير ولا ينتفع به الدائن.',
+        },
+      },
+      {
+        id: 'insolvent',
+        text: {
+          en: 'A debtor unable to pay must be given time until able to pay.',
+          ar: 'يجب إنظار المدين المعسر إلى ميسرة.',
+        },
+      },
+    ],
+  },
+  {
+    number: 5,
+    title: { en: 'Guarantees', ar: 'الضمانات' },
+    scope: {
+      en: 'Personal guarantees, pledges and other security for obligations.',
+      ar: 'الكفالة والرهن وغيرهما من الضمانات للالتزامات.',
+    },
+    rulings: [
+      {
+        id: 'no-fee',
+        text: {
+          en: 'No fee may be charged for the guarantee itself, though actual administrative costs may be recovered.',
+          ar: 'لا يجوز أخذ أجر على الكفالة ذاتها، ويجوز استرداد المصروفات الإدارية الفعلية.',
+        },
+      },
+      {
+        id: 'trust-capital',
+        text: {
+          en: 'A partner, agent or investment manager may not guarantee the capital or profit of a trust-based contract.',
+          ar: 'لا يجوز أن يضمن الشريك أو الوكيل أو المضارب رأس المال أو الربح في عقود الأمانة.',
+        },
+      },
+    ],
+  },
+  {
+    number: 8,
+    title: { en: 'Murabahah', ar: 'المرابحة' },
+    scope: {
+      en: 'Sale of an asset at its cost plus a disclosed profit, usually on deferred payment.',
+      ar: 'بيع السلعة بثمنها الأول مع ربح معلوم، غالبا بثمن مؤجل.',
+    },
+    rulings: [
+      {
+        id: 'ownership',
+        text: {
+          en: 'The institution must own and take possession of the asset before selling it to the customer.',
+          ar: 'يجب أن تتملك المؤسسة السلعة وتقبضها قبل بيعها للعميل.',
+        },
+      },
+      {
+        id: 'fixed-price',
+        text: {
+          en: 'Once the sale is concluded the price may not be increased for deferral or late payment.',
+          ar: 'لا تجوز زيادة الثمن بعد إبرام العقد مقابل الأجل أو التأخر في السداد.',
+        },
+      },
+      {
+        id: 'promise',
+        text: {
+          en: "A customer's promise to buy may be binding, but the sale itself is concluded only after the institution acquires the asset.",
+          ar: 'يجوز أن يكون وعد العميل بالشراء ملزما، ولا يبرم عقد البيع إلا بعد تملك المؤسسة للسلعة.',
+        },
+      },
+    ],
+  },
+  {
+    number: 9,
+    title: { en: 'Ijarah and Ijarah Muntahia Bittamleek', ar: 'الإجارة والإجارة المنتهية بالتمليك' },
+    scope: {
+      en: 'Leasing of assets, including leases ending in transfer of ownership.',
+      ar: 'إجارة الأعيان، بما فيها الإجارة المنتهية بالتمليك.',
+    },
+    rulings: [
+      {
+        id: 'lessor-risk',
+        text: {
+          en: 'The lessor bears the risks of ownership, including major maintenance and insurance of the leased asset.',
+          ar: 'يتحمل المؤجر تبعات الملكية، ومنها الصيانة الأساسية وتأمين العين المؤجرة.',
+        },
+      },
+      {
+        id: 'rent',
+        text: {
+          en: 'The rental must be known; variable rent is allowed when linked to a clear benchmark agreed for each period.',
+          ar: 'يجب أن تكون الأجرة معلومة، ويجوز ربطها بمؤشر منضبط يحدد لكل فترة.',
+        },
+      },
+      {
+        id: 'transfer',
+        text: {
+          en: 'Transfer of ownership must be by a separate document, such as a promise of gift or sale, not built into the lease.',
+          ar: 'يكون نقل الملكية بعقد مستقل كالوعد بالهبة أو البيع، لا ضمن عقد الإجارة نفسه.',
+        },
+      },
+    ],
+  },
+  {
+    number: 10,
+    title: { en: 'Salam and Parallel Salam', ar: 'السلم والسلم الموازي' },
+    scope: {
+      en: 'Sale of goods for future delivery with the full price paid in advance.',
+      ar: 'بيع سلعة موصوفة في الذمة تسلم في أجل معلوم مع تعجيل كامل الثمن.',
+    },
+    rulings: [
+      {
+        id: 'full-payment',
+        text: {
+          en: 'The full price must be paid at the time of contract.',
+          ar: 'يجب تسليم رأس مال السلم كاملا في مجلس العقد.',
+        },
+      },
+      {
+        id: 'specification',
+        text: {
+          en: 'Quantity, quality and delivery date of the goods must be precisely specified.',
+          ar: 'يجب تحديد كمية المسلم فيه وصفته وأجل تسليمه تحديدا نافيا للجهالة.',
+        },
+      },
+    ],
+  },
+  {
+    number: 11,
+    title: { en: "Istisna'a and Parallel Istisna'a", ar: 'الاستصناع والاستصناع الموازي' },
+    scope: {
+      en: 'Contracts to manufacture or construct an asset to specification.',
+      ar: 'عقود صناعة أو إنشاء عين موصوفة.',
+    },
+    rulings: [
+      {
+        id: 'specification',
+        text: {
+          en: 'The item, its specifications and the price must be known when the contract is concluded.',
+          ar: 'يجب أن تكون العين المصنوعة ومواصفاتها والثمن معلومة عند التعاقد.',
+        },
+      },
+      {
+        id: 'penalty',
+        text: {
+          en: 'A penalty clause for delay in delivery by the manufacturer is permitted if reasonable.',
+          ar: 'يجوز اشتراط الشرط الجزائي على الصانع عند التأخر في التسليم إذا كان عادلا.',
+        },
+      },
+    ],
+  },
+  {
+    number: 12,
+    title: { en: 'Sharikah (Musharakah) and Modern Corporations', ar: 'الشركة (المشاركة) والشركات الحديثة' },
+    scope: {
+      en: 'Partnerships in capital and profit, including diminishing musharakah.',
+      ar: 'الشركة في رأس المال والربح، ومنها المشاركة المتناقصة.',
+    },
+    rulings: [
+      {
+        id: 'profit-ratio',
+        text: {
+          en: 'Profit must be shared by an agreed ratio; a fixed amount or a percentage of capital for any partner is not allowed.',
+          ar: 'يوزع الربح بنسبة شائعة متفق عليها، ولا يجوز تحديد مبلغ مقطوع أو نسبة من رأس المال لأحد الشركاء.',
+        },
+      },
+      {
+        id: 'loss',
+        text: {
+          en: 'Losses are borne in proportion to each partner\'s share of capital.',
+          ar: 'تتحمل الخسارة بنسبة حصص الشركاء في رأس المال.',
+        },
+      },
+    ],
+  },
+  {
+    number: 13,
+    title: { en: 'Mudarabah', ar: 'المضاربة' },
+    scope: {
+      en: 'Partnership where one party provides capital and the other manages it.',
+      ar: 'شركة في الربح يقدم فيها أحد الطرفين المال والآخر العمل.',
+    },
+    rulings: [
+      {
+        id: 'capital',
+        text: {
+          en: 'The manager does not guarantee the capital except in case of misconduct, negligence or breach of terms.',
+          ar: 'لا يضمن المضارب رأس المال إلا في حالات التعدي أو التقصير أو مخالفة الشروط.',
+        },
+      },
+      {
+        id: 'profit',
+        text: {
+          en: 'Profit shares must be agreed as ratios of profit, not as a lump sum or a ratio of capital.',
+          ar: 'يجب أن تكون حصة كل طرف نسبة شائعة من الربح لا مبلغا مقطوعا ولا نسبة من رأس المال.',
+        },
+      },
+    ],
+  },
+  {
+    number: 17,
+    title: { en: 'Investment Sukuk', ar: 'صكوك الاستثمار' },
+    scope: {
+      en: 'Certificates representing undivided shares in assets, usufructs or services.',
+      ar: 'وثائق تمثل حصصا شائعة في ملكية أعيان أو منافع أو خدمات.',
+    },
+    rulings: [
+      {
+        id: 'ownership',
+        text: {
+          en: 'Sukuk holders must own the underlying assets and bear their risks.',
+          ar: 'يجب أن يملك حملة الصكوك الموجودات التي تمثلها الصكوك ويتحملوا مخاطرها.',
+        },
+      },
+      {
+        id: 'no-guarantee',
+        text: {
+          en: 'The manager may not guarantee the face value or a fixed return to holders.',
+          ar: 'لا يجوز أن يضمن مدير الصكوك لحملتها القيمة الاسمية أو عائدا محددا.',
+        },
+      },
+    ],
+  },
+  {
+    number: 18,
+    title: { en: 'Possession (Qabd)', ar: 'القبض' },
+    scope: {
+      en: 'What counts as taking possession of goods, currencies and documents.',
+      ar: 'ما يتحقق به قبض السلع والعملات والمستندات.',
+    },
+    rulings: [
+      {
+        id: 'before-resale',
+        text: {
+          en: 'Goods bought may not be resold before they are possessed, actually or constructively.',
+          ar: 'لا يجوز بيع السلعة قبل قبضها قبضا حقيقيا أو حكميا.',
+        },
+      },
+      {
+        id: 'constructive',
+        text: {
+          en: 'Constructive possession is achieved when the buyer can dispose of the goods and bears their risk.',
+          ar: 'يتحقق القبض الحكمي بالتخلية والتمكين من التصرف وانتقال الضمان إلى المشتري.',
+        },
+      },
+    ],
+  },
+  {
+    number: 19,
+    title: { en: 'Loan (Qard)', ar: 'القرض' },
+    scope: {
+      en: 'Interest-free loans and the charges that may accompany them.',
+      ar: 'القرض الحسن وما يجوز أخذه معه من رسوم.',
+    },
+    rulings: [
+      {
+        id: 'no-benefit',
+        text: {
+          en: 'Any stipulated increase or benefit for the lender is riba and is prohibited.',
+          ar: 'كل زيادة أو منفعة مشروطة للمقرض فهي ربا محرم.',
+        },
+      },
+      {
+        id: 'costs',
+        text: {
+          en: 'Only the actual direct costs of providing the loan may be charged.',
+          ar: 'لا يجوز أن يؤخذ على القرض إلا المصروفات الفعلية المباشرة.',
+        },
+      },
+    ],
+  },
+  {
+    number: 25,
+    title: { en: 'Combination of Contracts', ar: 'الجمع بين العقود' },
+    scope: {
+      en: 'Combining several contracts in a single transaction.',
+      ar: 'اجتماع أكثر من عقد في منظومة واحدة.',
+    },
+    rulings: [
+      {
+        id: 'conditional',
+        text: {
+          en: 'Contracts may not be combined where one is made a condition of another in a way that leads to riba.',
+          ar: 'لا يجوز الجمع بين العقود إذا اشترط أحدها في الآخر على نحو يؤدي إلى الربا.',
+        },
+      },
+      {
+        id: 'loan-sale',
+        text: {
+          en: 'A loan may not be combined with a sale or lease in one arrangement.',
+          ar: 'لا يجوز الجمع بين القرض والبيع أو الإجارة في عقد واحد.',
+        },
+      },
+    ],
+  },
+  {
+    number: 26,
+    title: { en: 'Islamic Insurance', ar: 'التأمين الإسلامي' },
+    scope: {
+      en: 'Cooperative (takaful) insurance and its operation.',
+      ar: 'التأمين التعاوني (التكافل) وإدارته.',
+    },
+    rulings: [
+      {
+        id: 'conventional',
+        text: {
+          en: 'Conventional commercial insurance is prohibited for its gharar; cooperative insurance is permitted.',
+          ar: 'التأمين التجاري محرم لما فيه من الغرر، والتأمين التعاوني جائز.',
+        },
+      },
+      {
+        id: 'fund',
+        text: {
+          en: 'Contributions form a fund owned by participants, managed by the operator for a fee or share.',
+          ar: 'تكون الاشتراكات صندوقا مملوكا للمشتركين تديره الشركة مقابل أجر أو حصة.',
+        },
+      },
+    ],
+  },
+  {
+    number: 30,
+    title: { en: 'Monetization (Tawarruq)', ar: 'التورق' },
+    scope: {
+      en: 'Buying a commodity on credit and selling it to a third party for cash.',
+      ar: 'شراء سلعة بثمن آجل ثم بيعها لغير البائع بثمن حال.',
+    },
+    rulings: [
+      {
+        id: 'real-commodity',
+        text: {
+          en: 'The commodity must exist, be owned and possessed by the seller, and be genuinely sold on.',
+          ar: 'يجب أن تكون السلعة موجودة ومملوكة للبائع ومقبوضة، وأن يكون بيعها لاحقا حقيقيا.',
+        },
+      },
+      {
+        id: 'no-buyback',
+        text: {
+          en: 'The commodity may not be sold back to the original seller, directly or through an agent.',
+          ar: 'لا يجوز بيع السلعة على البائع الأول مباشرة أو بواسطة.',
+        },
+      },
+    ],
+  },
+  {
+    number: 31,
+    title: { en: 'Controls on Gharar in Financial Transactions', ar: 'ضابط الغرر المفسد للمعاملات المالية' },
+    scope: {
+      en: 'When uncertainty in a contract makes it invalid.',
+      ar: 'متى يفسد الغرر عقود المعاوضات المالية.',
+    },
+    rulings: [
+      {
+        id: 'excessive',
+        text: {
+          en: 'Excessive gharar in the subject matter, price or term of an exchange contract invalidates it.',
+          ar: 'الغرر الفاحش في محل العقد أو الثمن أو الأجل يفسد عقد المعاوضة.',
+        },
+      },
+      {
+        id: 'minor',
+        text: {
+          en: 'Minor or unavoidable uncertainty, or uncertainty in a gratuitous contract, does not affect validity.',
+          ar: 'الغرر اليسير أو الذي لا يمكن التحرز منه أو الواقع في عقود التبرعات لا يؤثر في صحة العقد.',
+        },
+      },
+    ],
+  },
+  {
+    number: 39,
+    title: { en: 'Mortgage and its Contemporary Applications', ar: 'الرهن وتطبيقاته المعاصرة' },
+    scope: {
+      en: 'Pledging assets as security for debts.',
+      ar: 'رهن الأعيان توثيقا للديون.',
+    },
+    rulings: [
+      {
+        id: 'benefit',
+        text: {
+          en: 'The creditor may not benefit from the pledged asset without paying fair compensation.',
+          ar: 'لا يجوز للمرتهن الانتفاع بالرهن دون عوض مثل.',
+        },
+      },
+      {
+        id: 'forfeit',
+        text: {
+          en: 'A clause that the pledge passes to the creditor on default is void; the asset is sold and the surplus returned.',
+          ar: 'شرط تملك المرتهن للرهن عند عدم السداد باطل، ويباع الرهن ويرد الفائض إلى الراهن.',
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import BatchAnalysisService, { AnalysisBatch } from '../services/BatchAnalysisService';
+
+// Saved batch analyses, newest first, updated as their files progress.
+export const useAnalysisBatches = (): AnalysisBatch[] => {
+  const [batches, setBatches] = useState<AnalysisBatch[]>(() =>
+    BatchAnalysisService.getInstance().getBatches()
+  );
+
+  useEffect(() => {
+    const service = BatchAnalysisService.getInstance();
+    setBatches(service.getBatches());
+    return service.subscribe((event) => {
+      if (event.type === 'changed') {
+        setBatches(event.batches);
+      }
+    });
+  }, []);
+
+  return batches;
+};
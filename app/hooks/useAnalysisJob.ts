@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import AnalysisJobTracker, { AnalysisJobSnapshot } from '../services/AnalysisJobTracker';
+
+// Live status of a tracked analysis job; null while there is no job.
+export const useAnalysisJob = (jobId: string | null | undefined): AnalysisJobSnapshot | null => {
+  const [snapshot, setSnapshot] = useState<AnalysisJobSnapshot | null>(() =>
+    jobId ? AnalysisJobTracker.getInstance().getSnapshot(jobId) : null
+  );
+
+  useEffect(() => {
+    if (!jobId) {
+      setSnapshot(null);
+      return;
+    }
+    const tracker = AnalysisJobTracker.getInstance();
+    setSnapshot(tracker.getSnapshot(jobId));
+    return tracker.subscribe((update) => {
+      if (update.jobId === jobId) {
+        setSnapshot(update);
+      }
+    });
+  }, [jobId]);
+
+  return snapshot;
+};
@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import AppLockService, { AppLockState } from '../services/AppLockService';
+
+export const useAppLock = (): AppLockState => {
+  const [state, setState] = useState<AppLockState>(() =>
+    AppLockService.getInstance().getState()
+  );
+
+  useEffect(() => {
+    const service = AppLockService.getInstance();
+    // The state may have changed between the first render and subscribing.
+    setState(service.getState());
+    return service.subscribe(setState);
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import ConnectivityService, { ConnectivityState } from '../services/ConnectivityService';
+
+export const useConnectivity = (): ConnectivityState => {
+  const [state, setState] = useState<ConnectivityState>(() =>
+    ConnectivityService.getInstance().getState()
+  );
+
+  useEffect(() => {
+    const service = ConnectivityService.getInstance();
+    // The state may have changed between the first render and subscribing.
+    setState(service.getState());
+    return service.subscribe((change) => setState(change.state));
+  }, []);
+
+  return state;
+};
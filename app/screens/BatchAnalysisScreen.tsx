@@ -0,0 +1,409 @@
+import React from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { useSession } from "../contexts/SessionContext";
+import {
+  Files,
+  Clock,
+  CheckCircle,
+  AlertCircle,
+  XCircle,
+  Upload,
+  ChevronRight,
+} from "lucide-react-native";
+import { ScreenType } from "../MobileApp";
+import BatchAnalysisService, {
+  AnalysisBatch,
+  BatchFile,
+  BatchFileState,
+  summarizeBatch,
+} from "../services/BatchAnalysisService";
+import { useAnalysisBatches } from "../hooks/useAnalysisBatches";
+
+interface BatchAnalysisScreenProps {
+  onNavigate: (screen: ScreenType, sessionId?: string, termId?: string) => void;
+}
+
+const FILE_STATE_META: Record<BatchFileState, { icon: typeof Clock; color: string; key: string; fallback: string }> = {
+  queued: { icon: Clock, color: "#6b7280", key: "batch.state.queued", fallback: "Waiting" },
+  uploading: { icon: Upload, color: "#3b82f6", key: "batch.state.uploading", fallback: "Analyzing" },
+  completed: { icon: CheckCircle, color: "#10b981", key: "batch.state.completed", fallback: "Analyzed" },
+  failed: { icon: AlertCircle, color: "#ef4444", key: "batch.state.failed", fallback: "Failed" },
+  cancelled: { icon: XCircle, color: "#6b7280", key: "batch.state.cancelled", fallback: "Cancelled" },
+};
+
+const complianceColor = (score: number) =>
+  score >= 70 ? "#10b981" : score >= 40 ? "#f59e0b" : "#ef4444";
+
+// Batch analyses with the status of every file and, once files complete,
+// the combined compliance of the batch and its weakest documents.
+const BatchAnalysisScreen: React.FC<BatchAnalysisScreenProps> = ({ onNavigate }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const { loadSessionData } = useSession();
+  const batches = useAnalysisBatches();
+  const isDark = theme === "dark";
+  const styles = getStyles(isDark, isRTL);
+  const service = BatchAnalysisService.getInstance();
+
+  const handleOpenFile = async (file: BatchFile) => {
+    if (!file.sessionId) return;
+    try {
+      await loadSessionData(file.sessionId);
+    } catch (error) {
+      console.error("❌ Failed to load session data:", error);
+    }
+    onNavigate("results", file.sessionId);
+  };
+
+  const handleCancel = (batch: AnalysisBatch) => {
+    Alert.alert(
+      t("batch.cancel.title") || "Cancel batch?",
+      t("batch.cancel.message") || "Contracts not analyzed yet will be skipped. Analyzed contracts stay in your history.",
+      [
+        { text: t("batch.cancel.keep") || "Keep analyzing", style: "cancel" },
+        {
+          text: t("batch.cancel.confirm") || "Cancel batch",
+          style: "destructive",
+          onPress: () => service.cancelBatch(batch.id),
+        },
+      ],
+    );
+  };
+
+  const renderFile = (file: BatchFile) => {
+    const meta = FILE_STATE_META[file.state];
+    const Icon = meta.icon;
+    const canOpen = file.state === "completed" && !!file.sessionId;
+
+    return (
+      <TouchableOpacity
+        key={file.id}
+        style={styles.fileRow}
+        onPress={() => handleOpenFile(file)}
+        disabled={!canOpen}
+      >
+        {file.state === "uploading" ? (
+          <ActivityIndicator size="small" color={meta.color} />
+        ) : (
+          <Icon size={16} color={meta.color} />
+        )}
+        <Text style={styles.fileName} numberOfLines={1}>
+          {file.name}
+        </Text>
+        {file.state === "completed" && file.complianceScore !== undefined ? (
+          <Text style={[styles.fileScore, { color: complianceColor(file.complianceScore) }]}>
+            {file.complianceScore}%
+          </Text>
+        ) : (
+          <Text style={[styles.fileState, { color: meta.color }]}>{t(meta.key) || meta.fallback}</Text>
+        )}
+        {canOpen && <ChevronRight size={16} color={isDark ? "#6b7280" : "#9ca3af"} />}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderBatch = ({ item: batch }: { item: AnalysisBatch }) => {
+    const summary = summarizeBatch(batch);
+    const settled = summary.total - summary.pending;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardHeaderText}>
+            <Text style={styles.cardTitle}>
+              {(t("batch.title") || "Batch of {count} contracts").replace("{count}", String(summary.total))}
+            </Text>
+            <Text style={styles.cardMeta}>
+              {new Date(batch.createdAt).toLocaleString()}
+              {" · "}
+              {batch.completedAt
+                ? (t("batch.analyzedCount") || "{completed} of {total} analyzed")
+                    .replace("{completed}", String(summary.completed))
+                    .replace("{total}", String(summary.total))
+                : (t("batch.progress") || "{settled} of {total} done")
+                    .replace("{settled}", String(settled))
+                    .replace("{total}", String(summary.total))}
+            </Text>
+          </View>
+          {batch.completedAt ? (
+            <TouchableOpacity style={styles.textButton} onPress={() => service.removeBatch(batch.id)}>
+              <Text style={styles.textButtonLabel}>{t("batch.remove") || "Remove"}</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={[styles.textButton, styles.cancelButton]} onPress={() => handleCancel(batch)}>
+              <Text style={[styles.textButtonLabel, styles.cancelButtonLabel]}>{t("common.cancel") || "Cancel"}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {!batch.completedAt && (
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${(settled / Math.max(summary.total, 1)) * 100}%` }]} />
+          </View>
+        )}
+
+        {summary.overallCompliance !== null && (
+          <View style={styles.summary}>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>
+                {batch.completedAt
+                  ? t("batch.summary.overall") || "Overall compliance"
+                  : t("batch.summary.overallSoFar") || "Compliance so far"}
+              </Text>
+              <Text style={[styles.summaryValue, { color: complianceColor(summary.overallCompliance) }]}>
+                {summary.overallCompliance}%
+              </Text>
+            </View>
+            {summary.failed > 0 && (
+              <Text style={styles.summaryNote}>
+                {(t("batch.summary.notAnalyzed") || "{count} not analyzed").replace("{count}", String(summary.failed))}
+              </Text>
+            )}
+            {summary.worstFiles.length > 1 && (
+              <>
+                <Text style={styles.summaryLabel}>{t("batch.summary.worst") || "Needs most attention"}</Text>
+                {summary.worstFiles.map((file, index) => (
+                  <TouchableOpacity key={file.id} style={styles.worstRow} onPress={() => handleOpenFile(file)}>
+                    <Text style={styles.worstRank}>{index + 1}.</Text>
+                    <Text style={styles.worstName} numberOfLines={1}>
+                      {file.name}
+                    </Text>
+                    <Text style={[styles.fileScore, { color: complianceColor(file.complianceScore ?? 0) }]}>
+                      {file.complianceScore}%
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+          </View>
+        )}
+
+        <View style={styles.files}>{batch.files.map(renderFile)}</View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Files size={22} color="#10b981" />
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{t("batch.screenTitle") || "Batch Analyses"}</Text>
+          <Text style={styles.subtitle}>
+            {t("batch.screenSubtitle") || "Contracts picked together are analyzed as one batch"}
+          </Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={batches}
+        keyExtractor={(item) => item.id}
+        renderItem={renderBatch}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.empty}>
+              {t("batch.empty") || "Select several files on the upload screen to analyze them together."}
+            </Text>
+            <TouchableOpacity style={styles.uploadButton} onPress={() => onNavigate("upload")}>
+              <Upload size={16} color="#ffffff" />
+              <Text style={styles.uploadButtonText}>{t("batch.upload") || "Select files"}</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDark ? "#111827" : "#f9fafb",
+  },
+  header: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: isDark ? "#f9fafb" : "#111827",
+    textAlign: isRTL ? "right" : "left",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: isDark ? "#9ca3af" : "#6b7280",
+    textAlign: isRTL ? "right" : "left",
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    padding: 14,
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDark ? "#374151" : "#e5e7eb",
+    backgroundColor: isDark ? "#1f2937" : "#ffffff",
+  },
+  cardHeader: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  cardHeaderText: {
+    flex: 1,
+    gap: 2,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: isDark ? "#f9fafb" : "#111827",
+    textAlign: isRTL ? "right" : "left",
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: isDark ? "#9ca3af" : "#6b7280",
+    textAlign: isRTL ? "right" : "left",
+  },
+  textButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: isDark ? "#4b5563" : "#d1d5db",
+  },
+  textButtonLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: isDark ? "#d1d5db" : "#4b5563",
+  },
+  cancelButton: {
+    borderColor: "#ef4444",
+  },
+  cancelButtonLabel: {
+    color: "#ef4444",
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+    backgroundColor: isDark ? "#374151" : "#e5e7eb",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+    backgroundColor: "#3b82f6",
+  },
+  summary: {
+    gap: 6,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: isDark ? "#111827" : "#f9fafb",
+  },
+  summaryRow: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  summaryLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: isDark ? "#9ca3af" : "#6b7280",
+    textAlign: isRTL ? "right" : "left",
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  summaryNote: {
+    fontSize: 12,
+    color: "#ef4444",
+    textAlign: isRTL ? "right" : "left",
+  },
+  worstRow: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  worstRank: {
+    fontSize: 13,
+    color: isDark ? "#9ca3af" : "#6b7280",
+  },
+  worstName: {
+    flex: 1,
+    fontSize: 13,
+    color: isDark ? "#e5e7eb" : "#1f2937",
+    textAlign: isRTL ? "right" : "left",
+  },
+  files: {
+    gap: 2,
+  },
+  fileRow: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: isDark ? "#374151" : "#f3f4f6",
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 14,
+    color: isDark ? "#e5e7eb" : "#1f2937",
+    textAlign: isRTL ? "right" : "left",
+  },
+  fileScore: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  fileState: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  emptyState: {
+    alignItems: "center",
+    gap: 16,
+    marginTop: 32,
+  },
+  empty: {
+    fontSize: 14,
+    color: isDark ? "#9ca3af" : "#6b7280",
+    textAlign: "center",
+  },
+  uploadButton: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#10b981",
+  },
+  uploadButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+});
+
+export default BatchAnalysisScreen;
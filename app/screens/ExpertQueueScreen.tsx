@@ -0,0 +1,452 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { useSession } from "../contexts/SessionContext";
+import { useAuth } from "../contexts/AuthContext";
+import { Inbox, ChevronDown, ExternalLink, Play } from "lucide-react-native";
+import { ScreenType } from "../MobileApp";
+import { ForbiddenError } from "../services/api";
+import ExpertReviewService, {
+  isFinalReviewState,
+  isReviewComplete,
+} from "../services/ExpertReviewService";
+import type { ExpertReviewRequest, ReviewState } from "../services/api";
+import ReviewStateBadge, { REVIEW_STATE_META } from "../components/ReviewStateBadge";
+import { isRtlText } from "../utils/textDiff";
+
+interface ExpertQueueScreenProps {
+  onNavigate: (screen: ScreenType, sessionId?: string, termId?: string) => void;
+}
+
+const DECISIONS: ReviewState[] = ["approved", "needs_changes", "rejected"];
+
+const DECISION_LABELS: Record<string, { key: string; fallback: string }> = {
+  approved: { key: "review.decision.approve", fallback: "Approve" },
+  needs_changes: { key: "review.decision.needs_changes", fallback: "Needs changes" },
+  rejected: { key: "review.decision.reject", fallback: "Reject" },
+};
+
+const termKey = (reviewId: string, termId: string) => `${reviewId}:${termId}`;
+
+// Queue of review requests waiting for a Sharia expert. Experts claim a
+// request, then approve, reject or ask for changes to each of its terms.
+const ExpertQueueScreen: React.FC<ExpertQueueScreenProps> = ({ onNavigate }) => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const { permissions } = useSession();
+  const { refreshUser } = useAuth();
+  const isDark = theme === "dark";
+  const styles = getStyles(isDark, isRTL);
+  const reviews = ExpertReviewService.getInstance();
+
+  const [queue, setQueue] = useState<ExpertReviewRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+
+  const isExpert = permissions.canReviewRequests;
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setQueue(await reviews.getQueue());
+    } catch (error: any) {
+      console.error("❌ Failed to load the review queue:", error);
+      // The account may have lost its expert role since sign-in.
+      if (error instanceof ForbiddenError) refreshUser();
+      setLoadError(error?.message || "Failed to load the review queue.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isExpert) loadQueue();
+  }, [isExpert, loadQueue]);
+
+  // Completed requests leave the queue.
+  const replaceRequest = (updated: ExpertReviewRequest) => {
+    setQueue((prev) =>
+      prev
+        .map((request) => (request.review_id === updated.review_id ? updated : request))
+        .filter((request) => !isReviewComplete(request)),
+    );
+  };
+
+  const runBusy = async (key: string, action: () => Promise<ExpertReviewRequest>) => {
+    setBusy((prev) => ({ ...prev, [key]: true }));
+    try {
+      replaceRequest(await action());
+      return true;
+    } catch (error: any) {
+      if (error instanceof ForbiddenError) refreshUser();
+      Alert.alert(
+        t("review.queue.errorTitle") || "Review Error",
+        error?.message || t("review.queue.errorGeneric") || "The review could not be updated.",
+      );
+      return false;
+    } finally {
+      setBusy((prev) => ({ ...prev, [key]: false }));
+    }
+  };
+
+  const handleClaim = (request: ExpertReviewRequest) => {
+    setExpandedId(request.review_id);
+    runBusy(request.review_id, () => reviews.claim(request.review_id));
+  };
+
+  const handleDecision = async (request: ExpertReviewRequest, termId: string, state: ReviewState) => {
+    const key = termKey(request.review_id, termId);
+    const comment = comments[key]?.trim();
+    if (state !== "approved" && !comment) {
+      Alert.alert(
+        t("review.queue.commentRequiredTitle") || "Comment Required",
+        t("review.queue.commentRequired") || "Explain what is wrong or what needs to change.",
+      );
+      return;
+    }
+    const done = await runBusy(key, () =>
+      reviews.updateTerm(request.review_id, termId, { state, expert_comment: comment }),
+    );
+    if (done) {
+      setComments((prev) => ({ ...prev, [key]: "" }));
+    }
+  };
+
+  const renderRequest = ({ item: request }: { item: ExpertReviewRequest }) => {
+    const isExpanded = expandedId === request.review_id;
+    const decided = request.terms.filter((term) => isFinalReviewState(term.state)).length;
+    const canClaim = request.terms.some((term) => term.state === "requested");
+
+    return (
+      <View style={styles.card}>
+        <TouchableOpacity
+          style={styles.cardHeader}
+          onPress={() => setExpandedId(isExpanded ? null : request.review_id)}
+        >
+          <View style={styles.cardHeaderText}>
+            <Text style={styles.cardTitle} numberOfLines={1}>
+              {request.session_title || request.session_id}
+            </Text>
+            <Text style={styles.cardMeta}>
+              {(t(request.scope === "session" ? "review.queue.wholeContract" : "review.queue.termCount") ||
+                "{count} terms")
+                .replace("{count}", String(request.terms.length))}
+              {" · "}
+              {new Date(request.requested_at).toLocaleString()}
+            </Text>
+            <Text style={styles.cardMeta}>
+              {(t("review.queue.progress") || "{decided} of {total} decided")
+                .replace("{decided}", String(decided))
+                .replace("{total}", String(request.terms.length))}
+            </Text>
+          </View>
+          <ChevronDown
+            size={18}
+            color={isDark ? "#9ca3af" : "#6b7280"}
+            style={{ transform: [{ rotate: isExpanded ? "180deg" : "0deg" }] }}
+          />
+        </TouchableOpacity>
+
+        {!!request.note && <Text style={styles.note}>“{request.note}”</Text>}
+
+        <View style={styles.cardActions}>
+          {canClaim && (
+            <TouchableOpacity
+              style={[styles.claimButton, busy[request.review_id] && styles.buttonDisabled]}
+              onPress={() => handleClaim(request)}
+              disabled={busy[request.review_id]}
+            >
+              {busy[request.review_id] ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Play size={14} color="#ffffff" />
+              )}
+              <Text style={styles.claimButtonText}>{t("review.queue.claim") || "Start review"}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.openButton}
+            onPress={() => onNavigate("results", request.session_id)}
+          >
+            <ExternalLink size={14} color="#3b82f6" />
+            <Text style={styles.openButtonText}>{t("review.queue.openContract") || "Open contract"}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isExpanded &&
+          request.terms.map((term) => {
+            const key = termKey(request.review_id, term.term_id);
+            const isFinal = isFinalReviewState(term.state);
+            const textIsRtl = isRtlText(term.term_text);
+            return (
+              <View key={term.term_id} style={styles.term}>
+                <ReviewStateBadge state={term.state} compact />
+                <Text
+                  style={[
+                    styles.termText,
+                    { writingDirection: textIsRtl ? "rtl" : "ltr", textAlign: textIsRtl ? "right" : "left" },
+                  ]}
+                  numberOfLines={6}
+                >
+                  {term.term_text}
+                </Text>
+                {!!term.sharia_issue && <Text style={styles.issue}>{term.sharia_issue}</Text>}
+
+                {isFinal ? (
+                  !!term.expert_comment && <Text style={styles.note}>“{term.expert_comment}”</Text>
+                ) : term.state === "in_review" ? (
+                  <>
+                    <TextInput
+                      style={styles.commentInput}
+                      value={comments[key] || ""}
+                      onChangeText={(text) => setComments((prev) => ({ ...prev, [key]: text }))}
+                      placeholder={t("review.queue.commentPlaceholder") || "Comment for the user"}
+                      placeholderTextColor={isDark ? "#6b7280" : "#9ca3af"}
+                      multiline
+                      textAlign={isRTL ? "right" : "left"}
+                    />
+                    <View style={styles.decisions}>
+                      {DECISIONS.map((state) => {
+                        const color = REVIEW_STATE_META[state].color;
+                        return (
+                          <TouchableOpacity
+                            key={state}
+                            style={[styles.decisionButton, { borderColor: color }, busy[key] && styles.buttonDisabled]}
+                            onPress={() => handleDecision(request, term.term_id, state)}
+                            disabled={busy[key]}
+                          >
+                            <Text style={[styles.decisionText, { color }]}>
+                              {t(DECISION_LABELS[state].key) || DECISION_LABELS[state].fallback}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </>
+                ) : null}
+              </View>
+            );
+          })}
+      </View>
+    );
+  };
+
+  if (!isExpert) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Inbox size={40} color={isDark ? "#4b5563" : "#9ca3af"} />
+        <Text style={styles.empty}>
+          {t("review.queue.expertsOnly") || "The review queue is available to Sharia experts only."}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Inbox size={22} color="#f59e0b" />
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{t("review.queue.title") || "Review Queue"}</Text>
+          <Text style={styles.subtitle}>
+            {(t("review.queue.subtitle") || "{count} requests awaiting review").replace(
+              "{count}",
+              String(queue.length),
+            )}
+          </Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={queue}
+        keyExtractor={(item) => item.review_id}
+        renderItem={renderRequest}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadQueue} />}
+        ListEmptyComponent={
+          isLoading ? null : (
+            <Text style={styles.empty}>
+              {loadError || t("review.queue.empty") || "No review requests are waiting."}
+            </Text>
+          )
+        }
+      />
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDark ? "#111827" : "#f9fafb",
+  },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+    gap: 12,
+  },
+  header: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: isDark ? "#f9fafb" : "#111827",
+    textAlign: isRTL ? "right" : "left",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: isDark ? "#9ca3af" : "#6b7280",
+    textAlign: isRTL ? "right" : "left",
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    padding: 14,
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDark ? "#374151" : "#e5e7eb",
+    backgroundColor: isDark ? "#1f2937" : "#ffffff",
+  },
+  cardHeader: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  cardHeaderText: {
+    flex: 1,
+    gap: 2,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: isDark ? "#f9fafb" : "#111827",
+    textAlign: isRTL ? "right" : "left",
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: isDark ? "#9ca3af" : "#6b7280",
+    textAlign: isRTL ? "right" : "left",
+  },
+  note: {
+    fontSize: 13,
+    fontStyle: "italic",
+    color: isDark ? "#d1d5db" : "#4b5563",
+    textAlign: isRTL ? "right" : "left",
+  },
+  cardActions: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  claimButton: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#f59e0b",
+  },
+  claimButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+  openButton: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#3b82f6",
+  },
+  openButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  term: {
+    gap: 6,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: isDark ? "#374151" : "#f3f4f6",
+    alignItems: "stretch",
+  },
+  termText: {
+    fontSize: 14,
+    lineHeight: 21,
+    color: isDark ? "#e5e7eb" : "#1f2937",
+  },
+  issue: {
+    fontSize: 12,
+    color: "#ef4444",
+    textAlign: isRTL ? "right" : "left",
+  },
+  commentInput: {
+    minHeight: 56,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: isDark ? "#374151" : "#d1d5db",
+    color: isDark ? "#f9fafb" : "#111827",
+    fontSize: 13,
+    textAlignVertical: "top",
+  },
+  decisions: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    gap: 8,
+  },
+  decisionButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  decisionText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  empty: {
+    marginTop: 32,
+    fontSize: 14,
+    textAlign: "center",
+    color: isDark ? "#9ca3af" : "#6b7280",
+  },
+});
+
+export default ExpertQueueScreen;
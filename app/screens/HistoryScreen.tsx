@@ -8,7 +8,8 @@ import {
   TextInput,
   ActivityIndicator,
   RefreshControl,
-  StatusBar
+  StatusBar,
+  Alert
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "../contexts/ThemeContext";
@@ -21,7 +22,10 @@ import { ScreenType } from "../MobileApp";
 import { LocalContract } from "../../types/session";
 import { getOfflineAnalyses, OfflineContractAnalysis, getAllStoredSessions } from "../utils/storage";
 import { SessionDetailsApiResponse } from "../services/api";
-import { AlertCircle, CheckCircle, Clock, Loader } from "lucide-react-native";
+import ConnectivityService from "../services/ConnectivityService";
+import SearchIndexService, { SearchMatch, SearchResult } from "../services/SearchIndexService";
+import { AlertCircle, CheckCircle, Clock, Loader, XCircle } from "lucide-react-native";
+import { computeWeightedCompliance } from "../utils/termSeverity";
 
 interface HistoryItem {
   id: string;
@@ -29,13 +33,20 @@ interface HistoryItem {
   title: string;
   createdAt: string;
   compliance: number;
+  // Severity-weighted score; absent when no analysed terms were stored.
+  weightedCompliance?: number;
   analysisResults: any[];
   raw: LocalContract | OfflineContractAnalysis | SessionDetailsApiResponse;
   source: 'contract' | 'offline' | 'session';
 }
 
+const getWeightedCompliance = (results: any[]): number | undefined =>
+  results.length > 0
+    ? computeWeightedCompliance(results, (term) => (term.expert_override_is_valid_sharia ?? term.is_valid_sharia) !== false)
+    : undefined;
+
 interface HistoryScreenProps {
-  onNavigate: (screen: ScreenType, sessionId?: string) => void;
+  onNavigate: (screen: ScreenType, sessionId?: string, termId?: string) => void;
   onBack: () => void;
 }
 
@@ -47,7 +58,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
   const { theme } = useTheme();
   const { t, isRTL } = useLanguage();
   const { loadSessionData } = useSession();
-  const { contracts, isAnalyzing, getActiveAnalyses, refreshAnalytics } = useContract();
+  const { contracts, isAnalyzing, getActiveAnalyses, refreshAnalytics, cancelAnalysis } = useContract();
 
   const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -55,6 +66,8 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
   const [searchQuery, setSearchQuery] = useState("");
   const [activeFilter, setActiveFilter] = useState<FilterType>('newest');
   const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(null);
+  // Full-text matches by session id; null while no search is active
+  const [searchResults, setSearchResults] = useState<Map<string, SearchResult> | null>(null);
   const [activeProcessing, setActiveProcessing] = useState<string[]>([]);
   const [statusUpdateInterval, setStatusUpdateInterval] = useState<NodeJS.Timeout | null>(null);
 
@@ -103,6 +116,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
           createdAt: contract.analysisDate,
           compliance: contract.complianceScore,
           analysisResults: contract.data?.analysis_results || [],
+          weightedCompliance: getWeightedCompliance(contract.data?.analysis_results || []),
           raw: contract,
           source: 'contract'
         };
@@ -125,6 +139,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
               createdAt: analysis.analysisDate,
               compliance: analysis.complianceScore,
               analysisResults: analysis.fullSessionData?.analysis_results || [],
+              weightedCompliance: getWeightedCompliance(analysis.fullSessionData?.analysis_results || []),
               raw: analysis,
               source: 'offline'
             };
@@ -151,6 +166,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
               createdAt: session.analysis_timestamp || new Date().toISOString(),
               compliance: session.compliance_percentage || 0,
               analysisResults: session.analysis_results || [],
+              weightedCompliance: getWeightedCompliance(session.analysis_results || []),
               raw: session,
               source: 'session'
             };
@@ -180,9 +196,20 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
       clearTimeout(searchTimeout);
     }
 
+    if (!query.trim()) {
+      setSearchResults(null);
+    }
+
     // Debounce search with 200ms delay
-    const timeout = setTimeout(() => {
+    const timeout = setTimeout(async () => {
+      if (!query.trim()) return;
       console.log('🔍 Search query:', query);
+      try {
+        const results = await SearchIndexService.getInstance().search(query);
+        setSearchResults(new Map(results.map(result => [result.sessionId, result])));
+      } catch (error) {
+        console.warn('Full-text search failed:', error);
+      }
     }, 200);
 
     setSearchTimeout(timeout);
@@ -192,12 +219,14 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
   const filteredAndSortedItems = useMemo(() => {
     let filtered = historyItems;
 
-    // Apply search filter - case-insensitive, partial match
+    // Apply search filter - title match, or a full-text match in the
+    // contract text, terms, issues or references
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase().trim();
       filtered = filtered.filter(item => 
         item.title.toLowerCase().includes(query) ||
-        item.sessionId.toLowerCase().includes(query)
+        item.sessionId.toLowerCase().includes(query) ||
+        searchResults?.has(item.sessionId)
       );
     }
 
@@ -218,7 +247,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
       default:
         return filtered;
     }
-  }, [historyItems, searchQuery, activeFilter]);
+  }, [historyItems, searchQuery, searchResults, activeFilter]);
 
   useEffect(() => {
     loadHistoryItems();
@@ -277,6 +306,17 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
     };
   }, [loadHistoryItems]);
 
+  // Reload once the backend is reachable again: the reconnect sync may have
+  // completed analyses or brought in new sessions.
+  useEffect(() => {
+    return ConnectivityService.getInstance().subscribe(({ reconnected }) => {
+      if (reconnected) {
+        console.log('🌐 Back online - refreshing history');
+        loadHistoryItems();
+      }
+    });
+  }, [loadHistoryItems]);
+
   useEffect(() => {
     return () => {
       if (searchTimeout) {
@@ -306,6 +346,36 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
     }
   }, [onNavigate, loadSessionData]);
 
+  const handleCancelPress = useCallback((item: HistoryItem) => {
+    Alert.alert(
+      t('cancelAnalysis.title') || 'Cancel analysis?',
+      t('cancelAnalysis.message') || 'The analysis will stop and this contract will be kept in your history as cancelled.',
+      [
+        { text: t('cancelAnalysis.keep') || 'Keep analyzing', style: 'cancel' },
+        {
+          text: t('cancelAnalysis.confirm') || 'Cancel analysis',
+          style: 'destructive',
+          onPress: async () => {
+            await cancelAnalysis(item.sessionId);
+            loadHistoryItems();
+          },
+        },
+      ]
+    );
+  }, [cancelAnalysis, loadHistoryItems, t]);
+
+  // Opens the session and scrolls straight to the matching term
+  const handleMatchPress = useCallback(async (item: HistoryItem, match: SearchMatch) => {
+    console.log("🔎 Opening search match:", item.sessionId, match.termId);
+
+    try {
+      await loadSessionData(item.sessionId);
+    } catch (error) {
+      console.error("❌ Failed to load session data:", error);
+    }
+    onNavigate("results", item.sessionId, match.termId);
+  }, [onNavigate, loadSessionData]);
+
   const renderFilterButton = useCallback((filter: FilterType, labelKey: string) => {
     const isActive = activeFilter === filter;
     const label = t(`filter_${labelKey}`) || labelKey;
@@ -333,9 +403,12 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
     const isProcessing = activeProcessing.includes(item.sessionId);
     const isAnalyzingSession = isAnalyzing(item.sessionId);
     const hasIncompleteData = !item.analysisResults || item.analysisResults.length === 0;
+    const isCancelled = item.source === 'contract' && (item.raw as LocalContract).status === 'cancelled';
 
     const complianceColor = item.compliance >= 70 ? colors.primary : 
                           item.compliance >= 40 ? '#f59e0b' : '#ef4444';
+    const weightedColor = (item.weightedCompliance ?? 0) >= 70 ? colors.primary :
+                          (item.weightedCompliance ?? 0) >= 40 ? '#f59e0b' : '#ef4444';
     const date = new Date(item.createdAt);
     const formattedDate = date.toLocaleDateString(isRTL ? 'ar' : 'en', {
       year: 'numeric',
@@ -352,6 +425,10 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
       statusIcon = <Loader size={14} color="#3b82f6" />;
       statusText = t('processing') || 'Processing...';
       statusColor = '#3b82f6';
+    } else if (isCancelled) {
+      statusIcon = <XCircle size={14} color="#6b7280" />;
+      statusText = t('history.status.cancelled') || 'Cancelled';
+      statusColor = '#6b7280';
     } else if (hasIncompleteData) {
       statusIcon = <Clock size={14} color="#f59e0b" />;
       statusText = t('pending') || 'Pending';
@@ -369,7 +446,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
           (isProcessing || isAnalyzingSession) && styles.processingItem
         ]}
         onPress={() => handleItemPress(item)}
-        disabled={isProcessing || isAnalyzingSession}
+        disabled={isProcessing || isAnalyzingSession || isCancelled}
       >
         <View style={styles.historyItemContent}>
           <View style={styles.historyItemHeader}>
@@ -383,13 +460,20 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
                   {statusText}
                 </Text>
               </View>
-              {!isProcessing && !isAnalyzingSession && (
+              {!isProcessing && !isAnalyzingSession && !isCancelled && (
                 <View style={[styles.complianceBadge, { backgroundColor: complianceColor }]}>
                   <Text style={styles.complianceBadgeText}>
                     {Math.round(item.compliance)}%
                   </Text>
                 </View>
               )}
+              {!isProcessing && !isAnalyzingSession && !isCancelled && item.weightedCompliance !== undefined && (
+                <View style={[styles.weightedBadge, { borderColor: weightedColor }]}>
+                  <Text style={[styles.weightedBadgeText, { color: weightedColor }]}>
+                    {t('compliance.weightedShort') || 'Weighted'} {Math.round(item.weightedCompliance)}%
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
 
@@ -403,7 +487,36 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
             <Text style={styles.historyItemSource}>
               {item.source === 'contract' ? '' : item.source === 'offline' ? '' : ''}
             </Text>
+            {(isProcessing || isAnalyzingSession) && (
+              <TouchableOpacity
+                style={styles.cancelAnalysisButton}
+                onPress={() => handleCancelPress(item)}
+              >
+                <Text style={styles.cancelAnalysisButtonText}>
+                  {t('common.cancel') || 'Cancel'}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
+
+          {searchQuery.trim() !== '' && searchResults?.get(item.sessionId)?.matches.map((match, index) => (
+            <TouchableOpacity
+              key={`${match.kind}_${match.termId ?? index}`}
+              style={styles.searchMatch}
+              onPress={() => handleMatchPress(item, match)}
+              disabled={isProcessing || isAnalyzingSession}
+            >
+              <Text style={styles.searchMatchKind}>
+                {t(`history.searchMatch.${match.kind}`) || match.kind}
+              </Text>
+              <Text
+                style={[styles.searchMatchSnippet, { textAlign: isRTL ? 'right' : 'left' }]}
+                numberOfLines={2}
+              >
+                {match.snippet}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
 
         <View style={styles.historyItemArrow}>
@@ -413,7 +526,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
         </View>
       </TouchableOpacity>
     );
-  }, [handleItemPress, isRTL, t]);
+  }, [handleItemPress, handleMatchPress, handleCancelPress, activeProcessing, isAnalyzing, searchQuery, searchResults, isRTL, t]);
 
   const renderEmptyState = useCallback(() => (
     <View style={styles.emptyState}>
@@ -447,7 +560,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ onNavigate, onBack }) =>
       <View style={styles.searchContainer}>
         <TextInput
           style={[styles.searchInput, { textAlign: isRTL ? 'right' : 'left' }]}
-          placeholder={t('search') || 'Search contracts...'}
+          placeholder={t('history.searchPlaceholder') || 'Search contracts, terms and issues...'}
           placeholderTextColor={colors.textMuted}
           value={searchQuery}
           onChangeText={handleSearch}
@@ -622,6 +735,16 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: 'white',
   },
+  weightedBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  weightedBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   historyItemMeta: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -638,6 +761,23 @@ const styles = StyleSheet.create({
   historyItemSource: {
     fontSize: 12,
   },
+  searchMatch: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  searchMatchKind: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.primary,
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  searchMatchSnippet: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
   historyItemArrow: {
     marginLeft: 12,
   },
@@ -678,6 +818,18 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '500',
   },
+  cancelAnalysisButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ef4444',
+  },
+  cancelAnalysisButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
   processingItem: {
     opacity: 0.7,
     borderLeftWidth: 3,
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { useAuth } from "../contexts/AuthContext";
+import { Lock, LogIn, X } from "lucide-react-native";
+
+type LoginMode = "login" | "signup";
+
+// Sign-in and sign-up form. MobileApp shows it over the current screen when
+// the user asks to sign in or the session expires, so nothing on that screen
+// is lost while the user signs in again.
+const LoginScreen: React.FC = () => {
+  const { t, isRTL } = useLanguage();
+  const { theme } = useTheme();
+  const { loginPrompt, login, signup, dismissLoginPrompt } = useAuth();
+  const isDark = theme === "dark";
+  const styles = getStyles(isDark, isRTL);
+
+  const isExpired = loginPrompt?.reason === "session_expired";
+  const [mode, setMode] = useState<LoginMode>(loginPrompt?.mode ?? "login");
+  const [email, setEmail] = useState(loginPrompt?.email ?? "");
+  const [password, setPassword] = useState("");
+  const [username, setUsername] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setMode(loginPrompt?.mode ?? "login");
+    setEmail(loginPrompt?.email ?? "");
+    setPassword("");
+  }, [loginPrompt]);
+
+  const canSubmit = email.trim().length > 0 && password.length > 0 && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    try {
+      if (mode === "login") {
+        await login({ email: email.trim(), password });
+      } else {
+        await signup({
+          email: email.trim(),
+          password,
+          username: username.trim() || undefined,
+        });
+      }
+    } catch {
+      // AuthContext has already told the user what went wrong.
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const placeholderColor = isDark ? "#6b7280" : "#9ca3af";
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.topBar}>
+          <TouchableOpacity onPress={dismissLoginPrompt} disabled={isSubmitting}>
+            <X size={24} color={isDark ? "#d1d5db" : "#374151"} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.iconCircle}>
+            {isExpired ? <Lock size={28} color="#f59e0b" /> : <LogIn size={28} color="#10b981" />}
+          </View>
+          <Text style={styles.title}>
+            {isExpired
+              ? t("auth.sessionExpired.title") || "Session Expired"
+              : mode === "login"
+                ? t("auth.login") || "Login"
+                : t("auth.signup") || "Sign Up"}
+          </Text>
+
+          {isExpired && (
+            <View style={styles.notice}>
+              <Text style={styles.noticeText}>
+                {t("auth.sessionExpired.message") ||
+                  "Your session has expired. Sign in again to continue. Your unsaved changes are kept and will sync once you are signed in."}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.form}>
+            {mode === "signup" && (
+              <TextInput
+                style={styles.input}
+                value={username}
+                onChangeText={setUsername}
+                placeholder={t("auth.username") || "Username (optional)"}
+                placeholderTextColor={placeholderColor}
+                autoCapitalize="none"
+                textAlign={isRTL ? "right" : "left"}
+                editable={!isSubmitting}
+              />
+            )}
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder={t("auth.email") || "Email"}
+              placeholderTextColor={placeholderColor}
+              autoCapitalize="none"
+              autoComplete="email"
+              keyboardType="email-address"
+              textAlign={isRTL ? "right" : "left"}
+              editable={!isSubmitting}
+            />
+            <TextInput
+              style={styles.input}
+              value={password}
+              onChangeText={setPassword}
+              placeholder={t("auth.password") || "Password"}
+              placeholderTextColor={placeholderColor}
+              secureTextEntry
+              autoComplete="password"
+              textAlign={isRTL ? "right" : "left"}
+              editable={!isSubmitting}
+              onSubmitEditing={handleSubmit}
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, !canSubmit && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {mode === "login" ? t("auth.login") || "Login" : t("auth.signup") || "Sign Up"}
+                </Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => setMode(mode === "login" ? "signup" : "login")}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.linkText}>
+                {mode === "login"
+                  ? t("auth.noAccount") || "No account yet? Sign up"
+                  : t("auth.haveAccount") || "Already have an account? Login"}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.linkButton} onPress={dismissLoginPrompt} disabled={isSubmitting}>
+              <Text style={styles.secondaryLinkText}>
+                {t("auth.continueAsGuest") || "Continue as guest"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDark ? "#111827" : "#f9fafb",
+  },
+  topBar: {
+    flexDirection: isRTL ? "row" : "row-reverse",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  content: {
+    padding: 24,
+    gap: 16,
+    alignItems: "stretch",
+  },
+  iconCircle: {
+    alignSelf: "center",
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: isDark ? "#1f2937" : "#ffffff",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    textAlign: "center",
+    color: isDark ? "#f9fafb" : "#111827",
+  },
+  notice: {
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#f59e0b",
+    backgroundColor: isDark ? "rgba(245, 158, 11, 0.1)" : "#fffbeb",
+  },
+  noticeText: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: isDark ? "#fcd34d" : "#92400e",
+    textAlign: isRTL ? "right" : "left",
+  },
+  form: {
+    gap: 12,
+  },
+  input: {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: isDark ? "#374151" : "#d1d5db",
+    backgroundColor: isDark ? "#1f2937" : "#ffffff",
+    color: isDark ? "#f9fafb" : "#111827",
+    fontSize: 15,
+  },
+  primaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    borderRadius: 10,
+    backgroundColor: "#10b981",
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+  linkButton: {
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#10b981",
+  },
+  secondaryLinkText: {
+    fontSize: 14,
+    color: isDark ? "#9ca3af" : "#6b7280",
+  },
+});
+
+export default LoginScreen;
@@ -5,7 +5,11 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSession } from '../contexts/SessionContext';
-import { ArrowLeft, ArrowRight, LogOut, Moon, Sun, Languages, User, Shield, HelpCircle, Share2, Star, UserCheck } from 'lucide-react-native';
+import { ArrowLeft, ArrowRight, LogOut, Moon, Sun, Languages, User, Shield, HelpCircle, Share2, Star, UserCheck, Eye, EyeOff, Lock, Timer } from 'lucide-react-native';
+import { getPermissions } from '../utils/permissions';
+import { useAppLock } from '../hooks/useAppLock';
+import AppLockService, { APP_LOCK_TIMEOUTS_MS } from '../services/AppLockService';
+import PinSetupSheet from '../components/PinSetupSheet';
 
 interface ProfileScreenProps {
   onBack: () => void;
@@ -13,12 +17,14 @@ interface ProfileScreenProps {
 
 const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack }) => {
   const { t, language, setLanguage, isRTL } = useLanguage();
-  const { user, logout } = useAuth();
+  const { user, logout, promptLogin } = useAuth();
   // Temporary fix - derive guest mode from user state
   const isGuestMode = !user;
   const { theme, toggleTheme } = useTheme();
-  const { currentUserRole, toggleUserRole } = useSession();
+  const { accountRole, isPreviewingAsRegularUser, setPreviewAsRegularUser } = useSession();
   const [notifications, setNotifications] = useState(true);
+  const appLock = useAppLock();
+  const [isPinSetupVisible, setIsPinSetupVisible] = useState(false);
 
   const isDark = theme === 'dark';
   const styles = getStyles(isDark, isRTL);
@@ -34,6 +40,47 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack }) => {
     );
   };
 
+  const enableBiometricLock = async () => {
+    const service = AppLockService.getInstance();
+    if (await service.authenticate(t('appLock.confirmPrompt') || 'Confirm to turn on app lock')) {
+      await service.enable('biometric');
+    }
+  };
+
+  // Biometrics when the device has them enrolled, otherwise an app PIN.
+  const handleAppLockToggle = async (enabled: boolean) => {
+    const service = AppLockService.getInstance();
+    if (!enabled) {
+      await service.disable();
+      return;
+    }
+    const support = await service.getBiometricSupport();
+    if (!support.available) {
+      setIsPinSetupVisible(true);
+      return;
+    }
+    Alert.alert(
+      t('appLock.chooseMethod') || 'Unlock with',
+      t('appLock.chooseMethodDescription') || 'Choose how to unlock the app.',
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('appLock.method.pin') || 'PIN', onPress: () => setIsPinSetupVisible(true) },
+        { text: t('appLock.method.biometric') || 'Biometrics', onPress: enableBiometricLock },
+      ]
+    );
+  };
+
+  const formatLockTimeout = (timeoutMs: number) =>
+    timeoutMs === 0
+      ? t('appLock.timeout.immediately') || 'Immediately'
+      : (t('appLock.timeout.minutes') || 'After {count} min').replace('{count}', String(timeoutMs / 60_000));
+
+  const cycleLockTimeout = () => {
+    const index = APP_LOCK_TIMEOUTS_MS.indexOf(appLock.settings.timeoutMs);
+    const timeoutMs = APP_LOCK_TIMEOUTS_MS[(index + 1) % APP_LOCK_TIMEOUTS_MS.length];
+    AppLockService.getInstance().updateSettings({ timeoutMs });
+  };
+
   const toggleLanguage = () => {
     setLanguage(language === 'en' ? 'ar' : 'en');
   };
@@ -139,7 +186,8 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack }) => {
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('profile.settings')}</Text>
-          <TouchableOpacity style={styles.userRoleRow} onPress={toggleUserRole}>
+          {/* The role is assigned to the account by the server */}
+          <View style={styles.userRoleRow}>
             <View style={styles.optionLabelContainer}>
               <UserCheck size={20} color={styles.optionLabel.color} />
               <Text style={styles.optionLabel}>{t('profile.userRole')}</Text>
@@ -147,15 +195,23 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack }) => {
             <View style={styles.roleToggleContainer}>
               <View style={[
                 styles.roleToggle,
-                { backgroundColor: currentUserRole === 'shariah_expert' ? '#f59e0b' : '#3b82f6' }
+                { backgroundColor: accountRole === 'shariah_expert' ? '#f59e0b' : '#3b82f6' }
               ]}>
                 <Text style={styles.roleToggleText}>
-                  {currentUserRole === 'regular_user' ? t('user.regular') : t('user.expert')}
+                  {accountRole === 'regular_user' ? t('user.regular') : t('user.expert')}
                 </Text>
               </View>
-              {isRTL ? <ArrowLeft size={16} color={styles.optionValue.color} /> : <ArrowRight size={16} color={styles.optionValue.color} />}
             </View>
-          </TouchableOpacity>
+          </View>
+          {getPermissions(accountRole).canPreviewAsRegularUser && (
+            <OptionRow
+              icon={<Eye size={20} color={styles.optionLabel.color} />}
+              label={t('profile.previewAsRegularUser')}
+              value={isPreviewingAsRegularUser}
+              onToggle={setPreviewAsRegularUser}
+              isSwitch
+            />
+          )}
           <OptionRow
             icon={<Moon size={20} color={styles.optionLabel.color} />}
             label={t('profile.darkMode')}
@@ -181,6 +237,34 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack }) => {
           />
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('profile.security') || 'Security'}</Text>
+          <OptionRow
+            icon={<Lock size={20} color={styles.optionLabel.color} />}
+            label={t('appLock.title') || 'App Lock'}
+            value={appLock.settings.enabled}
+            onToggle={handleAppLockToggle}
+            isSwitch
+          />
+          {appLock.settings.enabled && (
+            <OptionRow
+              icon={<Timer size={20} color={styles.optionLabel.color} />}
+              label={t('appLock.lockAfter') || 'Lock after leaving the app'}
+              value={formatLockTimeout(appLock.settings.timeoutMs)}
+              onPress={cycleLockTimeout}
+            />
+          )}
+          <OptionRow
+            icon={<EyeOff size={20} color={styles.optionLabel.color} />}
+            label={t('appLock.hideInAppSwitcher') || 'Hide contracts in app switcher'}
+            value={appLock.settings.hideInAppSwitcher}
+            onToggle={(hideInAppSwitcher: boolean) =>
+              AppLockService.getInstance().updateSettings({ hideInAppSwitcher })
+            }
+            isSwitch
+          />
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('profile.support')}</Text>
           <OptionRow
@@ -200,7 +284,7 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack }) => {
           />
         </View>
 
-        <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+        <TouchableOpacity style={styles.logoutButton} onPress={isGuestMode ? () => promptLogin() : handleLogout}>
           <LogOut size={20} color="#ef4444" />
           <Text style={styles.logoutText}>
             {isGuestMode ? t('guest.exit') : t('auth.logout')}
@@ -208,6 +292,12 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack }) => {
         </TouchableOpacity>
         <View style={{ height: 40 }} />
       </ScrollView>
+
+      <PinSetupSheet
+        visible={isPinSetupVisible}
+        onSubmit={(pin) => AppLockService.getInstance().enable('pin', pin)}
+        onClose={() => setIsPinSetupVisible(false)}
+      />
     </SafeAreaView>
   );
 };
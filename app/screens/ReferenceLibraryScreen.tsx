@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, TextInput, FlatList, TouchableOpacity, StyleSheet } from "react-native";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { useSession } from "../contexts/SessionContext";
+import { BookOpen, Search, Link2 } from "lucide-react-native";
+import { ScreenType } from "../MobileApp";
+import ReferenceLibraryService from "../services/ReferenceLibraryService";
+import type { StandardSearchResult } from "../services/ReferenceLibraryService";
+import type { ShariaStandard } from "../data/shariaStandards";
+import ReferenceDetailSheet from "../components/ReferenceDetailSheet";
+
+interface ReferenceLibraryScreenProps {
+  onNavigate: (screen: ScreenType, sessionId?: string, termId?: string) => void;
+}
+
+// Browsable, searchable list of the bundled Shari'ah standards. While a
+// contract is open, each standard shows how many of its terms cite it.
+const ReferenceLibraryScreen: React.FC<ReferenceLibraryScreenProps> = ({ onNavigate }) => {
+  const { t, isRTL, language } = useLanguage();
+  const { theme } = useTheme();
+  const { sessionId, analysisTerms } = useSession();
+  const isDark = theme === "dark";
+  const styles = getStyles(isDark, isRTL);
+  const library = ReferenceLibraryService.getInstance();
+
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<ShariaStandard | null>(null);
+
+  const results = useMemo(() => library.search(query), [query]);
+
+  const citingCounts = useMemo(() => {
+    const counts: Record<number, number> = {};
+    (analysisTerms || []).forEach((term) =>
+      library.parse(term.reference_number).forEach(({ standardNumber }) => {
+        counts[standardNumber] = (counts[standardNumber] || 0) + 1;
+      }),
+    );
+    return counts;
+  }, [analysisTerms]);
+
+  const citingTerms = useMemo(
+    () => (selected && analysisTerms ? library.findCitingTerms(analysisTerms, selected.number) : []),
+    [selected, analysisTerms],
+  );
+
+  const renderStandard = ({ item }: { item: StandardSearchResult }) => {
+    const { standard, rulingIds } = item;
+    const cited = citingCounts[standard.number] || 0;
+    const matchedRulings = standard.rulings.filter((ruling) => rulingIds.includes(ruling.id));
+
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => setSelected(standard)}>
+        <View style={styles.numberBadge}>
+          <Text style={styles.numberText}>{standard.number}</Text>
+        </View>
+        <View style={styles.cardBody}>
+          <Text style={styles.cardTitle}>
+            {language === "ar" ? standard.title.ar : standard.title.en}
+          </Text>
+          <Text style={styles.cardScope} numberOfLines={2}>
+            {language === "ar" ? standard.scope.ar : standard.scope.en}
+          </Text>
+          {matchedRulings.map((ruling) => (
+            <Text key={ruling.id} style={styles.match} numberOfLines={2}>
+              {language === "ar" ? ruling.text.ar : ruling.text.en}
+            </Text>
+          ))}
+          {cited > 0 && (
+            <View style={styles.citedRow}>
+              <Link2 size={12} color="#10b981" />
+              <Text style={styles.citedText}>
+                {(t("library.citedInContract") || "Cited by {count} terms in this contract").replace(
+                  "{count}",
+                  String(cited),
+                )}
+              </Text>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <BookOpen size={22} color="#3b82f6" />
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{t("library.title") || "Shari'ah Reference Library"}</Text>
+          <Text style={styles.subtitle}>
+            {t("library.subtitle") || "AAOIFI Shari'ah Standards, available offline"}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.searchBox}>
+        <Search size={18} color={isDark ? "#9ca3af" : "#6b7280"} />
+        <TextInput
+          style={[styles.searchInput, { textAlign: isRTL ? "right" : "left" }]}
+          placeholder={t("library.searchPlaceholder") || "Search standards, rulings or a number..."}
+          placeholderTextColor={isDark ? "#6b7280" : "#9ca3af"}
+          value={query}
+          onChangeText={setQuery}
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => String(item.standard.number)}
+        renderItem={renderStandard}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.empty}>{t("library.noResults") || "No standards match your search."}</Text>
+        }
+      />
+
+      <ReferenceDetailSheet
+        visible={!!selected}
+        reference={selected ? { standardNumber: selected.number, standard: selected } : null}
+        citingTerms={citingTerms}
+        onSelectTerm={
+          sessionId
+            ? (termId) => {
+                setSelected(null);
+                onNavigate("results", sessionId, termId);
+              }
+            : undefined
+        }
+        onClose={() => setSelected(null)}
+      />
+    </View>
+  );
+};
+
+const getStyles = (isDark: boolean, isRTL: boolean) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: isDark ? "#111827" : "#f9fafb",
+  },
+  header: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: isDark ? "#f9fafb" : "#111827",
+    textAlign: isRTL ? "right" : "left",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: isDark ? "#9ca3af" : "#6b7280",
+    textAlign: isRTL ? "right" : "left",
+  },
+  searchBox: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 8,
+    margin: 16,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDark ? "#374151" : "#e5e7eb",
+    backgroundColor: isDark ? "#1f2937" : "#ffffff",
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: isDark ? "#f9fafb" : "#111827",
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+    gap: 10,
+  },
+  card: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: isDark ? "#374151" : "#e5e7eb",
+    backgroundColor: isDark ? "#1f2937" : "#ffffff",
+  },
+  numberBadge: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: isDark ? "rgba(59, 130, 246, 0.2)" : "#dbeafe",
+  },
+  numberText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#3b82f6",
+  },
+  cardBody: {
+    flex: 1,
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: isDark ? "#f9fafb" : "#111827",
+    textAlign: isRTL ? "right" : "left",
+  },
+  cardScope: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: isDark ? "#d1d5db" : "#4b5563",
+    textAlign: isRTL ? "right" : "left",
+  },
+  match: {
+    fontSize: 12,
+    lineHeight: 18,
+    fontStyle: "italic",
+    color: isDark ? "#93c5fd" : "#1d4ed8",
+    textAlign: isRTL ? "right" : "left",
+  },
+  citedRow: {
+    flexDirection: isRTL ? "row-reverse" : "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 2,
+  },
+  citedText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#10b981",
+  },
+  empty: {
+    marginTop: 32,
+    fontSize: 14,
+    textAlign: "center",
+    color: isDark ? "#9ca3af" : "#6b7280",
+  },
+});
+
+export default ReferenceLibraryScreen;
@@ -10,9 +10,12 @@ import { ArrowLeft, ArrowRight } from 'lucide-react-native';
 interface ResultsScreenProps {
   onBack: () => void;
   sessionId?: string;
+  // Term to scroll to and highlight once the terms are rendered.
+  focusTermId?: string | null;
+  onFocusHandled?: () => void;
 }
 
-const ResultsScreen: React.FC<ResultsScreenProps> = ({ onBack }) => {
+const ResultsScreen: React.FC<ResultsScreenProps> = ({ onBack, focusTermId, onFocusHandled }) => {
   const { t, isRTL } = useLanguage();
   const { theme } = useTheme();
   const { analysisTerms, sessionDetails } = useSession();
@@ -68,7 +71,7 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ onBack }) => {
           }
         ]}
       >
-        <ContractTermsList />
+        <ContractTermsList focusTermId={focusTermId} onFocusHandled={onFocusHandled} />
       </Animated.View>
     </SafeAreaView>
   );
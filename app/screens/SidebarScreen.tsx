@@ -16,19 +16,13 @@ interface SidebarScreenProps {
 const SidebarScreen: React.FC<SidebarScreenProps> = ({ onNavigate, onBack }) => {
   const { t, isRTL } = useLanguage();
   const { theme } = useTheme();
-  const { isGuestMode, user, logout } = useAuth();
+  const { isGuestMode, user, logout, promptLogin } = useAuth();
   const isDark = theme === 'dark';
   const styles = getStyles(isDark, isRTL);
 
-  const handleLogin = () => {
-    // In a real app, you might navigate to a dedicated login screen
-    // For now, we can just log a message or trigger the auth flow
-    console.log('Navigate to login');
-  };
+  const handleLogin = () => promptLogin('login');
 
-  const handleSignup = () => {
-    console.log('Navigate to signup');
-  };
+  const handleSignup = () => promptLogin('signup');
 
   return (
     <SafeAreaView style={styles.container}>
@@ -15,9 +15,21 @@ import { useTheme } from "../contexts/ThemeContext";
 import { useLanguage } from "../contexts/LanguageContext";
 import { useSession } from "../contexts/SessionContext";
 import { useContract } from "../contexts/ContractContext";
-import { ArrowLeft, CheckCircle, Upload, FileText } from "lucide-react-native";
+import { ArrowLeft, CheckCircle, Upload, FileText, Files, X } from "lucide-react-native";
 import AnalyzingAnimation from "../components/AnalyzingAnimation";
-import { uploadContract } from "../services/api";
+import AnalysisJobTracker from "../services/AnalysisJobTracker";
+import { useAnalysisJob } from "../hooks/useAnalysisJob";
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from "../services/BatchAnalysisService";
+import {
+  uploadContract,
+  cancelAnalysis,
+  AuthError,
+  CancelledError,
+  IncompatibleResponseError,
+  ValidationError,
+  isNotFoundError,
+} from "../services/api";
+import { forgetResumableUpload } from "../services/ResumableUpload";
 import { SessionDetails, LocalContract } from "../../types/session";
 import { storage, storeOfflineAnalysis } from "../utils/storage";
 import * as Notifications from "expo-notifications";
@@ -27,6 +39,8 @@ import { activateKeepAwake, deactivateKeepAwake } from "expo-keep-awake";
 interface UploadScreenProps {
   onBack: () => void;
   onAnalysisComplete: (sessionId: string) => void;
+  // Called once a batch of several files has been queued.
+  onBatchStarted?: () => void;
   preSelectedFile?: any;
   fromCamera?: boolean;
   autoUpload?: boolean;
@@ -35,22 +49,33 @@ interface UploadScreenProps {
 const UploadScreen: React.FC<UploadScreenProps> = ({
   onBack,
   onAnalysisComplete,
+  onBatchStarted,
   preSelectedFile,
   fromCamera = false,
   autoUpload = false,
 }) => {
   const { theme } = useTheme();
   const { t } = useLanguage();
-  const { loadSessionData, isAnalyzingContract, setIsAnalyzingContract } = useSession();
-  const { addContract, updateContract, startBackgroundAnalysis, isAnalyzing: isAnalyzingInContext } = useContract();
+  const { loadSessionData, isAnalyzingContract, setIsAnalyzingContract, followPartialAnalysis } = useSession();
+  const { addContract, updateContract, startBackgroundAnalysis, startBatchAnalysis, isAnalyzing: isAnalyzingInContext } = useContract();
 
   const [selectedFile, setSelectedFile] = useState<any>(
     preSelectedFile || null,
   );
+  // Set instead of selectedFile when several files were picked
+  const [batchFiles, setBatchFiles] = useState<any[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isStartingBatch, setIsStartingBatch] = useState(false);
   // Using global isAnalyzingContract state from SessionContext instead of local state
   const [uploadProgress, setUploadProgress] = useState(0);
   const [analysisComplete, setAnalysisComplete] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // Id the server files this upload's analysis under, for its live stages
+  const [analysisJobId, setAnalysisJobId] = useState<string | null>(null);
+  const analysisJob = useAnalysisJob(analysisJobId);
+  // Aborts the foreground upload when the user cancels it
+  const uploadControllerRef = useRef<AbortController | null>(null);
+  const [isCancellingUpload, setIsCancellingUpload] = useState(false);
   const appState = useRef(AppState.currentState);
 
   const isDark = theme === "dark";
@@ -124,6 +149,16 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
     }
   };
 
+  // Opens the terms analysed so far; the rest keep arriving on the results
+  // screen and the full session is loaded once the analysis completes.
+  const handleViewPartialResults = () => {
+    const partialSessionId = analysisJob?.status?.session_id;
+    if (!analysisJobId || !partialSessionId) return;
+    console.log("🧩 Opening partial results for session:", partialSessionId);
+    followPartialAnalysis(analysisJobId);
+    onAnalysisComplete(partialSessionId);
+  };
+
   const handleFileSelect = async () => {
     try {
       const result = await DocumentPicker.getDocumentAsync({
@@ -133,9 +168,15 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
           "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
         ],
         copyToCacheDirectory: true,
+        multiple: true,
       });
 
-      if (!result.canceled && result.assets[0]) {
+      if (!result.canceled && result.assets.length > 1) {
+        console.log(`📁 UploadScreen: ${result.assets.length} files selected for a batch`);
+        setBatchFiles(result.assets);
+        setSelectedFile(null);
+        setAnalysisComplete(false);
+      } else if (!result.canceled && result.assets[0]) {
         const file = result.assets[0];
         console.log("📁 UploadScreen: File selected:", {
           name: file.name,
@@ -143,6 +184,7 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
           size: file.size,
         });
         setSelectedFile(file);
+        setBatchFiles([]);
         setAnalysisComplete(false);
       }
     } catch (error) {
@@ -151,6 +193,36 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
     }
   };
 
+  const handleRemoveBatchFile = (index: number) => {
+    setBatchFiles((prev) => {
+      const remaining = prev.filter((_, i) => i !== index);
+      // A single file left goes through the regular analysis
+      if (remaining.length === 1) {
+        setSelectedFile(remaining[0]);
+        return [];
+      }
+      return remaining;
+    });
+  };
+
+  const handleStartBatch = async () => {
+    if (batchFiles.length === 0 || isStartingBatch) return;
+    setIsStartingBatch(true);
+    try {
+      await startBatchAnalysis(batchFiles, batchConcurrency);
+      setBatchFiles([]);
+      onBatchStarted?.();
+    } catch (error) {
+      console.error("❌ Failed to start batch analysis:", error);
+      Alert.alert(
+        t("upload.analysisError"),
+        error instanceof Error ? error.message : t("upload.unknownError"),
+      );
+    } finally {
+      setIsStartingBatch(false);
+    }
+  };
+
   const handleAnalyze = async () => {
     if (!selectedFile) {
       Alert.alert(t("upload.error"), t("upload.selectFileFirst"));
@@ -168,18 +240,18 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
 
       console.log("🚀 Starting analysis for file:", selectedFile.name);
 
-      // Try foreground upload first, then fallback to background
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          const newProgress = prev + Math.random() * 20;
-          return newProgress >= 95 ? 95 : newProgress;
-        });
-      }, 200);
+      const jobId = `job_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+      AnalysisJobTracker.getInstance().track(jobId);
+      setAnalysisJobId(jobId);
+      const controller = new AbortController();
+      uploadControllerRef.current = controller;
 
       try {
         // Try foreground upload first
-        const result = await uploadContract(selectedFile, setUploadProgress);
-        clearInterval(progressInterval);
+        const result = await uploadContract(selectedFile, setUploadProgress, {
+          jobId,
+          signal: controller.signal,
+        });
 
         // Use the actual session ID from the server
         const actualSessionId = result.session_id;
@@ -229,8 +301,17 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
         return actualSessionId;
 
       } catch (error) {
+        // Cancelled or rejected uploads must not restart in the background;
+        // only transient failures (network, timeout, 5xx) fall back to it.
+        if (
+          error instanceof CancelledError ||
+          error instanceof ValidationError ||
+          error instanceof AuthError ||
+          error instanceof IncompatibleResponseError
+        ) {
+          throw error;
+        }
         console.log("📤 Foreground upload failed, starting background upload:", error);
-        clearInterval(progressInterval);
 
         // Generate temporary session ID for background processing
         const tempSessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -263,10 +344,18 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
         setUploadProgress(50); // Show some progress
 
         return tempSessionId;
+      } finally {
+        AnalysisJobTracker.getInstance().untrack(jobId);
+        setAnalysisJobId(null);
+        uploadControllerRef.current = null;
       }
     } catch (error) {
-      console.error("❌ Analysis failed:", error);
       setCurrentSessionId(null);
+      if (error instanceof CancelledError) {
+        console.log("🛑 Analysis cancelled by the user");
+        return;
+      }
+      console.error("❌ Analysis failed:", error);
 
       Alert.alert(
         t("upload.analysisError"),
@@ -289,6 +378,43 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
     }
   };
 
+  // Stops the upload and the analysis the server may already have started;
+  // handleAnalyze then unlocks navigation as after a failure.
+  const handleCancelAnalysis = () => {
+    const jobId = analysisJobId;
+    Alert.alert(
+      t("cancelAnalysis.title") || "Cancel analysis?",
+      t("cancelAnalysis.uploadMessage") || "The upload and analysis of this contract will stop.",
+      [
+        { text: t("cancelAnalysis.keep") || "Keep analyzing", style: "cancel" },
+        {
+          text: t("cancelAnalysis.confirm") || "Cancel analysis",
+          style: "destructive",
+          onPress: async () => {
+            setIsCancellingUpload(true);
+            uploadControllerRef.current?.abort();
+            try {
+              if (jobId) {
+                await cancelAnalysis(jobId).catch((error) => {
+                  if (!isNotFoundError(error)) {
+                    console.warn("⚠️ Failed to cancel analysis on the server:", error);
+                  }
+                });
+              }
+              if (selectedFile) {
+                await forgetResumableUpload(selectedFile).catch((error) =>
+                  console.warn("⚠️ Failed to clear saved upload progress:", error),
+                );
+              }
+            } finally {
+              setIsCancellingUpload(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
   const scheduleAnalysisCompleteNotification = async (
     fileName: string,
     sessionId: string,
@@ -325,6 +451,77 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
     }
   };
 
+  const renderBatchSelection = () => (
+    <>
+      <View style={[styles.batchCard, { backgroundColor: isDark ? "#1f2937" : "#ffffff" }]}>
+        <View style={styles.batchHeader}>
+          <Files size={24} color="#10b981" />
+          <Text style={[styles.uploadTitle, styles.batchTitle, { color: isDark ? "#f3f4f6" : "#111827" }]}>
+            {(t("batch.filesSelected") || "{count} files selected").replace("{count}", String(batchFiles.length))}
+          </Text>
+        </View>
+
+        {batchFiles.map((file, index) => (
+          <View key={`${file.uri}_${index}`} style={styles.selectedFileInfo}>
+            <View style={styles.fileIcon}>
+              <FileText size={20} color="#10b981" />
+            </View>
+            <View style={styles.fileDetails}>
+              <Text style={[styles.fileName, { color: isDark ? "#10b981" : "#059669" }]} numberOfLines={1}>
+                {file.name}
+              </Text>
+              <Text style={[styles.fileSize, { color: isDark ? "#9ca3af" : "#6b7280" }]}>
+                {file.size ? `${Math.round(file.size / 1024)} KB` : "Unknown size"}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handleRemoveBatchFile(index)} style={styles.removeFileButton}>
+              <X size={16} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <Text style={[styles.uploadDescription, styles.concurrencyLabel, { color: isDark ? "#9ca3af" : "#6b7280" }]}>
+          {t("batch.concurrency") || "Contracts analyzed at the same time"}
+        </Text>
+        <View style={styles.concurrencyOptions}>
+          {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map((value) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.concurrencyOption, batchConcurrency === value && styles.concurrencyOptionActive]}
+              onPress={() => setBatchConcurrency(value)}
+            >
+              <Text
+                style={[
+                  styles.concurrencyOptionText,
+                  { color: isDark ? "#f3f4f6" : "#111827" },
+                  batchConcurrency === value && styles.concurrencyOptionTextActive,
+                ]}
+              >
+                {value}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity onPress={handleFileSelect}>
+          <Text style={[styles.uploadDescription, styles.changeFilesText]}>
+            {t("batch.changeFiles") || "Choose other files"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.analyzeButton, { backgroundColor: "#10b981" }, isStartingBatch && { opacity: 0.6 }]}
+        onPress={handleStartBatch}
+        disabled={isStartingBatch}
+      >
+        <Text style={styles.analyzeButtonText}>
+          {(t("batch.start") || "Analyze {count} contracts").replace("{count}", String(batchFiles.length))}
+        </Text>
+      </TouchableOpacity>
+    </>
+  );
+
   const renderContent = () => {
     if (analysisComplete) {
       return (
@@ -351,7 +548,21 @@ const UploadScreen: React.FC<UploadScreenProps> = ({
     }
 
     if (isAnalyzingContract) {
-      return <AnalyzingAnimation isVisible={true} progress={uploadProgress} />;
+      return (
+        <AnalyzingAnimation
+          isVisible={true}
+          progress={uploadProgress}
+          job={analysisJob}
+          partialTermsCount={analysisJob?.status?.session_id ? analysisJob.terms.length : 0}
+          onViewPartialResults={handleViewPartialResults}
+          onCancel={analysisJobId ? handleCancelAnalysis : undefined}
+          isCancelling={isCancellingUpload}
+        />
+      );
+    }
+
+    if (batchFiles.length > 0) {
+      return renderBatchSelection();
     }
 
     return (
@@ -584,6 +795,59 @@ const styles = StyleSheet.create({
   fileSize: {
     fontSize: 14,
   },
+  batchCard: {
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#10b981",
+    margin: 20,
+  },
+  batchHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  batchTitle: {
+    flex: 1,
+    marginBottom: 0,
+    textAlign: "left",
+  },
+  removeFileButton: {
+    padding: 6,
+  },
+  concurrencyLabel: {
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  concurrencyOptions: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 8,
+  },
+  concurrencyOption: {
+    width: 44,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    alignItems: "center",
+  },
+  concurrencyOptionActive: {
+    backgroundColor: "#10b981",
+    borderColor: "#10b981",
+  },
+  concurrencyOptionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  concurrencyOptionTextActive: {
+    color: "#ffffff",
+  },
+  changeFilesText: {
+    marginTop: 16,
+    marginBottom: 0,
+    color: "#3b82f6",
+  },
 });
 
 export default UploadScreen;
\ No newline at end of file
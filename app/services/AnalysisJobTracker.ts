@@ -0,0 +1,306 @@
+import {
+  AnalysisJobStatus,
+  ApiAnalysisTerm,
+  getAnalysisStatus,
+  streamAnalysisStatus,
+} from "./api";
+import { ServerError, ValidationError, isNotFoundError } from "./httpClient";
+
+// --- Analysis job status ---
+// Follows the server's status of an analysis (queued, extracting text, OCR,
+// segmenting terms, analysing N of M terms, generating the report, then
+// completed, failed or cancelled) without fetching the whole session.
+// Statuses arrive as server-sent events; servers or networks that do not
+// deliver events are long-polled instead. Failed connections are retried
+// with exponential backoff until the job finishes or is no longer tracked.
+//
+// A job the server does not know is reported as unavailable after a few
+// attempts (the upload may still be on its way), as is every job when the
+// server has no status endpoint. Callers then fall back to their own
+// tracking, e.g. ProcessingService's session polling.
+//
+// Servers that report terms while the analysis runs may send all of them or
+// only the new ones with each status; snapshots always hold every term
+// reported so far.
+
+export interface AnalysisJobSnapshot {
+  jobId: string;
+  // null until the server reports the job.
+  status: AnalysisJobStatus | null;
+  // Seconds left, from the server or estimated from the pace of the terms.
+  etaSeconds: number | null;
+  // Terms analysed so far, in the order the server reported them.
+  terms: ApiAnalysisTerm[];
+  unavailable: boolean;
+}
+
+type AnalysisJobListener = (snapshot: AnalysisJobSnapshot) => void;
+
+interface RunningJob {
+  jobId: string;
+  controller: AbortController;
+  snapshot: AnalysisJobSnapshot;
+  failures: number;
+  // Consecutive "not found" answers.
+  missing: number;
+  // First look at the analysing stage, the baseline for estimating the ETA.
+  analyzingSince: { at: number; termsDone: number } | null;
+  wake: (() => void) | null;
+}
+
+const LONG_POLL_SECONDS = 25;
+// Pause between polls when the server answers without waiting for a change.
+const POLL_INTERVAL_MS = 3_000;
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 15_000;
+const MAX_MISSING = 8;
+
+const isFinished = (status: AnalysisJobStatus | null): boolean =>
+  status?.stage === "completed" ||
+  status?.stage === "failed" ||
+  status?.stage === "cancelled";
+
+// Servers without the endpoint answer 405 or 501; a 404 may only mean the
+// job is not registered yet.
+const isEndpointUnsupported = (error: unknown): boolean =>
+  (error instanceof ValidationError && error.status === 405) ||
+  (error instanceof ServerError && error.status === 501);
+
+// Terms already reported keep their place; a newer copy replaces the old one.
+const mergeTerms = (
+  current: ApiAnalysisTerm[],
+  incoming: ApiAnalysisTerm[],
+): ApiAnalysisTerm[] => {
+  if (incoming.length === 0) return current;
+  const merged = new Map(current.map((term) => [term.term_id, term]));
+  incoming.forEach((term) => merged.set(term.term_id, term));
+  return Array.from(merged.values());
+};
+
+const retryDelay = (failures: number): number =>
+  Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(failures - 1, 0) + Math.random() * RETRY_BASE_DELAY_MS,
+    RETRY_MAX_DELAY_MS,
+  );
+
+class AnalysisJobTracker {
+  private static instance: AnalysisJobTracker;
+  private jobs = new Map<string, RunningJob>();
+  private listeners = new Set<AnalysisJobListener>();
+  // Remembered until the app restarts.
+  private statusSupported = true;
+  private eventsSupported = true;
+
+  static getInstance(): AnalysisJobTracker {
+    if (!AnalysisJobTracker.instance) {
+      AnalysisJobTracker.instance = new AnalysisJobTracker();
+    }
+    return AnalysisJobTracker.instance;
+  }
+
+  subscribe(listener: AnalysisJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(snapshot: AnalysisJobSnapshot): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error("❌ Job status: Listener failed:", error);
+      }
+    });
+  }
+
+  getSnapshot(jobId: string): AnalysisJobSnapshot | null {
+    return this.jobs.get(jobId)?.snapshot ?? null;
+  }
+
+  // Starts following a job. Tracking the same job twice is a no-op.
+  track(jobId: string): void {
+    if (this.jobs.has(jobId)) return;
+
+    const job: RunningJob = {
+      jobId,
+      controller: new AbortController(),
+      snapshot: { jobId, status: null, etaSeconds: null, terms: [], unavailable: false },
+      failures: 0,
+      missing: 0,
+      analyzingSince: null,
+      wake: null,
+    };
+    this.jobs.set(jobId, job);
+
+    if (!this.statusSupported) {
+      this.markUnavailable(job);
+      return;
+    }
+    console.log(`📡 Job status: Following ${jobId}`);
+    this.run(job).catch((error) =>
+      console.error(`❌ Job status: Tracking ${jobId} stopped:`, error),
+    );
+  }
+
+  untrack(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+    job.controller.abort();
+    this.jobs.delete(jobId);
+  }
+
+  // Retries waiting jobs right away, e.g. when the app returns to the
+  // foreground or the connection comes back.
+  wakeAll(): void {
+    this.jobs.forEach((job) => {
+      job.failures = 0;
+      job.wake?.();
+    });
+  }
+
+  private async run(job: RunningJob): Promise<void> {
+    const { signal } = job.controller;
+
+    while (!signal.aborted && !isFinished(job.snapshot.status)) {
+      try {
+        if (this.eventsSupported && (await this.follow(job))) {
+          job.failures = 0;
+          job.missing = 0;
+          // The server closed the stream early; reconnect shortly.
+          if (!isFinished(job.snapshot.status)) {
+            await this.pause(job, RETRY_BASE_DELAY_MS);
+          }
+          continue;
+        }
+        const previousVersion = job.snapshot.status?.version;
+        await this.poll(job);
+        job.failures = 0;
+        job.missing = 0;
+        if (job.snapshot.status?.version === previousVersion) {
+          await this.pause(job, POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+
+        if (isEndpointUnsupported(error)) {
+          console.log("📡 Job status: Server has no job status endpoint");
+          this.statusSupported = false;
+          this.markUnavailable(job);
+          return;
+        }
+        if (isNotFoundError(error) && ++job.missing >= MAX_MISSING) {
+          console.log(`📡 Job status: Server does not know ${job.jobId}`);
+          this.markUnavailable(job);
+          return;
+        }
+
+        job.failures++;
+        const delay = retryDelay(job.failures);
+        console.warn(
+          `⚠️ Job status: Update for ${job.jobId} failed, retry ${job.failures} in ${Math.round(delay)}ms:`,
+          error,
+        );
+        await this.pause(job, delay);
+      }
+    }
+  }
+
+  // Listens to server-sent events until the stream ends. Resolves to false
+  // when events are not available and the job should be polled instead.
+  private async follow(job: RunningJob): Promise<boolean> {
+    try {
+      const received = await streamAnalysisStatus(
+        job.jobId,
+        (status) => this.update(job, status),
+        { signal: job.controller.signal },
+      );
+      if (received === 0 && !job.controller.signal.aborted) {
+        console.log("📡 Job status: No events received, switching to long-polling");
+        this.eventsSupported = false;
+        return false;
+      }
+      return true;
+    } catch (error) {
+      if (isEndpointUnsupported(error)) {
+        console.log("📡 Job status: Server has no event stream, switching to long-polling");
+        this.eventsSupported = false;
+        return false;
+      }
+      if (isNotFoundError(error)) return false;
+      throw error;
+    }
+  }
+
+  private async poll(job: RunningJob): Promise<void> {
+    const status = await getAnalysisStatus(job.jobId, {
+      waitSeconds: LONG_POLL_SECONDS,
+      sinceVersion: job.snapshot.status?.version,
+      signal: job.controller.signal,
+    });
+    this.update(job, status);
+  }
+
+  private pause(job: RunningJob, ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const done = () => {
+        clearTimeout(timer);
+        job.wake = null;
+        job.controller.signal.removeEventListener("abort", done);
+        resolve();
+      };
+      timer = setTimeout(done, ms);
+      job.wake = done;
+      job.controller.signal.addEventListener("abort", done);
+    });
+  }
+
+  private update(job: RunningJob, status: AnalysisJobStatus): void {
+    if (job.controller.signal.aborted) return;
+    // Events and polls may overlap after a reconnect.
+    const current = job.snapshot.status;
+    if (current && status.version < current.version) return;
+
+    if (current?.stage !== status.stage) {
+      console.log(`📡 Job status: ${job.jobId} is ${status.stage}`);
+    }
+    job.snapshot = {
+      ...job.snapshot,
+      status,
+      etaSeconds: this.estimateEta(job, status),
+      terms: mergeTerms(job.snapshot.terms, status.analysis_results ?? []),
+    };
+    this.emit(job.snapshot);
+  }
+
+  private estimateEta(job: RunningJob, status: AnalysisJobStatus): number | null {
+    if (isFinished(status)) return null;
+    if (typeof status.eta_seconds === "number") {
+      return Math.round(status.eta_seconds);
+    }
+    if (status.stage !== "analyzing_terms" || !status.terms_total) {
+      return null;
+    }
+
+    const termsDone = status.terms_done ?? 0;
+    if (!job.analyzingSince) {
+      job.analyzingSince = { at: Date.now(), termsDone };
+      return null;
+    }
+    const analysed = termsDone - job.analyzingSince.termsDone;
+    if (analysed <= 0) {
+      return job.snapshot.etaSeconds;
+    }
+    const msPerTerm = (Date.now() - job.analyzingSince.at) / analysed;
+    return Math.round((msPerTerm * (status.terms_total - termsDone)) / 1000);
+  }
+
+  private markUnavailable(job: RunningJob): void {
+    job.snapshot = { ...job.snapshot, unavailable: true, etaSeconds: null };
+    this.emit(job.snapshot);
+  }
+}
+
+export default AnalysisJobTracker;
@@ -0,0 +1,382 @@
+import * as Crypto from "expo-crypto";
+import * as LocalAuthentication from "expo-local-authentication";
+import { storage, storageKeys } from "../utils/storage";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  constantTimeEqual,
+  hmacSha256,
+  pbkdf2Sha256,
+  utf8Encode,
+} from "../utils/crypto";
+
+// --- App lock ---
+// Optional lock in front of the whole app, unlocked with device biometrics
+// (falling back to the device passcode) or an app PIN. The app starts locked
+// and locks again when it returns from the background after the configured
+// timeout. ProcessingService forwards its AppState transitions here, so the
+// lock follows the same foreground/background notion as analysis tracking.
+//
+// While the app is inactive or in the background, sensitive screens are
+// covered so their contents do not show up in the app switcher.
+
+export type AppLockMethod = "biometric" | "pin";
+
+export interface AppLockSettings {
+  enabled: boolean;
+  method: AppLockMethod;
+  // Time in the background after which the app locks; 0 locks right away.
+  timeoutMs: number;
+  hideInAppSwitcher: boolean;
+}
+
+export interface AppLockState {
+  settings: AppLockSettings;
+  isLocked: boolean;
+  // The app is inactive or in the background.
+  isObscured: boolean;
+  // PIN entry is refused until then after too many wrong PINs.
+  lockedOutUntil: number | null;
+}
+
+export interface BiometricSupport {
+  // Hardware is present and the user has enrolled a fingerprint or face.
+  available: boolean;
+  types: LocalAuthentication.AuthenticationType[];
+}
+
+type AppLockListener = (state: AppLockState) => void;
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+  // PBKDF2 rounds; missing on PINs stored as a single HMAC by earlier
+  // versions, which are rehashed on the next right PIN.
+  iterations?: number;
+}
+
+export const APP_LOCK_TIMEOUTS_MS = [0, 60_000, 5 * 60_000, 15 * 60_000];
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  method: "biometric",
+  timeoutMs: 60_000,
+  hideInAppSwitcher: true,
+};
+
+export const isValidPin = (pin: string): boolean => /^\d{4,6}$/.test(pin);
+
+const PIN_SALT_BYTES = 16;
+const PIN_HASH_BYTES = 32;
+// A 4-6 digit PIN is quick to guess from a copied hash, so every guess is
+// made expensive. Stored with each PIN, so it can be raised later.
+const PIN_KDF_ITERATIONS = 100_000;
+// Wrong PINs allowed before entry is refused for a while; every further
+// wrong PIN doubles the wait.
+const FREE_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_BASE_MS = 30_000;
+const PIN_LOCKOUT_MAX_MS = 60 * 60_000;
+
+const hashPin = async (
+  pin: string,
+  salt: Uint8Array,
+  iterations: number | undefined,
+): Promise<Uint8Array> =>
+  iterations
+    ? pbkdf2Sha256(utf8Encode(pin), salt, iterations, PIN_HASH_BYTES)
+    : hmacSha256(salt, utf8Encode(pin));
+
+const createStoredPin = async (pin: string): Promise<StoredPin> => {
+  const salt = await Crypto.getRandomBytesAsync(PIN_SALT_BYTES);
+  return {
+    salt: bytesToBase64(salt),
+    hash: bytesToBase64(await hashPin(pin, salt, PIN_KDF_ITERATIONS)),
+    iterations: PIN_KDF_ITERATIONS,
+  };
+};
+
+class AppLockService {
+  private static instance: AppLockService;
+  private settings: AppLockSettings = { ...DEFAULT_APP_LOCK_SETTINGS };
+  private isLocked = false;
+  private isObscured = false;
+  private backgroundedAt: number | null = null;
+  private failedPinAttempts = 0;
+  private lockedOutUntil: number | null = null;
+  // The biometric prompt itself makes the app inactive on iOS; those
+  // transitions must not lock the app again.
+  private isAuthenticating = false;
+  private listeners = new Set<AppLockListener>();
+  private loadPromise: Promise<void> | null = null;
+  // PIN checks run one after another, so each sees the failures counted by
+  // the one before it.
+  private pinChecks: Promise<unknown> = Promise.resolve();
+
+  static getInstance(): AppLockService {
+    if (!AppLockService.instance) {
+      AppLockService.instance = new AppLockService();
+    }
+    return AppLockService.instance;
+  }
+
+  // Loads the settings and locks the app when the lock is on. Call before
+  // the first screen renders so nothing shows on a cold start.
+  async initialize(): Promise<void> {
+    await this.load();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = Promise.all([
+        storage.getItemAsync(storageKeys.APP_LOCK_SETTINGS),
+        storage.getItemAsync(storageKeys.APP_LOCK_FAILURES),
+      ]).then(([storedSettings, storedFailures]) => {
+        if (storedSettings) {
+          try {
+            this.settings = { ...DEFAULT_APP_LOCK_SETTINGS, ...JSON.parse(storedSettings) };
+          } catch (error) {
+            console.error("❌ App lock: Stored settings are corrupted:", error);
+          }
+        }
+        if (storedFailures) {
+          try {
+            const failures = JSON.parse(storedFailures);
+            this.failedPinAttempts = Number(failures.attempts) || 0;
+            this.lockedOutUntil = Number(failures.lockedOutUntil) || null;
+          } catch {
+            // Start over with no failed attempts.
+          }
+        }
+        this.isLocked = this.settings.enabled;
+        if (this.isLocked) {
+          console.log("🔒 App lock: Locked on start");
+        }
+        this.emit();
+      });
+    }
+    return this.loadPromise;
+  }
+
+  getState(): AppLockState {
+    return {
+      settings: { ...this.settings },
+      isLocked: this.isLocked,
+      isObscured: this.isObscured,
+      lockedOutUntil:
+        this.lockedOutUntil && this.lockedOutUntil > Date.now() ? this.lockedOutUntil : null,
+    };
+  }
+
+  subscribe(listener: AppLockListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("❌ App lock: Listener failed:", error);
+      }
+    });
+  }
+
+  // --- AppState transitions, forwarded by ProcessingService ---
+
+  handleBackground(): void {
+    if (this.isAuthenticating || this.backgroundedAt !== null) return;
+    this.backgroundedAt = Date.now();
+    this.isObscured = true;
+    this.emit();
+  }
+
+  handleForeground(): void {
+    if (this.backgroundedAt === null) return;
+    const elapsed = Date.now() - this.backgroundedAt;
+    this.backgroundedAt = null;
+    this.isObscured = false;
+
+    if (this.settings.enabled && !this.isLocked && elapsed >= this.settings.timeoutMs) {
+      console.log(`🔒 App lock: Locked after ${Math.round(elapsed / 1000)}s in the background`);
+      this.isLocked = true;
+    }
+    this.emit();
+  }
+
+  // --- Unlocking ---
+
+  async getBiometricSupport(): Promise<BiometricSupport> {
+    try {
+      const [hasHardware, isEnrolled, types] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+        LocalAuthentication.supportedAuthenticationTypesAsync(),
+      ]);
+      return { available: hasHardware && isEnrolled, types };
+    } catch (error) {
+      console.warn("⚠️ App lock: Biometric check failed:", error);
+      return { available: false, types: [] };
+    }
+  }
+
+  // Shows the system biometric prompt. Does not change the lock by itself.
+  async authenticate(promptMessage: string): Promise<boolean> {
+    this.isAuthenticating = true;
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        disableDeviceFallback: false,
+      });
+      if (!result.success) {
+        console.log(`🔒 App lock: Biometric prompt ended with ${result.error}`);
+      }
+      return result.success;
+    } catch (error) {
+      console.warn("⚠️ App lock: Biometric prompt failed:", error);
+      return false;
+    } finally {
+      this.isAuthenticating = false;
+    }
+  }
+
+  async unlockWithBiometrics(promptMessage: string): Promise<boolean> {
+    if (!(await this.authenticate(promptMessage))) return false;
+    this.unlock();
+    return true;
+  }
+
+  // Resolves to whether the PIN was right. Nothing is checked while a
+  // lockout is running.
+  unlockWithPin(pin: string): Promise<boolean> {
+    const check = this.pinChecks.then(() => this.checkPin(pin));
+    this.pinChecks = check.catch(() => undefined);
+    return check;
+  }
+
+  private async checkPin(pin: string): Promise<boolean> {
+    await this.load();
+    if (this.getState().lockedOutUntil) return false;
+
+    if (await this.verifyPin(pin)) {
+      await this.recordPinFailures(0, null);
+      this.unlock();
+      return true;
+    }
+
+    const attempts = this.failedPinAttempts + 1;
+    const lockedOutUntil =
+      attempts >= FREE_PIN_ATTEMPTS
+        ? Date.now() +
+          Math.min(
+            PIN_LOCKOUT_BASE_MS * 2 ** (attempts - FREE_PIN_ATTEMPTS),
+            PIN_LOCKOUT_MAX_MS,
+          )
+        : null;
+    console.warn(`⚠️ App lock: Wrong PIN (${attempts} failed attempt(s))`);
+    await this.recordPinFailures(attempts, lockedOutUntil);
+    this.emit();
+    return false;
+  }
+
+  private unlock(): void {
+    console.log("🔓 App lock: Unlocked");
+    this.isLocked = false;
+    this.emit();
+  }
+
+  private async verifyPin(pin: string): Promise<boolean> {
+    const stored = await storage.getItemAsync(storageKeys.APP_LOCK_PIN);
+    if (!stored) return false;
+    try {
+      const { salt, hash, iterations } = JSON.parse(stored) as StoredPin;
+      const matches = constantTimeEqual(
+        await hashPin(pin, base64ToBytes(salt), iterations),
+        base64ToBytes(hash),
+      );
+      if (matches && iterations !== PIN_KDF_ITERATIONS) {
+        await this.rehashPin(pin);
+      }
+      return matches;
+    } catch (error) {
+      console.error("❌ App lock: Stored PIN is corrupted:", error);
+      return false;
+    }
+  }
+
+  // A failed rehash keeps the old hash; the PIN was still right.
+  private async rehashPin(pin: string): Promise<void> {
+    try {
+      await storage.setItemAsync(
+        storageKeys.APP_LOCK_PIN,
+        JSON.stringify(await createStoredPin(pin)),
+      );
+      console.log(`🔒 App lock: PIN rehashed with ${PIN_KDF_ITERATIONS} rounds`);
+    } catch (error) {
+      console.warn("⚠️ App lock: Could not rehash the PIN:", error);
+    }
+  }
+
+  private async recordPinFailures(
+    attempts: number,
+    lockedOutUntil: number | null,
+  ): Promise<void> {
+    this.failedPinAttempts = attempts;
+    this.lockedOutUntil = lockedOutUntil;
+    if (attempts === 0) {
+      await storage.deleteItemAsync(storageKeys.APP_LOCK_FAILURES);
+    } else {
+      await storage.setItemAsync(
+        storageKeys.APP_LOCK_FAILURES,
+        JSON.stringify({ attempts, lockedOutUntil }),
+      );
+    }
+  }
+
+  // --- Settings ---
+
+  // Turns the lock on. A PIN is required for the "pin" method; the caller
+  // confirms biometrics with authenticate() first.
+  async enable(method: AppLockMethod, pin?: string): Promise<void> {
+    await this.load();
+    if (method === "pin") {
+      if (!pin || !isValidPin(pin)) {
+        throw new Error("The PIN must be 4 to 6 digits.");
+      }
+      const stored = await createStoredPin(pin);
+      await storage.setItemAsync(storageKeys.APP_LOCK_PIN, JSON.stringify(stored));
+    } else {
+      await storage.deleteItemAsync(storageKeys.APP_LOCK_PIN);
+    }
+    await this.recordPinFailures(0, null);
+    await this.saveSettings({ enabled: true, method });
+    console.log(`🔒 App lock: Enabled with ${method}`);
+  }
+
+  async disable(): Promise<void> {
+    await this.load();
+    await storage.deleteItemAsync(storageKeys.APP_LOCK_PIN);
+    await this.recordPinFailures(0, null);
+    this.isLocked = false;
+    await this.saveSettings({ enabled: false });
+    console.log("🔓 App lock: Disabled");
+  }
+
+  async updateSettings(
+    changes: Partial<Pick<AppLockSettings, "timeoutMs" | "hideInAppSwitcher">>,
+  ): Promise<void> {
+    await this.load();
+    await this.saveSettings(changes);
+  }
+
+  private async saveSettings(changes: Partial<AppLockSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...changes };
+    await storage.setItemAsync(storageKeys.APP_LOCK_SETTINGS, JSON.stringify(this.settings));
+    this.emit();
+  }
+}
+
+export default AppLockService;
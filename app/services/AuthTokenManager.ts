@@ -0,0 +1,311 @@
+import { AppState, AppStateStatus } from "react-native";
+import { AuthError, ValidationError } from "./httpClient";
+import { storage, storageKeys } from "../utils/storage";
+
+// --- Access and refresh tokens ---
+// The access token is short-lived; the refresh token trades it for a new one
+// through POST /auth/refresh. Tokens are renewed shortly before they expire,
+// both on a timer and before each request, and a request rejected with 401 is
+// sent once more after a renewal. Only one renewal runs at a time: requests
+// that need a token while it runs wait for its result.
+//
+// When the server rejects the refresh token (or there is none) the
+// credentials are cleared and "session_expired" is emitted so the app can ask
+// the user to sign in again. Sessions, queued edits and drafts are left alone.
+//
+// This module must not import api.ts: api.ts wires the refresh call in with
+// setRefreshHandler.
+
+// Tokens are renewed this long before they expire.
+const REFRESH_MARGIN_MS = 60_000;
+// A 401 this soon after a renewal is retried with the new token instead of
+// renewing again; it was sent with the old one.
+const RECENT_REFRESH_MS = 5_000;
+// setTimeout overflows past ~24.8 days.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// What /auth/login, /auth/signup and /auth/refresh return.
+export interface IssuedTokens {
+  token: string;
+  refresh_token?: string | null;
+  // Lifetime of `token` in seconds, for tokens that are not JWTs.
+  expires_in?: number | null;
+}
+
+export type RefreshHandler = (refreshToken: string) => Promise<IssuedTokens>;
+
+export type AuthTokenEvent =
+  | { type: "refreshed" }
+  | { type: "session_expired" };
+
+type AuthTokenListener = (event: AuthTokenEvent) => void;
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  return atob(base64 + "===".slice((base64.length + 3) % 4));
+};
+
+// Reads the `exp` claim of a JWT as epoch milliseconds. Returns null for
+// opaque tokens and tokens without an expiry.
+export const decodeTokenExpiry = (token: string): number | null => {
+  const parts = token.split(".");
+  if (parts.length !== 3 || typeof atob !== "function") return null;
+  try {
+    const payload = JSON.parse(decodeBase64Url(parts[1]));
+    return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const expiryOf = (tokens: IssuedTokens): number | null =>
+  decodeTokenExpiry(tokens.token) ??
+  (tokens.expires_in && tokens.expires_in > 0
+    ? Date.now() + tokens.expires_in * 1000
+    : null);
+
+// The server looked at the refresh token and refused it (400 invalid_grant,
+// 401, 403); anything else (offline, timeout, 429 or another 4xx, 5xx) may
+// work on the next attempt and keeps the credentials.
+const isRefreshRejected = (error: unknown): boolean =>
+  error instanceof AuthError ||
+  (error instanceof ValidationError && (error.status === 400 || error.status === 403));
+
+class AuthTokenManager {
+  private static instance: AuthTokenManager;
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+  private expiresAt: number | null = null;
+  private lastRefreshAt = 0;
+  private refreshHandler: RefreshHandler | null = null;
+  private listeners = new Set<AuthTokenListener>();
+  private loadPromise: Promise<void> | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  static getInstance(): AuthTokenManager {
+    if (!AuthTokenManager.instance) {
+      AuthTokenManager.instance = new AuthTokenManager();
+    }
+    return AuthTokenManager.instance;
+  }
+
+  setRefreshHandler(refreshHandler: RefreshHandler | null): void {
+    this.refreshHandler = refreshHandler;
+  }
+
+  // Loads stored tokens once and renews them when the app returns to the
+  // foreground close to their expiry; timers do not run in the background.
+  async initialize(): Promise<void> {
+    await this.load();
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener(
+        "change",
+        this.handleAppStateChange,
+      );
+    }
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus) => {
+    if (nextAppState === "active" && this.isExpiring()) {
+      this.refresh().catch((error) =>
+        console.warn("⚠️ Auth: Refresh on foreground failed:", error),
+      );
+    }
+  };
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = Promise.all([
+        storage.getItemAsync(storageKeys.AUTH_TOKEN),
+        storage.getItemAsync(storageKeys.AUTH_REFRESH_TOKEN),
+        storage.getItemAsync(storageKeys.AUTH_TOKEN_EXPIRES_AT),
+      ]).then(([accessToken, refreshToken, expiresAt]) => {
+        // Tokens issued while loading win over the stored ones.
+        if (this.accessToken) return;
+        this.accessToken = accessToken;
+        this.refreshToken = refreshToken;
+        const storedExpiry = Number(expiresAt);
+        this.expiresAt =
+          (accessToken && decodeTokenExpiry(accessToken)) ||
+          (Number.isFinite(storedExpiry) && storedExpiry > 0 ? storedExpiry : null);
+        this.scheduleRefresh();
+      });
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: AuthTokenListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: AuthTokenEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("❌ Auth: Listener failed:", error);
+      }
+    });
+  }
+
+  async hasCredentials(): Promise<boolean> {
+    await this.load();
+    return !!this.accessToken;
+  }
+
+  // Stores tokens from a sign-in or a renewal. A response without a refresh
+  // token keeps the current one.
+  async setTokens(tokens: IssuedTokens): Promise<void> {
+    this.accessToken = tokens.token;
+    this.refreshToken = tokens.refresh_token || this.refreshToken;
+    this.expiresAt = expiryOf(tokens);
+
+    await storage.setItemAsync(storageKeys.AUTH_TOKEN, this.accessToken);
+    if (this.refreshToken) {
+      await storage.setItemAsync(storageKeys.AUTH_REFRESH_TOKEN, this.refreshToken);
+    }
+    if (this.expiresAt) {
+      await storage.setItemAsync(storageKeys.AUTH_TOKEN_EXPIRES_AT, String(this.expiresAt));
+    } else {
+      await storage.deleteItemAsync(storageKeys.AUTH_TOKEN_EXPIRES_AT);
+    }
+    this.scheduleRefresh();
+  }
+
+  async clear(): Promise<void> {
+    this.accessToken = null;
+    this.refreshToken = null;
+    this.expiresAt = null;
+    this.cancelScheduledRefresh();
+
+    await storage.deleteItemAsync(storageKeys.AUTH_TOKEN);
+    await storage.deleteItemAsync(storageKeys.AUTH_REFRESH_TOKEN);
+    await storage.deleteItemAsync(storageKeys.AUTH_TOKEN_EXPIRES_AT);
+  }
+
+  private isExpiring(): boolean {
+    return (
+      !!this.accessToken &&
+      this.expiresAt !== null &&
+      this.expiresAt - Date.now() <= REFRESH_MARGIN_MS
+    );
+  }
+
+  // The token to send with a request, renewed first if it is about to
+  // expire. A failed renewal still returns the current token and leaves the
+  // server to decide; a 401 then goes through handleUnauthorized.
+  async getAccessToken(): Promise<string | null> {
+    await this.load();
+    if (this.isExpiring() && this.refreshToken) {
+      await this.refresh().catch(() => false);
+    }
+    return this.accessToken;
+  }
+
+  // Renews the access token. Concurrent callers share one renewal. Resolves
+  // to whether a new token was issued.
+  refresh(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async runRefresh(): Promise<boolean> {
+    await this.load();
+    if (!this.refreshToken || !this.refreshHandler) {
+      return false;
+    }
+
+    try {
+      const tokens = await this.refreshHandler(this.refreshToken);
+      await this.setTokens(tokens);
+      this.lastRefreshAt = Date.now();
+      console.log("🔑 Auth: Access token renewed");
+      this.emit({ type: "refreshed" });
+      return true;
+    } catch (error) {
+      if (isRefreshRejected(error)) {
+        console.warn("⚠️ Auth: Refresh token was rejected:", error);
+        await this.expire();
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Called by the HTTP client when a request is rejected with 401. Resolves
+  // to true when the request should be sent once more with a new token.
+  async handleUnauthorized(): Promise<boolean> {
+    await this.load();
+    // Guests have nothing to renew and no session to lose.
+    if (!this.accessToken) return false;
+
+    if (this.refreshPromise) {
+      return this.refreshPromise.catch(() => false);
+    }
+    if (Date.now() - this.lastRefreshAt < RECENT_REFRESH_MS) {
+      return true;
+    }
+
+    try {
+      if (await this.refresh()) return true;
+    } catch (error) {
+      // The server could not be asked; keep the credentials for later.
+      console.warn("⚠️ Auth: Refresh after 401 failed:", error);
+      return false;
+    }
+
+    if (this.accessToken) {
+      // Nothing to refresh with: the 401 is final.
+      await this.expire();
+    }
+    return false;
+  }
+
+  private async expire(): Promise<void> {
+    console.log("🔒 Auth: Session expired, credentials cleared");
+    await this.clear();
+    this.emit({ type: "session_expired" });
+  }
+
+  private scheduleRefresh(): void {
+    this.cancelScheduledRefresh();
+    if (!this.accessToken || !this.refreshToken || this.expiresAt === null) {
+      return;
+    }
+
+    const delay = Math.min(
+      Math.max(this.expiresAt - REFRESH_MARGIN_MS - Date.now(), 0),
+      MAX_TIMER_DELAY_MS,
+    );
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (!this.isExpiring()) {
+        // Woke up early after a capped delay.
+        this.scheduleRefresh();
+        return;
+      }
+      this.refresh().catch((error) =>
+        console.warn("⚠️ Auth: Scheduled refresh failed:", error),
+      );
+    }, delay);
+  }
+
+  private cancelScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
+
+export default AuthTokenManager;
@@ -4,7 +4,12 @@ import { activateKeepAwake, deactivateKeepAwake } from 'expo-keep-awake';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
-import { getSessionDetails, getSessionTerms } from './api';
+import { AnalyzeApiResponse, getSessionDetails, getSessionTerms } from './api';
+import { CancelledError, isNotFoundError } from './httpClient';
+import OutboxService from './OutboxService';
+import SessionSyncService from './SessionSyncService';
+import ExpertReviewService from './ExpertReviewService';
+import { forgetResumableUpload, hasResumableUpload } from './ResumableUpload';
 import { storeSessionData } from '../utils/storage';
 import { updateSessionsIndex } from '../utils/analytics';
 
@@ -18,6 +23,9 @@ interface BackgroundUpload {
   file: any;
   startTime: number;
   retryCount: number;
+  // Set for files of a batch analysis, which reports on the whole batch
+  // instead of every upload.
+  batchId?: string;
 }
 
 interface BackgroundProcessing {
@@ -33,6 +41,9 @@ class BackgroundTaskManager {
   private keepAwakeActive = false;
   private activeUploads = new Map<string, BackgroundUpload>();
   private activeProcessing = new Map<string, BackgroundProcessing>();
+  // Uploads in flight, by upload id, so they can be cancelled.
+  private uploadControllers = new Map<string, AbortController>();
+  private uploadRuns = new Map<string, Promise<AnalyzeApiResponse | null>>();
 
   static getInstance(): BackgroundTaskManager {
     if (!BackgroundTaskManager.instance) {
@@ -172,7 +183,11 @@ class BackgroundTaskManager {
     }
   }
 
-  async startBackgroundUpload(sessionId: string, file: any): Promise<void> {
+  async startBackgroundUpload(
+    sessionId: string,
+    file: any,
+    options: { batchId?: string } = {}
+  ): Promise<void> {
     const uploadId = `upload_${Date.now()}_${Math.random()}`;
 
     console.log('🚀 Starting background upload:', { sessionId, uploadId });
@@ -184,6 +199,7 @@ class BackgroundTaskManager {
       file,
       startTime: Date.now(),
       retryCount: 0,
+      batchId: options.batchId,
     };
 
     this.activeUploads.set(uploadId, upload);
@@ -194,6 +210,9 @@ class BackgroundTaskManager {
     // Activate keep awake during upload
     await this.activateKeepAwake();
 
+    // The batch runs its own uploads, the upload task leaves them alone
+    if (upload.batchId) return;
+
     // Schedule background task only if defined
     try {
       if (TaskManager.isTaskDefined(BACKGROUND_UPLOAD_TASK)) {
@@ -252,27 +271,108 @@ class BackgroundTaskManager {
     const uploads = await this.loadActiveUploads();
 
     for (const [uploadId, upload] of Array.from(uploads.entries())) {
-      try {
-        console.log('📤 Processing background upload:', uploadId);
+      // Batch uploads run through runQueuedUpload, which hands the analysis
+      // back to the batch
+      if (upload.batchId) continue;
+      await this.runUpload(uploadId, upload);
+    }
 
-        // Import API dynamically to avoid circular dependencies
-        const apiModule = await import('./api');
-        const { uploadContract } = apiModule;
+    // Deactivate keep awake if no active uploads
+    if (this.activeUploads.size === 0) {
+      await this.deactivateKeepAwake();
+    }
+  }
 
-        // Perform upload
-        const response = await uploadContract(upload.file, () => {});
+  // Runs the session's queued upload now instead of waiting for the upload
+  // task, or waits for it if it is already running. Resolves to the analysis,
+  // or null when the upload failed (it stays queued until it runs out of
+  // retries), was cancelled or is not queued.
+  async runQueuedUpload(sessionId: string): Promise<AnalyzeApiResponse | null> {
+    const entry = Array.from(this.activeUploads.entries()).find(
+      ([, upload]) => upload.sessionId === sessionId
+    );
+    if (!entry) return null;
+
+    const response = await this.runUpload(entry[0], entry[1]);
+    await this.deactivateKeepAwake();
+    return response;
+  }
+
+  hasBackgroundUpload(sessionId: string): boolean {
+    return Array.from(this.activeUploads.values()).some(
+      (upload) => upload.sessionId === sessionId
+    );
+  }
+
+  // Restores the upload queue saved before the app was closed and lists the
+  // sessions it holds.
+  async getQueuedUploadSessionIds(): Promise<string[]> {
+    const uploads = await this.loadActiveUploads();
+    return Array.from(uploads.values()).map((upload) => upload.sessionId);
+  }
 
-        if (response && response.session_id) {
-          console.log('✅ Background upload completed:', response.session_id);
+  // An upload that is already running, e.g. when the sync task fires during
+  // it, is not started again; the caller gets the result of the running one.
+  private runUpload(
+    uploadId: string,
+    upload: BackgroundUpload
+  ): Promise<AnalyzeApiResponse | null> {
+    const running = this.uploadRuns.get(uploadId);
+    if (running) return running;
+
+    const run = this.performUpload(uploadId, upload).finally(() =>
+      this.uploadRuns.delete(uploadId)
+    );
+    this.uploadRuns.set(uploadId, run);
+    return run;
+  }
 
-          // Start background processing for analysis
+  private async performUpload(
+    uploadId: string,
+    upload: BackgroundUpload
+  ): Promise<AnalyzeApiResponse | null> {
+    const controller = new AbortController();
+    this.uploadControllers.set(uploadId, controller);
+    try {
+      console.log('📤 Processing background upload:', uploadId);
+
+      // Import API dynamically to avoid circular dependencies
+      const apiModule = await import('./api');
+      const { uploadContract } = apiModule;
+
+      // Large files continue from the last part the server confirmed,
+      // also after the app was killed mid-upload
+      if (await hasResumableUpload(upload.file)) {
+        console.log('📤 Resuming chunked upload:', uploadId);
+      }
+
+      // Perform upload; the session id doubles as the job id, so the
+      // analysis can be followed and cancelled while the upload is running
+      const response = await uploadContract(upload.file, () => {}, {
+        jobId: upload.sessionId,
+        signal: controller.signal,
+      });
+
+      if (!this.activeUploads.has(uploadId)) {
+        console.log('🛑 Background upload was cancelled:', uploadId);
+        return null;
+      }
+
+      if (response && response.session_id) {
+        console.log('✅ Background upload completed:', response.session_id);
+
+        // Start background processing for analysis; a batch stores the
+        // analysis it gets back itself
+        if (!upload.batchId) {
           await this.startBackgroundProcessing(response.session_id);
+        }
 
-          // Remove completed upload
-          this.activeUploads.delete(uploadId);
-          await this.persistActiveUploads();
+        // Remove completed upload
+        this.activeUploads.delete(uploadId);
+        await this.persistActiveUploads();
 
-          // Send notification
+        // Send notification
+        if (!upload.batchId) {
           await Notifications.scheduleNotificationAsync({
             content: {
               title: 'Upload Complete',
@@ -282,16 +382,28 @@ class BackgroundTaskManager {
             trigger: null,
           });
         }
-      } catch (error) {
-        console.error('❌ Background upload failed:', error);
-        upload.retryCount++;
+        return response;
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof CancelledError || !this.activeUploads.has(uploadId)) {
+        console.log('🛑 Background upload was cancelled:', uploadId);
+        return null;
+      }
 
-        if (upload.retryCount >= 3) {
-          // Max retries reached
-          console.log('❌ Max retries reached for upload:', uploadId);
-          this.activeUploads.delete(uploadId);
-          await this.persistActiveUploads();
+      console.error('❌ Background upload failed:', error);
+      upload.retryCount++;
 
+      if (upload.retryCount >= 3) {
+        // Max retries reached
+        console.log('❌ Max retries reached for upload:', uploadId);
+        this.activeUploads.delete(uploadId);
+        await this.persistActiveUploads();
+        await forgetResumableUpload(upload.file).catch((forgetError) =>
+          console.warn('⚠️ Failed to clear saved upload progress:', forgetError)
+        );
+
+        if (!upload.batchId) {
           await Notifications.scheduleNotificationAsync({
             content: {
               title: 'Upload Failed',
@@ -300,24 +412,22 @@ class BackgroundTaskManager {
             },
             trigger: null,
           });
-          
-          // Deactivate keep awake since upload failed
-          console.log('😴 Deactivating keep awake - upload failed');
-          try {
-            await this.deactivateKeepAwake();
-          } catch (error) {
-            console.warn('⚠️ Failed to deactivate keep awake after upload failure:', error);
-          }
-        } else {
-          this.activeUploads.set(uploadId, upload);
-          await this.persistActiveUploads();
         }
+        
+        // Deactivate keep awake since upload failed
+        console.log('😴 Deactivating keep awake - upload failed');
+        try {
+          await this.deactivateKeepAwake();
+        } catch (error) {
+          console.warn('⚠️ Failed to deactivate keep awake after upload failure:', error);
+        }
+      } else {
+        this.activeUploads.set(uploadId, upload);
+        await this.persistActiveUploads();
       }
-    }
-
-    // Deactivate keep awake if no active uploads
-    if (this.activeUploads.size === 0) {
-      await this.deactivateKeepAwake();
+      return null;
+    } finally {
+      this.uploadControllers.delete(uploadId);
     }
   }
 
@@ -408,7 +518,7 @@ class BackgroundTaskManager {
           const errorMessage = error.message;
           if (errorMessage.includes('االجلسة غير موجودة') || 
               errorMessage.includes('Session not found') ||
-              errorMessage.includes('404')) {
+              isNotFoundError(error)) {
             console.log(`🛑 Session not found, removing from background processing: ${sessionId}`);
             this.activeProcessing.delete(sessionId);
             await this.persistActiveProcessing();
@@ -484,6 +594,35 @@ class BackgroundTaskManager {
         hasNewData = true;
       }
 
+      // Merge session changes made on other devices before replaying local
+      // mutations, so conflicting edits are caught instead of overwritten
+      try {
+        const syncResult = await SessionSyncService.getInstance().sync();
+        if (syncResult.pulled > 0) {
+          hasNewData = true;
+        }
+      } catch (syncError) {
+        console.warn('⚠️ Session sync failed:', syncError);
+      }
+
+      // Replay term mutations queued while offline, oldest first
+      const syncedMutations = await OutboxService.getInstance().replay();
+      if (syncedMutations > 0) {
+        hasNewData = true;
+      }
+
+      // Pick up expert decisions so the user is notified of finished reviews
+      try {
+        const reviews = ExpertReviewService.getInstance();
+        await reviews.initialize();
+        if (reviews.hasOpenRequests()) {
+          await reviews.refresh();
+          hasNewData = true;
+        }
+      } catch (reviewError) {
+        console.warn('⚠️ Expert review refresh failed:', reviewError);
+      }
+
       return hasNewData;
     } catch (error) {
       console.error('❌ Background sync failed:', error);
@@ -555,6 +694,28 @@ class BackgroundTaskManager {
     }
   }
 
+  // Aborts the session's upload if it is in flight and drops it, including
+  // its saved chunked-upload progress. Resolves to whether there was one.
+  async cancelBackgroundUpload(sessionId: string): Promise<boolean> {
+    await this.loadActiveUploads();
+    const uploads = Array.from(this.activeUploads.values()).filter(
+      (upload) => upload.sessionId === sessionId
+    );
+    if (uploads.length === 0) return false;
+
+    for (const upload of uploads) {
+      console.log('🛑 Cancelling background upload:', upload.id);
+      this.activeUploads.delete(upload.id);
+      this.uploadControllers.get(upload.id)?.abort();
+      await forgetResumableUpload(upload.file).catch((forgetError) =>
+        console.warn('⚠️ Failed to clear saved upload progress:', forgetError)
+      );
+    }
+    await this.persistActiveUploads();
+    await this.deactivateKeepAwake();
+    return true;
+  }
+
   async stopBackgroundProcessing(sessionId: string): Promise<void> {
     this.activeProcessing.delete(sessionId);
     await this.persistActiveProcessing();
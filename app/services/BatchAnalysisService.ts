@@ -0,0 +1,375 @@
+import { AnalyzeApiResponse, getSessionDetails, getSessionTerms } from "./api";
+import BackgroundTaskManager from "./BackgroundTaskManager";
+import ProcessingService from "./ProcessingService";
+import { notificationsService } from "./NotificationsService";
+import { runBatch } from "../utils/batchQueue";
+import {
+  getAnalysisBatches,
+  storeAnalysisBatches,
+  storeSessionData,
+} from "../utils/storage";
+
+// --- Batch analysis ---
+// Analyses a bundle of contracts picked together, e.g. a master agreement
+// and its annexes. Every file is queued with BackgroundTaskManager like a
+// single background upload, so failed uploads are retried and chunked ones
+// resume, and a few files run at a time. Batches are saved with the status
+// of every file and picked up again after a restart. Once every file has
+// settled the batch is summarized and one notification covers all of it.
+
+export type BatchFileState = "queued" | "uploading" | "completed" | "failed" | "cancelled";
+
+export interface BatchFile {
+  // Temporary session id, also the upload's job id.
+  id: string;
+  name: string;
+  size?: number;
+  // The picked document, kept so the upload can run after a restart.
+  file: any;
+  state: BatchFileState;
+  // Set once the server has analysed the file.
+  sessionId?: string;
+  termsCount?: number;
+  issuesCount?: number;
+  // Share of compliant terms, 0-100; absent for files without terms.
+  complianceScore?: number;
+}
+
+export interface AnalysisBatch {
+  id: string;
+  createdAt: string;
+  // Set once every file has settled.
+  completedAt?: string;
+  // Files analysed at the same time.
+  concurrency: number;
+  files: BatchFile[];
+}
+
+export interface BatchSummary {
+  total: number;
+  completed: number;
+  // Failed and cancelled files.
+  failed: number;
+  pending: number;
+  // Compliant share of every term analysed in the batch; null until a file
+  // with terms has completed.
+  overallCompliance: number | null;
+  // Completed files with the lowest compliance, worst first.
+  worstFiles: BatchFile[];
+}
+
+export type BatchEvent =
+  | { type: "changed"; batches: AnalysisBatch[] }
+  | { type: "fileCompleted"; batch: AnalysisBatch; file: BatchFile }
+  | { type: "completed"; batch: AnalysisBatch; summary: BatchSummary };
+
+type BatchListener = (event: BatchEvent) => void;
+
+// Title and body of the completion notification, so the app can translate it.
+export type BatchCompletionText = (
+  batch: AnalysisBatch,
+  summary: BatchSummary,
+) => { title: string; body: string } | null;
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+// Pause before running a failed upload again; the manager counts the retries.
+const UPLOAD_RETRY_DELAY_MS = 5_000;
+// Finished batches kept on the device; unfinished ones are always kept.
+const MAX_FINISHED_BATCHES = 10;
+const WORST_FILES_COUNT = 3;
+
+const isOpen = (file: BatchFile): boolean =>
+  file.state === "queued" || file.state === "uploading";
+
+export const summarizeBatch = (batch: AnalysisBatch): BatchSummary => {
+  const completed = batch.files.filter((file) => file.state === "completed");
+  const termsCount = completed.reduce((sum, file) => sum + (file.termsCount ?? 0), 0);
+  const issuesCount = completed.reduce((sum, file) => sum + (file.issuesCount ?? 0), 0);
+
+  return {
+    total: batch.files.length,
+    completed: completed.length,
+    failed: batch.files.filter((file) => file.state === "failed" || file.state === "cancelled").length,
+    pending: batch.files.filter(isOpen).length,
+    overallCompliance:
+      termsCount > 0 ? Math.round(((termsCount - issuesCount) / termsCount) * 100) : null,
+    worstFiles: completed
+      .filter((file) => file.complianceScore !== undefined)
+      .sort((a, b) => (a.complianceScore ?? 0) - (b.complianceScore ?? 0))
+      .slice(0, WORST_FILES_COUNT),
+  };
+};
+
+const randomId = () => Math.random().toString(36).slice(2, 11);
+
+class BatchAnalysisService {
+  private static instance: BatchAnalysisService;
+  private batches: AnalysisBatch[] = [];
+  private listeners = new Set<BatchListener>();
+  private loadPromise: Promise<void> | null = null;
+  // Batches running in this app run, by batch id.
+  private running = new Map<string, AbortController>();
+  private completionText: BatchCompletionText | null = null;
+
+  static getInstance(): BatchAnalysisService {
+    if (!BatchAnalysisService.instance) {
+      BatchAnalysisService.instance = new BatchAnalysisService();
+    }
+    return BatchAnalysisService.instance;
+  }
+
+  setCompletionText(completionText: BatchCompletionText | null): void {
+    this.completionText = completionText;
+  }
+
+  // Loads saved batches and continues the ones the app was closed during.
+  async initialize(): Promise<void> {
+    await this.load();
+    const unfinished = this.batches.filter((batch) => !batch.completedAt);
+    if (unfinished.length === 0) return;
+
+    // Restores the manager's upload queue, which the batches run on
+    await BackgroundTaskManager.getInstance().getQueuedUploadSessionIds();
+    unfinished.forEach((batch) => this.run(batch.id));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = getAnalysisBatches().then((stored) => {
+        this.batches = stored;
+        if (stored.length > 0) {
+          this.emit({ type: "changed", batches: this.getBatches() });
+        }
+      });
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: BatchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: BatchEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("❌ Batch: Listener failed:", error);
+      }
+    });
+  }
+
+  // Newest first.
+  getBatches(): AnalysisBatch[] {
+    return [...this.batches];
+  }
+
+  getBatch(batchId: string): AnalysisBatch | undefined {
+    return this.batches.find((batch) => batch.id === batchId);
+  }
+
+  async startBatch(
+    files: any[],
+    options: { concurrency?: number } = {},
+  ): Promise<AnalysisBatch> {
+    await this.load();
+
+    const concurrency = Math.min(
+      Math.max(Math.round(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY), 1),
+      MAX_BATCH_CONCURRENCY,
+    );
+    const batch: AnalysisBatch = {
+      id: `batch_${Date.now()}_${randomId()}`,
+      createdAt: new Date().toISOString(),
+      concurrency,
+      files: files.map((file, index) => ({
+        id: `session_${Date.now()}_${index}_${randomId()}`,
+        name: file.name,
+        size: file.size,
+        file,
+        state: "queued",
+      })),
+    };
+
+    console.log(`📦 Batch: Starting ${batch.id} with ${files.length} files, ${concurrency} at a time`);
+    await this.save([batch, ...this.batches]);
+    this.run(batch.id);
+    return batch;
+  }
+
+  // Stops the files still waiting or uploading; completed files are kept.
+  async cancelBatch(batchId: string): Promise<void> {
+    const batch = this.getBatch(batchId);
+    if (!batch || batch.completedAt) return;
+
+    console.log(`🛑 Batch: Cancelling ${batchId}`);
+    this.running.get(batchId)?.abort();
+    const open = batch.files.filter(isOpen);
+    await this.updateFiles(batchId, (file) =>
+      isOpen(file) ? { ...file, state: "cancelled" } : file,
+    );
+
+    const processingService = ProcessingService.getInstance();
+    for (const file of open) {
+      try {
+        if (file.state === "uploading") {
+          await processingService.cancelAnalysis(file.id);
+        } else {
+          await BackgroundTaskManager.getInstance().cancelBackgroundUpload(file.id);
+        }
+      } catch (error) {
+        console.warn(`⚠️ Batch: Failed to cancel ${file.name}:`, error);
+      }
+    }
+    await this.finish(batchId);
+  }
+
+  // Drops a finished batch from the device; its analyses stay in history.
+  async removeBatch(batchId: string): Promise<void> {
+    const batch = this.getBatch(batchId);
+    if (!batch || !batch.completedAt) return;
+    await this.save(this.batches.filter((item) => item.id !== batchId));
+  }
+
+  private run(batchId: string): void {
+    const batch = this.getBatch(batchId);
+    if (!batch || this.running.has(batchId)) return;
+
+    const controller = new AbortController();
+    this.running.set(batchId, controller);
+    const open = batch.files.filter(isOpen);
+
+    runBatch(open, (file) => this.analyzeFile(batchId, file, controller.signal), {
+      concurrency: batch.concurrency,
+      signal: controller.signal,
+    })
+      .then(() => {
+        if (!controller.signal.aborted) return this.finish(batchId);
+      })
+      .catch((error) => console.error(`❌ Batch: ${batchId} stopped:`, error))
+      .finally(() => this.running.delete(batchId));
+  }
+
+  private async analyzeFile(batchId: string, file: BatchFile, signal: AbortSignal): Promise<void> {
+    const manager = BackgroundTaskManager.getInstance();
+
+    // A file left uploading by a restart whose upload the manager no longer
+    // holds is queued again; its analysis never reached the batch.
+    if (file.state === "queued" || !manager.hasBackgroundUpload(file.id)) {
+      await manager.startBackgroundUpload(file.id, file.file, { batchId });
+      await this.updateFiles(batchId, (item) =>
+        item.id === file.id ? { ...item, state: "uploading" } : item,
+      );
+    }
+
+    let response: AnalyzeApiResponse | null = null;
+    while (!response && !signal.aborted && manager.hasBackgroundUpload(file.id)) {
+      response = await manager.runQueuedUpload(file.id);
+      if (!response && manager.hasBackgroundUpload(file.id)) {
+        await new Promise((resolve) => setTimeout(resolve, UPLOAD_RETRY_DELAY_MS));
+      }
+    }
+    if (signal.aborted) return;
+
+    // Only when the manager gave up on the upload after its retries
+    if (!response) {
+      console.log(`❌ Batch: ${file.name} could not be uploaded`);
+      await this.settleFile(batchId, file.id, { state: "failed" });
+      return;
+    }
+
+    const terms = response.analysis_results ?? [];
+    const compliant = terms.filter((term) => term.is_valid_sharia).length;
+    console.log(`✅ Batch: ${file.name} analysed, ${compliant} of ${terms.length} terms compliant`);
+    await this.storeSession(response.session_id);
+    await this.settleFile(batchId, file.id, {
+      state: "completed",
+      sessionId: response.session_id,
+      termsCount: terms.length,
+      issuesCount: terms.length - compliant,
+      complianceScore: terms.length > 0 ? Math.round((compliant / terms.length) * 100) : undefined,
+    });
+  }
+
+  // Saves the analysis like a single upload's, so it shows up in history.
+  private async storeSession(sessionId: string): Promise<void> {
+    try {
+      const sessionData = await getSessionDetails(sessionId);
+      const terms = await getSessionTerms(sessionId);
+      await storeSessionData({ ...sessionData, analysis_results: terms || [] });
+    } catch (error) {
+      console.warn(`⚠️ Batch: Failed to store session ${sessionId}:`, error);
+    }
+  }
+
+  // Records how a file ended unless the batch was cancelled meanwhile.
+  private async settleFile(
+    batchId: string,
+    fileId: string,
+    updates: Partial<BatchFile>,
+  ): Promise<void> {
+    const current = this.getBatch(batchId)?.files.find((file) => file.id === fileId);
+    if (!current || !isOpen(current)) return;
+
+    await this.updateFiles(batchId, (file) => (file.id === fileId ? { ...file, ...updates } : file));
+    const batch = this.getBatch(batchId);
+    const settled = batch?.files.find((file) => file.id === fileId);
+    if (batch && settled?.state === "completed") {
+      this.emit({ type: "fileCompleted", batch, file: settled });
+    }
+  }
+
+  private async finish(batchId: string): Promise<void> {
+    const batch = this.getBatch(batchId);
+    if (!batch || batch.completedAt || batch.files.some(isOpen)) return;
+
+    const completedBatch = { ...batch, completedAt: new Date().toISOString() };
+    await this.save(this.batches.map((item) => (item.id === batchId ? completedBatch : item)));
+
+    const summary = summarizeBatch(completedBatch);
+    console.log(`📦 Batch: ${batchId} done, ${summary.completed} of ${summary.total} files analysed`);
+    this.emit({ type: "completed", batch: completedBatch, summary });
+    await this.notifyCompleted(completedBatch, summary);
+  }
+
+  private async notifyCompleted(batch: AnalysisBatch, summary: BatchSummary): Promise<void> {
+    const text = this.completionText?.(batch, summary);
+    try {
+      await notificationsService.scheduleBatchCompletedNotification(
+        batch.id,
+        summary.completed,
+        summary.total,
+        text?.title,
+        text?.body,
+      );
+    } catch (error) {
+      console.warn("⚠️ Batch: Failed to schedule completion notification:", error);
+    }
+  }
+
+  private async updateFiles(
+    batchId: string,
+    update: (file: BatchFile) => BatchFile,
+  ): Promise<void> {
+    await this.save(
+      this.batches.map((batch) =>
+        batch.id === batchId ? { ...batch, files: batch.files.map(update) } : batch,
+      ),
+    );
+  }
+
+  private async save(batches: AnalysisBatch[]): Promise<void> {
+    let finished = 0;
+    this.batches = batches.filter(
+      (batch) => !batch.completedAt || ++finished <= MAX_FINISHED_BATCHES,
+    );
+    this.emit({ type: "changed", batches: this.getBatches() });
+    await storeAnalysisBatches(this.batches);
+  }
+}
+
+export default BatchAnalysisService;
@@ -0,0 +1,192 @@
+import { AppState, AppStateStatus } from "react-native";
+import { API_BASE_URL } from "./api";
+
+// --- Connectivity ---
+// Tracks whether our own backend is reachable by probing its health endpoint.
+// A generic internet check is not enough: the backend may be self-hosted
+// behind a firewall, and the device can be online without reaching it.
+
+export interface ConnectivityState {
+  // null until the first probe has finished.
+  isOnline: boolean | null;
+  lastCheckedAt: number | null;
+  lastChangedAt: number | null;
+}
+
+export interface ConnectivityChange {
+  state: ConnectivityState;
+  previous: ConnectivityState;
+  // The backend just became reachable after being unreachable.
+  reconnected: boolean;
+}
+
+type ConnectivityListener = (change: ConnectivityChange) => void;
+
+const HEALTH_PATH = "/health";
+const PROBE_TIMEOUT_MS = 4_000;
+// A result younger than this is served from cache instead of probing again.
+const CACHE_TTL_MS = 15_000;
+const ONLINE_POLL_INTERVAL_MS = 60_000;
+const OFFLINE_POLL_INTERVAL_MS = 10_000;
+
+class ConnectivityService {
+  private static instance: ConnectivityService;
+  private state: ConnectivityState = {
+    isOnline: null,
+    lastCheckedAt: null,
+    lastChangedAt: null,
+  };
+  private listeners = new Set<ConnectivityListener>();
+  private probePromise: Promise<boolean> | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+  private started = false;
+
+  static getInstance(): ConnectivityService {
+    if (!ConnectivityService.instance) {
+      ConnectivityService.instance = new ConnectivityService();
+    }
+    return ConnectivityService.instance;
+  }
+
+  // Starts periodic probing; polls faster while offline so a reconnect is
+  // noticed quickly. Safe to call more than once.
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.appStateSubscription = AppState.addEventListener(
+      "change",
+      this.handleAppStateChange,
+    );
+    this.check(true).finally(() => this.schedulePoll());
+    console.log("🌐 ConnectivityService started");
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus) => {
+    if (nextAppState === "active") {
+      this.check(true).finally(() => this.schedulePoll());
+    }
+  };
+
+  private schedulePoll(): void {
+    if (!this.started) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+
+    const interval =
+      this.state.isOnline === false
+        ? OFFLINE_POLL_INTERVAL_MS
+        : ONLINE_POLL_INTERVAL_MS;
+    this.pollTimer = setTimeout(() => {
+      this.check(true).finally(() => this.schedulePoll());
+    }, interval);
+  }
+
+  getState(): ConnectivityState {
+    return { ...this.state };
+  }
+
+  // Optimistic while unknown: callers should attempt requests until a probe
+  // has actually failed.
+  isOnline(): boolean {
+    return this.state.isOnline !== false;
+  }
+
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Returns the cached state when it is fresh, otherwise probes the backend.
+  // Concurrent callers share a single probe.
+  async check(force = false): Promise<boolean> {
+    const { isOnline, lastCheckedAt } = this.state;
+    if (
+      !force &&
+      isOnline !== null &&
+      lastCheckedAt !== null &&
+      Date.now() - lastCheckedAt < CACHE_TTL_MS
+    ) {
+      return isOnline;
+    }
+
+    if (!this.probePromise) {
+      this.probePromise = this.probe()
+        .then((reachable) => {
+          this.update(reachable);
+          return reachable;
+        })
+        .finally(() => {
+          this.probePromise = null;
+        });
+    }
+    return this.probePromise;
+  }
+
+  // Any answer below 500 means the backend is up, even a 404 from a backend
+  // version without the health route.
+  private async probe(): Promise<boolean> {
+    if (!API_BASE_URL) {
+      console.warn("⚠️ Connectivity: API_BASE_URL is not configured");
+      return false;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${HEALTH_PATH}`, {
+        method: "GET",
+        headers: { "ngrok-skip-browser-warning": "true" },
+        signal: controller.signal,
+      });
+      return response.status < 500;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private update(reachable: boolean): void {
+    const previous = this.state;
+    const changed = previous.isOnline !== reachable;
+    const now = Date.now();
+
+    this.state = {
+      isOnline: reachable,
+      lastCheckedAt: now,
+      lastChangedAt: changed ? now : previous.lastChangedAt,
+    };
+
+    if (!changed) return;
+
+    console.log(reachable ? "🌐 Connectivity: Backend reachable" : "📴 Connectivity: Backend unreachable");
+    const change: ConnectivityChange = {
+      state: this.getState(),
+      previous,
+      reconnected: reachable && previous.isOnline === false,
+    };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("❌ Connectivity: Listener failed:", error);
+      }
+    });
+  }
+}
+
+export default ConnectivityService;
@@ -0,0 +1,372 @@
+import { Platform } from "react-native";
+import * as FileSystem from "expo-file-system";
+import * as SecureStore from "expo-secure-store";
+import * as Crypto from "expo-crypto";
+import {
+  CHACHA20_KEY_BYTES,
+  CHACHA20_NONCE_BYTES,
+  HMAC_BYTES,
+  base64ToBytes,
+  bytesToBase64,
+  bytesToHex,
+  chacha20,
+  concatBytes,
+  constantTimeEqual,
+  hexToBytes,
+  hmacSha256,
+  utf8Decode,
+  utf8Encode,
+} from "../utils/crypto";
+
+// --- Document store ---
+// Encrypted, file-backed storage for documents too large for SecureStore,
+// sessions first of all. Each document is one file under
+// `documentDirectory/documents/`, encrypted with ChaCha20 and authenticated
+// with HMAC-SHA256 under a key that never leaves SecureStore. Every write goes
+// to a temp file that is then renamed over the target, so a crash mid-write
+// keeps the previous version. An encrypted index maps collection and id to
+// the file; it can be rebuilt from the documents if it is ever lost.
+
+export interface DocumentMeta {
+  id: string;
+  size: number;
+  updatedAt: string;
+}
+
+interface DocumentIndexEntry {
+  file: string;
+  size: number;
+  updatedAt: string;
+}
+
+interface DocumentIndex {
+  version: 1;
+  collections: Record<string, Record<string, DocumentIndexEntry>>;
+}
+
+// What is encrypted inside each document file. Carrying the collection and id
+// lets the index be rebuilt from the files alone.
+interface DocumentEnvelope<T = unknown> {
+  collection: string;
+  id: string;
+  updatedAt: string;
+  data: T;
+}
+
+export class DocumentStoreError extends Error {
+  readonly details?: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = "DocumentStoreError";
+    this.details = details;
+  }
+}
+
+// SecureStore key holding the hex-encoded encryption and MAC keys.
+const KEY_STORE_KEY = "document_store_key";
+const DOCUMENTS_DIR = "documents/";
+const INDEX_FILE = "index.db";
+const DOCUMENT_EXTENSION = ".doc";
+const TEMP_EXTENSION = ".tmp";
+// File header: format magic and version, "SAD1".
+const MAGIC = Uint8Array.from([0x53, 0x41, 0x44, 0x31]);
+
+interface StoreKeys {
+  encryption: Uint8Array;
+  mac: Uint8Array;
+}
+
+const emptyIndex = (): DocumentIndex => ({ version: 1, collections: {} });
+
+class DocumentStore {
+  private static instance: DocumentStore;
+  private keys: StoreKeys | null = null;
+  private index: DocumentIndex = emptyIndex();
+  private openPromise: Promise<void> | null = null;
+  // Writes are serialized so index updates never interleave.
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  static getInstance(): DocumentStore {
+    if (!DocumentStore.instance) {
+      DocumentStore.instance = new DocumentStore();
+    }
+    return DocumentStore.instance;
+  }
+
+  // The web build has no file system; callers keep using localStorage there.
+  isSupported(): boolean {
+    return Platform.OS !== "web" && !!FileSystem.documentDirectory;
+  }
+
+  private get directory(): string {
+    return `${FileSystem.documentDirectory}${DOCUMENTS_DIR}`;
+  }
+
+  // Loads the key and the index. Safe to call repeatedly; concurrent callers
+  // share one open.
+  open(): Promise<void> {
+    if (!this.openPromise) {
+      this.openPromise = this.doOpen().catch((error) => {
+        this.openPromise = null;
+        throw error;
+      });
+    }
+    return this.openPromise;
+  }
+
+  private async doOpen(): Promise<void> {
+    if (!this.isSupported()) {
+      throw new DocumentStoreError("Document store is not available on this platform");
+    }
+
+    const dirInfo = await FileSystem.getInfoAsync(this.directory);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(this.directory, { intermediates: true });
+    }
+
+    const { keys, created } = await this.loadKeys();
+    this.keys = keys;
+
+    const files = await FileSystem.readDirectoryAsync(this.directory);
+
+    // Leftovers of writes that were interrupted before the rename.
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(TEMP_EXTENSION))
+        .map((file) => FileSystem.deleteAsync(this.directory + file, { idempotent: true })),
+    );
+
+    if (created && files.some((file) => file.endsWith(DOCUMENT_EXTENSION))) {
+      // Files written under a key we no longer have (e.g. keychain reset)
+      // can never be read again.
+      console.warn("⚠️ DocumentStore: Encryption key was missing, discarding unreadable documents");
+      await Promise.all(
+        files.map((file) => FileSystem.deleteAsync(this.directory + file, { idempotent: true })),
+      );
+      this.index = emptyIndex();
+      await this.writeIndex();
+      return;
+    }
+
+    try {
+      const index = await this.readFile<DocumentIndex>(INDEX_FILE);
+      this.index = index ?? emptyIndex();
+    } catch (error) {
+      console.warn("⚠️ DocumentStore: Index unreadable, rebuilding from documents:", error);
+      await this.rebuildIndex(files);
+    }
+
+    console.log("🗄️ DocumentStore opened");
+  }
+
+  private async loadKeys(): Promise<{ keys: StoreKeys; created: boolean }> {
+    const stored = await SecureStore.getItemAsync(KEY_STORE_KEY);
+    if (stored) {
+      const bytes = hexToBytes(stored);
+      return {
+        keys: {
+          encryption: bytes.slice(0, CHACHA20_KEY_BYTES),
+          mac: bytes.slice(CHACHA20_KEY_BYTES),
+        },
+        created: false,
+      };
+    }
+
+    const bytes = await Crypto.getRandomBytesAsync(CHACHA20_KEY_BYTES + HMAC_BYTES);
+    await SecureStore.setItemAsync(KEY_STORE_KEY, bytesToHex(bytes), {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+    console.log("🔑 DocumentStore: Created encryption key");
+    return {
+      keys: {
+        encryption: bytes.slice(0, CHACHA20_KEY_BYTES),
+        mac: bytes.slice(CHACHA20_KEY_BYTES),
+      },
+      created: true,
+    };
+  }
+
+  private async rebuildIndex(files: string[]): Promise<void> {
+    const index = emptyIndex();
+
+    for (const file of files) {
+      if (!file.endsWith(DOCUMENT_EXTENSION)) continue;
+      try {
+        const envelope = await this.readFile<DocumentEnvelope>(file);
+        if (!envelope) continue;
+        const collection = (index.collections[envelope.collection] ??= {});
+        collection[envelope.id] = {
+          file,
+          size: JSON.stringify(envelope.data).length,
+          updatedAt: envelope.updatedAt,
+        };
+      } catch (error) {
+        console.warn(`⚠️ DocumentStore: Dropping unreadable document ${file}:`, error);
+        await FileSystem.deleteAsync(this.directory + file, { idempotent: true });
+      }
+    }
+
+    this.index = index;
+    await this.writeIndex();
+  }
+
+  // --- Public API ---
+
+  async put<T>(collection: string, id: string, value: T): Promise<void> {
+    await this.open();
+    return this.enqueue(async () => {
+      const updatedAt = new Date().toISOString();
+      const file = await this.fileNameFor(collection, id);
+      const envelope: DocumentEnvelope<T> = { collection, id, updatedAt, data: value };
+      const size = await this.writeFile(file, envelope);
+
+      const documents = (this.index.collections[collection] ??= {});
+      documents[id] = { file, size, updatedAt };
+      await this.writeIndex();
+    });
+  }
+
+  // Returns null for unknown ids and for documents that fail to decrypt or
+  // belong to another collection or id.
+  async get<T>(collection: string, id: string): Promise<T | null> {
+    await this.open();
+    const entry = this.index.collections[collection]?.[id];
+    if (!entry) return null;
+
+    try {
+      const envelope = await this.readFile<DocumentEnvelope<T>>(entry.file);
+      if (!envelope) return null;
+      // The MAC covers the file's contents but not its name, so a valid file
+      // copied over another one would otherwise be served as that document.
+      if (envelope.collection !== collection || envelope.id !== id) {
+        throw new DocumentStoreError(
+          `Document holds ${envelope.collection}/${envelope.id}: ${entry.file}`,
+        );
+      }
+      return envelope.data;
+    } catch (error) {
+      console.error(`❌ DocumentStore: Failed to read ${collection}/${id}:`, error);
+      return null;
+    }
+  }
+
+  async has(collection: string, id: string): Promise<boolean> {
+    await this.open();
+    return !!this.index.collections[collection]?.[id];
+  }
+
+  // Most recently written first.
+  async list(collection: string): Promise<DocumentMeta[]> {
+    await this.open();
+    return Object.entries(this.index.collections[collection] ?? {})
+      .map(([id, entry]) => ({ id, size: entry.size, updatedAt: entry.updatedAt }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async remove(collection: string, id: string): Promise<void> {
+    await this.open();
+    return this.enqueue(async () => {
+      const entry = this.index.collections[collection]?.[id];
+      if (!entry) return;
+
+      delete this.index.collections[collection][id];
+      await this.writeIndex();
+      await FileSystem.deleteAsync(this.directory + entry.file, { idempotent: true });
+    });
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.open();
+    return this.enqueue(async () => {
+      const documents = this.index.collections[collection];
+      if (!documents) return;
+
+      delete this.index.collections[collection];
+      await this.writeIndex();
+      await Promise.all(
+        Object.values(documents).map((entry) =>
+          FileSystem.deleteAsync(this.directory + entry.file, { idempotent: true }),
+        ),
+      );
+    });
+  }
+
+  // --- Internals ---
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // File names are hashes so ids (and what they reveal) stay out of the
+  // directory listing.
+  private async fileNameFor(collection: string, id: string): Promise<string> {
+    const hash = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      `${collection}/${id}`,
+    );
+    return `${hash.slice(0, 32)}${DOCUMENT_EXTENSION}`;
+  }
+
+  private writeIndex(): Promise<number> {
+    return this.writeFile(INDEX_FILE, this.index);
+  }
+
+  // Encrypts and writes atomically; returns the plaintext size.
+  private async writeFile(file: string, value: unknown): Promise<number> {
+    const keys = this.requireKeys();
+    const plaintext = utf8Encode(JSON.stringify(value));
+    const nonce = await Crypto.getRandomBytesAsync(CHACHA20_NONCE_BYTES);
+    const ciphertext = chacha20(keys.encryption, nonce, plaintext);
+    const mac = await hmacSha256(keys.mac, concatBytes(MAGIC, nonce, ciphertext));
+
+    const target = this.directory + file;
+    const temp = target + TEMP_EXTENSION;
+    await FileSystem.writeAsStringAsync(
+      temp,
+      bytesToBase64(concatBytes(MAGIC, nonce, mac, ciphertext)),
+      { encoding: FileSystem.EncodingType.Base64 },
+    );
+    await FileSystem.moveAsync({ from: temp, to: target });
+    return plaintext.length;
+  }
+
+  // Returns null when the file does not exist; throws when it cannot be
+  // authenticated or decrypted.
+  private async readFile<T>(file: string): Promise<T | null> {
+    const keys = this.requireKeys();
+    const path = this.directory + file;
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) return null;
+
+    const bytes = base64ToBytes(
+      await FileSystem.readAsStringAsync(path, { encoding: FileSystem.EncodingType.Base64 }),
+    );
+    const headerLength = MAGIC.length + CHACHA20_NONCE_BYTES + HMAC_BYTES;
+    if (bytes.length < headerLength || !constantTimeEqual(bytes.subarray(0, MAGIC.length), MAGIC)) {
+      throw new DocumentStoreError(`Unrecognized document format: ${file}`);
+    }
+
+    const nonce = bytes.subarray(MAGIC.length, MAGIC.length + CHACHA20_NONCE_BYTES);
+    const mac = bytes.subarray(MAGIC.length + CHACHA20_NONCE_BYTES, headerLength);
+    const ciphertext = bytes.subarray(headerLength);
+
+    const expectedMac = await hmacSha256(keys.mac, concatBytes(MAGIC, nonce, ciphertext));
+    if (!constantTimeEqual(mac, expectedMac)) {
+      throw new DocumentStoreError(`Document failed integrity check: ${file}`);
+    }
+
+    return JSON.parse(utf8Decode(chacha20(keys.encryption, nonce, ciphertext))) as T;
+  }
+
+  private requireKeys(): StoreKeys {
+    if (!this.keys) {
+      throw new DocumentStoreError("Document store is not open");
+    }
+    return this.keys;
+  }
+}
+
+export default DocumentStore;
@@ -0,0 +1,378 @@
+import { AppState, AppStateStatus } from "react-native";
+import Constants from "expo-constants";
+import {
+  claimExpertReviewRequest,
+  createExpertReviewRequest,
+  getExpertReviewQueue,
+  getMyExpertReviewRequests,
+  updateExpertReviewTerm,
+} from "./api";
+import type {
+  CreateExpertReviewPayload,
+  ExpertReviewRequest,
+  ExpertReviewTerm,
+  ExpertReviewTermUpdate,
+  ReviewState,
+} from "./api";
+import { notificationsService } from "./NotificationsService";
+import {
+  getExpertReviewRequests,
+  getOrCreateDeviceId,
+  storageKeys,
+  storeExpertReviewRequests,
+} from "../utils/storage";
+
+// --- Expert review ---
+// Users ask a Sharia expert to review a whole contract or some of its terms;
+// experts pick requests from a shared queue and move every term from
+// "requested" through "in_review" to a final decision. The requester's
+// requests are cached on the device and refreshed on foreground, and a local
+// notification fires once every term of a request has a decision.
+//
+// The service talks to an ExpertReviewBackend. The HTTP one is the default;
+// setting `extra.expertReviewBackend` to "local" in the app config swaps in
+// an on-device backend, so an expert account can try the whole workflow on
+// one device by switching the regular user preview on and off.
+
+export const FINAL_REVIEW_STATES: readonly ReviewState[] = [
+  "approved",
+  "rejected",
+  "needs_changes",
+];
+
+export const isFinalReviewState = (state: ReviewState): boolean =>
+  FINAL_REVIEW_STATES.includes(state);
+
+export const isReviewComplete = (request: ExpertReviewRequest): boolean =>
+  request.terms.length > 0 &&
+  request.terms.every((term) => isFinalReviewState(term.state));
+
+// Where a term of the active session stands, from its latest request.
+export interface TermReviewStatus extends ExpertReviewTerm {
+  reviewId: string;
+}
+
+export interface ExpertReviewBackend {
+  createRequest(payload: CreateExpertReviewPayload): Promise<ExpertReviewRequest>;
+  listMyRequests(): Promise<ExpertReviewRequest[]>;
+  listQueue(): Promise<ExpertReviewRequest[]>;
+  claimRequest(reviewId: string): Promise<ExpertReviewRequest>;
+  updateTerm(
+    reviewId: string,
+    termId: string,
+    update: ExpertReviewTermUpdate,
+  ): Promise<ExpertReviewRequest>;
+}
+
+export const httpExpertReviewBackend: ExpertReviewBackend = {
+  createRequest: (payload) => createExpertReviewRequest(payload),
+  listMyRequests: () => getMyExpertReviewRequests(),
+  listQueue: () => getExpertReviewQueue(),
+  claimRequest: (reviewId) => claimExpertReviewRequest(reviewId),
+  updateTerm: (reviewId, termId, update) =>
+    updateExpertReviewTerm(reviewId, termId, update),
+};
+
+const LOCAL_EXPERT_ID = "local-expert";
+
+// Keeps every request in device storage and follows the same rules as the
+// server: claiming moves requested terms to "in_review", and the queue holds
+// requests with terms still awaiting a decision.
+export const createLocalExpertReviewBackend = (
+  key: string = storageKeys.EXPERT_REVIEW_LOCAL_BACKEND,
+): ExpertReviewBackend => {
+  const modify = async (
+    reviewId: string,
+    change: (request: ExpertReviewRequest, now: string) => ExpertReviewRequest,
+  ): Promise<ExpertReviewRequest> => {
+    const requests = await getExpertReviewRequests(key);
+    const index = requests.findIndex((request) => request.review_id === reviewId);
+    if (index === -1) {
+      throw new Error(`Review request ${reviewId} was not found.`);
+    }
+    const updated = change(requests[index], new Date().toISOString());
+    requests[index] = updated;
+    await storeExpertReviewRequests(requests, key);
+    return updated;
+  };
+
+  return {
+    async createRequest(payload) {
+      const now = new Date().toISOString();
+      const request: ExpertReviewRequest = {
+        review_id: `review_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        session_id: payload.session_id,
+        session_title: payload.session_title,
+        requested_by: await getOrCreateDeviceId(),
+        requested_at: now,
+        note: payload.note ?? null,
+        scope: payload.scope,
+        assigned_to: null,
+        terms: payload.terms.map((term) => ({
+          ...term,
+          state: "requested",
+          expert_comment: null,
+          updated_at: now,
+        })),
+        updated_at: now,
+      };
+      const requests = await getExpertReviewRequests(key);
+      await storeExpertReviewRequests([...requests, request], key);
+      return request;
+    },
+
+    listMyRequests: () => getExpertReviewRequests(key),
+
+    async listQueue() {
+      const requests = await getExpertReviewRequests(key);
+      return requests.filter((request) => !isReviewComplete(request));
+    },
+
+    claimRequest: (reviewId) =>
+      modify(reviewId, (request, now) => ({
+        ...request,
+        assigned_to: request.assigned_to || LOCAL_EXPERT_ID,
+        terms: request.terms.map((term) =>
+          term.state === "requested"
+            ? { ...term, state: "in_review", updated_at: now }
+            : term,
+        ),
+        updated_at: now,
+      })),
+
+    updateTerm: (reviewId, termId, update) =>
+      modify(reviewId, (request, now) => {
+        if (!request.terms.some((term) => term.term_id === termId)) {
+          throw new Error(`Term ${termId} is not part of review ${reviewId}.`);
+        }
+        return {
+          ...request,
+          assigned_to: request.assigned_to || LOCAL_EXPERT_ID,
+          terms: request.terms.map((term) =>
+            term.term_id === termId
+              ? {
+                  ...term,
+                  state: update.state,
+                  expert_comment: update.expert_comment?.trim() || null,
+                  updated_at: now,
+                }
+              : term,
+          ),
+          updated_at: now,
+        };
+      }),
+  };
+};
+
+export type ExpertReviewEvent =
+  | { type: "changed"; requests: ExpertReviewRequest[] }
+  | { type: "completed"; request: ExpertReviewRequest };
+
+type ExpertReviewListener = (event: ExpertReviewEvent) => void;
+
+// Title and body of the completion notification, so the app can translate it.
+export type ReviewCompletionText = (
+  request: ExpertReviewRequest,
+) => { title: string; body: string } | null;
+
+class ExpertReviewService {
+  private static instance: ExpertReviewService;
+  private backend: ExpertReviewBackend =
+    Constants.expoConfig?.extra?.expertReviewBackend === "local"
+      ? createLocalExpertReviewBackend()
+      : httpExpertReviewBackend;
+  private requests: ExpertReviewRequest[] = [];
+  private listeners = new Set<ExpertReviewListener>();
+  private loadPromise: Promise<void> | null = null;
+  private refreshPromise: Promise<ExpertReviewRequest[]> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+  private completionText: ReviewCompletionText | null = null;
+
+  static getInstance(): ExpertReviewService {
+    if (!ExpertReviewService.instance) {
+      ExpertReviewService.instance = new ExpertReviewService();
+    }
+    return ExpertReviewService.instance;
+  }
+
+  setBackend(backend: ExpertReviewBackend): void {
+    this.backend = backend;
+  }
+
+  setCompletionText(completionText: ReviewCompletionText | null): void {
+    this.completionText = completionText;
+  }
+
+  // Loads cached requests once and refreshes them whenever the app returns
+  // to the foreground while a review is still open.
+  async initialize(): Promise<void> {
+    await this.load();
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener(
+        "change",
+        this.handleAppStateChange,
+      );
+    }
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus) => {
+    if (nextAppState === "active" && this.hasOpenRequests()) {
+      this.refresh().catch((error) =>
+        console.warn("⚠️ Reviews: Refresh on foreground failed:", error),
+      );
+    }
+  };
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = getExpertReviewRequests().then((stored) => {
+        this.requests = stored;
+        if (stored.length > 0) {
+          this.emit({ type: "changed", requests: this.getRequests() });
+        }
+      });
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: ExpertReviewListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: ExpertReviewEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("❌ Reviews: Listener failed:", error);
+      }
+    });
+  }
+
+  // The user's own requests, newest first.
+  getRequests(sessionId?: string): ExpertReviewRequest[] {
+    const requests = sessionId
+      ? this.requests.filter((request) => request.session_id === sessionId)
+      : [...this.requests];
+    return requests.sort(
+      (a, b) => new Date(b.requested_at).getTime() - new Date(a.requested_at).getTime(),
+    );
+  }
+
+  hasOpenRequests(): boolean {
+    return this.requests.some((request) => !isReviewComplete(request));
+  }
+
+  // Review state of each term of a session; a newer request for the same
+  // term replaces an older one.
+  getTermStates(sessionId: string): Record<string, TermReviewStatus> {
+    const states: Record<string, TermReviewStatus> = {};
+    [...this.getRequests(sessionId)].reverse().forEach((request) => {
+      request.terms.forEach((term) => {
+        states[term.term_id] = { ...term, reviewId: request.review_id };
+      });
+    });
+    return states;
+  }
+
+  async requestReview(payload: CreateExpertReviewPayload): Promise<ExpertReviewRequest> {
+    await this.load();
+    const request = await this.backend.createRequest(payload);
+    console.log(`🧑‍⚖️ Reviews: Requested review ${request.review_id} for ${request.terms.length} term(s)`);
+    await this.merge([request]);
+    return request;
+  }
+
+  // Fetches the user's requests; concurrent callers share one fetch.
+  refresh(): Promise<ExpertReviewRequest[]> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.load()
+        .then(() => this.backend.listMyRequests())
+        .then(async (requests) => {
+          await this.merge(requests, true);
+          return this.getRequests();
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  // --- Expert side ---
+
+  getQueue(): Promise<ExpertReviewRequest[]> {
+    return this.backend.listQueue();
+  }
+
+  async claim(reviewId: string): Promise<ExpertReviewRequest> {
+    const request = await this.backend.claimRequest(reviewId);
+    await this.mergeIfOwn(request);
+    return request;
+  }
+
+  async updateTerm(
+    reviewId: string,
+    termId: string,
+    update: ExpertReviewTermUpdate,
+  ): Promise<ExpertReviewRequest> {
+    const request = await this.backend.updateTerm(reviewId, termId, update);
+    console.log(`🧑‍⚖️ Reviews: Term ${termId} of ${reviewId} is now ${update.state}`);
+    await this.mergeIfOwn(request);
+    return request;
+  }
+
+  // With the local backend the expert and the requester share a device, so
+  // decisions reach the requester's cache right away.
+  private async mergeIfOwn(request: ExpertReviewRequest): Promise<void> {
+    if (this.requests.some((own) => own.review_id === request.review_id)) {
+      await this.merge([request]);
+    }
+  }
+
+  // Replaces cached requests with newer copies and notifies about requests
+  // that have just been completed. `replaceAll` drops requests the server no
+  // longer returns.
+  private async merge(
+    incoming: ExpertReviewRequest[],
+    replaceAll = false,
+  ): Promise<void> {
+    const previous = new Map(this.requests.map((request) => [request.review_id, request]));
+    const byId = new Map(replaceAll ? [] : previous);
+    incoming.forEach((request) => byId.set(request.review_id, request));
+    this.requests = Array.from(byId.values());
+    await storeExpertReviewRequests(this.requests);
+    this.emit({ type: "changed", requests: this.getRequests() });
+
+    for (const request of incoming) {
+      const before = previous.get(request.review_id);
+      if (before && !isReviewComplete(before) && isReviewComplete(request)) {
+        this.emit({ type: "completed", request });
+        await this.notifyCompleted(request);
+      }
+    }
+  }
+
+  private async notifyCompleted(request: ExpertReviewRequest): Promise<void> {
+    // Open the first term that needs the user's attention, if any.
+    const attention = request.terms.find((term) => term.state !== "approved");
+    const text = this.completionText?.(request);
+    try {
+      await notificationsService.scheduleExpertReviewCompletedNotification(
+        request.session_title || request.session_id,
+        request.session_id,
+        attention?.term_id,
+        text?.title,
+        text?.body,
+      );
+    } catch (error) {
+      console.warn("⚠️ Reviews: Failed to schedule completion notification:", error);
+    }
+  }
+}
+
+export default ExpertReviewService;
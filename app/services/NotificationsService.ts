@@ -182,6 +182,45 @@ class NotificationsService {
     });
   }
 
+  async scheduleExpertReviewCompletedNotification(
+    sessionTitle: string,
+    sessionId: string,
+    termId?: string,
+    translatedTitle?: string,
+    translatedBody?: string
+  ): Promise<void> {
+    await this.scheduleLocalNotification({
+      title: translatedTitle || 'Expert Review Complete',
+      body: translatedBody || `A Sharia expert has finished reviewing ${sessionTitle}`,
+      data: {
+        type: 'expert_review_complete',
+        sessionId,
+        termId,
+        timestamp: new Date().toISOString()
+      },
+      seconds: 1, // Show immediately
+    });
+  }
+
+  async scheduleBatchCompletedNotification(
+    batchId: string,
+    analyzedCount: number,
+    totalCount: number,
+    translatedTitle?: string,
+    translatedBody?: string
+  ): Promise<void> {
+    await this.scheduleLocalNotification({
+      title: translatedTitle || 'Batch Analysis Complete',
+      body: translatedBody || `${analyzedCount} of ${totalCount} contracts were analyzed`,
+      data: {
+        type: 'batch_complete',
+        batchId,
+        timestamp: new Date().toISOString()
+      },
+      seconds: 1, // Show immediately
+    });
+  }
+
   async scheduleOrderStatusNotification(status: string, orderId: string): Promise<void> {
     await this.scheduleLocalNotification({
       title: 'Order Status Update',
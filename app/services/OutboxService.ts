@@ -0,0 +1,367 @@
+import { AppState, AppStateStatus } from "react-native";
+import {
+  confirmTermModification,
+  reviewUserModification,
+  submitExpertFeedback,
+} from "./api";
+import type {
+  ConfirmModificationApiResponse,
+  ExpertFeedbackApiResponse,
+  ExpertFeedbackPayload,
+  ReviewModificationApiResponse,
+} from "./api";
+import { AuthError, NetworkError, ServerError, TimeoutError } from "./httpClient";
+import { getOutboxEntries, storeOutboxEntries } from "../utils/storage";
+import SessionSyncService from "./SessionSyncService";
+
+// --- Offline outbox ---
+// Term mutations that could not reach the server are queued here, applied
+// optimistically by SessionContext and replayed in the order they were made.
+// A mutation that the server rejects is kept as "failed" and blocks later
+// mutations of the same term until the user retries or discards it. Terms with
+// an unresolved sync conflict are held back until the conflict is resolved.
+
+export type OutboxMutation =
+  | {
+      type: "review_modification";
+      sessionId: string;
+      termId: string;
+      userModifiedText: string;
+      originalTermText: string;
+    }
+  | {
+      type: "confirm_modification";
+      sessionId: string;
+      termId: string;
+      modifiedText: string;
+    }
+  | {
+      type: "expert_feedback";
+      sessionId: string;
+      termId: string;
+      payload: ExpertFeedbackPayload;
+    };
+
+export type OutboxEntryStatus = "pending" | "failed";
+
+export interface OutboxEntry {
+  id: string;
+  mutation: OutboxMutation;
+  status: OutboxEntryStatus;
+  createdAt: string;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+  // Term fields written optimistically, and their values before the write so
+  // a discarded entry can be rolled back.
+  patch: Record<string, unknown>;
+  rollback: Record<string, unknown>;
+  // Account the mutation was made under. It is only sent while that account
+  // is signed in; entries without one predate this and are held as well.
+  ownerId?: string;
+}
+
+export type OutboxResponse =
+  | ReviewModificationApiResponse
+  | ConfirmModificationApiResponse
+  | ExpertFeedbackApiResponse;
+
+export type OutboxEvent =
+  | { type: "changed"; entries: OutboxEntry[] }
+  | { type: "applied"; entry: OutboxEntry; response: OutboxResponse }
+  | { type: "discarded"; entry: OutboxEntry };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+// Errors worth queueing for a later replay: the request never reached the
+// server, the server could not handle it right now, or the session expired
+// and the mutation waits for the user to sign in again.
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  error instanceof ServerError ||
+  error instanceof AuthError;
+
+const termKey = (mutation: OutboxMutation) =>
+  `${mutation.sessionId}:${mutation.termId}`;
+
+class OutboxService {
+  private static instance: OutboxService;
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<OutboxListener>();
+  private loadPromise: Promise<void> | null = null;
+  private replayPromise: Promise<number> | null = null;
+  private ownerId: string | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  static getInstance(): OutboxService {
+    if (!OutboxService.instance) {
+      OutboxService.instance = new OutboxService();
+    }
+    return OutboxService.instance;
+  }
+
+  // Loads persisted entries once and replays them whenever the app returns
+  // to the foreground.
+  async initialize(): Promise<void> {
+    await this.load();
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener(
+        "change",
+        this.handleAppStateChange,
+      );
+    }
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus) => {
+    if (nextAppState === "active" && this.hasPending()) {
+      this.replay().catch((error) =>
+        console.error("❌ Outbox: Replay on foreground failed:", error),
+      );
+    }
+  };
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = getOutboxEntries().then((stored) => {
+        // Entries queued before the stored ones finished loading stay last.
+        this.entries = [...stored, ...this.entries];
+        if (this.entries.length > 0) {
+          console.log(`📮 Outbox: Restored ${this.entries.length} queued mutation(s)`);
+          this.emit({ type: "changed", entries: this.getEntries() });
+        }
+      });
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("❌ Outbox: Listener failed:", error);
+      }
+    });
+  }
+
+  private async commit(): Promise<void> {
+    await storeOutboxEntries(this.entries);
+    this.emit({ type: "changed", entries: this.getEntries() });
+  }
+
+  getEntries(sessionId?: string): OutboxEntry[] {
+    return sessionId
+      ? this.entries.filter((entry) => entry.mutation.sessionId === sessionId)
+      : [...this.entries];
+  }
+
+  // Set when a user signs in. Kept when the session expires, so edits made
+  // meanwhile are sent once the same user signs in again; another account's
+  // entries wait until their owner is back.
+  setOwner(userId: string): void {
+    if (this.ownerId === userId) return;
+    this.ownerId = userId;
+    const held = this.entries.filter((entry) => !this.isOwned(entry)).length;
+    if (held > 0) {
+      console.log(`📮 Outbox: Holding ${held} mutation(s) queued under another account`);
+    }
+  }
+
+  private isOwned(entry: OutboxEntry): boolean {
+    return !!this.ownerId && entry.ownerId === this.ownerId;
+  }
+
+  hasPending(): boolean {
+    return this.entries.some((entry) => entry.status === "pending" && this.isOwned(entry));
+  }
+
+  // True when a new mutation of this term must wait behind queued ones.
+  hasQueuedFor(sessionId: string, termId: string): boolean {
+    return this.entries.some(
+      (entry) =>
+        entry.mutation.sessionId === sessionId &&
+        entry.mutation.termId === termId,
+    );
+  }
+
+  async enqueue(
+    mutation: OutboxMutation,
+    patch: Record<string, unknown>,
+    rollback: Record<string, unknown>,
+  ): Promise<OutboxEntry> {
+    await this.load();
+
+    const entry: OutboxEntry = {
+      id: `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      mutation,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      patch,
+      rollback,
+      ownerId: this.ownerId ?? undefined,
+    };
+
+    this.entries.push(entry);
+    console.log(`📮 Outbox: Queued ${mutation.type} for term ${mutation.termId}`);
+    await this.commit();
+    return entry;
+  }
+
+  // Replays pending entries in order. Stops at the first transient failure
+  // (still offline) and returns the number of entries the server accepted.
+  replay(): Promise<number> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.runReplay().finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  private async runReplay(): Promise<number> {
+    await this.load();
+    if (!this.hasPending()) return 0;
+
+    console.log(`🔄 Outbox: Replaying ${this.entries.length} queued mutation(s)`);
+    const blockedTerms = new Set<string>();
+    let applied = 0;
+
+    for (const entry of [...this.entries]) {
+      // discard() and supersede() may drop entries while earlier ones are
+      // being sent; a dropped entry must not reach the server.
+      if (!this.isQueued(entry.id) || !this.isOwned(entry)) continue;
+
+      const key = termKey(entry.mutation);
+      if (entry.status === "failed") {
+        blockedTerms.add(key);
+        continue;
+      }
+      if (blockedTerms.has(key)) continue;
+      if (
+        SessionSyncService.getInstance().hasConflict(
+          entry.mutation.sessionId,
+          entry.mutation.termId,
+        )
+      ) {
+        blockedTerms.add(key);
+        continue;
+      }
+
+      entry.attempts += 1;
+      entry.lastAttemptAt = new Date().toISOString();
+
+      try {
+        const response = await this.send(entry.mutation);
+        this.entries = this.entries.filter((queued) => queued.id !== entry.id);
+        applied += 1;
+        console.log(`✅ Outbox: Synced ${entry.mutation.type} for term ${entry.mutation.termId}`);
+        this.emit({ type: "applied", entry, response });
+      } catch (error) {
+        if (!this.isQueued(entry.id)) continue;
+        entry.lastError = error instanceof Error ? error.message : String(error);
+
+        if (isTransientError(error)) {
+          console.warn("⚠️ Outbox: Cannot sync right now, replay paused:", entry.lastError);
+          break;
+        }
+
+        console.error(`❌ Outbox: ${entry.mutation.type} rejected for term ${entry.mutation.termId}:`, error);
+        entry.status = "failed";
+        blockedTerms.add(key);
+      }
+    }
+
+    await this.commit();
+    return applied;
+  }
+
+  private isQueued(entryId: string): boolean {
+    return this.entries.some((queued) => queued.id === entryId);
+  }
+
+  private send(mutation: OutboxMutation): Promise<OutboxResponse> {
+    switch (mutation.type) {
+      case "review_modification":
+        return reviewUserModification(
+          mutation.sessionId,
+          mutation.termId,
+          mutation.userModifiedText,
+          mutation.originalTermText,
+        );
+      case "confirm_modification":
+        return confirmTermModification(
+          mutation.sessionId,
+          mutation.termId,
+          mutation.modifiedText,
+        );
+      case "expert_feedback":
+        return submitExpertFeedback(mutation.payload);
+    }
+  }
+
+  async retry(entryId: string): Promise<number> {
+    await this.load();
+    const entry = this.entries.find((queued) => queued.id === entryId);
+    if (!entry) return 0;
+
+    entry.status = "pending";
+    entry.lastError = undefined;
+    await this.commit();
+    return this.replay();
+  }
+
+  // Drops an entry without sending it. Later entries of the same term are
+  // kept; the caller rolls the optimistic change back.
+  async discard(entryId: string): Promise<OutboxEntry | null> {
+    await this.load();
+    const entry = this.entries.find((queued) => queued.id === entryId);
+    if (!entry) return null;
+
+    this.entries = this.entries.filter((queued) => queued.id !== entryId);
+    console.log(`🗑️ Outbox: Discarded ${entry.mutation.type} for term ${entry.mutation.termId}`);
+    await this.commit();
+    this.emit({ type: "discarded", entry });
+    return entry;
+  }
+
+  // Drops entries whose change lost a sync conflict. Unlike discard() nothing
+  // is rolled back: the term already holds the winning value.
+  async supersede(entryIds: string[]): Promise<void> {
+    await this.load();
+    const remaining = this.entries.filter((entry) => !entryIds.includes(entry.id));
+    if (remaining.length === this.entries.length) return;
+
+    console.log(`🗑️ Outbox: Dropped ${this.entries.length - remaining.length} superseded mutation(s)`);
+    this.entries = remaining;
+    await this.commit();
+  }
+
+  async discardSession(sessionId: string): Promise<void> {
+    await this.load();
+    const remaining = this.entries.filter(
+      (entry) => entry.mutation.sessionId !== sessionId,
+    );
+    if (remaining.length === this.entries.length) return;
+
+    this.entries = remaining;
+    await this.commit();
+  }
+
+  cleanup(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.listeners.clear();
+  }
+}
+
+export default OutboxService;
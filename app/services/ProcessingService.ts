@@ -3,15 +3,24 @@ import { AppState, AppStateStatus } from "react-native";
 import { updateSessionsIndex } from "../utils/analytics";
 import BackgroundTaskManager from "./BackgroundTaskManager";
 import { deactivateKeepAwake } from "expo-keep-awake";
+import { ServerError, ValidationError, isNotFoundError } from "./httpClient";
+import AppLockService from "./AppLockService";
+import AnalysisJobTracker, { AnalysisJobSnapshot } from "./AnalysisJobTracker";
 
 interface AnalysisJob {
   sessionId: string;
   startTime: number;
+  // Only set while falling back to session polling.
   pollInterval: NodeJS.Timeout | null;
   retryCount: number;
   maxRetries: number;
+  deadlineTimer: ReturnType<typeof setTimeout> | null;
+  unsubscribe: (() => void) | null;
 }
 
+// Matches the 12-minute analysis timeout plus some slack.
+const ANALYSIS_DEADLINE_MS = 15 * 60 * 1000;
+
 class ProcessingService {
   private static instance: ProcessingService;
   private activeJobs: Map<string, AnalysisJob> = new Map();
@@ -77,6 +86,9 @@ class ProcessingService {
 
       // Persist current analysis state
       this.persistAnalysisState();
+
+      // Cover sensitive screens and start the lock timeout
+      AppLockService.getInstance().handleBackground();
     } else if (
       this.appState.match(/inactive|background/) &&
       nextAppState === "active"
@@ -84,6 +96,12 @@ class ProcessingService {
       // App coming to foreground - resume normal polling
       console.log("📱 App foregrounded, resuming analysis tracking...");
 
+      // Lock again if the app was away longer than the lock timeout
+      AppLockService.getInstance().handleForeground();
+
+      // Reconnect job status streams dropped in the background right away
+      AnalysisJobTracker.getInstance().wakeAll();
+
       // Restore analysis state first
       this.restoreAnalysisState();
       this.adjustPollingForForeground();
@@ -105,12 +123,14 @@ class ProcessingService {
       pollInterval: null,
       retryCount: 0,
       maxRetries: 50, // Increased retries to accommodate 12-minute upload timeout
+      deadlineTimer: null,
+      unsubscribe: null,
     };
 
     this.activeJobs.set(sessionId, job);
 
-    // Start both foreground polling and background processing
-    this.startPolling(job);
+    // Follow the server's job status in the foreground
+    this.followJob(job);
 
     // Start background processing
     const backgroundTaskManager = BackgroundTaskManager.getInstance();
@@ -127,10 +147,116 @@ class ProcessingService {
       if (job.pollInterval) {
         clearInterval(job.pollInterval);
       }
+      if (job.deadlineTimer) {
+        clearTimeout(job.deadlineTimer);
+      }
+      job.unsubscribe?.();
+      AnalysisJobTracker.getInstance().untrack(this.extractCleanSessionId(sessionId));
       this.activeJobs.delete(sessionId);
     }
   }
 
+  // Follows the job through the job status API. Servers without it are
+  // polled for the full session instead.
+  private followJob(job: AnalysisJob): void {
+    const tracker = AnalysisJobTracker.getInstance();
+    const jobId = this.extractCleanSessionId(job.sessionId);
+
+    job.unsubscribe = tracker.subscribe((snapshot) => {
+      if (snapshot.jobId === jobId && this.activeJobs.get(job.sessionId) === job) {
+        this.handleJobUpdate(job, snapshot);
+      }
+    });
+
+    const remaining = Math.max(job.startTime + ANALYSIS_DEADLINE_MS - Date.now(), 0);
+    job.deadlineTimer = setTimeout(async () => {
+      job.deadlineTimer = null;
+      if (this.activeJobs.get(job.sessionId) !== job) return;
+      console.log(`⏰ Analysis deadline passed for session: ${job.sessionId}`);
+      await this.handleAnalysisTimeout(job.sessionId);
+      this.stopAnalysis(job.sessionId);
+    }, remaining);
+
+    tracker.track(jobId);
+    const snapshot = tracker.getSnapshot(jobId);
+    if (snapshot) {
+      this.handleJobUpdate(job, snapshot);
+    }
+  }
+
+  private handleJobUpdate(job: AnalysisJob, snapshot: AnalysisJobSnapshot): void {
+    if (snapshot.unavailable) {
+      if (!job.pollInterval) {
+        console.log(`🔄 Job status unavailable, polling session: ${job.sessionId}`);
+        this.startPolling(job);
+      }
+      return;
+    }
+
+    const stage = snapshot.status?.stage;
+    if (stage === "completed") {
+      console.log(`✅ Analysis completed for session: ${job.sessionId}`);
+      this.stopAnalysis(job.sessionId);
+      this.handleAnalysisComplete(job.sessionId);
+    } else if (stage === "failed") {
+      const reason = snapshot.status?.error || "Analysis failed on the server";
+      this.stopAnalysis(job.sessionId);
+      this.handleAnalysisError(job.sessionId, new Error(reason));
+    } else if (stage === "cancelled") {
+      // Cancelled elsewhere, e.g. from another device; nothing to report.
+      console.log(`🛑 Analysis cancelled on the server for session: ${job.sessionId}`);
+      this.stopAnalysis(job.sessionId);
+      this.releaseKeepAwake();
+    }
+  }
+
+  // Stops an analysis for good: aborts its upload if still in flight, asks
+  // the server to stop working on it and forgets every trace of it here
+  // (tracking, background processing, persisted state, keep-awake).
+  // `jobId` defaults to the id the session's job is followed under. Resolves
+  // to whether the server confirmed; the local cleanup happens either way.
+  async cancelAnalysis(sessionId: string, jobId?: string): Promise<boolean> {
+    console.log(`🛑 Cancelling analysis for session: ${sessionId}`);
+    const backgroundTaskManager = BackgroundTaskManager.getInstance();
+
+    // Abort the upload first so it cannot start a new job on the server
+    const hadUpload = await backgroundTaskManager.cancelBackgroundUpload(sessionId);
+    this.stopAnalysis(sessionId);
+    await backgroundTaskManager.stopBackgroundProcessing(sessionId);
+    await this.persistAnalysisState();
+
+    let cancelledOnServer = false;
+    try {
+      const apiModule = await import("./api");
+      await apiModule.cancelAnalysis(jobId ?? this.getStatusJobId(sessionId));
+      cancelledOnServer = true;
+      console.log(`✅ Server stopped the analysis for session: ${sessionId}`);
+    } catch (error) {
+      if (isNotFoundError(error) && hadUpload) {
+        // The upload never reached the server, so there is nothing to stop
+        cancelledOnServer = true;
+      } else if (
+        (error instanceof ValidationError && error.status === 405) ||
+        (error instanceof ServerError && error.status === 501)
+      ) {
+        console.log("🛑 Server cannot cancel analyses; it will finish unseen");
+      } else {
+        console.warn(`⚠️ Failed to cancel analysis on the server for ${sessionId}:`, error);
+      }
+    }
+
+    this.releaseKeepAwake();
+    return cancelledOnServer;
+  }
+
+  private releaseKeepAwake(): void {
+    if (this.activeJobs.size > 0) return;
+    console.log("😴 Deactivating keep awake - analysis cancelled");
+    deactivateKeepAwake().catch((error) =>
+      console.warn("⚠️ Failed to deactivate keep awake after cancelling:", error),
+    );
+  }
+
   private startPolling(job: AnalysisJob): void {
     const pollFunction = async () => {
       try {
@@ -175,7 +301,7 @@ class ProcessingService {
           const errorMessage = error.message;
           if (errorMessage.includes('االجلسة غير موجودة') || 
               errorMessage.includes('Session not found') ||
-              errorMessage.includes('404')) {
+              isNotFoundError(error)) {
             console.log(`🛑 Session not found, stopping analysis for: ${job.sessionId}`);
             await this.handleAnalysisError(job.sessionId, error);
             this.stopAnalysis(job.sessionId);
@@ -213,7 +339,7 @@ class ProcessingService {
         const errorMessage = error.message;
         if (errorMessage.includes('االجلسة غير موجودة') || 
             errorMessage.includes('Session not found') ||
-            errorMessage.includes('404')) {
+            isNotFoundError(error)) {
           console.log(`🛑 Session ${sessionId} not found on server after validation`);
           return true; // Session doesn't exist, stop polling
         }
@@ -283,7 +409,7 @@ class ProcessingService {
         // Check for specific error patterns that indicate the session doesn't exist
         if (errorMessage.includes('االجلسة غير موجودة') || 
             errorMessage.includes('Session not found') ||
-            errorMessage.includes('404')) {
+            isNotFoundError(error)) {
           console.log(`❌ Session ${sessionId} not found on server, stopping analysis`);
           // Return false and let the retry logic handle stopping
           return false;
@@ -412,6 +538,8 @@ class ProcessingService {
     });
   }
 
+  // Only jobs that fell back to session polling have intervals to adjust;
+  // job status streams reconnect by themselves.
   private adjustPollingForBackground(): void {
     // Reduce polling frequency in background
     this.activeJobs.forEach((job, sessionId) => {
@@ -440,12 +568,9 @@ class ProcessingService {
   }
 
   cleanup(): void {
-    this.activeJobs.forEach((job) => {
-      if (job.pollInterval) {
-        clearInterval(job.pollInterval);
-      }
-    });
-    this.activeJobs.clear();
+    Array.from(this.activeJobs.keys()).forEach((sessionId) =>
+      this.stopAnalysis(sessionId),
+    );
 
     // Remove AppState listener
     if ((this as any).appStateSubscription) {
@@ -489,11 +614,13 @@ class ProcessingService {
               startTime: jobData.startTime,
               pollInterval: null,
               retryCount: jobData.retryCount,
-              maxRetries: jobData.maxRetries
+              maxRetries: jobData.maxRetries,
+              deadlineTimer: null,
+              unsubscribe: null,
             };
 
             this.activeJobs.set(jobData.sessionId, job);
-            this.startPolling(job);
+            this.followJob(job);
 
             // Re-initialize background processing
             const backgroundTaskManager = BackgroundTaskManager.getInstance();
@@ -509,6 +636,11 @@ class ProcessingService {
   getActiveJobs(): string[] {
     return Array.from(this.activeJobs.keys());
   }
+
+  // Id under which AnalysisJobTracker follows a session's job.
+  getStatusJobId(sessionId: string): string {
+    return this.extractCleanSessionId(sessionId);
+  }
 }
 
 export default ProcessingService;
\ No newline at end of file
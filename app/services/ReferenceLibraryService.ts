@@ -0,0 +1,199 @@
+import { SHARIA_STANDARDS } from "../data/shariaStandards";
+import type { ShariaStandard } from "../data/shariaStandards";
+import { normalizeText, searchTerms } from "../utils/textSearch";
+
+// --- Reference library ---
+// Lookup over the bundled AAOIFI Shari'ah Standards catalogue. Analyses cite
+// standards in free text ("AAOIFI Shari'ah Standard No. 8, clause 4/1/3",
+// "المعيار الشرعي رقم (8) البند 4/1"), so references are parsed here into
+// standard numbers and, when given, a clause. Standards missing from the
+// catalogue are still parsed and reported without details.
+
+export interface ParsedReference {
+  standardNumber: number;
+  // As cited, e.g. "4/1/3"; only set when a single standard is cited.
+  clause?: string;
+}
+
+export interface ResolvedReference extends ParsedReference {
+  standard?: ShariaStandard;
+}
+
+export interface StandardSearchResult {
+  standard: ShariaStandard;
+  // Rulings that matched the query, for highlighting.
+  rulingIds: string[];
+}
+
+// Highest standard number AAOIFI has issued, with headroom; larger numbers
+// in a reference are years or amounts rather than standards.
+const MAX_STANDARD_NUMBER = 80;
+const MAX_GAP_LENGTH = 40;
+const MAX_CLAUSE_GAP_LENGTH = 30;
+
+// Normalized forms (see normalizeText).
+const STANDARD_KEYWORD =
+  /shari'?a'?h?\s+standards?|\bstandards?\b|\bss\b|\baaoifi\b|المعايير|معايير|المعيار|معيار/g;
+const CLAUSE_KEYWORD = /clause|para(?:graph)?|section|article|\bitem|البند|بند|الفقره|فقره|الماده|ماده/;
+// Accounting and governance standards share the numbering but not the catalogue.
+const OTHER_STANDARD = /accounting|governance|\bfas\b|\bgs\b|المحاسبه|الحوكمه/;
+const OTHER_STANDARD_PREFIX = /(?:accounting|governance|\bfas|\bgs|المحاسبه|الحوكمه)\s*$/;
+const NUMBER_LIST =
+  /^(\d{1,3})(?![\d/])\s*[)\]]?((?:\s*(?:,|&|and|و)\s*(?:no\.?|number|رقم)?\s*[(\[]?\s*\d{1,3}(?![\d/])\s*[)\]]?)*)/;
+const NUMBER_WITH_CLAUSE = /^(\d{1,3})\/(\d+(?:\/\d+)*)/;
+// A clause keyword may follow the standard's name ("No. 8 on murabahah, clause
+// 4/1"); a bare "4/1" must follow the number directly.
+const CLAUSE_AFTER = new RegExp(
+  `^\\D{0,${MAX_CLAUSE_GAP_LENGTH}}?(?:${CLAUSE_KEYWORD.source})s?\\s*(?:no\\.?|number|رقم)?\\s*[(\\[]?\\s*(\\d+(?:\\s*\\/\\s*\\d+)*)`
+);
+const BARE_CLAUSE_AFTER = /^[\s,;:(\[\-]*(\d+(?:\/\d+)+)/;
+
+const isStandardNumber = (value: number): boolean => value >= 1 && value <= MAX_STANDARD_NUMBER;
+
+export const parseReferenceNumber = (reference?: string | null): ParsedReference[] => {
+  if (!reference?.trim()) return [];
+  const text = normalizeText(reference);
+  const found = new Map<number, ParsedReference>();
+
+  const add = (standardNumber: number, clause?: string) => {
+    if (!isStandardNumber(standardNumber)) return;
+    const existing = found.get(standardNumber);
+    if (!existing || (!existing.clause && clause)) {
+      found.set(standardNumber, { standardNumber, clause });
+    }
+  };
+
+  STANDARD_KEYWORD.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = STANDARD_KEYWORD.exec(text)) !== null) {
+    if (OTHER_STANDARD_PREFIX.test(text.slice(0, match.index))) continue;
+
+    const rest = text.slice(match.index + match[0].length);
+    const digitAt = rest.search(/\d/);
+    if (digitAt < 0 || digitAt > MAX_GAP_LENGTH) continue;
+    // "Standard on murabahah, clause 4" cites a clause, not a standard number.
+    const gap = rest.slice(0, digitAt);
+    if (CLAUSE_KEYWORD.test(gap) || OTHER_STANDARD.test(gap)) continue;
+
+    const numbers = rest.slice(digitAt);
+    const withClause = numbers.match(NUMBER_WITH_CLAUSE);
+    if (withClause) {
+      add(Number(withClause[1]), withClause[2]);
+      continue;
+    }
+
+    const list = numbers.match(NUMBER_LIST);
+    if (!list) continue;
+    const cited = [list[1], ...(list[2].match(/\d{1,3}/g) || [])].map(Number);
+    const after = numbers.slice(list[0].length);
+    const clause =
+      cited.length === 1 ? after.match(CLAUSE_AFTER) || after.match(BARE_CLAUSE_AFTER) : null;
+    const clauseText = clause ? clause[1].replace(/\s+/g, "") : undefined;
+    cited.forEach((standardNumber) => add(standardNumber, clauseText));
+  }
+
+  return Array.from(found.values());
+};
+
+class ReferenceLibraryService {
+  private static instance: ReferenceLibraryService;
+  private byNumber = new Map<number, ShariaStandard>();
+  // Parsed references by raw text; terms are re-rendered often.
+  private parsed = new Map<string, ParsedReference[]>();
+  private searchIndex: Array<{ standard: ShariaStandard; terms: Set<string>; rulings: Map<string, Set<string>> }> | null = null;
+
+  static getInstance(): ReferenceLibraryService {
+    if (!ReferenceLibraryService.instance) {
+      ReferenceLibraryService.instance = new ReferenceLibraryService();
+    }
+    return ReferenceLibraryService.instance;
+  }
+
+  private constructor() {
+    SHARIA_STANDARDS.forEach((standard) => this.byNumber.set(standard.number, standard));
+  }
+
+  getStandards(): ShariaStandard[] {
+    return SHARIA_STANDARDS;
+  }
+
+  getStandard(standardNumber: number): ShariaStandard | undefined {
+    return this.byNumber.get(standardNumber);
+  }
+
+  parse(reference?: string | null): ParsedReference[] {
+    if (!reference?.trim()) return [];
+    let result = this.parsed.get(reference);
+    if (!result) {
+      result = parseReferenceNumber(reference);
+      this.parsed.set(reference, result);
+    }
+    return result;
+  }
+
+  resolve(reference?: string | null): ResolvedReference[] {
+    return this.parse(reference).map((parsed) => ({
+      ...parsed,
+      standard: this.byNumber.get(parsed.standardNumber),
+    }));
+  }
+
+  // Terms whose reference cites the given standard, in their original order.
+  findCitingTerms<T extends { term_id: string; reference_number?: string | null }>(
+    terms: T[],
+    standardNumber: number,
+  ): T[] {
+    return terms.filter((term) =>
+      this.parse(term.reference_number).some((parsed) => parsed.standardNumber === standardNumber),
+    );
+  }
+
+  // Searches titles, scopes and rulings in both languages; a number finds
+  // its standard directly. Every query word must match, the last one also
+  // as a prefix while it is being typed.
+  search(query: string): StandardSearchResult[] {
+    const trimmed = normalizeText(query).trim();
+    if (!trimmed) return SHARIA_STANDARDS.map((standard) => ({ standard, rulingIds: [] }));
+
+    if (/^\d+$/.test(trimmed)) {
+      const standard = this.byNumber.get(Number(trimmed));
+      return standard ? [{ standard, rulingIds: [] }] : [];
+    }
+
+    const queryTerms = searchTerms(trimmed);
+    if (queryTerms.length === 0) return [];
+    const last = queryTerms.length - 1;
+    const matches = (terms: Set<string>, term: string, index: number) =>
+      terms.has(term) || (index === last && Array.from(terms).some((candidate) => candidate.startsWith(term)));
+
+    return this.getSearchIndex()
+      .filter((entry) => queryTerms.every((term, index) => matches(entry.terms, term, index)))
+      .map((entry) => ({
+        standard: entry.standard,
+        rulingIds: Array.from(entry.rulings.entries())
+          .filter(([, terms]) => queryTerms.some((term, index) => matches(terms, term, index)))
+          .map(([id]) => id),
+      }));
+  }
+
+  private getSearchIndex() {
+    if (!this.searchIndex) {
+      this.searchIndex = SHARIA_STANDARDS.map((standard) => {
+        const rulings = new Map(
+          standard.rulings.map((ruling) => [
+            ruling.id,
+            new Set(searchTerms(`${ruling.text.en} ${ruling.text.ar}`)),
+          ]),
+        );
+        const terms = new Set(
+          searchTerms(`${standard.title.en} ${standard.title.ar} ${standard.scope.en} ${standard.scope.ar}`),
+        );
+        rulings.forEach((rulingTerms) => rulingTerms.forEach((term) => terms.add(term)));
+        return { standard, terms, rulings };
+      });
+    }
+    return this.searchIndex;
+  }
+}
+
+export default ReferenceLibraryService;
@@ -0,0 +1,284 @@
+import { Platform } from "react-native";
+import * as FileSystem from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import { ServerError, ValidationError } from "./httpClient";
+import { base64ToBytes, bytesToHex } from "../utils/crypto";
+import { getResumableUploads, storeResumableUploads } from "../utils/storage";
+
+// --- Resumable chunked uploads ---
+// Large files are uploaded in parts: the server opens an upload, each part
+// is sent with its SHA-256 and the upload is finalized once every part has
+// arrived. Progress is saved after every part, so an upload interrupted by a
+// dropped connection or a killed app continues from the first missing part
+// the next time the same file is uploaded, including from
+// BackgroundTaskManager.
+//
+// This module must not import api.ts: api.ts passes the endpoints in as a
+// ResumableUploadTransport.
+
+export const PREFERRED_CHUNK_BYTES = 1024 * 1024;
+// Smaller files go through the single-shot upload.
+export const CHUNKED_UPLOAD_MIN_BYTES = 2 * 1024 * 1024;
+// Saved uploads older than this are dropped; the server has expired them.
+const UPLOAD_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadSessionInfo {
+  upload_id: string;
+  chunk_size: number;
+  // Indexes of the parts the server already has.
+  received_parts: number[];
+}
+
+export interface StartUploadPayload {
+  filename: string;
+  content_type: string;
+  size: number;
+  chunk_size: number;
+  upload_type?: string;
+  total_pages?: number;
+  metadata?: string;
+  job_id?: string;
+}
+
+export interface UploadedPart {
+  index: number;
+  size: number;
+  sha256: string;
+}
+
+export interface ResumableUploadTransport<T> {
+  start(payload: StartUploadPayload, signal?: AbortSignal): Promise<UploadSessionInfo>;
+  status(uploadId: string, signal?: AbortSignal): Promise<UploadSessionInfo>;
+  putPart(
+    uploadId: string,
+    index: number,
+    bytes: Uint8Array,
+    sha256: string,
+    signal?: AbortSignal,
+  ): Promise<void>;
+  complete(uploadId: string, parts: UploadedPart[], signal?: AbortSignal): Promise<T>;
+}
+
+export interface ResumableUploadState {
+  // Identifies the file across restarts; see uploadKey.
+  key: string;
+  uploadId: string;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  parts: UploadedPart[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ResumableUploadOptions {
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+// The files the app uploads: picked documents, camera scans and multi-page
+// text bundles, on web with the original File in `file`.
+export interface UploadableFile {
+  uri: string;
+  name?: string;
+  type?: string;
+  size?: number;
+  file?: Blob;
+}
+
+// Servers without the upload endpoints answer 404, 405 or 501.
+const isChunkedUploadUnsupported = (error: unknown): boolean =>
+  (error instanceof ValidationError && (error.status === 404 || error.status === 405)) ||
+  (error instanceof ServerError && error.status === 501);
+
+// Remembered until the app restarts, so a server without chunked uploads is
+// asked once.
+let serverSupportsChunkedUploads = true;
+
+const uploadKey = (file: UploadableFile, size: number): string =>
+  `${file.uri}|${file.name ?? ""}|${size}`;
+
+export const resolveUploadSize = async (file: UploadableFile): Promise<number | null> => {
+  if (file.size && file.size > 0) return file.size;
+  if (file.file && file.file.size > 0) return file.file.size;
+  if (Platform.OS === "web") return null;
+  try {
+    const info = await FileSystem.getInfoAsync(file.uri);
+    return info.exists && "size" in info && info.size > 0 ? info.size : null;
+  } catch (error) {
+    console.warn("⚠️ Upload: Could not read file size:", error);
+    return null;
+  }
+};
+
+const readChunk = async (
+  file: UploadableFile,
+  position: number,
+  length: number,
+): Promise<Uint8Array> => {
+  if (file.file) {
+    return new Uint8Array(await file.file.slice(position, position + length).arrayBuffer());
+  }
+  const base64 = await FileSystem.readAsStringAsync(file.uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  return base64ToBytes(base64);
+};
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> =>
+  bytesToHex(new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes)));
+
+const loadStates = async (): Promise<ResumableUploadState[]> => {
+  const now = Date.now();
+  return (await getResumableUploads()).filter(
+    (state) => now - state.updatedAt < UPLOAD_STATE_TTL_MS,
+  );
+};
+
+// Every change rewrites the whole stored list, so changes are queued one
+// after another; otherwise uploads running side by side (a batch) would
+// overwrite each other's progress.
+let stateWrites: Promise<void> = Promise.resolve();
+
+const updateStates = (
+  update: (states: ResumableUploadState[]) => ResumableUploadState[],
+): Promise<void> => {
+  const write = stateWrites.then(async () => {
+    await storeResumableUploads(update(await loadStates()));
+  });
+  stateWrites = write.catch(() => undefined);
+  return write;
+};
+
+const saveState = (state: ResumableUploadState): Promise<void> =>
+  updateStates((states) => [...states.filter((stored) => stored.key !== state.key), state]);
+
+const dropState = (key: string): Promise<void> =>
+  updateStates((states) => states.filter((stored) => stored.key !== key));
+
+// Forgets the saved progress of a file, e.g. once its upload is abandoned.
+export const forgetResumableUpload = async (file: UploadableFile): Promise<void> => {
+  const size = await resolveUploadSize(file);
+  if (size !== null) {
+    await dropState(uploadKey(file, size));
+  }
+};
+
+export const hasResumableUpload = async (file: UploadableFile): Promise<boolean> => {
+  const size = await resolveUploadSize(file);
+  if (size === null) return false;
+  const key = uploadKey(file, size);
+  return (await loadStates()).some((state) => state.key === key);
+};
+
+// Continues the saved upload of this file, or opens a new one. Parts the
+// server no longer has are sent again. Resolves to null when the server does
+// not support chunked uploads.
+const openUpload = async <T>(
+  file: UploadableFile,
+  size: number,
+  payload: Omit<StartUploadPayload, "size" | "chunk_size">,
+  transport: ResumableUploadTransport<T>,
+  signal?: AbortSignal,
+): Promise<ResumableUploadState | null> => {
+  const key = uploadKey(file, size);
+  const saved = (await loadStates()).find((state) => state.key === key);
+
+  if (saved) {
+    try {
+      const info = await transport.status(saved.uploadId, signal);
+      if (info.chunk_size && info.chunk_size !== saved.chunkSize) {
+        // Part indexes only line up with the chunk size they were cut with;
+        // mixing sizes would finalize a corrupt file.
+        console.log(`📤 Upload: ${saved.uploadId} changed its chunk size, starting over`);
+        await dropState(key);
+      } else {
+        const received = new Set(info.received_parts);
+        const parts = saved.parts.filter((part) => received.has(part.index));
+        console.log(`📤 Upload: Resuming ${saved.uploadId} with ${parts.length} part(s) already sent`);
+        return { ...saved, parts };
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      // The server no longer knows the upload; start over.
+      console.log(`📤 Upload: ${saved.uploadId} expired on the server, starting over`);
+      await dropState(key);
+    }
+  }
+
+  let info: UploadSessionInfo;
+  try {
+    info = await transport.start(
+      { ...payload, size, chunk_size: PREFERRED_CHUNK_BYTES },
+      signal,
+    );
+  } catch (error) {
+    if (!isChunkedUploadUnsupported(error)) throw error;
+    console.log("📤 Upload: Server does not support chunked uploads");
+    serverSupportsChunkedUploads = false;
+    return null;
+  }
+  const now = Date.now();
+  const state: ResumableUploadState = {
+    key,
+    uploadId: info.upload_id,
+    fileName: payload.filename,
+    size,
+    chunkSize: info.chunk_size || PREFERRED_CHUNK_BYTES,
+    parts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveState(state);
+  console.log(`📤 Upload: Opened ${state.uploadId} (${size} bytes in ${Math.ceil(size / state.chunkSize)} part(s))`);
+  return state;
+};
+
+// Uploads the file in parts and finalizes it. Resolves to null when the
+// server does not support chunked uploads and the caller should fall back to
+// a single-shot upload. On any other failure the saved progress is kept so
+// the next attempt resumes.
+export const uploadResumable = async <T>(
+  file: UploadableFile,
+  size: number,
+  payload: Omit<StartUploadPayload, "size" | "chunk_size">,
+  transport: ResumableUploadTransport<T>,
+  options: ResumableUploadOptions = {},
+): Promise<T | null> => {
+  if (!serverSupportsChunkedUploads) return null;
+
+  const { onProgress, signal } = options;
+  const state = await openUpload(file, size, payload, transport, signal);
+  if (!state) return null;
+  const totalParts = Math.ceil(size / state.chunkSize);
+  const sent = new Set(state.parts.map((part) => part.index));
+
+  const reportProgress = () =>
+    onProgress?.(
+      state.parts.reduce((total, part) => total + part.size, 0),
+      size,
+    );
+  reportProgress();
+
+  for (let index = 0; index < totalParts; index++) {
+    if (sent.has(index)) continue;
+
+    const position = index * state.chunkSize;
+    const bytes = await readChunk(file, position, Math.min(state.chunkSize, size - position));
+    const sha256 = await sha256Hex(bytes);
+    await transport.putPart(state.uploadId, index, bytes, sha256, signal);
+
+    state.parts = [...state.parts, { index, size: bytes.length, sha256 }];
+    state.updatedAt = Date.now();
+    await saveState(state);
+    reportProgress();
+  }
+
+  const parts = [...state.parts].sort((a, b) => a.index - b.index);
+  const result = await transport.complete(state.uploadId, parts, signal);
+  await dropState(state.key);
+  console.log(`✅ Upload: ${state.uploadId} finalized`);
+  return result;
+};
@@ -0,0 +1,334 @@
+import type { SessionDetailsApiResponse } from "./api";
+import DocumentStore from "./DocumentStore";
+import { getAllStoredSessions } from "../utils/storage";
+import { buildSnippet, searchTerms, tokenize } from "../utils/textSearch";
+
+// --- Search index ---
+// Local full-text index over stored sessions: filename, contract text, term
+// texts, Sharia issues and reference numbers. Text goes through the
+// normalization and stemming in utils/textSearch, so Arabic spelling variants
+// and English word forms match each other. Index entries are persisted per
+// session in the document store and kept in memory as an inverted index.
+
+export type SearchFieldKind = "filename" | "reference" | "term" | "issue" | "contract";
+
+export interface SearchMatch {
+  kind: SearchFieldKind;
+  // Set for matches inside a term, its issue or its reference.
+  termId?: string;
+  snippet: string;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  title: string;
+  score: number;
+  matches: SearchMatch[];
+}
+
+interface IndexedField {
+  kind: SearchFieldKind;
+  termId?: string;
+  text: string;
+  terms: string[];
+}
+
+interface IndexedSession {
+  sessionId: string;
+  title: string;
+  // Hash of the indexed text; unchanged sessions are not re-tokenized.
+  signature: string;
+  indexedAt: string;
+  fields: IndexedField[];
+}
+
+interface LoadedField extends IndexedField {
+  termSet: Set<string>;
+}
+
+interface LoadedSession extends Omit<IndexedSession, "fields"> {
+  fields: LoadedField[];
+}
+
+const INDEX_COLLECTION = "search_index";
+// Sessions are saved on every term change; indexing waits for a quiet moment.
+const REINDEX_DELAY_MS = 1500;
+const MAX_MATCHES_PER_SESSION = 3;
+const FIELD_WEIGHTS: Record<SearchFieldKind, number> = {
+  filename: 5,
+  reference: 4,
+  term: 3,
+  issue: 2,
+  contract: 1,
+};
+
+const hashString = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length}:${(hash >>> 0).toString(36)}`;
+};
+
+const collectFields = (
+  session: SessionDetailsApiResponse,
+): Array<Omit<IndexedField, "terms">> => {
+  const fields: Array<Omit<IndexedField, "terms">> = [];
+  const add = (kind: SearchFieldKind, text: string | null | undefined, termId?: string) => {
+    if (text && text.trim()) fields.push({ kind, text, termId });
+  };
+
+  add("filename", session.original_filename);
+  (session.analysis_results || []).forEach((term) => {
+    add("term", term.confirmed_modified_text || term.term_text, term.term_id);
+    add("issue", term.sharia_issue, term.term_id);
+    add("reference", term.reference_number, term.term_id);
+  });
+  add("contract", session.original_contract_plain);
+
+  return fields;
+};
+
+const toLoadedSession = (session: IndexedSession): LoadedSession => ({
+  ...session,
+  fields: session.fields.map((field) => ({ ...field, termSet: new Set(field.terms) })),
+});
+
+class SearchIndexService {
+  private static instance: SearchIndexService;
+  private sessions = new Map<string, LoadedSession>();
+  // term -> ids of the sessions that contain it
+  private postings = new Map<string, Set<string>>();
+  private loadPromise: Promise<void> | null = null;
+  private useDocumentStore = false;
+  private pending = new Map<string, SessionDetailsApiResponse>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): SearchIndexService {
+    if (!SearchIndexService.instance) {
+      SearchIndexService.instance = new SearchIndexService();
+    }
+    return SearchIndexService.instance;
+  }
+
+  // Reads the persisted index, then indexes stored sessions it does not
+  // cover yet (e.g. sessions saved before the index existed).
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.doLoad().catch((error) => {
+        console.error("❌ SearchIndex: Failed to load:", error);
+        this.loadPromise = null;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async doLoad(): Promise<void> {
+    const store = DocumentStore.getInstance();
+    if (store.isSupported()) {
+      try {
+        await store.open();
+        this.useDocumentStore = true;
+        const documents = await store.list(INDEX_COLLECTION);
+        for (const { id } of documents) {
+          const indexed = await store.get<IndexedSession>(INDEX_COLLECTION, id);
+          if (indexed) this.addToMemory(toLoadedSession(indexed));
+        }
+      } catch (error) {
+        console.warn("⚠️ SearchIndex: Document store unavailable, indexing in memory:", error);
+        this.useDocumentStore = false;
+      }
+    }
+
+    const storedSessions = await getAllStoredSessions();
+    const storedIds = new Set(storedSessions.map((session) => session.session_id));
+
+    for (const session of storedSessions) {
+      await this.writeSession(session);
+    }
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      if (!storedIds.has(sessionId)) await this.deleteSession(sessionId);
+    }
+
+    console.log(`🔎 SearchIndex: ${this.sessions.size} sessions indexed`);
+  }
+
+  // Queues a session for (re)indexing after the next quiet period.
+  scheduleIndex(session: SessionDetailsApiResponse): void {
+    if (!session?.session_id) return;
+    this.pending.set(session.session_id, session);
+
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((error) => console.error("❌ SearchIndex: Flush failed:", error));
+    }, REINDEX_DELAY_MS);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.size === 0) return;
+
+    await this.load();
+    const sessions = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const session of sessions) {
+      await this.writeSession(session);
+    }
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    this.pending.delete(sessionId);
+    await this.load();
+    await this.deleteSession(sessionId);
+  }
+
+  async clear(): Promise<void> {
+    this.pending.clear();
+    await this.load();
+    this.sessions.clear();
+    this.postings.clear();
+    if (this.useDocumentStore) {
+      await DocumentStore.getInstance().clear(INDEX_COLLECTION);
+    }
+  }
+
+  // Every query word must match somewhere in the session. The last word also
+  // matches as a prefix while the user is still typing it.
+  async search(query: string, options: { limit?: number } = {}): Promise<SearchResult[]> {
+    await this.flush();
+    await this.load();
+
+    const queryTerms = Array.from(new Set(tokenize(query).map((token) => token.term)));
+    if (queryTerms.length === 0) return [];
+
+    const lastIsPrefix = !/\s$/.test(query);
+    const variants = queryTerms.map((term, i) =>
+      this.expandTerm(term, lastIsPrefix && i === queryTerms.length - 1),
+    );
+
+    // Candidate sessions contain a variant of every query term.
+    const sessionsPerTerm = variants.map((termVariants) => {
+      const sessionIds = new Set<string>();
+      termVariants.forEach((variant) => {
+        this.postings.get(variant)?.forEach((sessionId) => sessionIds.add(sessionId));
+      });
+      return sessionIds;
+    });
+    const candidates = Array.from(sessionsPerTerm[0]).filter((sessionId) =>
+      sessionsPerTerm.every((sessionIds) => sessionIds.has(sessionId)),
+    );
+
+    const allVariants = new Set(variants.flatMap((termVariants) => Array.from(termVariants)));
+    const results: SearchResult[] = [];
+
+    candidates.forEach((sessionId) => {
+      const session = this.sessions.get(sessionId);
+      if (!session) return;
+
+      let score = 0;
+      const hits: Array<{ field: LoadedField; weight: number }> = [];
+
+      session.fields.forEach((field) => {
+        const matched = variants.filter((termVariants) =>
+          Array.from(termVariants).some((variant) => field.termSet.has(variant)),
+        ).length;
+        if (matched > 0) {
+          const weight = FIELD_WEIGHTS[field.kind] * matched;
+          score += weight;
+          hits.push({ field, weight });
+        }
+      });
+
+      hits.sort((a, b) => b.weight - a.weight);
+      const matches: SearchMatch[] = [];
+      const seenTerms = new Set<string>();
+
+      for (const { field } of hits) {
+        if (matches.length >= MAX_MATCHES_PER_SESSION) break;
+        if (field.termId) {
+          if (seenTerms.has(field.termId)) continue;
+          seenTerms.add(field.termId);
+        }
+        const snippet = buildSnippet(field.text, (term) => allVariants.has(term));
+        if (snippet) matches.push({ kind: field.kind, termId: field.termId, snippet });
+      }
+
+      results.push({ sessionId, title: session.title, score, matches });
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+
+  // --- Internals ---
+
+  private expandTerm(term: string, asPrefix: boolean): Set<string> {
+    if (!asPrefix) return new Set([term]);
+    const matches = new Set<string>();
+    this.postings.forEach((_, indexed) => {
+      if (indexed.startsWith(term)) matches.add(indexed);
+    });
+    return matches;
+  }
+
+  private async writeSession(session: SessionDetailsApiResponse): Promise<void> {
+    const rawFields = collectFields(session);
+    const signature = hashString(rawFields.map((field) => field.text).join("\u0000"));
+    if (this.sessions.get(session.session_id)?.signature === signature) return;
+
+    const indexed: IndexedSession = {
+      sessionId: session.session_id,
+      title: session.original_filename || session.session_id,
+      signature,
+      indexedAt: new Date().toISOString(),
+      fields: rawFields.map((field) => ({ ...field, terms: searchTerms(field.text) })),
+    };
+
+    this.removeFromMemory(session.session_id);
+    this.addToMemory(toLoadedSession(indexed));
+
+    if (this.useDocumentStore) {
+      await DocumentStore.getInstance().put(INDEX_COLLECTION, session.session_id, indexed);
+    }
+  }
+
+  private async deleteSession(sessionId: string): Promise<void> {
+    this.removeFromMemory(sessionId);
+    if (this.useDocumentStore) {
+      await DocumentStore.getInstance().remove(INDEX_COLLECTION, sessionId);
+    }
+  }
+
+  private addToMemory(session: LoadedSession): void {
+    this.sessions.set(session.sessionId, session);
+    session.fields.forEach((field) => {
+      field.terms.forEach((term) => {
+        let sessionIds = this.postings.get(term);
+        if (!sessionIds) {
+          sessionIds = new Set();
+          this.postings.set(term, sessionIds);
+        }
+        sessionIds.add(session.sessionId);
+      });
+    });
+  }
+
+  private removeFromMemory(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.fields.forEach((field) => {
+      field.terms.forEach((term) => {
+        const sessionIds = this.postings.get(term);
+        sessionIds?.delete(sessionId);
+        if (sessionIds && sessionIds.size === 0) this.postings.delete(term);
+      });
+    });
+    this.sessions.delete(sessionId);
+  }
+}
+
+export default SearchIndexService;
@@ -0,0 +1,551 @@
+import { getSessionChanges, pushSession } from "./api";
+import type { ApiAnalysisTerm, SessionDetailsApiResponse } from "./api";
+import type { OutboxMutation } from "./OutboxService";
+import {
+  getAllStoredSessions,
+  getOrCreateDeviceId,
+  getSessionData,
+  getSyncBase,
+  getSyncConflicts,
+  getSyncCursor,
+  storeSessionData,
+  storeSyncBase,
+  storeSyncConflicts,
+  storeSyncCursor,
+} from "../utils/storage";
+
+// --- Session sync ---
+// Two-way sync of stored sessions with the backend. Only sessions changed
+// since the last cursor are pulled. Terms are merged field by field against
+// the values both sides last agreed on (the "base"): a field changed on one
+// side wins, a field changed differently on both sides becomes a conflict the
+// user resolves. Sessions with open conflicts are not pushed until resolved.
+
+export const SYNCED_TERM_FIELDS = [
+  "is_confirmed_by_user",
+  "confirmed_modified_text",
+  "expert_override_is_valid_sharia",
+  "has_expert_feedback",
+] as const;
+
+export type SyncedTermField = (typeof SYNCED_TERM_FIELDS)[number];
+export type SyncedValue = string | boolean | null;
+export type SyncedTermValues = Partial<Record<SyncedTermField, SyncedValue>>;
+
+export interface SessionSyncBase {
+  sessionId: string;
+  syncedAt: string;
+  updatedAt?: string;
+  revision?: number;
+  terms: Record<string, SyncedTermValues>;
+}
+
+export interface SyncConflict {
+  // `${sessionId}:${termId}:${field}`
+  id: string;
+  sessionId: string;
+  sessionName: string;
+  termId: string;
+  termText: string;
+  field: SyncedTermField;
+  base: SyncedValue;
+  local: SyncedValue;
+  remote: SyncedValue;
+  localUpdatedAt?: string;
+  remoteUpdatedAt?: string;
+  detectedAt: string;
+}
+
+export type ConflictChoice = "local" | "remote";
+
+export interface SessionSyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+}
+
+export type SessionSyncEvent =
+  | { type: "session_updated"; session: SessionDetailsApiResponse }
+  | { type: "conflicts_changed"; conflicts: SyncConflict[] };
+
+type SessionSyncListener = (event: SessionSyncEvent) => void;
+
+// --- Merge helpers ---
+
+const normalize = (value: unknown): SyncedValue =>
+  value === undefined ? null : (value as SyncedValue);
+
+const sameValue = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+const syncedValuesOf = (term: ApiAnalysisTerm): SyncedTermValues =>
+  Object.fromEntries(
+    SYNCED_TERM_FIELDS.map((field) => [field, normalize(term[field])]),
+  );
+
+const laterOf = (a?: string, b?: string): string | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+interface FieldMerge {
+  value: SyncedValue;
+  conflict: boolean;
+}
+
+const mergeField = (
+  field: SyncedTermField,
+  base: SyncedTermValues | undefined,
+  local: ApiAnalysisTerm,
+  remote: ApiAnalysisTerm,
+): FieldMerge => {
+  const l = normalize(local[field]);
+  const r = normalize(remote[field]);
+  if (l === r) return { value: l, conflict: false };
+
+  // Expert feedback only accumulates, so "has feedback" can never conflict.
+  if (field === "has_expert_feedback") {
+    return { value: Boolean(l) || Boolean(r), conflict: false };
+  }
+
+  if (base && field in base) {
+    const b = normalize(base[field]);
+    if (l === b) return { value: r, conflict: false };
+    if (r === b) return { value: l, conflict: false };
+    return { value: l, conflict: true };
+  }
+
+  // Never synced: an empty side takes the other one, otherwise the newer
+  // edit wins when both are stamped.
+  if (l === null) return { value: r, conflict: false };
+  if (r === null) return { value: l, conflict: false };
+  if (local.updated_at && remote.updated_at) {
+    return laterOf(local.updated_at, remote.updated_at) === local.updated_at
+      ? { value: l, conflict: false }
+      : { value: r, conflict: false };
+  }
+  return { value: l, conflict: true };
+};
+
+export interface SessionMerge {
+  session: SessionDetailsApiResponse;
+  // Base once the merged session is pushed, and base while it is not: the
+  // server then still holds its own values.
+  pushedBase: SessionSyncBase;
+  serverBase: SessionSyncBase;
+  conflicts: SyncConflict[];
+  // The merged session differs from what the server has.
+  needsPush: boolean;
+  // The merged session differs from what this device had.
+  changedLocally: boolean;
+}
+
+export const mergeSession = (
+  local: SessionDetailsApiResponse,
+  remote: SessionDetailsApiResponse,
+  base: SessionSyncBase | null,
+): SessionMerge => {
+  const now = new Date().toISOString();
+  const remoteTerms = new Map(remote.analysis_results.map((t) => [t.term_id, t]));
+  const localIds = new Set(local.analysis_results.map((t) => t.term_id));
+  const conflicts: SyncConflict[] = [];
+  const baseTerms: Record<string, SyncedTermValues> = {};
+  const serverTerms: Record<string, SyncedTermValues> = {};
+  let needsPush = false;
+  let changedLocally = false;
+
+  const mergedTerms = local.analysis_results.map((localTerm) => {
+    const remoteTerm = remoteTerms.get(localTerm.term_id);
+    if (!remoteTerm) {
+      needsPush = true;
+      baseTerms[localTerm.term_id] = syncedValuesOf(localTerm);
+      return localTerm;
+    }
+
+    const termBase = base?.terms[localTerm.term_id];
+    const merged: ApiAnalysisTerm = { ...localTerm, ...remoteTerm };
+    const agreed: SyncedTermValues = {};
+    const onServer: SyncedTermValues = {};
+
+    SYNCED_TERM_FIELDS.forEach((field) => {
+      const result = mergeField(field, termBase, localTerm, remoteTerm);
+      (merged as unknown as Record<string, SyncedValue>)[field] = result.value;
+
+      if (result.conflict) {
+        // Keep the old base so the conflict is detected again until resolved.
+        agreed[field] = termBase?.[field] ?? null;
+        onServer[field] = agreed[field];
+        conflicts.push({
+          id: `${local.session_id}:${localTerm.term_id}:${field}`,
+          sessionId: local.session_id,
+          sessionName: local.original_filename || remote.original_filename,
+          termId: localTerm.term_id,
+          termText: localTerm.term_text,
+          field,
+          base: normalize(termBase?.[field]),
+          local: normalize(localTerm[field]),
+          remote: normalize(remoteTerm[field]),
+          localUpdatedAt: localTerm.updated_at,
+          remoteUpdatedAt: remoteTerm.updated_at,
+          detectedAt: now,
+        });
+        return;
+      }
+
+      agreed[field] = result.value;
+      onServer[field] = normalize(remoteTerm[field]);
+      if (!sameValue(result.value, remoteTerm[field])) needsPush = true;
+      if (!sameValue(result.value, localTerm[field])) changedLocally = true;
+    });
+
+    merged.updated_at = laterOf(localTerm.updated_at, remoteTerm.updated_at);
+    baseTerms[localTerm.term_id] = agreed;
+    serverTerms[localTerm.term_id] = onServer;
+    return merged;
+  });
+
+  // Terms only the server knows about are taken as they are.
+  remote.analysis_results.forEach((remoteTerm) => {
+    if (localIds.has(remoteTerm.term_id)) return;
+    mergedTerms.push(remoteTerm);
+    baseTerms[remoteTerm.term_id] = syncedValuesOf(remoteTerm);
+    serverTerms[remoteTerm.term_id] = baseTerms[remoteTerm.term_id];
+    changedLocally = true;
+  });
+
+  return {
+    session: {
+      ...local,
+      ...remote,
+      analysis_results: mergedTerms,
+      updated_at: laterOf(local.updated_at, remote.updated_at),
+      revision: Math.max(local.revision ?? 0, remote.revision ?? 0) || undefined,
+    },
+    pushedBase: {
+      sessionId: local.session_id,
+      syncedAt: now,
+      updatedAt: remote.updated_at,
+      revision: remote.revision,
+      terms: baseTerms,
+    },
+    serverBase: {
+      sessionId: local.session_id,
+      syncedAt: now,
+      updatedAt: remote.updated_at,
+      revision: remote.revision,
+      terms: serverTerms,
+    },
+    conflicts,
+    needsPush,
+    changedLocally,
+  };
+};
+
+const baseFromSession = (session: SessionDetailsApiResponse): SessionSyncBase => ({
+  sessionId: session.session_id,
+  syncedAt: new Date().toISOString(),
+  updatedAt: session.updated_at,
+  revision: session.revision,
+  terms: Object.fromEntries(
+    session.analysis_results.map((term) => [term.term_id, syncedValuesOf(term)]),
+  ),
+});
+
+// True when a synced field of the session differs from the last agreed base.
+const hasLocalChanges = (
+  session: SessionDetailsApiResponse,
+  base: SessionSyncBase,
+): boolean =>
+  session.analysis_results.some((term) => {
+    const termBase = base.terms[term.term_id];
+    if (!termBase) return true;
+    return SYNCED_TERM_FIELDS.some(
+      (field) => field in termBase && !sameValue(term[field], termBase[field]),
+    );
+  });
+
+// The synced fields an outbox mutation writes on this device.
+export const syncedValuesForMutation = (
+  mutation: OutboxMutation,
+): SyncedTermValues => {
+  switch (mutation.type) {
+    case "confirm_modification":
+      return {
+        is_confirmed_by_user: true,
+        confirmed_modified_text: mutation.modifiedText,
+      };
+    case "expert_feedback":
+      // Feedback without a verdict leaves the override as it was.
+      return mutation.payload.feedback_data.expertIsValidSharia === undefined
+        ? { has_expert_feedback: true }
+        : {
+            has_expert_feedback: true,
+            expert_override_is_valid_sharia:
+              mutation.payload.feedback_data.expertIsValidSharia,
+          };
+    default:
+      return {};
+  }
+};
+
+class SessionSyncService {
+  private static instance: SessionSyncService;
+  private conflicts: SyncConflict[] = [];
+  private listeners = new Set<SessionSyncListener>();
+  private loadPromise: Promise<void> | null = null;
+  private syncPromise: Promise<SessionSyncResult> | null = null;
+
+  static getInstance(): SessionSyncService {
+    if (!SessionSyncService.instance) {
+      SessionSyncService.instance = new SessionSyncService();
+    }
+    return SessionSyncService.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = getSyncConflicts().then((stored) => {
+        this.conflicts = stored;
+        if (stored.length > 0) {
+          this.emit({ type: "conflicts_changed", conflicts: this.getConflicts() });
+        }
+      });
+    }
+    return this.loadPromise;
+  }
+
+  async initialize(): Promise<void> {
+    await this.load();
+  }
+
+  subscribe(listener: SessionSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: SessionSyncEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("❌ Sync: Listener failed:", error);
+      }
+    });
+  }
+
+  getConflicts(sessionId?: string): SyncConflict[] {
+    return sessionId
+      ? this.conflicts.filter((conflict) => conflict.sessionId === sessionId)
+      : [...this.conflicts];
+  }
+
+  hasConflict(sessionId: string, termId: string): boolean {
+    return this.conflicts.some(
+      (conflict) => conflict.sessionId === sessionId && conflict.termId === termId,
+    );
+  }
+
+  private async setConflicts(conflicts: SyncConflict[]): Promise<void> {
+    this.conflicts = conflicts;
+    await storeSyncConflicts(conflicts);
+    this.emit({ type: "conflicts_changed", conflicts: this.getConflicts() });
+  }
+
+  // Stamps a local edit into the stored session so the next sync knows this
+  // device changed the term.
+  async recordLocalTermChange(
+    sessionId: string,
+    termId: string,
+    values: SyncedTermValues,
+  ): Promise<void> {
+    if (Object.keys(values).length === 0) return;
+
+    const session = await getSessionData(sessionId);
+    if (!session) return;
+
+    const now = new Date().toISOString();
+    await storeSessionData({
+      ...session,
+      updated_at: now,
+      analysis_results: session.analysis_results.map((term) =>
+        term.term_id === termId
+          ? ({ ...term, ...values, updated_at: now } as ApiAnalysisTerm)
+          : term,
+      ),
+    });
+  }
+
+  // Puts a term's synced fields back to the last agreed values, then applies
+  // the edits that are still waiting to be sent.
+  async revertLocalTermChange(
+    sessionId: string,
+    termId: string,
+    pending: SyncedTermValues[] = [],
+  ): Promise<void> {
+    const [session, base] = await Promise.all([
+      getSessionData(sessionId),
+      getSyncBase(sessionId),
+    ]);
+    const termBase = base?.terms[termId];
+    if (!session || !termBase) return;
+
+    const restored = Object.assign({}, termBase, ...pending);
+    await storeSessionData({
+      ...session,
+      analysis_results: session.analysis_results.map((term) =>
+        term.term_id === termId ? { ...term, ...restored } : term,
+      ),
+    });
+  }
+
+  // Runs one sync; concurrent callers share it.
+  sync(): Promise<SessionSyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<SessionSyncResult> {
+    await this.load();
+    console.log("🔄 Sync: Starting session sync...");
+
+    const deviceId = await getOrCreateDeviceId();
+    const cursor = await getSyncCursor();
+    const changes = await getSessionChanges(deviceId, cursor);
+    console.log(`📥 Sync: ${changes.sessions.length} session(s) changed since ${cursor ?? "the beginning"}`);
+
+    const localSessions = await getAllStoredSessions();
+    const localById = new Map(localSessions.map((s) => [s.session_id, s]));
+    const pulledIds = new Set<string>();
+    let conflicts = [...this.conflicts];
+    const result: SessionSyncResult = { pulled: 0, pushed: 0, conflicts: 0 };
+
+    // `fallbackBase` describes the server when the push fails, so the local
+    // edits still count as unsent on the next sync.
+    const push = async (
+      session: SessionDetailsApiResponse,
+      base: SessionSyncBase,
+      fallbackBase: SessionSyncBase | null,
+    ) => {
+      try {
+        const saved = await pushSession(deviceId, session);
+        await storeSyncBase({
+          ...base,
+          updatedAt: saved.updated_at ?? base.updatedAt,
+          revision: saved.revision ?? base.revision,
+        });
+        result.pushed += 1;
+        console.log(`📤 Sync: Pushed session ${session.session_id}`);
+      } catch (error) {
+        console.warn(`⚠️ Sync: Failed to push session ${session.session_id}:`, error);
+        if (fallbackBase) await storeSyncBase(fallbackBase);
+      }
+    };
+
+    // 1. Merge what changed on the server
+    for (const remote of changes.sessions) {
+      pulledIds.add(remote.session_id);
+      const local = localById.get(remote.session_id);
+
+      if (!local) {
+        await storeSessionData(remote);
+        await storeSyncBase(baseFromSession(remote));
+        result.pulled += 1;
+        this.emit({ type: "session_updated", session: remote });
+        continue;
+      }
+
+      const merge = mergeSession(local, remote, await getSyncBase(local.session_id));
+      conflicts = [
+        ...conflicts.filter((c) => c.sessionId !== local.session_id),
+        ...merge.conflicts,
+      ];
+
+      if (merge.changedLocally || merge.conflicts.length > 0) {
+        await storeSessionData(merge.session);
+        result.pulled += 1;
+        this.emit({ type: "session_updated", session: merge.session });
+      }
+
+      if (merge.conflicts.length > 0) {
+        // Pushing now would overwrite the other device's edit.
+        await storeSyncBase(merge.serverBase);
+      } else if (merge.needsPush) {
+        await push(merge.session, merge.pushedBase, merge.serverBase);
+      } else {
+        await storeSyncBase(merge.pushedBase);
+      }
+    }
+
+    // 2. Push local edits the server has not seen
+    for (const local of localSessions) {
+      if (pulledIds.has(local.session_id)) continue;
+      if (conflicts.some((c) => c.sessionId === local.session_id)) continue;
+
+      const base = await getSyncBase(local.session_id);
+      if (!base || hasLocalChanges(local, base)) {
+        await push(local, baseFromSession(local), null);
+      }
+    }
+
+    await this.setConflicts(conflicts);
+    result.conflicts = conflicts.length;
+
+    // Only move the cursor once everything above went through.
+    await storeSyncCursor(changes.cursor ?? cursor);
+    console.log("✅ Sync: Completed", result);
+    return result;
+  }
+
+  // Applies the user's choice for a conflict. Choosing the local value is
+  // pushed with the next sync; choosing the remote one just adopts it.
+  async resolveConflict(
+    conflictId: string,
+    choice: ConflictChoice,
+  ): Promise<SessionDetailsApiResponse | null> {
+    await this.load();
+    const conflict = this.conflicts.find((c) => c.id === conflictId);
+    if (!conflict) return null;
+
+    const [session, base] = await Promise.all([
+      getSessionData(conflict.sessionId),
+      getSyncBase(conflict.sessionId),
+    ]);
+    if (!session) {
+      await this.setConflicts(this.conflicts.filter((c) => c.id !== conflictId));
+      return null;
+    }
+
+    const value = choice === "local" ? conflict.local : conflict.remote;
+    const now = new Date().toISOString();
+    const updated: SessionDetailsApiResponse = {
+      ...session,
+      analysis_results: session.analysis_results.map((term) =>
+        term.term_id === conflict.termId
+          ? { ...term, [conflict.field]: value, updated_at: now }
+          : term,
+      ),
+    };
+    await storeSessionData(updated);
+
+    // The server holds the remote value, which becomes the new base.
+    const nextBase = base ?? baseFromSession(session);
+    nextBase.terms[conflict.termId] = {
+      ...nextBase.terms[conflict.termId],
+      [conflict.field]: conflict.remote,
+    };
+    await storeSyncBase(nextBase);
+
+    await this.setConflicts(this.conflicts.filter((c) => c.id !== conflictId));
+    this.emit({ type: "session_updated", session: updated });
+    console.log(`✅ Sync: Resolved ${conflict.field} of term ${conflict.termId} with the ${choice} value`);
+    return updated;
+  }
+}
+
+export default SessionSyncService;
@@ -0,0 +1,172 @@
+import { mergeSession } from "../SessionSyncService";
+import type { SessionSyncBase } from "../SessionSyncService";
+import type { ApiAnalysisTerm, SessionDetailsApiResponse } from "../api";
+
+// Only the pure merge is under test; the service's I/O stays out.
+jest.mock("../api", () => ({}));
+jest.mock("../../utils/storage", () => ({}));
+
+const term = (termId: string, changes: Partial<ApiAnalysisTerm> = {}): ApiAnalysisTerm => ({
+  term_id: termId,
+  term_text: `Term ${termId}`,
+  is_valid_sharia: false,
+  ...changes,
+});
+
+const session = (terms: ApiAnalysisTerm[]): SessionDetailsApiResponse => ({
+  _id: "doc-1",
+  session_id: "session-1",
+  original_filename: "lease.pdf",
+  analysis_timestamp: "2025-01-01T00:00:00.000Z",
+  analysis_results: terms,
+  detected_contract_language: "en",
+  original_format: "pdf",
+});
+
+const base = (terms: SessionSyncBase["terms"]): SessionSyncBase => ({
+  sessionId: "session-1",
+  syncedAt: "2025-01-01T00:00:00.000Z",
+  terms,
+});
+
+const mergedTerm = (merge: ReturnType<typeof mergeSession>, termId: string) =>
+  merge.session.analysis_results.find((t) => t.term_id === termId);
+
+describe("mergeSession", () => {
+  it("takes a field changed only on this device and pushes it", () => {
+    const merge = mergeSession(
+      session([term("t1", { is_confirmed_by_user: true, confirmed_modified_text: "new" })]),
+      session([term("t1", { is_confirmed_by_user: false, confirmed_modified_text: "old" })]),
+      base({ t1: { is_confirmed_by_user: false, confirmed_modified_text: "old" } }),
+    );
+
+    expect(merge.conflicts).toEqual([]);
+    expect(mergedTerm(merge, "t1")).toMatchObject({
+      is_confirmed_by_user: true,
+      confirmed_modified_text: "new",
+    });
+    expect(merge.needsPush).toBe(true);
+    expect(merge.changedLocally).toBe(false);
+    expect(merge.pushedBase.terms.t1.confirmed_modified_text).toBe("new");
+    expect(merge.serverBase.terms.t1.confirmed_modified_text).toBe("old");
+  });
+
+  it("takes a field changed only on the server without pushing", () => {
+    const merge = mergeSession(
+      session([term("t1", { confirmed_modified_text: "old" })]),
+      session([term("t1", { confirmed_modified_text: "remote" })]),
+      base({ t1: { confirmed_modified_text: "old" } }),
+    );
+
+    expect(merge.conflicts).toEqual([]);
+    expect(mergedTerm(merge, "t1")?.confirmed_modified_text).toBe("remote");
+    expect(merge.needsPush).toBe(false);
+    expect(merge.changedLocally).toBe(true);
+  });
+
+  it("reports a field changed differently on both sides as a conflict", () => {
+    const merge = mergeSession(
+      session([term("t1", { confirmed_modified_text: "mine" })]),
+      session([term("t1", { confirmed_modified_text: "theirs" })]),
+      base({ t1: { confirmed_modified_text: "old" } }),
+    );
+
+    expect(merge.conflicts).toHaveLength(1);
+    expect(merge.conflicts[0]).toMatchObject({
+      id: "session-1:t1:confirmed_modified_text",
+      field: "confirmed_modified_text",
+      base: "old",
+      local: "mine",
+      remote: "theirs",
+    });
+    // The local value stays until the user picks one, and the old base is
+    // kept so the conflict is found again.
+    expect(mergedTerm(merge, "t1")?.confirmed_modified_text).toBe("mine");
+    expect(merge.pushedBase.terms.t1.confirmed_modified_text).toBe("old");
+    expect(merge.serverBase.terms.t1.confirmed_modified_text).toBe("old");
+  });
+
+  it("does not report the same change made on both sides", () => {
+    const merge = mergeSession(
+      session([term("t1", { is_confirmed_by_user: true })]),
+      session([term("t1", { is_confirmed_by_user: true })]),
+      base({ t1: { is_confirmed_by_user: false } }),
+    );
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.needsPush).toBe(false);
+    expect(merge.changedLocally).toBe(false);
+  });
+
+  it("never reports expert feedback as a conflict", () => {
+    const merge = mergeSession(
+      session([term("t1", { has_expert_feedback: true })]),
+      session([term("t1", { has_expert_feedback: false })]),
+      base({ t1: { has_expert_feedback: null } }),
+    );
+
+    expect(merge.conflicts).toEqual([]);
+    expect(mergedTerm(merge, "t1")?.has_expert_feedback).toBe(true);
+  });
+
+  describe("without a base", () => {
+    it("fills an empty side from the other one", () => {
+      const merge = mergeSession(
+        session([term("t1")]),
+        session([term("t1", { expert_override_is_valid_sharia: true })]),
+        null,
+      );
+
+      expect(merge.conflicts).toEqual([]);
+      expect(mergedTerm(merge, "t1")?.expert_override_is_valid_sharia).toBe(true);
+    });
+
+    it("takes the newer edit when both sides are stamped", () => {
+      const merge = mergeSession(
+        session([
+          term("t1", { confirmed_modified_text: "mine", updated_at: "2025-01-02T00:00:00.000Z" }),
+        ]),
+        session([
+          term("t1", { confirmed_modified_text: "theirs", updated_at: "2025-01-03T00:00:00.000Z" }),
+        ]),
+        null,
+      );
+
+      expect(merge.conflicts).toEqual([]);
+      expect(mergedTerm(merge, "t1")).toMatchObject({
+        confirmed_modified_text: "theirs",
+        updated_at: "2025-01-03T00:00:00.000Z",
+      });
+    });
+
+    it("reports a conflict when neither side is stamped", () => {
+      const merge = mergeSession(
+        session([term("t1", { confirmed_modified_text: "mine" })]),
+        session([term("t1", { confirmed_modified_text: "theirs" })]),
+        null,
+      );
+
+      expect(merge.conflicts.map((conflict) => conflict.field)).toEqual([
+        "confirmed_modified_text",
+      ]);
+    });
+  });
+
+  it("keeps terms only one side knows about", () => {
+    const merge = mergeSession(
+      session([term("local-only", { is_confirmed_by_user: true })]),
+      session([term("remote-only", { has_expert_feedback: true })]),
+      null,
+    );
+
+    expect(merge.session.analysis_results.map((t) => t.term_id)).toEqual([
+      "local-only",
+      "remote-only",
+    ]);
+    expect(merge.needsPush).toBe(true);
+    expect(merge.changedLocally).toBe(true);
+    expect(merge.pushedBase.terms["local-only"].is_confirmed_by_user).toBe(true);
+    expect(merge.serverBase.terms["local-only"]).toBeUndefined();
+    expect(merge.serverBase.terms["remote-only"].has_expert_feedback).toBe(true);
+  });
+});
@@ -5,6 +5,51 @@ import * as FileSystem from "expo-file-system";
 import { Platform } from "react-native";
 import Constants from "expo-constants";
 import * as SecureStore from "expo-secure-store";
+import HttpClient, { TimeoutError } from "./httpClient";
+import AuthTokenManager from "./AuthTokenManager";
+import {
+  CHUNKED_UPLOAD_MIN_BYTES,
+  ResumableUploadTransport,
+  UploadSessionInfo,
+  resolveUploadSize,
+  uploadResumable,
+} from "./ResumableUpload";
+import {
+  AnalysisJobStatusSchema,
+  AnalysisTermListSchema,
+  AnalyzeApiResponseSchema,
+  AuthResponseSchema,
+  ConfirmModificationApiResponseSchema,
+  ExpertFeedbackApiResponseSchema,
+  ExpertReviewRequestListSchema,
+  ExpertReviewRequestSchema,
+  GenerateMarkedContractApiResponseSchema,
+  GenerateModifiedContractApiResponseSchema,
+  ReviewModificationApiResponseSchema,
+  SaveSessionApiResponseSchema,
+  SessionChangesApiResponseSchema,
+  SessionDetailsApiResponseSchema,
+  SessionHistorySchema,
+  TokenRefreshResponseSchema,
+  UploadSessionSchema,
+  UserSchema,
+  validateWith,
+} from "./apiSchemas";
+
+export {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  ForbiddenError,
+  AuthError,
+  ServerError,
+  CancelledError,
+  IncompatibleResponseError,
+  isApiError,
+  isNotFoundError,
+} from "./httpClient";
+export type { ApiErrorKind } from "./httpClient";
 
 // Web fallback using localStorage
 const webStorage = {
@@ -50,12 +95,61 @@ const NGROK_SKIP_BROWSER_WARNING_HEADER = {
   "ngrok-skip-browser-warning": "true",
 };
 
+// Per-endpoint request timeouts in milliseconds.
+export const API_TIMEOUTS = {
+  auth: 15_000,
+  analyze: 720_000, // 12 minutes for upload + analysis
+  upload: 20_000,
+  uploadPart: 120_000,
+  jobStatus: 15_000,
+  // Inactivity timeout; the server sends a heartbeat at least every 15s.
+  jobEvents: 45_000,
+  jobCancel: 15_000,
+  history: 10_000,
+  stats: 5_000,
+  session: 20_000,
+  interact: 90_000,
+  review: 60_000,
+  confirm: 20_000,
+  generate: 120_000,
+  feedback: 20_000,
+  reviews: 20_000,
+  sync: 30_000,
+};
+
+// Options accepted by every endpoint function so callers can cancel.
+export interface ApiCallOptions {
+  signal?: AbortSignal;
+}
+
+export interface AnalyzeOptions extends ApiCallOptions {
+  // Client-chosen id the server files the analysis under, so its progress
+  // can be followed while the upload request is still open.
+  jobId?: string;
+}
+
+export interface AnalysisStatusOptions extends ApiCallOptions {
+  // Long-poll: the server holds the request up to this many seconds until
+  // the status version passes `sinceVersion`.
+  waitSeconds?: number;
+  sinceVersion?: number;
+}
+
+export interface AskQuestionOptions extends ApiCallOptions {
+  // When set, the answer is streamed and this receives the text so far.
+  onChunk?: (partialAnswer: string) => void;
+  // Earlier turns of the same conversation, oldest first.
+  history?: QaHistoryTurn[];
+}
+
 // --- Exported Types ---
+// Assigned by the server; see utils/permissions.ts for what each role may do.
+export type UserRole = "regular_user" | "shariah_expert";
 export interface User {
   id: string;
   email: string;
   username?: string;
-  role: "regular_user" | "shariah_expert";
+  role: UserRole;
 }
 export interface LoginCredentials {
   email: string;
@@ -64,10 +158,18 @@ export interface LoginCredentials {
 export interface SignupCredentials extends LoginCredentials {
   username?: string;
 }
-export interface AuthResponse {
+export interface TokenRefreshResponse {
   token: string;
+  refresh_token?: string | null;
+  // Lifetime of `token` in seconds; JWTs carry their own `exp`.
+  expires_in?: number | null;
+}
+export interface AuthResponse extends TokenRefreshResponse {
   user: User;
 }
+// Severity of a term's Sharia issue, when the backend classifies it.
+export type TermSeverity = "critical" | "high" | "medium" | "low";
+
 export interface ApiAnalysisTerm {
   term_id: string;
   term_text: string;
@@ -80,6 +182,10 @@ export interface ApiAnalysisTerm {
   has_expert_feedback?: boolean;
   last_expert_feedback_id?: string | null;
   expert_override_is_valid_sharia?: boolean | null;
+  severity?: TermSeverity | null;
+  // Sync markers, set by the backend and by local edits.
+  updated_at?: string;
+  revision?: number;
 }
 export interface AnalyzeApiResponse {
   message: string;
@@ -89,6 +195,32 @@ export interface AnalyzeApiResponse {
   detected_contract_language: "ar" | "en";
   original_cloudinary_url?: string;
 }
+export type AnalysisStage =
+  | "queued"
+  | "extracting_text"
+  | "ocr"
+  | "segmenting_terms"
+  | "analyzing_terms"
+  | "generating_report"
+  | "completed"
+  | "failed"
+  | "cancelled";
+export interface AnalysisJobStatus {
+  job_id: string;
+  session_id?: string;
+  stage: AnalysisStage;
+  stage_progress?: number;
+  terms_done?: number;
+  terms_total?: number;
+  eta_seconds?: number | null;
+  // Why the analysis failed, for stage "failed".
+  error?: string | null;
+  // Terms analysed so far, on servers that report them while the rest are
+  // still being analysed. May hold only the terms new since the last status.
+  analysis_results?: ApiAnalysisTerm[];
+  // Increases with every change of the status.
+  version: number;
+}
 export interface SessionDetailsApiResponse {
   _id: string;
   session_id: string;
@@ -102,15 +234,28 @@ export interface SessionDetailsApiResponse {
   original_contract_markdown?: string;
   original_cloudinary_info?: CloudinaryFileInfo;
   analysis_results_cloudinary_info?: CloudinaryFileInfo;
-  modified_contract_info?: any;
-  marked_contract_info?: any;
-  pdf_preview_info?: any;
+  modified_contract_info?: GeneratedContractInfo;
+  marked_contract_info?: GeneratedContractInfo;
+  pdf_preview_info?: PdfPreviewInfo;
+  updated_at?: string;
+  revision?: number;
 }
 export interface CloudinaryFileInfo {
   url: string;
   public_id: string;
   format: string;
   user_facing_filename?: string;
+  bytes?: number;
+}
+export interface GeneratedContractInfo {
+  docx_cloudinary_info?: CloudinaryFileInfo;
+  pdf_cloudinary_info?: CloudinaryFileInfo;
+  txt_cloudinary_info?: CloudinaryFileInfo;
+  created_at?: string;
+}
+export interface PdfPreviewInfo {
+  modified?: CloudinaryFileInfo;
+  marked?: CloudinaryFileInfo;
 }
 export interface GenerateModifiedContractApiResponse {
   success: boolean;
@@ -133,6 +278,10 @@ export interface ReviewModificationApiResponse {
   new_sharia_issue?: string | null;
   new_reference_number?: string | null;
 }
+export interface QaHistoryTurn {
+  question: string;
+  answer: string;
+}
 export interface ExpertFeedbackPayload {
   session_id: string;
   term_id: string;
@@ -150,6 +299,61 @@ export interface ExpertFeedbackApiResponse {
   feedback_id?: string;
 }
 
+// Where a term stands in an expert review; the last three are final.
+export type ReviewState =
+  | "requested"
+  | "in_review"
+  | "approved"
+  | "rejected"
+  | "needs_changes";
+export interface ExpertReviewTerm {
+  term_id: string;
+  // Snapshot taken when the review was requested, so experts can review
+  // without the session.
+  term_text: string;
+  sharia_issue?: string;
+  state: ReviewState;
+  expert_comment?: string | null;
+  updated_at?: string;
+}
+export interface ExpertReviewRequest {
+  review_id: string;
+  session_id: string;
+  session_title?: string;
+  requested_by?: string;
+  requested_at: string;
+  note?: string | null;
+  // "session" when the whole contract was sent for review.
+  scope: "session" | "terms";
+  assigned_to?: string | null;
+  terms: ExpertReviewTerm[];
+  updated_at?: string;
+}
+export interface CreateExpertReviewPayload {
+  session_id: string;
+  session_title?: string;
+  scope: "session" | "terms";
+  note?: string;
+  terms: Array<Pick<ExpertReviewTerm, "term_id" | "term_text" | "sharia_issue">>;
+}
+export interface ExpertReviewTermUpdate {
+  state: ReviewState;
+  expert_comment?: string;
+}
+
+export interface SessionChangesApiResponse {
+  sessions: SessionDetailsApiResponse[];
+  // Opaque server cursor to send as `since` on the next sync; null when the
+  // backend does not support delta sync.
+  cursor: string | null;
+}
+export interface SaveSessionApiResponse {
+  success?: boolean;
+  message: string;
+  updated_at?: string;
+  revision?: number;
+}
+
 export interface ContractAnalysis {
   id: string;
   fileName: string;
@@ -163,29 +367,17 @@ export interface ContractAnalysis {
 }
 
 // --- Helper Functions ---
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP error! status: ${response.status}`;
-    try {
-      const errorData = await response.json();
-      if (errorData && errorData.error) {
-        errorMessage = errorData.error;
-      }
-    } catch (e) {
-      // If the response is not JSON, use the status text.
-      errorMessage = response.statusText || errorMessage;
-    }
-    throw new Error(errorMessage);
-  }
-  const contentType = response.headers.get("content-type");
-  if (contentType && contentType.includes("application/json")) {
-    return response.json();
-  }
-  return response.text() as unknown as Promise<T>;
-}
+const tokens = AuthTokenManager.getInstance();
 
-const getAuthToken = (): Promise<string | null> =>
-  storage.getItemAsync("auth_token");
+const getPublicHeaders = async (isFormData = false) => {
+  const headers: Record<string, string> = {
+    ...NGROK_SKIP_BROWSER_WARNING_HEADER,
+  };
+  if (!isFormData) {
+    headers["Content-Type"] = "application/json";
+  }
+  return headers;
+};
 
 const getHeaders = async (isFormData = false) => {
   const headers: Record<string, string> = {
@@ -193,7 +385,7 @@ const getHeaders = async (isFormData = false) => {
   };
 
   try {
-    const token = await getAuthToken();
+    const token = await tokens.getAccessToken();
 
     if (!isFormData) {
       headers["Content-Type"] = "application/json";
@@ -209,40 +401,159 @@ const getHeaders = async (isFormData = false) => {
   return headers;
 };
 
+const http = new HttpClient({
+  baseURL: API_BASE_URL,
+  getHeaders,
+  onUnauthorized: () => tokens.handleUnauthorized(),
+});
+
+// Sign-in and token renewal go without the access token, and a 401 from
+// them is final rather than a reason to renew.
+const authHttp = new HttpClient({
+  baseURL: API_BASE_URL,
+  getHeaders: getPublicHeaders,
+});
+
+tokens.setRefreshHandler((refreshToken) => authApi.refresh(refreshToken));
+
 // --- Auth API ---
 export const authApi = {
-  login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
-    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+  login: async (
+    credentials: LoginCredentials,
+    options: ApiCallOptions = {},
+  ): Promise<AuthResponse> =>
+    authHttp.request<AuthResponse>("/auth/login", {
       method: "POST",
-      headers: await getHeaders(),
-      body: JSON.stringify(credentials),
-    });
-    return handleResponse<AuthResponse>(response);
-  },
-  signup: async (credentials: SignupCredentials): Promise<AuthResponse> => {
-    const response = await fetch(`${API_BASE_URL}/auth/signup`, {
+      body: credentials,
+      timeoutMs: API_TIMEOUTS.auth,
+      signal: options.signal,
+      validate: validateWith<AuthResponse>(AuthResponseSchema),
+    }),
+  signup: async (
+    credentials: SignupCredentials,
+    options: ApiCallOptions = {},
+  ): Promise<AuthResponse> =>
+    authHttp.request<AuthResponse>("/auth/signup", {
       method: "POST",
-      headers: await getHeaders(),
-      body: JSON.stringify(credentials),
-    });
-    return handleResponse<AuthResponse>(response);
-  },
+      body: credentials,
+      timeoutMs: API_TIMEOUTS.auth,
+      signal: options.signal,
+      validate: validateWith<AuthResponse>(AuthResponseSchema),
+    }),
+  // Trades the refresh token for a new access token; see AuthTokenManager.
+  refresh: async (
+    refreshToken: string,
+    options: ApiCallOptions = {},
+  ): Promise<TokenRefreshResponse> =>
+    authHttp.request<TokenRefreshResponse>("/auth/refresh", {
+      method: "POST",
+      body: { refresh_token: refreshToken },
+      timeoutMs: API_TIMEOUTS.auth,
+      signal: options.signal,
+      validate: validateWith<TokenRefreshResponse>(TokenRefreshResponseSchema),
+    }),
   logout: async (): Promise<void> => Promise.resolve(),
-  getProfile: async (): Promise<User> => {
-    const response = await fetch(`${API_BASE_URL}/auth/profile`, {
-      method: "GET",
-      headers: await getHeaders(),
-    });
-    return handleResponse<User>(response);
+  getProfile: async (options: ApiCallOptions = {}): Promise<User> =>
+    http.request<User>("/auth/profile", {
+      timeoutMs: API_TIMEOUTS.auth,
+      signal: options.signal,
+      validate: validateWith<User>(UserSchema),
+    }),
+};
+
+// Endpoints of the resumable upload protocol; see ResumableUpload.ts.
+const uploadTransport: ResumableUploadTransport<AnalyzeApiResponse> = {
+  start: (payload, signal) =>
+    http.request<UploadSessionInfo>("/uploads", {
+      method: "POST",
+      body: payload,
+      timeoutMs: API_TIMEOUTS.upload,
+      signal,
+      validate: validateWith<UploadSessionInfo>(UploadSessionSchema),
+    }),
+  status: (uploadId, signal) =>
+    http.request<UploadSessionInfo>(`/uploads/${encodeURIComponent(uploadId)}`, {
+      timeoutMs: API_TIMEOUTS.upload,
+      signal,
+      validate: validateWith<UploadSessionInfo>(UploadSessionSchema),
+    }),
+  putPart: async (uploadId, index, bytes, sha256, signal) => {
+    await http.request(
+      `/uploads/${encodeURIComponent(uploadId)}/parts/${index}`,
+      {
+        method: "PUT",
+        body: bytes,
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "X-Chunk-SHA256": sha256,
+        },
+        timeoutMs: API_TIMEOUTS.uploadPart,
+        signal,
+      },
+    );
   },
+  complete: (uploadId, parts, signal) =>
+    http.request<AnalyzeApiResponse>(
+      `/uploads/${encodeURIComponent(uploadId)}/complete`,
+      {
+        method: "POST",
+        body: { parts },
+        timeoutMs: API_TIMEOUTS.analyze,
+        signal,
+        validate: validateWith<AnalyzeApiResponse>(AnalyzeApiResponseSchema),
+      },
+    ),
 };
 
 class ApiService {
   private baseURL = API_BASE_URL;
 
+  // Sends large files through the resumable upload endpoints, reporting the
+  // share of bytes the server has confirmed. Resolves to null when the file
+  // is small, its size is unknown or the server only accepts /analyze.
+  private async analyzeChunked(
+    file: any,
+    onUploadProgress?: (progress: number) => void,
+    options: AnalyzeOptions = {},
+  ): Promise<AnalyzeApiResponse | null> {
+    const size = await resolveUploadSize(file);
+    if (size === null || size < CHUNKED_UPLOAD_MIN_BYTES) {
+      return null;
+    }
+
+    const isMultiPage = Array.isArray(file.images) && file.images.length >= 1;
+    const result = await uploadResumable(
+      file,
+      size,
+      {
+        filename: file.name || `upload_${Date.now()}`,
+        content_type: file.type,
+        upload_type: isMultiPage ? "multi-page-images" : undefined,
+        total_pages: isMultiPage ? file.images.length : undefined,
+        metadata: file.metadata ? JSON.stringify(file.metadata) : undefined,
+        job_id: options.jobId,
+      },
+      uploadTransport,
+      {
+        signal: options.signal,
+        // 100% is reported once the server has accepted the whole file.
+        onProgress: (sentBytes, totalBytes) =>
+          onUploadProgress?.(Math.min(99, Math.round((sentBytes / totalBytes) * 100))),
+      },
+    );
+    if (!result) {
+      return null;
+    }
+
+    onUploadProgress?.(100);
+    console.log("✅ API: Chunked upload successful, session ID:", result.session_id);
+    return result;
+  }
+
   async analyzeContract(
     file: any,
     onUploadProgress?: (progress: number) => void,
+    options: AnalyzeOptions = {},
   ): Promise<AnalyzeApiResponse> {
     try {
       console.log("📤 API: Starting upload with file:", {
@@ -289,6 +600,15 @@ class ApiService {
         file.type = fileType;
         file.mimeType = fileType;
 
+        const chunkedResult = await this.analyzeChunked(
+          file,
+          onUploadProgress,
+          options,
+        );
+        if (chunkedResult) {
+          return chunkedResult;
+        }
+
         // Handle multi-page image documents
         if (
           file.images &&
@@ -351,12 +671,9 @@ class ApiService {
           }
         }
 
-        onUploadProgress?.(30);
-
-        const headers = await getHeaders(true);
-        console.log("📤 API: Request headers prepared");
-
-        onUploadProgress?.(50);
+        if (options.jobId) {
+          formData.append("job_id", options.jobId);
+        }
 
         console.log("📤 API: Sending request to:", `${this.baseURL}/analyze`);
         console.log("📤 API: FormData entries:");
@@ -387,62 +704,33 @@ class ApiService {
           console.log("  FormData debugging not available on native platform");
         }
 
-        // Create AbortController with 12-minute timeout for contract analysis
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => {
-          console.log("⏰ Contract analysis timeout after 12 minutes");
-          controller.abort();
-        }, 720000); // 12 minutes = 720,000 milliseconds
-
         try {
-          const response = await fetch(`${this.baseURL}/analyze`, {
+          const result = await http.request<AnalyzeApiResponse>("/analyze", {
             method: "POST",
             body: formData,
-            headers,
-            signal: controller.signal,
-          });
-
-          // Clear timeout on successful response
-          clearTimeout(timeoutId);
-
-          console.log("📤 API: Response received:", {
-            status: response.status,
-            statusText: response.statusText,
-            contentType: response.headers.get("content-type"),
+            timeoutMs: API_TIMEOUTS.analyze,
+            signal: options.signal,
+            validate: validateWith<AnalyzeApiResponse>(
+              AnalyzeApiResponseSchema,
+            ),
           });
 
           onUploadProgress?.(100);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error("❌ API: Upload failed:", {
-              status: response.status,
-              statusText: response.statusText,
-              errorText: errorText,
-            });
-            throw new Error(
-              `Upload failed (${response.status}): ${errorText || response.statusText}`,
-            );
-          }
-
-          const result = await handleResponse<AnalyzeApiResponse>(response);
           console.log(
             "✅ API: Upload successful, session ID:",
             result.session_id,
           );
           return result;
-        } catch (fetchError: any) {
-          // Clear timeout if fetch fails
-          clearTimeout(timeoutId);
-
-          // Handle specific timeout error
-          if (fetchError.name === 'AbortError') {
+        } catch (requestError) {
+          if (requestError instanceof TimeoutError) {
             console.error("❌ API: Upload timeout after 12 minutes");
-            throw new Error("Contract analysis timed out. The file may be too large or complex. Please try again with a smaller file.");
+            throw new TimeoutError(
+              "Contract analysis timed out. The file may be too large or complex. Please try again with a smaller file.",
+              requestError.timeoutMs,
+              requestError.endpoint,
+            );
           }
-
-          // Re-throw other fetch errors
-          throw fetchError;
+          throw requestError;
         }
       } catch (error) {
         console.error("❌ API: Upload error:", error);
@@ -680,9 +968,9 @@ export const uploadContract = apiService.analyzeContract.bind(apiService);
 export const generatePDF = apiService.generatePDF.bind(apiService);
 export const sharePDF = apiService.sharePDF.bind(apiService);
 
-export const getSessionHistory = async (): Promise<
-  SessionDetailsApiResponse[]
-> => {
+export const getSessionHistory = async (
+  options: ApiCallOptions = {},
+): Promise<SessionDetailsApiResponse[]> => {
   // Helpers للتعامل مع التخزين المحلي بأمان (works in browser; safe-guard لو البيئة مش فيها localStorage)
   const hasLocalStorage =
     typeof globalThis !== "undefined" &&
@@ -723,28 +1011,17 @@ export const getSessionHistory = async (): Promise<
     }
 
     // 2) Fallback: استدعاء الـ API مع timeout/abort
-    const headers = await getHeaders();
-    const controller = new AbortController();
-    let timeoutId: ReturnType<typeof setTimeout> | undefined = undefined;
-    timeoutId = setTimeout(() => controller.abort(), 10_000); // 10s
-
-    const response = await fetch(`${API_BASE_URL}/api/history`, {
-      method: "GET",
-      headers,
-      signal: controller.signal,
-    });
-
-    // نظف الـ timeout لو انتهى الطلب
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-      timeoutId = undefined;
-    }
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    const data = await handleResponse<SessionDetailsApiResponse[]>(response);
+    const data = await http.request<SessionDetailsApiResponse[]>(
+      "/api/history",
+      {
+        timeoutMs: API_TIMEOUTS.history,
+        retries: 0,
+        signal: options.signal,
+        validate: validateWith<SessionDetailsApiResponse[]>(
+          SessionHistorySchema,
+        ),
+      },
+    );
 
     // خزّن نتيجة الـ API محليًا للاستخدام المستقبلي
     try {
@@ -755,9 +1032,9 @@ export const getSessionHistory = async (): Promise<
 
     return data;
   } catch (error) {
-    // معالجة الأخطاء بأنواعها، بما فيها AbortError
+    // معالجة الأخطاء بأنواعها، بما فيها TimeoutError
     if (error instanceof Error) {
-      if (error.name === "AbortError") {
+      if (error instanceof TimeoutError) {
         console.warn(
           "Session history fetch timed out - falling back to local data",
         );
@@ -784,25 +1061,13 @@ export const getSessionHistory = async (): Promise<
   }
 };
 
-export const getStats = async (): Promise<any> => {
+export const getStats = async (options: ApiCallOptions = {}): Promise<any> => {
   try {
-    const headers = await getHeaders();
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-
-    const response = await fetch(`${API_BASE_URL}/api/stats/user`, {
-      method: "GET",
-      headers,
-      signal: controller.signal,
+    return await http.request<any>("/api/stats/user", {
+      timeoutMs: API_TIMEOUTS.stats,
+      retries: 0,
+      signal: options.signal,
     });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return await handleResponse<any>(response);
   } catch (error) {
     console.warn("Error fetching stats:", error);
 
@@ -818,47 +1083,121 @@ export const getStats = async (): Promise<any> => {
 
 export const getSessionDetails = async (
   sessionId: string,
-): Promise<SessionDetailsApiResponse> => {
-  const headers = await getHeaders();
-  const response = await fetch(`${API_BASE_URL}/session/${sessionId}`, {
+  options: ApiCallOptions = {},
+): Promise<SessionDetailsApiResponse> =>
+  http.request<SessionDetailsApiResponse>(`/session/${sessionId}`, {
+    timeoutMs: API_TIMEOUTS.session,
+    signal: options.signal,
+    validate: validateWith<SessionDetailsApiResponse>(
+      SessionDetailsApiResponseSchema,
+    ),
+  });
+
+// Status of an analysis, by the job id sent with the upload or by session id.
+export const getAnalysisStatus = async (
+  jobId: string,
+  options: AnalysisStatusOptions = {},
+): Promise<AnalysisJobStatus> => {
+  const params = new URLSearchParams();
+  if (options.waitSeconds) {
+    params.append("wait", String(options.waitSeconds));
+  }
+  if (options.sinceVersion !== undefined) {
+    params.append("since", String(options.sinceVersion));
+  }
+  const query = params.toString();
+  return http.request<AnalysisJobStatus>(
+    `/analysis/${encodeURIComponent(jobId)}/status${query ? `?${query}` : ""}`,
+    {
+      timeoutMs: API_TIMEOUTS.jobStatus + (options.waitSeconds ?? 0) * 1000,
+      signal: options.signal,
+      validate: validateWith<AnalysisJobStatus>(AnalysisJobStatusSchema),
+    },
+  );
+};
+
+// Follows the status as server-sent events until the analysis finishes or
+// the server closes the stream. Resolves to the number of statuses received.
+export const streamAnalysisStatus = async (
+  jobId: string,
+  onStatus: (status: AnalysisJobStatus) => void,
+  options: ApiCallOptions = {},
+): Promise<number> => {
+  const validate = validateWith<AnalysisJobStatus>(AnalysisJobStatusSchema);
+  const endpoint = `/analysis/${encodeURIComponent(jobId)}/events`;
+  let received = 0;
+  await http.stream(endpoint, {
     method: "GET",
-    headers,
+    timeoutMs: API_TIMEOUTS.jobEvents,
+    signal: options.signal,
+    onChunk: (_fullText, delta) => {
+      // Heartbeats and blank lines carry no status.
+      if (!delta.trim().startsWith("{")) return;
+      try {
+        onStatus(validate(JSON.parse(delta), endpoint));
+        received++;
+      } catch (error) {
+        console.warn("⚠️ API: Ignoring malformed analysis status event:", error);
+      }
+    },
+  });
+  return received;
+};
+
+// Asks the server to stop an analysis, by job id or session id. Uploads still
+// in flight must be aborted by the caller as well.
+export const cancelAnalysis = async (
+  jobId: string,
+  options: ApiCallOptions = {},
+): Promise<void> => {
+  await http.request<unknown>(`/analysis/${encodeURIComponent(jobId)}/cancel`, {
+    method: "POST",
+    timeoutMs: API_TIMEOUTS.jobCancel,
+    signal: options.signal,
   });
-  return handleResponse<SessionDetailsApiResponse>(response);
 };
 
 export const getSessionTerms = async (
   sessionId: string,
-): Promise<ApiAnalysisTerm[]> => {
-  const headers = await getHeaders();
-  const response = await fetch(`${API_BASE_URL}/terms/${sessionId}`, {
-    method: "GET",
-    headers,
+  options: ApiCallOptions = {},
+): Promise<ApiAnalysisTerm[]> =>
+  http.request<ApiAnalysisTerm[]>(`/terms/${sessionId}`, {
+    timeoutMs: API_TIMEOUTS.session,
+    signal: options.signal,
+    validate: validateWith<ApiAnalysisTerm[]>(AnalysisTermListSchema),
   });
-  return handleResponse<ApiAnalysisTerm[]>(response);
-};
 
 export const askQuestion = async (
   sessionId: string,
   question: string,
   termId?: string,
   termText?: string,
+  options: AskQuestionOptions = {},
 ): Promise<string> => {
-  const headers = await getHeaders();
   const payload = {
     session_id: sessionId,
     question,
     term_id: termId,
     term_text: termText,
+    history: options.history?.length ? options.history : undefined,
   };
-  const response = await fetch(`${API_BASE_URL}/interact`, {
+  const { onChunk } = options;
+  if (onChunk) {
+    return http.stream("/interact", {
+      method: "POST",
+      body: { ...payload, stream: true },
+      timeoutMs: API_TIMEOUTS.interact,
+      signal: options.signal,
+      onChunk: (fullText) => onChunk(fullText),
+    });
+  }
+  return http.request<string>("/interact", {
     method: "POST",
-    headers,
-    body: JSON.stringify(payload),
+    body: payload,
+    timeoutMs: API_TIMEOUTS.interact,
+    responseType: "text",
+    signal: options.signal,
   });
-  const textResponse = await response.text();
-  if (!response.ok) throw new Error(textResponse || "Failed to ask question");
-  return textResponse;
 };
 
 export const reviewUserModification = async (
@@ -866,79 +1205,200 @@ export const reviewUserModification = async (
   termId: string,
   userModifiedText: string,
   originalTermText: string,
+  options: ApiCallOptions = {},
 ): Promise<ReviewModificationApiResponse> => {
-  const headers = await getHeaders();
   const payload = {
     session_id: sessionId,
     term_id: termId,
     user_modified_text: userModifiedText,
     original_term_text: originalTermText,
   };
-  const response = await fetch(`${API_BASE_URL}/review_modification`, {
+  return http.request<ReviewModificationApiResponse>("/review_modification", {
     method: "POST",
-    headers,
-    body: JSON.stringify(payload),
+    body: payload,
+    timeoutMs: API_TIMEOUTS.review,
+    signal: options.signal,
+    validate: validateWith<ReviewModificationApiResponse>(
+      ReviewModificationApiResponseSchema,
+    ),
   });
-  return handleResponse<ReviewModificationApiResponse>(response);
 };
 
 export const confirmTermModification = async (
   sessionId: string,
   termId: string,
   modifiedText: string,
+  options: ApiCallOptions = {},
 ): Promise<ConfirmModificationApiResponse> => {
-  const headers = await getHeaders();
   const payload = {
     session_id: sessionId,
     term_id: termId,
     modified_text: modifiedText,
   };
-  const response = await fetch(`${API_BASE_URL}/confirm_modification`, {
+  // Confirming the same text twice is harmless, so it is safe to retry.
+  return http.request<ConfirmModificationApiResponse>("/confirm_modification", {
     method: "POST",
-    headers,
-    body: JSON.stringify(payload),
+    body: payload,
+    timeoutMs: API_TIMEOUTS.confirm,
+    retries: 2,
+    signal: options.signal,
+    validate: validateWith<ConfirmModificationApiResponse>(
+      ConfirmModificationApiResponseSchema,
+    ),
   });
-  return handleResponse<ConfirmModificationApiResponse>(response);
 };
 
 export const generateModifiedContract = async (
   sessionId: string,
-): Promise<GenerateModifiedContractApiResponse> => {
-  const headers = await getHeaders();
-  const payload = { session_id: sessionId };
-  const response = await fetch(`${API_BASE_URL}/generate_modified_contract`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
-  });
-  return handleResponse<GenerateModifiedContractApiResponse>(response);
-};
+  options: ApiCallOptions = {},
+): Promise<GenerateModifiedContractApiResponse> =>
+  http.request<GenerateModifiedContractApiResponse>(
+    "/generate_modified_contract",
+    {
+      method: "POST",
+      body: { session_id: sessionId },
+      timeoutMs: API_TIMEOUTS.generate,
+      signal: options.signal,
+      validate: validateWith<GenerateModifiedContractApiResponse>(
+        GenerateModifiedContractApiResponseSchema,
+      ),
+    },
+  );
 
 export const generateMarkedContract = async (
   sessionId: string,
-): Promise<GenerateMarkedContractApiResponse> => {
-  const headers = await getHeaders();
-  const payload = { session_id: sessionId };
-  const response = await fetch(`${API_BASE_URL}/generate_marked_contract`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
-  });
-  return handleResponse<GenerateMarkedContractApiResponse>(response);
-};
+  options: ApiCallOptions = {},
+): Promise<GenerateMarkedContractApiResponse> =>
+  http.request<GenerateMarkedContractApiResponse>(
+    "/generate_marked_contract",
+    {
+      method: "POST",
+      body: { session_id: sessionId },
+      timeoutMs: API_TIMEOUTS.generate,
+      signal: options.signal,
+      validate: validateWith<GenerateMarkedContractApiResponse>(
+        GenerateMarkedContractApiResponseSchema,
+      ),
+    },
+  );
 
 export const submitExpertFeedback = async (
   payload: ExpertFeedbackPayload,
-): Promise<ExpertFeedbackApiResponse> => {
-  const headers = await getHeaders();
-  const response = await fetch(`${API_BASE_URL}/feedback/expert`, {
+  options: ApiCallOptions = {},
+): Promise<ExpertFeedbackApiResponse> =>
+  http.request<ExpertFeedbackApiResponse>("/feedback/expert", {
     method: "POST",
-    headers,
-    body: JSON.stringify(payload),
+    body: payload,
+    timeoutMs: API_TIMEOUTS.feedback,
+    signal: options.signal,
+    validate: validateWith<ExpertFeedbackApiResponse>(
+      ExpertFeedbackApiResponseSchema,
+    ),
+  });
+
+// --- Expert Review API ---
+export const createExpertReviewRequest = async (
+  payload: CreateExpertReviewPayload,
+  options: ApiCallOptions = {},
+): Promise<ExpertReviewRequest> =>
+  http.request<ExpertReviewRequest>("/reviews", {
+    method: "POST",
+    body: payload,
+    timeoutMs: API_TIMEOUTS.reviews,
+    signal: options.signal,
+    validate: validateWith<ExpertReviewRequest>(ExpertReviewRequestSchema),
+  });
+
+// Requests made by the signed-in user.
+export const getMyExpertReviewRequests = async (
+  options: ApiCallOptions = {},
+): Promise<ExpertReviewRequest[]> =>
+  http.request<ExpertReviewRequest[]>("/reviews?scope=mine", {
+    timeoutMs: API_TIMEOUTS.reviews,
+    signal: options.signal,
+    validate: validateWith<ExpertReviewRequest[]>(ExpertReviewRequestListSchema),
+  });
+
+// Requests with terms still awaiting a decision; experts only.
+export const getExpertReviewQueue = async (
+  options: ApiCallOptions = {},
+): Promise<ExpertReviewRequest[]> =>
+  http.request<ExpertReviewRequest[]>("/reviews/queue", {
+    timeoutMs: API_TIMEOUTS.reviews,
+    signal: options.signal,
+    validate: validateWith<ExpertReviewRequest[]>(ExpertReviewRequestListSchema),
+  });
+
+// Assigns the request to the signed-in expert and moves its requested terms
+// to "in_review". Claiming a request twice is harmless.
+export const claimExpertReviewRequest = async (
+  reviewId: string,
+  options: ApiCallOptions = {},
+): Promise<ExpertReviewRequest> =>
+  http.request<ExpertReviewRequest>(
+    `/reviews/${encodeURIComponent(reviewId)}/claim`,
+    {
+      method: "POST",
+      timeoutMs: API_TIMEOUTS.reviews,
+      retries: 2,
+      signal: options.signal,
+      validate: validateWith<ExpertReviewRequest>(ExpertReviewRequestSchema),
+    },
+  );
+
+export const updateExpertReviewTerm = async (
+  reviewId: string,
+  termId: string,
+  update: ExpertReviewTermUpdate,
+  options: ApiCallOptions = {},
+): Promise<ExpertReviewRequest> =>
+  http.request<ExpertReviewRequest>(
+    `/reviews/${encodeURIComponent(reviewId)}/terms/${encodeURIComponent(termId)}`,
+    {
+      method: "POST",
+      body: update,
+      timeoutMs: API_TIMEOUTS.reviews,
+      signal: options.signal,
+      validate: validateWith<ExpertReviewRequest>(ExpertReviewRequestSchema),
+    },
+  );
+
+// --- Session Sync API ---
+// Sessions changed since `since` (all sessions when null).
+export const getSessionChanges = async (
+  deviceId: string,
+  since: string | null,
+  options: ApiCallOptions = {},
+): Promise<SessionChangesApiResponse> => {
+  const query = `device_id=${encodeURIComponent(deviceId)}${
+    since ? `&since=${encodeURIComponent(since)}` : ""
+  }`;
+  return http.request<SessionChangesApiResponse>(`/sessions?${query}`, {
+    headers: { "X-Device-ID": deviceId },
+    timeoutMs: API_TIMEOUTS.sync,
+    signal: options.signal,
+    validate: validateWith<SessionChangesApiResponse>(
+      SessionChangesApiResponseSchema,
+    ),
   });
-  return handleResponse<ExpertFeedbackApiResponse>(response);
 };
 
+// Saving replaces the stored session, so repeating it is safe.
+export const pushSession = async (
+  deviceId: string,
+  session: SessionDetailsApiResponse,
+  options: ApiCallOptions = {},
+): Promise<SaveSessionApiResponse> =>
+  http.request<SaveSessionApiResponse>("/save-session", {
+    method: "POST",
+    body: { device_id: deviceId, session },
+    headers: { "X-Device-ID": deviceId },
+    timeoutMs: API_TIMEOUTS.sync,
+    retries: 2,
+    signal: options.signal,
+    validate: validateWith<SaveSessionApiResponse>(SaveSessionApiResponseSchema),
+  });
+
 // --- Local Storage Functions ---
 export const saveSessionLocally = async (
   session: SessionDetailsApiResponse,
@@ -1004,12 +1464,22 @@ export default {
   getStats,
   getSessionDetails,
   getSessionTerms,
+  getAnalysisStatus,
+  streamAnalysisStatus,
+  cancelAnalysis,
   askQuestion,
   reviewUserModification,
   confirmTermModification,
   generateModifiedContract,
   generateMarkedContract,
   submitExpertFeedback,
+  createExpertReviewRequest,
+  getMyExpertReviewRequests,
+  getExpertReviewQueue,
+  claimExpertReviewRequest,
+  updateExpertReviewTerm,
+  getSessionChanges,
+  pushSession,
   saveSessionLocally,
   getLocalSessions,
   deleteLocalSession,
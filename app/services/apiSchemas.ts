@@ -0,0 +1,385 @@
+// --- Response schemas ---
+// Every backend response is parsed here before it reaches the UI. Fields the
+// backend is known to send in slightly different shapes (numeric ids, "true"
+// strings, nulls for optional values, Mongo ObjectIds...) are coerced; anything
+// that cannot be repaired raises IncompatibleResponseError with the offending
+// path so screens never render half-broken data. Terms and sessions pass
+// unknown keys through so newer backend fields survive until the app uses them.
+
+import { z } from "zod";
+import { IncompatibleResponseError } from "./httpClient";
+
+// --- Coercion helpers ---
+
+// Optional text: null/undefined become undefined, numbers become strings.
+const optionalText = z.preprocess(
+  (value) =>
+    value === null || value === undefined
+      ? undefined
+      : typeof value === "number"
+        ? String(value)
+        : value,
+  z.string().optional(),
+);
+
+// Nullable text: keeps null, turns undefined into null.
+const nullableText = z.preprocess(
+  (value) =>
+    value === undefined
+      ? null
+      : typeof value === "number"
+        ? String(value)
+        : value,
+  z.string().nullable(),
+);
+
+const requiredText = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : value),
+  z.string(),
+);
+
+const toBoolean = (value: unknown): unknown => {
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "true" || normalized === "1") return true;
+    if (normalized === "false" || normalized === "0") return false;
+  }
+  if (value === 1) return true;
+  if (value === 0) return false;
+  return value;
+};
+
+const requiredBoolean = z.preprocess(toBoolean, z.boolean());
+
+const optionalBoolean = z.preprocess(
+  (value) => (value === null || value === undefined ? undefined : toBoolean(value)),
+  z.boolean().optional(),
+);
+
+const nullableBoolean = z.preprocess(
+  (value) => (value === undefined ? null : toBoolean(value)),
+  z.boolean().nullable(),
+);
+
+// Mongo documents sometimes arrive as { $oid: "..." } instead of a string.
+const objectId = z.preprocess((value) => {
+  if (value && typeof value === "object" && "$oid" in value) {
+    return (value as { $oid: unknown }).$oid;
+  }
+  return typeof value === "number" ? String(value) : value;
+}, z.string());
+
+// Timestamps may be ISO strings, epoch milliseconds or { $date: ... }.
+const timestamp = z.preprocess((value) => {
+  if (value && typeof value === "object" && "$date" in value) {
+    value = (value as { $date: unknown }).$date;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return new Date(value).toISOString();
+  }
+  return value;
+}, z.string());
+
+// Accepts "ar", "AR", "arabic", "en-US"... and falls back to English.
+const contractLanguage = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim().toLowerCase().startsWith("ar")
+      ? "ar"
+      : "en",
+  z.enum(["ar", "en"]),
+);
+
+// Revision/updated-at markers are optional: older backends do not send them.
+const optionalTimestamp = z.preprocess(
+  (value) => (value === null ? undefined : value),
+  timestamp.optional(),
+);
+
+const optionalRevision = z.preprocess(
+  (value) => {
+    if (value === null || value === undefined || value === "") return undefined;
+    return typeof value === "string" ? Number(value) : value;
+  },
+  z.number().int().nonnegative().optional(),
+).catch(undefined);
+
+const percentage = z.preprocess(
+  (value) => {
+    if (value === null || value === undefined || value === "") return undefined;
+    const numeric = typeof value === "string" ? Number(value) : value;
+    return typeof numeric === "number" && Number.isFinite(numeric)
+      ? Math.min(100, Math.max(0, numeric))
+      : numeric;
+  },
+  z.number().optional(),
+);
+
+// --- Schemas ---
+
+export const UserSchema = z.object({
+  id: objectId,
+  email: z.string(),
+  username: optionalText,
+  // Unknown roles degrade to the least privileged one.
+  role: z
+    .enum(["regular_user", "shariah_expert"])
+    .catch("regular_user"),
+});
+
+export const TokenRefreshResponseSchema = z.object({
+  token: z.string().min(1),
+  refresh_token: z.string().min(1).nullish(),
+  expires_in: z.number().positive().nullish(),
+});
+
+export const AuthResponseSchema = TokenRefreshResponseSchema.extend({
+  user: UserSchema,
+});
+
+export const ApiAnalysisTermSchema = z.object({
+  term_id: requiredText.pipe(z.string().min(1)),
+  term_text: requiredText,
+  is_valid_sharia: requiredBoolean,
+  sharia_issue: optionalText,
+  reference_number: optionalText,
+  modified_term: optionalText,
+  is_confirmed_by_user: optionalBoolean,
+  confirmed_modified_text: nullableText.optional(),
+  has_expert_feedback: optionalBoolean,
+  last_expert_feedback_id: nullableText.optional(),
+  expert_override_is_valid_sharia: nullableBoolean.optional(),
+  // Unknown severities fall back to the app's own classification.
+  severity: z
+    .enum(["critical", "high", "medium", "low"])
+    .nullable()
+    .optional()
+    .catch(undefined),
+  updated_at: optionalTimestamp,
+  revision: optionalRevision,
+}).passthrough();
+
+export const AnalysisTermListSchema = z.array(ApiAnalysisTermSchema);
+
+export const CloudinaryFileInfoSchema = z.object({
+  url: z.string(),
+  public_id: z.string().catch(""),
+  format: z.string().catch(""),
+  user_facing_filename: optionalText,
+  bytes: z.preprocess(
+    (value) => (value === null ? undefined : value),
+    z.number().optional(),
+  ),
+});
+
+// A sub-document that is present but broken is dropped instead of failing
+// the whole session: the user can always regenerate the file.
+const optionalFileInfo = CloudinaryFileInfoSchema.optional().catch(undefined);
+
+export const GeneratedContractInfoSchema = z.object({
+  docx_cloudinary_info: optionalFileInfo,
+  pdf_cloudinary_info: optionalFileInfo,
+  txt_cloudinary_info: optionalFileInfo,
+  created_at: optionalText,
+});
+
+export const PdfPreviewInfoSchema = z.object({
+  modified: optionalFileInfo,
+  marked: optionalFileInfo,
+});
+
+const optionalSubDocument = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (value === null ? undefined : value),
+    schema.optional(),
+  ).catch(undefined);
+
+export const AnalyzeApiResponseSchema = z.object({
+  message: z.string().catch(""),
+  analysis_results: AnalysisTermListSchema,
+  session_id: requiredText.pipe(z.string().min(1)),
+  original_contract_plain: optionalText,
+  detected_contract_language: contractLanguage,
+  original_cloudinary_url: optionalText,
+}).passthrough();
+
+export const ANALYSIS_STAGES = [
+  "queued",
+  "extracting_text",
+  "ocr",
+  "segmenting_terms",
+  "analyzing_terms",
+  "generating_report",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+const optionalCount = z.preprocess(
+  (value) => (value === null ? undefined : value),
+  z.coerce.number().int().nonnegative().optional(),
+).catch(undefined);
+
+export const AnalysisJobStatusSchema = z.object({
+  job_id: requiredText.pipe(z.string().min(1)),
+  session_id: optionalText,
+  // Stages added by newer servers are shown as work in progress.
+  stage: z.enum(ANALYSIS_STAGES).catch("queued"),
+  // Percent of the current stage, 0-100.
+  stage_progress: optionalCount,
+  terms_done: optionalCount,
+  terms_total: optionalCount,
+  eta_seconds: z.coerce.number().nonnegative().nullish().catch(null),
+  error: nullableText.optional(),
+  analysis_results: optionalSubDocument(AnalysisTermListSchema),
+  version: z.coerce.number().catch(0),
+}).passthrough();
+
+export const UploadSessionSchema = z.object({
+  upload_id: requiredText.pipe(z.string().min(1)),
+  chunk_size: z.coerce.number().int().positive(),
+  received_parts: z
+    .array(z.coerce.number().int().nonnegative())
+    .nullish()
+    .transform((parts) => parts ?? []),
+});
+
+export const SessionDetailsApiResponseSchema = z
+  .object({
+    _id: objectId.optional(),
+    session_id: requiredText.pipe(z.string().min(1)),
+    original_filename: z.string().catch(""),
+    analysis_timestamp: timestamp,
+    analysis_results: AnalysisTermListSchema,
+    compliance_percentage: percentage,
+    detected_contract_language: contractLanguage,
+    original_contract_plain: optionalText,
+    original_format: z.string().catch(""),
+    original_contract_markdown: optionalText,
+    original_cloudinary_info: optionalSubDocument(CloudinaryFileInfoSchema),
+    analysis_results_cloudinary_info: optionalSubDocument(
+      CloudinaryFileInfoSchema,
+    ),
+    modified_contract_info: optionalSubDocument(GeneratedContractInfoSchema),
+    marked_contract_info: optionalSubDocument(GeneratedContractInfoSchema),
+    pdf_preview_info: optionalSubDocument(PdfPreviewInfoSchema),
+    updated_at: optionalTimestamp,
+    revision: optionalRevision,
+  })
+  .passthrough()
+  .transform((session) => ({ ...session, _id: session._id ?? session.session_id }));
+
+export const SessionHistorySchema = z.array(SessionDetailsApiResponseSchema);
+
+// Older backends answer /sessions with a bare array and no cursor.
+export const SessionChangesApiResponseSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { sessions: value } : value),
+  z.object({
+    sessions: SessionHistorySchema,
+    cursor: z.preprocess(
+      (value) => (value === undefined || value === "" ? null : value),
+      nullableText,
+    ),
+  }),
+);
+
+export const SaveSessionApiResponseSchema = z
+  .object({
+    success: optionalBoolean,
+    message: z.string().catch(""),
+    updated_at: optionalTimestamp,
+    revision: optionalRevision,
+  })
+  .passthrough();
+
+export const GenerateModifiedContractApiResponseSchema = z.object({
+  success: requiredBoolean,
+  message: z.string().catch(""),
+  modified_docx_cloudinary_url: optionalText,
+  modified_txt_cloudinary_url: optionalText,
+});
+
+export const GenerateMarkedContractApiResponseSchema = z.object({
+  success: requiredBoolean,
+  message: z.string().catch(""),
+  marked_docx_cloudinary_url: optionalText,
+});
+
+export const ConfirmModificationApiResponseSchema = z.object({
+  success: requiredBoolean,
+  message: z.string().catch(""),
+});
+
+export const ReviewModificationApiResponseSchema = z.object({
+  reviewed_text: requiredText,
+  is_still_valid_sharia: requiredBoolean,
+  new_sharia_issue: nullableText.optional(),
+  new_reference_number: nullableText.optional(),
+});
+
+export const ExpertFeedbackApiResponseSchema = z.object({
+  success: requiredBoolean,
+  message: z.string().catch(""),
+  feedback_id: optionalText,
+});
+
+// Unknown review states are treated as not yet picked up.
+const reviewState = z
+  .enum(["requested", "in_review", "approved", "rejected", "needs_changes"])
+  .catch("requested");
+
+export const ExpertReviewTermSchema = z.object({
+  term_id: requiredText.pipe(z.string().min(1)),
+  term_text: z.string().catch(""),
+  sharia_issue: optionalText,
+  state: reviewState,
+  expert_comment: nullableText.optional(),
+  updated_at: optionalTimestamp,
+}).passthrough();
+
+export const ExpertReviewRequestSchema = z.object({
+  review_id: objectId.pipe(z.string().min(1)),
+  session_id: requiredText.pipe(z.string().min(1)),
+  session_title: optionalText,
+  requested_by: optionalText,
+  requested_at: timestamp,
+  note: nullableText.optional(),
+  scope: z.enum(["session", "terms"]).catch("terms"),
+  assigned_to: nullableText.optional(),
+  terms: z.array(ExpertReviewTermSchema),
+  updated_at: optionalTimestamp,
+}).passthrough();
+
+export const ExpertReviewRequestListSchema = z.array(ExpertReviewRequestSchema);
+
+// --- Validation ---
+
+// Formats a zod path as "analysis_results[3].term_id".
+export const formatIssuePath = (path: (string | number)[]): string =>
+  path.reduce<string>((acc, segment) => {
+    if (typeof segment === "number") return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, "") || "(root)";
+
+// Builds an HttpClient `validate` callback from a schema. The returned value
+// is the coerced/repaired output, typed as the public API interface.
+export const validateWith =
+  <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+  (data: unknown, endpoint: string): T => {
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    const issue = result.error.issues[0];
+    const path = formatIssuePath(issue.path);
+    console.error(
+      `❌ API: Incompatible server response from ${endpoint} at ${path}:`,
+      result.error.issues,
+    );
+    throw new IncompatibleResponseError(
+      `Incompatible server response from ${endpoint} at "${path}": ${issue.message}`,
+      path,
+      endpoint,
+      result.error.issues,
+    );
+  };
@@ -0,0 +1,615 @@
+// --- Typed HTTP client ---
+// Every backend call goes through HttpClient.request so timeouts, retries,
+// cancellation and error classification behave the same for all endpoints.
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "validation"
+  | "auth"
+  | "server"
+  | "cancelled"
+  | "incompatible";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly details?: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; endpoint?: string; details?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.details = options.details;
+  }
+}
+
+// The request never reached the server (offline, DNS, TLS, CORS...).
+export class NetworkError extends ApiError {
+  constructor(message: string, endpoint?: string, details?: unknown) {
+    super("network", message, { endpoint, details });
+    this.name = "NetworkError";
+  }
+}
+
+// The request exceeded its per-endpoint timeout.
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number, endpoint?: string) {
+    super("timeout", message, { endpoint });
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// 4xx responses other than 401: the request itself was rejected.
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    status: number,
+    endpoint?: string,
+    details?: unknown,
+  ) {
+    super("validation", message, { status, endpoint, details });
+    this.name = "ValidationError";
+  }
+}
+
+// 403 responses: the signed-in account's role does not allow the call.
+export class ForbiddenError extends ValidationError {
+  constructor(message: string, endpoint?: string, details?: unknown) {
+    super(message, 403, endpoint, details);
+    this.name = "ForbiddenError";
+  }
+}
+
+// 401 responses: the stored credentials are missing, invalid or expired.
+export class AuthError extends ApiError {
+  constructor(message: string, endpoint?: string, details?: unknown) {
+    super("auth", message, { status: 401, endpoint, details });
+    this.name = "AuthError";
+  }
+}
+
+// 5xx responses: the server failed while handling a valid request.
+export class ServerError extends ApiError {
+  constructor(
+    message: string,
+    status: number,
+    endpoint?: string,
+    details?: unknown,
+  ) {
+    super("server", message, { status, endpoint, details });
+    this.name = "ServerError";
+  }
+}
+
+// The caller aborted the request through its AbortSignal.
+export class CancelledError extends ApiError {
+  constructor(endpoint?: string) {
+    super("cancelled", "Request was cancelled", { endpoint });
+    this.name = "CancelledError";
+  }
+}
+
+// The server answered 2xx but the body does not match the expected schema.
+// `path` points at the first offending field, e.g. "analysis_results[3].term_id".
+export class IncompatibleResponseError extends ApiError {
+  readonly path: string;
+
+  constructor(
+    message: string,
+    path: string,
+    endpoint?: string,
+    details?: unknown,
+  ) {
+    super("incompatible", message, { endpoint, details });
+    this.name = "IncompatibleResponseError";
+    this.path = path;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+export const isNotFoundError = (error: unknown): boolean =>
+  isApiError(error) && error.status === 404;
+
+export type ResponseType = "json" | "text" | "auto";
+
+export interface RequestOptions<T = unknown> {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  // Plain objects are JSON-encoded; FormData is sent as multipart and
+  // ArrayBuffers and typed arrays as raw bytes.
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  // Number of extra attempts after the first one. Only idempotent requests
+  // retry by default; pass retries explicitly to opt a POST in.
+  retries?: number;
+  signal?: AbortSignal;
+  responseType?: ResponseType;
+  // Runs on the parsed body; throw to reject a malformed response.
+  validate?: (data: unknown, endpoint: string) => T;
+}
+
+export interface StreamOptions
+  extends Omit<RequestOptions<string>, "retries" | "responseType" | "validate"> {
+  // For streams timeoutMs is an inactivity timeout: it restarts on every chunk.
+  // Called with the text received so far every time a chunk arrives.
+  onChunk: (fullText: string, delta: string) => void;
+}
+
+export interface HttpClientConfig {
+  baseURL: string;
+  getHeaders: (isFormData: boolean) => Promise<Record<string, string>>;
+  defaultTimeoutMs?: number;
+  defaultRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  // Called when a request is rejected with 401. Resolves to true when the
+  // credentials were renewed and the request should be sent once more.
+  onUnauthorized?: () => Promise<boolean>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "DELETE"]);
+
+const isFormData = (body: unknown): body is FormData =>
+  typeof FormData !== "undefined" && body instanceof FormData;
+
+const isBinary = (body: unknown): body is ArrayBuffer | ArrayBufferView =>
+  body instanceof ArrayBuffer || ArrayBuffer.isView(body);
+
+const extractErrorMessage = (payload: unknown, fallback: string): string => {
+  if (typeof payload === "string" && payload.trim().length > 0) {
+    return payload.trim();
+  }
+  if (payload && typeof payload === "object") {
+    const record = payload as Record<string, unknown>;
+    for (const key of ["error", "message", "detail"]) {
+      if (typeof record[key] === "string" && record[key]) {
+        return record[key] as string;
+      }
+    }
+  }
+  return fallback;
+};
+
+export const errorFromResponse = async (
+  response: Response,
+  endpoint?: string,
+): Promise<ApiError> => {
+  const fallback = response.statusText || `HTTP error! status: ${response.status}`;
+  let details: unknown;
+  try {
+    const raw = await response.text();
+    try {
+      details = raw ? JSON.parse(raw) : undefined;
+    } catch {
+      details = raw;
+    }
+  } catch {
+    details = undefined;
+  }
+  const message = extractErrorMessage(details, fallback);
+
+  if (response.status === 401) {
+    return new AuthError(message, endpoint, details);
+  }
+  if (response.status === 403) {
+    return new ForbiddenError(message, endpoint, details);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, response.status, endpoint, details);
+  }
+  return new ValidationError(message, response.status, endpoint, details);
+};
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof ServerError) {
+    return true;
+  }
+  return error instanceof ValidationError && error.status === 429;
+};
+
+// SSE payloads are either raw text or JSON like { "delta": "..." }.
+const eventText = (data: string): string => {
+  if (!data.startsWith("{")) return data;
+  try {
+    const payload = JSON.parse(data) as Record<string, unknown>;
+    for (const key of ["delta", "text", "content", "answer"]) {
+      if (typeof payload[key] === "string") return payload[key] as string;
+    }
+  } catch {
+    // Not JSON after all; treat it as text.
+  }
+  return data;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener("abort", onAbort);
+  });
+
+class HttpClient {
+  private config: Required<Omit<HttpClientConfig, "onUnauthorized">>;
+  private onUnauthorized?: () => Promise<boolean>;
+
+  constructor({ onUnauthorized, ...config }: HttpClientConfig) {
+    this.config = {
+      defaultTimeoutMs: DEFAULT_TIMEOUT_MS,
+      defaultRetries: DEFAULT_RETRIES,
+      retryBaseDelayMs: RETRY_BASE_DELAY_MS,
+      retryMaxDelayMs: RETRY_MAX_DELAY_MS,
+      ...config,
+    };
+    this.onUnauthorized = onUnauthorized;
+  }
+
+  get baseURL(): string {
+    return this.config.baseURL;
+  }
+
+  async request<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+    const method = options.method ?? "GET";
+    const retries =
+      options.retries ??
+      (IDEMPOTENT_METHODS.has(method) ? this.config.defaultRetries : 0);
+
+    let attempt = 0;
+    let reauthenticated = false;
+    for (;;) {
+      try {
+        return await this.send<T>(path, method, options);
+      } catch (error) {
+        if (error instanceof AuthError && !reauthenticated) {
+          reauthenticated = true;
+          if (await this.reauthenticate()) {
+            console.log(`🔑 HTTP: Retrying ${method} ${path} with renewed credentials`);
+            continue;
+          }
+        }
+        if (attempt >= retries || !isRetryable(error)) {
+          throw error;
+        }
+        const delay = this.backoffDelay(attempt);
+        attempt++;
+        console.warn(
+          `🔁 HTTP: ${method} ${path} failed (${(error as ApiError).kind}), retry ${attempt}/${retries} in ${delay}ms`,
+        );
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  // A request is sent again at most once after a 401, and only when the
+  // credentials were actually renewed.
+  private async reauthenticate(): Promise<boolean> {
+    if (!this.onUnauthorized) return false;
+    try {
+      return await this.onUnauthorized();
+    } catch (error) {
+      console.warn("⚠️ HTTP: Renewing credentials failed:", error);
+      return false;
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    const exponential = this.config.retryBaseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.config.retryBaseDelayMs;
+    return Math.min(exponential + jitter, this.config.retryMaxDelayMs);
+  }
+
+  private async open(
+    path: string,
+    method: string,
+    options: RequestOptions<unknown>,
+  ): Promise<{ response: Response; cleanup: () => void; timedOut: () => boolean }> {
+    const url = `${this.config.baseURL}${path}`;
+    const timeoutMs = options.timeoutMs ?? this.config.defaultTimeoutMs;
+    const external = options.signal;
+
+    if (external?.aborted) {
+      throw new CancelledError(path);
+    }
+
+    // Built before the timer is armed: getHeaders may fail (e.g. reading the
+    // token), and nothing would clean the timer up then.
+    const bodyIsFormData = isFormData(options.body);
+    const headers = {
+      ...(await this.config.getHeaders(bodyIsFormData)),
+      ...options.headers,
+    };
+
+    let body: BodyInit | undefined;
+    if (options.body !== undefined) {
+      body = bodyIsFormData
+        ? (options.body as FormData)
+        : typeof options.body === "string" || isBinary(options.body)
+          ? (options.body as BodyInit)
+          : JSON.stringify(options.body);
+    }
+
+    if (external?.aborted) {
+      throw new CancelledError(path);
+    }
+
+    // React Native has no AbortSignal.any, so the caller's signal and the
+    // timeout are funnelled into a single controller by hand.
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onExternalAbort = () => controller.abort();
+    external?.addEventListener("abort", onExternalAbort);
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      external?.removeEventListener("abort", onExternalAbort);
+    };
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+      return { response, cleanup, timedOut: () => timedOut };
+    } catch (error: any) {
+      cleanup();
+      if (error?.name === "AbortError") {
+        if (timedOut) {
+          throw new TimeoutError(
+            `Request to ${path} timed out after ${Math.round(timeoutMs / 1000)}s`,
+            timeoutMs,
+            path,
+          );
+        }
+        throw new CancelledError(path);
+      }
+      throw new NetworkError(
+        error?.message || "Network request failed",
+        path,
+        error,
+      );
+    }
+  }
+
+  private async send<T>(
+    path: string,
+    method: string,
+    options: RequestOptions<T>,
+  ): Promise<T> {
+    const { response, cleanup, timedOut } = await this.open(path, method, options);
+    try {
+      if (!response.ok) {
+        throw await errorFromResponse(response, path);
+      }
+      const data = await this.parse<T>(response, options.responseType ?? "auto");
+      return options.validate ? options.validate(data, path) : data;
+    } catch (error: any) {
+      if (error?.name === "AbortError") {
+        // The timeout can also fire while a slow body is being read
+        if (timedOut()) {
+          const timeoutMs = options.timeoutMs ?? this.config.defaultTimeoutMs;
+          throw new TimeoutError(
+            `Request to ${path} timed out after ${Math.round(timeoutMs / 1000)}s`,
+            timeoutMs,
+            path,
+          );
+        }
+        throw new CancelledError(path);
+      }
+      throw error;
+    } finally {
+      cleanup();
+    }
+  }
+
+  // Streams a text response. React Native's fetch cannot read a body
+  // incrementally, so this goes through XMLHttpRequest progress events, which
+  // work on every platform. Server-sent events ("data: ..." lines) and plain
+  // chunked text are both understood; a server that does not stream simply
+  // delivers the whole body as a single chunk when the request completes.
+  async stream(path: string, options: StreamOptions): Promise<string> {
+    if (typeof XMLHttpRequest === "undefined") {
+      const text = await this.request<string>(path, {
+        ...options,
+        responseType: "text",
+        retries: 0,
+      });
+      options.onChunk(text, text);
+      return text;
+    }
+
+    // A 401 arrives before any chunk, so the stream can simply start over.
+    try {
+      return await this.streamOnce(path, options);
+    } catch (error) {
+      if (error instanceof AuthError && (await this.reauthenticate())) {
+        console.log(`🔑 HTTP: Restarting stream ${path} with renewed credentials`);
+        return this.streamOnce(path, options);
+      }
+      throw error;
+    }
+  }
+
+  private async streamOnce(path: string, options: StreamOptions): Promise<string> {
+    const method = options.method ?? "POST";
+    const url = `${this.config.baseURL}${path}`;
+    const timeoutMs = options.timeoutMs ?? this.config.defaultTimeoutMs;
+    const external = options.signal;
+
+    if (external?.aborted) {
+      throw new CancelledError(path);
+    }
+
+    const bodyIsFormData = isFormData(options.body);
+    const headers: Record<string, string> = {
+      ...(await this.config.getHeaders(bodyIsFormData)),
+      Accept: "text/event-stream, text/plain, */*",
+      ...options.headers,
+    };
+
+    return new Promise<string>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let settled = false;
+      let consumed = 0;
+      let isEventStream = false;
+      let pendingLine = "";
+      let text = "";
+
+      const finish = (error?: ApiError) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        external?.removeEventListener("abort", onExternalAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(text);
+        }
+      };
+
+      const emit = (delta: string) => {
+        if (!delta) return;
+        text += delta;
+        options.onChunk(text, delta);
+      };
+
+      // SSE frames may be split across progress events, so only complete
+      // lines are interpreted and the remainder waits for the next chunk.
+      const consumeEvents = (chunk: string, flush: boolean) => {
+        const lines = (pendingLine + chunk).split(/\r?\n/);
+        pendingLine = flush ? "" : (lines.pop() ?? "");
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice(line.startsWith("data: ") ? 6 : 5);
+          if (data === "[DONE]") continue;
+          emit(data.length === 0 ? "\n" : eventText(data));
+        }
+      };
+
+      const consume = (flush: boolean) => {
+        const raw = xhr.responseText ?? "";
+        const chunk = raw.slice(consumed);
+        consumed = raw.length;
+        if (isEventStream) {
+          consumeEvents(chunk, flush);
+        } else {
+          emit(chunk);
+        }
+      };
+
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const armTimeout = () => {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => {
+          xhr.abort();
+          finish(
+            new TimeoutError(
+              `Request to ${path} timed out after ${Math.round(timeoutMs / 1000)}s`,
+              timeoutMs,
+              path,
+            ),
+          );
+        }, timeoutMs);
+      };
+      armTimeout();
+
+      const onExternalAbort = () => {
+        xhr.abort();
+        finish(new CancelledError(path));
+      };
+      external?.addEventListener("abort", onExternalAbort);
+
+      xhr.open(method, url);
+      Object.entries(headers).forEach(([key, value]) =>
+        xhr.setRequestHeader(key, value),
+      );
+
+      xhr.onreadystatechange = () => {
+        if (xhr.readyState === 2) {
+          const contentType = xhr.getResponseHeader("content-type") || "";
+          isEventStream = contentType.includes("text/event-stream");
+        }
+      };
+
+      xhr.onprogress = () => {
+        armTimeout();
+        if (xhr.status >= 200 && xhr.status < 300) {
+          consume(false);
+        }
+      };
+
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          consume(true);
+          finish();
+          return;
+        }
+        const response = new Response(xhr.responseText, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+        });
+        errorFromResponse(response, path).then(finish);
+      };
+
+      xhr.onerror = () =>
+        finish(new NetworkError("Network request failed", path));
+
+      let body: string | FormData | undefined;
+      if (options.body !== undefined) {
+        body = bodyIsFormData
+          ? (options.body as FormData)
+          : typeof options.body === "string"
+            ? options.body
+            : JSON.stringify(options.body);
+      }
+      xhr.send(body ?? null);
+    });
+  }
+
+  private async parse<T>(response: Response, type: ResponseType): Promise<T> {
+    if (type === "text") {
+      return (await response.text()) as unknown as T;
+    }
+    const contentType = response.headers.get("content-type");
+    if (type === "json" || (contentType && contentType.includes("application/json"))) {
+      return (await response.json()) as T;
+    }
+    return (await response.text()) as unknown as T;
+  }
+}
+
+export default HttpClient;
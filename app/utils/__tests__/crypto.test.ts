@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToHex,
+  chacha20,
+  constantTimeEqual,
+  hexToBytes,
+  hmacSha256,
+  pbkdf2Sha256,
+  utf8Decode,
+  utf8Encode,
+} from '../crypto';
+
+// hmacSha256 hashes through the native module; Node's SHA-256 stands in.
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digest: async (_algorithm: string, data: Uint8Array) => {
+    const digest = jest.requireActual('crypto').createHash('sha256').update(data).digest();
+    return digest.buffer.slice(digest.byteOffset, digest.byteOffset + digest.byteLength);
+  },
+}));
+
+const repeat = (byte: number, length: number) => new Uint8Array(length).fill(byte);
+
+describe('chacha20', () => {
+  // RFC 8439 §2.4.2
+  const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+  const nonce = hexToBytes('000000000000004a00000000');
+  const plaintext =
+    "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.";
+  const ciphertext =
+    '6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b' +
+    'f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8' +
+    '07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736' +
+    '5af90bbf74a35be6b40b8eedf2785e42874d';
+
+  it('encrypts the RFC 8439 test vector', () => {
+    expect(bytesToHex(chacha20(key, nonce, utf8Encode(plaintext)))).toBe(ciphertext);
+  });
+
+  it('decrypts what it encrypted', () => {
+    expect(utf8Decode(chacha20(key, nonce, hexToBytes(ciphertext)))).toBe(plaintext);
+  });
+});
+
+describe('hmacSha256', () => {
+  // RFC 4231 test cases 1, 2, 3 and 6
+  it.each([
+    [
+      repeat(0x0b, 20),
+      utf8Encode('Hi There'),
+      'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7',
+    ],
+    [
+      utf8Encode('Jefe'),
+      utf8Encode('what do ya want for nothing?'),
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    ],
+    [
+      repeat(0xaa, 20),
+      repeat(0xdd, 50),
+      '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe',
+    ],
+    [
+      repeat(0xaa, 131),
+      utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First'),
+      '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54',
+    ],
+  ])('matches RFC 4231 case %#', async (key, data, expected) => {
+    expect(bytesToHex(await hmacSha256(key, data))).toBe(expected);
+  });
+});
+
+describe('pbkdf2Sha256', () => {
+  // RFC 7914 §11
+  it('derives the one-round vector', async () => {
+    const derived = await pbkdf2Sha256(utf8Encode('passwd'), utf8Encode('salt'), 1, 64);
+    expect(bytesToHex(derived)).toBe(
+      '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc' +
+        '49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783'
+    );
+  });
+
+  it('derives the 80000-round vector', async () => {
+    const derived = await pbkdf2Sha256(utf8Encode('Password'), utf8Encode('NaCl'), 80000, 64);
+    expect(bytesToHex(derived)).toBe(
+      '4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56' +
+        'a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d'
+    );
+  });
+
+  it('hashes passwords longer than a block first', async () => {
+    const password = repeat(0x61, 100);
+    const salt = utf8Encode('salt');
+    const hashedKey = new Uint8Array(createHash('sha256').update(password).digest());
+    expect(await pbkdf2Sha256(password, salt, 2, 40)).toEqual(
+      await pbkdf2Sha256(hashedKey, salt, 2, 40)
+    );
+  });
+
+  it('refuses zero rounds', async () => {
+    await expect(pbkdf2Sha256(utf8Encode('pin'), utf8Encode('salt'), 0, 32)).rejects.toThrow();
+  });
+});
+
+describe('encoding helpers', () => {
+  it('round-trips base64 of every length remainder', () => {
+    for (const length of [0, 1, 2, 3, 4, 5]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => i * 37 + 200);
+      expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+      expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+    }
+  });
+
+  it('round-trips UTF-8 text with Arabic and emoji', () => {
+    const text = 'عقد إيجار 📄';
+    expect(utf8Encode(text)).toEqual(new Uint8Array(Buffer.from(text, 'utf8')));
+    expect(utf8Decode(utf8Encode(text))).toBe(text);
+  });
+
+  it('compares bytes of equal and unequal length', () => {
+    expect(constantTimeEqual(hexToBytes('0102'), hexToBytes('0102'))).toBe(true);
+    expect(constantTimeEqual(hexToBytes('0102'), hexToBytes('0103'))).toBe(false);
+    expect(constantTimeEqual(hexToBytes('0102'), hexToBytes('010203'))).toBe(false);
+  });
+});
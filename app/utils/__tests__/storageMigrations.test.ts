@@ -0,0 +1,187 @@
+import {
+  LATEST_STORAGE_SCHEMA_VERSION,
+  MigrationStorage,
+  StorageMigration,
+  StorageMigrationError,
+  runStorageMigrations,
+} from '../storageMigrations';
+import { storageKeys } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const memoryStore = (initial: Record<string, string> = {}) => {
+  const values = new Map(Object.entries(initial));
+  const store: MigrationStorage = {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+  };
+  return { store, values };
+};
+
+const step = (
+  version: number,
+  keys: string[],
+  migrate: StorageMigration['migrate']
+): StorageMigration => ({ version, description: `Step ${version}`, keys, migrate });
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('runStorageMigrations', () => {
+  it('runs pending steps in order and records the version reached', async () => {
+    const { store, values } = memoryStore({ [storageKeys.STORAGE_SCHEMA_VERSION]: '1' });
+    const ran: number[] = [];
+    const migrations = [1, 2, 3].map((version) =>
+      step(version, [], async () => {
+        ran.push(version);
+      })
+    );
+
+    const report = await runStorageMigrations(migrations, store);
+
+    expect(ran).toEqual([2, 3]);
+    expect(report).toEqual({ fromVersion: 1, toVersion: 3, applied: [2, 3] });
+    expect(values.get(storageKeys.STORAGE_SCHEMA_VERSION)).toBe('3');
+    expect(values.has(storageKeys.STORAGE_MIGRATION_BACKUP)).toBe(false);
+  });
+
+  it('rolls back a failing step and stops there', async () => {
+    const { store, values } = memoryStore({ existing: 'before' });
+    const later = jest.fn();
+    const error = new Error('boom');
+    const migrations = [
+      step(1, ['existing'], async (s) => {
+        await s.setItem('existing', 'step 1');
+      }),
+      step(2, ['existing', 'created'], async (s) => {
+        await s.setItem('existing', 'step 2');
+        await s.setItem('created', 'step 2');
+        throw error;
+      }),
+      step(3, [], later),
+    ];
+
+    const report = await runStorageMigrations(migrations, store);
+
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: 1, applied: [1], failedVersion: 2 });
+    expect(report.error).toBe(error);
+    expect(values.get('existing')).toBe('step 1');
+    expect(values.has('created')).toBe(false);
+    expect(values.get(storageKeys.STORAGE_SCHEMA_VERSION)).toBe('1');
+    expect(values.has(storageKeys.STORAGE_MIGRATION_BACKUP)).toBe(false);
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('keeps the backup when the rollback itself fails', async () => {
+    const { store, values } = memoryStore({ existing: 'before' });
+    const failingStore: MigrationStorage = {
+      ...store,
+      setItem: async (key, value) => {
+        if (key === 'existing' && value === 'before') throw new Error('disk full');
+        await store.setItem(key, value);
+      },
+    };
+    const migrations = [
+      step(1, ['existing'], async (s) => {
+        await s.setItem('existing', 'half written');
+        throw new Error('boom');
+      }),
+    ];
+
+    const report = await runStorageMigrations(migrations, failingStore);
+
+    expect(report.failedVersion).toBe(1);
+    expect(values.has(storageKeys.STORAGE_MIGRATION_BACKUP)).toBe(true);
+
+    // The next launch restores it before running the step again.
+    const retried = jest.fn(async () => {
+      expect(values.get('existing')).toBe('before');
+    });
+    await runStorageMigrations([step(1, ['existing'], retried)], store);
+    expect(retried).toHaveBeenCalled();
+    expect(values.has(storageKeys.STORAGE_MIGRATION_BACKUP)).toBe(false);
+  });
+
+  it('undoes the partial writes of a step interrupted by a crash', async () => {
+    const { store, values } = memoryStore({
+      [storageKeys.STORAGE_SCHEMA_VERSION]: '1',
+      existing: 'half written',
+      created: 'half written',
+      [storageKeys.STORAGE_MIGRATION_BACKUP]: JSON.stringify({
+        version: 2,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        values: { existing: 'before', created: null },
+      }),
+    });
+
+    const report = await runStorageMigrations([step(1, [], jest.fn())], store);
+
+    expect(report.applied).toEqual([]);
+    expect(values.get('existing')).toBe('before');
+    expect(values.has('created')).toBe(false);
+    expect(values.has(storageKeys.STORAGE_MIGRATION_BACKUP)).toBe(false);
+  });
+
+  it('does not restore the backup of a step that already recorded its version', async () => {
+    const { store, values } = memoryStore({
+      [storageKeys.STORAGE_SCHEMA_VERSION]: '2',
+      existing: 'step 2',
+      [storageKeys.STORAGE_MIGRATION_BACKUP]: JSON.stringify({
+        version: 2,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        values: { existing: 'before' },
+      }),
+    });
+
+    await runStorageMigrations([step(1, [], jest.fn()), step(2, [], jest.fn())], store);
+
+    expect(values.get('existing')).toBe('step 2');
+    expect(values.has(storageKeys.STORAGE_MIGRATION_BACKUP)).toBe(false);
+  });
+
+  it('leaves storage written by a newer build alone', async () => {
+    const { store, values } = memoryStore({ [storageKeys.STORAGE_SCHEMA_VERSION]: '9' });
+    const migrate = jest.fn();
+
+    const report = await runStorageMigrations([step(1, [], migrate)], store);
+
+    expect(report).toEqual({ fromVersion: 9, toVersion: 9, applied: [] });
+    expect(migrate).not.toHaveBeenCalled();
+    expect(values.get(storageKeys.STORAGE_SCHEMA_VERSION)).toBe('9');
+  });
+
+  it('refuses steps out of order', async () => {
+    const { store } = memoryStore();
+    await expect(
+      runStorageMigrations([step(2, [], jest.fn()), step(1, [], jest.fn())], store)
+    ).rejects.toBeInstanceOf(StorageMigrationError);
+  });
+
+  it('brings messy stored id lists up to the latest schema', async () => {
+    const { store, values } = memoryStore({
+      [storageKeys.OFFLINE_ANALYSES]: JSON.stringify(['a', 'a', null, '', 'b']),
+      [storageKeys.SESSIONS_INDEX]: '{not json',
+    });
+
+    const report = await runStorageMigrations(undefined, store);
+
+    expect(report.failedVersion).toBeUndefined();
+    expect(report.toVersion).toBe(LATEST_STORAGE_SCHEMA_VERSION);
+    expect(JSON.parse(values.get(storageKeys.OFFLINE_ANALYSES)!)).toEqual(['a', 'b']);
+    expect(values.has(storageKeys.SESSIONS_INDEX)).toBe(false);
+  });
+});
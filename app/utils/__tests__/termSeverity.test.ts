@@ -0,0 +1,64 @@
+import {
+  computeWeightedCompliance,
+  countIssuesBySeverity,
+  getTermSeverity,
+} from '../termSeverity';
+
+describe('getTermSeverity', () => {
+  it('prefers the severity sent by the backend', () => {
+    expect(getTermSeverity({ is_valid_sharia: false, sharia_issue: 'riba', severity: 'low' })).toBe(
+      'low'
+    );
+  });
+
+  it('is null for a compliant term without an issue', () => {
+    expect(getTermSeverity({ is_valid_sharia: true })).toBeNull();
+  });
+
+  it.each([
+    ['Charges interest on the financed amount', 'critical'],
+    ['الشرط فيه غرر لجهالة المدة', 'high'],
+    ['The clause needs clearer wording', 'low'],
+    ['Conflicts with the agreed terms', 'medium'],
+  ] as const)('rates "%s" as %s', (issue, severity) => {
+    expect(getTermSeverity({ is_valid_sharia: false, sharia_issue: issue })).toBe(severity);
+  });
+
+  it('raises an issue resting on a Quranic text to at least high', () => {
+    expect(
+      getTermSeverity({
+        is_valid_sharia: false,
+        sharia_issue: 'The clause needs clearer wording',
+        reference_number: 'Surah Al-Baqarah 2:282',
+      })
+    ).toBe('high');
+  });
+});
+
+describe('computeWeightedCompliance', () => {
+  it('weighs a critical issue more than several minor ones', () => {
+    const riba = { is_valid_sharia: false, sharia_issue: 'riba' };
+    const wording = { is_valid_sharia: false, sharia_issue: 'wording' };
+    const ok = { is_valid_sharia: true };
+
+    expect(computeWeightedCompliance([riba, ok, ok, ok])).toBeCloseTo((3 / 13) * 100);
+    expect(computeWeightedCompliance([wording, wording, ok, ok])).toBeCloseTo(50);
+  });
+
+  it('is zero without terms', () => {
+    expect(computeWeightedCompliance([])).toBe(0);
+  });
+});
+
+describe('countIssuesBySeverity', () => {
+  it('counts open issues, treating unrated ones as medium', () => {
+    expect(
+      countIssuesBySeverity([
+        { is_valid_sharia: false, sharia_issue: 'riba' },
+        { is_valid_sharia: false, severity: 'low' },
+        { is_valid_sharia: false },
+        { is_valid_sharia: true },
+      ])
+    ).toEqual({ critical: 1, high: 0, medium: 1, low: 1 });
+  });
+});
@@ -0,0 +1,38 @@
+import { diffWords, getDiffStats, hasChanges, isRtlText } from '../textDiff';
+
+describe('diffWords', () => {
+  it('reports a replaced word as a deletion followed by an insertion', () => {
+    expect(diffWords('The rent is due monthly.', 'The rent is due yearly.')).toEqual([
+      { type: 'equal', text: 'The rent is due ' },
+      { type: 'delete', text: 'monthly' },
+      { type: 'insert', text: 'yearly' },
+      { type: 'equal', text: '.' },
+    ]);
+  });
+
+  it('keeps Arabic words whole and ignores tatweel', () => {
+    const segments = diffWords('يدفع المستأجر الإيجار', 'يدفع المستـــأجر الأجرة');
+    expect(segments.filter((segment) => segment.type !== 'equal')).toEqual([
+      { type: 'delete', text: 'الإيجار' },
+      { type: 'insert', text: 'الأجرة' },
+    ]);
+  });
+
+  it('finds no changes in identical texts', () => {
+    expect(hasChanges(diffWords('same text', 'same text'))).toBe(false);
+  });
+});
+
+describe('getDiffStats', () => {
+  it('counts words rather than characters', () => {
+    const stats = getDiffStats(diffWords('pay the full amount', 'pay the amount now'));
+    expect(stats).toEqual({ added: 1, removed: 1, unchanged: 3 });
+  });
+});
+
+describe('isRtlText', () => {
+  it('decides by the first strong character', () => {
+    expect(isRtlText('123 عقد lease')).toBe(true);
+    expect(isRtlText('Lease عقد')).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { buildSnippet, normalizeArabic, searchTerms, toSearchTerm } from '../textSearch';
+
+describe('normalizeArabic', () => {
+  it('folds diacritics, tatweel, hamza alefs, ta marbuta and Arabic-Indic digits', () => {
+    expect(normalizeArabic('إِجـــارة ٢٠٢٥')).toBe('اجاره 2025');
+  });
+});
+
+describe('toSearchTerm', () => {
+  it('brings Arabic words with attached prefixes to one stem', () => {
+    const stems = ['الغرر', 'غرر', 'بالغرر'].map(toSearchTerm);
+    expect(new Set(stems).size).toBe(1);
+  });
+
+  it('brings English inflections to one stem', () => {
+    const stems = ['interest', 'interests', 'interested'].map(toSearchTerm);
+    expect(new Set(stems).size).toBe(1);
+  });
+
+  it('drops stop words', () => {
+    expect(toSearchTerm('the')).toBe('');
+  });
+});
+
+describe('searchTerms', () => {
+  it('lists each term once in first-seen order', () => {
+    expect(searchTerms('Interest and interests on the payment')).toEqual([
+      toSearchTerm('interest'),
+      toSearchTerm('payment'),
+    ]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('cuts a window around the first match and marks the cuts', () => {
+    const text = `${'a'.repeat(100)} riba clause ${'b'.repeat(100)}`;
+    const snippet = buildSnippet(text, (term) => term === toSearchTerm('riba'), 10);
+    expect(snippet).toBe(`…${'a'.repeat(9)} riba clause bb…`);
+  });
+
+  it('is null without a match', () => {
+    expect(buildSnippet('nothing here', () => false)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import type { AnalysisJobStatus, AnalysisStage } from '../services/api';
+
+// Server stages grouped into the steps shown while a contract is analysed.
+export const ANALYSIS_STEPS: AnalysisStage[][] = [
+  ['queued', 'extracting_text', 'ocr'],
+  ['segmenting_terms'],
+  ['analyzing_terms'],
+  ['generating_report', 'completed'],
+];
+
+// 1-based step of a stage; a failed or cancelled job stays on the first step.
+export const analysisStepOf = (stage: AnalysisStage): number =>
+  Math.max(ANALYSIS_STEPS.findIndex((step) => step.includes(stage)), 0) + 1;
+
+// Progress within the current stage, 0-100, or null when the server does not
+// report any.
+export const analysisStageProgress = (status: AnalysisJobStatus): number | null => {
+  if (status.stage === 'completed') return 100;
+  if (typeof status.stage_progress === 'number') {
+    return Math.min(status.stage_progress, 100);
+  }
+  if (status.stage === 'analyzing_terms' && status.terms_total) {
+    return Math.min(((status.terms_done ?? 0) / status.terms_total) * 100, 100);
+  }
+  return null;
+};
+
+export const formatAnalysisEta = (
+  etaSeconds: number | null,
+  t: (key: string) => string
+): string | null => {
+  if (etaSeconds === null) return null;
+  if (etaSeconds < 60) {
+    return t('analyzing.job.etaSoon');
+  }
+  return t('analyzing.job.eta').replace('{minutes}', String(Math.ceil(etaSeconds / 60)));
+};
+
+// Title and description of a stage, with the term count while terms are
+// analysed and the reason when the analysis failed.
+export const describeAnalysisStage = (
+  status: AnalysisJobStatus,
+  t: (key: string) => string
+): { title: string; desc: string } => {
+  const title = t(`analyzing.job.${status.stage}.title`);
+  if (status.stage === 'analyzing_terms' && status.terms_total) {
+    return {
+      title,
+      desc: t('analyzing.job.termsProgress')
+        .replace('{done}', String(status.terms_done ?? 0))
+        .replace('{total}', String(status.terms_total)),
+    };
+  }
+  if (status.stage === 'failed' && status.error) {
+    return { title, desc: status.error };
+  }
+  return { title, desc: t(`analyzing.job.${status.stage}.desc`) };
+};
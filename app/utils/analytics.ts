@@ -1,6 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
+import { getAllStoredSessions } from './storage';
+import { classifyIssue } from './termCategories';
+import { getTermSeverity, TERM_SEVERITIES } from './termSeverity';
+import type { TermSeverity } from './termSeverity';
 
 interface AnalyticsData {
   analysesThisMonth: number;
@@ -57,7 +61,8 @@ interface ContractTypeAnalysis {
 interface IssueAnalysis {
   type: string;
   frequency: number;
-  severity: 'high' | 'medium' | 'low';
+  // Most severe classification among the terms with this issue.
+  severity: TermSeverity;
   avgImpact: number;
 }
 
@@ -295,21 +300,25 @@ function computeContractTypeAnalysis(sessions: SessionData[]): ContractTypeAnaly
 
 // 📊 Compute issue analysis
 function computeIssueAnalysis(sessions: SessionData[]): IssueAnalysis[] {
-  const issueMap = new Map<string, { count: number; impacts: number[] }>();
+  const issueMap = new Map<string, { count: number; impacts: number[]; severity: TermSeverity }>();
   
   sessions.forEach(session => {
     session.analysis_results.forEach(result => {
       if (result.is_valid_sharia === false) {
-        const issueType = result.issue_type || result.category || 'Unknown Issue';
+        const issueType = result.issue_type || result.category || classifyIssue(result.sharia_issue);
+        const severity = getTermSeverity(result) ?? 'medium';
         const impact = 100 - session.compliance; // Higher non-compliance = higher impact
         
         if (!issueMap.has(issueType)) {
-          issueMap.set(issueType, { count: 0, impacts: [] });
+          issueMap.set(issueType, { count: 0, impacts: [], severity });
         }
         
         const issueData = issueMap.get(issueType)!;
         issueData.count++;
         issueData.impacts.push(impact);
+        if (TERM_SEVERITIES.indexOf(severity) < TERM_SEVERITIES.indexOf(issueData.severity)) {
+          issueData.severity = severity;
+        }
       }
     });
   });
@@ -317,12 +326,11 @@ function computeIssueAnalysis(sessions: SessionData[]): IssueAnalysis[] {
   return Array.from(issueMap.entries())
     .map(([type, data]) => {
       const avgImpact = data.impacts.reduce((sum, i) => sum + i, 0) / data.impacts.length;
-      const severity: 'high' | 'medium' | 'low' = avgImpact > 50 ? 'high' : avgImpact > 25 ? 'medium' : 'low';
       
       return {
         type,
         frequency: data.count,
-        severity,
+        severity: data.severity,
         avgImpact: Math.round(avgImpact),
       };
     })
@@ -531,6 +539,20 @@ async function comprehensiveStorageScan(): Promise<SessionData[]> {
   try {
     console.log('🔍 Starting comprehensive storage scan...');
 
+    // 📋 PHASE 0: Sessions in the encrypted document store (not visible to key scans)
+    try {
+      const storedSessions = await getAllStoredSessions();
+      for (const session of storedSessions) {
+        const contractData = await parseAndValidateContractData(session, session.session_id);
+        if (contractData) {
+          allContracts.push(contractData);
+          discoveredKeys.push(`session_${session.session_id}`);
+        }
+      }
+    } catch (e) {
+      console.warn('Failed to scan document store:', e);
+    }
+
     // 📋 PHASE 1: Known index-based discovery
     const indexKeys = [
       'sessions_index', 
@@ -0,0 +1,70 @@
+// Runs async work over a list of items a few at a time, with a minimum gap
+// between starts, so bulk actions don't flood the backend. Each item settles
+// on its own: one failure never stops the rest of the batch.
+
+export type BatchItemStatus = 'fulfilled' | 'rejected' | 'skipped';
+
+export interface BatchItemResult<T, R> {
+  item: T;
+  // 'skipped' items were never started because the batch was aborted.
+  status: BatchItemStatus;
+  value?: R;
+  error?: unknown;
+}
+
+export interface BatchProgress {
+  total: number;
+  // Settled items, failed ones included.
+  completed: number;
+  failed: number;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  // Minimum time between the starts of two items.
+  intervalMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const runBatch = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: BatchOptions = {}
+): Promise<BatchItemResult<T, R>[]> => {
+  const { concurrency = 2, intervalMs = 250, signal, onProgress } = options;
+  const results: BatchItemResult<T, R>[] = items.map((item) => ({ item, status: 'skipped' }));
+  const progress: BatchProgress = { total: items.length, completed: 0, failed: 0 };
+
+  let nextIndex = 0;
+  let lastStart = 0;
+
+  const runLane = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+
+      // Reserve the next start slot before waiting, so lanes never share one.
+      const startAt = Math.max(Date.now(), lastStart + intervalMs);
+      lastStart = startAt;
+      if (startAt > Date.now()) await delay(startAt - Date.now());
+      if (signal?.aborted) return;
+
+      try {
+        const value = await worker(items[index], index);
+        results[index] = { item: items[index], status: 'fulfilled', value };
+      } catch (error) {
+        results[index] = { item: items[index], status: 'rejected', error };
+        progress.failed++;
+      }
+      progress.completed++;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  onProgress?.({ ...progress });
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+  return results;
+};
@@ -0,0 +1,414 @@
+import * as Crypto from 'expo-crypto';
+
+// Byte-level helpers for the encrypted document store. expo-crypto only
+// offers hashing and random bytes, so the stream cipher lives here: ChaCha20
+// (RFC 8439) for confidentiality, HMAC-SHA256 over nonce + ciphertext for
+// integrity (encrypt-then-MAC). PBKDF2-HMAC-SHA256 (RFC 8018) stretches the
+// app lock PIN.
+
+export const CHACHA20_KEY_BYTES = 32;
+export const CHACHA20_NONCE_BYTES = 12;
+export const HMAC_BYTES = 32;
+
+// --- Encoding ---
+
+export const utf8Encode = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+
+    // Combine surrogate pairs into a single code point.
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+export const utf8Decode = (bytes: Uint8Array): string => {
+  const parts: string[] = [];
+  let chars: number[] = [];
+
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    let code: number;
+
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f);
+      i += 3;
+    } else {
+      code =
+        ((byte & 0x07) << 18) |
+        ((bytes[i + 1] & 0x3f) << 12) |
+        ((bytes[i + 2] & 0x3f) << 6) |
+        (bytes[i + 3] & 0x3f);
+      i += 4;
+    }
+
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      chars.push(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      chars.push(code);
+    }
+
+    // Flush periodically so fromCharCode never sees a huge argument list.
+    if (chars.length >= 8192) {
+      parts.push(String.fromCharCode(...chars));
+      chars = [];
+    }
+  }
+
+  parts.push(String.fromCharCode(...chars));
+  return parts.join('');
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = (() => {
+  const lookup = new Uint8Array(128);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  return lookup;
+})();
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const parts: string[] = [];
+  let chunk = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+
+    chunk +=
+      BASE64_ALPHABET[(triple >> 18) & 0x3f] +
+      BASE64_ALPHABET[(triple >> 12) & 0x3f] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '=') +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : '=');
+
+    if (chunk.length >= 8192) {
+      parts.push(chunk);
+      chunk = '';
+    }
+  }
+
+  parts.push(chunk);
+  return parts.join('');
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let offset = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c = i + 2 < clean.length ? BASE64_LOOKUP[clean.charCodeAt(i + 2)] : 0;
+    const d = i + 3 < clean.length ? BASE64_LOOKUP[clean.charCodeAt(i + 3)] : 0;
+    const triple = (a << 18) | (b << 12) | (c << 6) | d;
+
+    bytes[offset++] = (triple >> 16) & 0xff;
+    if (i + 2 < clean.length) bytes[offset++] = (triple >> 8) & 0xff;
+    if (i + 3 < clean.length) bytes[offset++] = triple & 0xff;
+  }
+
+  return bytes.subarray(0, offset);
+};
+
+export const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+export const concatBytes = (...arrays: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0));
+  let offset = 0;
+  arrays.forEach((array) => {
+    result.set(array, offset);
+    offset += array.length;
+  });
+  return result;
+};
+
+// Compares without returning early so timing does not leak the mismatch position.
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+// --- ChaCha20 ---
+
+const readUint32LE = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const rotl = (value: number, shift: number): number => (value << shift) | (value >>> (32 - shift));
+
+const quarterRound = (x: Uint32Array, a: number, b: number, c: number, d: number) => {
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 16);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 12);
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 8);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 7);
+};
+
+// Encrypts or decrypts (the operation is symmetric) with the block counter
+// starting at 1, as in RFC 8439.
+export const chacha20 = (key: Uint8Array, nonce: Uint8Array, input: Uint8Array): Uint8Array => {
+  if (key.length !== CHACHA20_KEY_BYTES) throw new Error('ChaCha20 key must be 32 bytes');
+  if (nonce.length !== CHACHA20_NONCE_BYTES) throw new Error('ChaCha20 nonce must be 12 bytes');
+
+  const state = new Uint32Array(16);
+  state[0] = 0x61707865;
+  state[1] = 0x3320646e;
+  state[2] = 0x79622d32;
+  state[3] = 0x6b206574;
+  for (let i = 0; i < 8; i++) state[4 + i] = readUint32LE(key, i * 4);
+  state[12] = 1;
+  for (let i = 0; i < 3; i++) state[13 + i] = readUint32LE(nonce, i * 4);
+
+  const output = new Uint8Array(input.length);
+  const working = new Uint32Array(16);
+  const keystream = new Uint8Array(64);
+
+  for (let offset = 0; offset < input.length; offset += 64) {
+    working.set(state);
+    for (let round = 0; round < 10; round++) {
+      quarterRound(working, 0, 4, 8, 12);
+      quarterRound(working, 1, 5, 9, 13);
+      quarterRound(working, 2, 6, 10, 14);
+      quarterRound(working, 3, 7, 11, 15);
+      quarterRound(working, 0, 5, 10, 15);
+      quarterRound(working, 1, 6, 11, 12);
+      quarterRound(working, 2, 7, 8, 13);
+      quarterRound(working, 3, 4, 9, 14);
+    }
+
+    for (let i = 0; i < 16; i++) {
+      const word = (working[i] + state[i]) >>> 0;
+      keystream[i * 4] = word & 0xff;
+      keystream[i * 4 + 1] = (word >>> 8) & 0xff;
+      keystream[i * 4 + 2] = (word >>> 16) & 0xff;
+      keystream[i * 4 + 3] = (word >>> 24) & 0xff;
+    }
+
+    const blockLength = Math.min(64, input.length - offset);
+    for (let i = 0; i < blockLength; i++) {
+      output[offset + i] = input[offset + i] ^ keystream[i];
+    }
+
+    state[12] = (state[12] + 1) >>> 0;
+  }
+
+  return output;
+};
+
+// --- HMAC-SHA256 ---
+
+const SHA256_BLOCK_BYTES = 64;
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+
+export const hmacSha256 = async (key: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const blockKey = new Uint8Array(SHA256_BLOCK_BYTES);
+  blockKey.set(key.length > SHA256_BLOCK_BYTES ? await sha256(key) : key);
+
+  const innerPad = blockKey.map((byte) => byte ^ 0x36);
+  const outerPad = blockKey.map((byte) => byte ^ 0x5c);
+
+  const inner = await sha256(concatBytes(innerPad, data));
+  return sha256(concatBytes(outerPad, inner));
+};
+
+// --- PBKDF2-HMAC-SHA256 ---
+// expo-crypto digests cross the native bridge once per call, far too slow for
+// the many rounds of PBKDF2, so the SHA-256 compression runs here as well.
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+const SHA256_INITIAL_STATE = Uint32Array.from([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+// Rounds run between two yields to the event loop, so the UI keeps drawing.
+const PBKDF2_ROUNDS_PER_YIELD = 5000;
+// Words 8-15 of a block holding a 32-byte digest after a 64-byte key block:
+// the 0x80 marker and the 768-bit message length.
+const DIGEST_BLOCK_PADDING = Uint32Array.from([0x80000000, 0, 0, 0, 0, 0, 0, 768]);
+
+const rotr = (value: number, shift: number): number => (value >>> shift) | (value << (32 - shift));
+
+// Mixes one block into the state. `schedule` holds the block's 16 big-endian
+// words and is extended in place.
+const sha256Block = (state: Uint32Array, schedule: Uint32Array) => {
+  for (let i = 16; i < 64; i++) {
+    const w15 = schedule[i - 15];
+    const w2 = schedule[i - 2];
+    const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+    const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+    schedule[i] = schedule[i - 16] + s0 + schedule[i - 7] + s1;
+  }
+
+  let [a, b, c, d, e, f, g, h] = state;
+  for (let i = 0; i < 64; i++) {
+    const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + schedule[i]) | 0;
+    const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] += a;
+  state[1] += b;
+  state[2] += c;
+  state[3] += d;
+  state[4] += e;
+  state[5] += f;
+  state[6] += g;
+  state[7] += h;
+};
+
+const readWords = (bytes: Uint8Array, target: Uint32Array, offset = 0, count = 16) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < count; i++) target[i] = view.getUint32(offset + i * 4);
+};
+
+const wordsToBytes = (words: Uint32Array): Uint8Array => {
+  const bytes = new Uint8Array(words.length * 4);
+  const view = new DataView(bytes.buffer);
+  words.forEach((word, i) => view.setUint32(i * 4, word));
+  return bytes;
+};
+
+// Hashes `data`, continuing from a state that has already absorbed
+// `absorbedBytes` bytes (a multiple of 64).
+const sha256From = (initial: Uint32Array, data: Uint8Array, absorbedBytes = 0): Uint8Array => {
+  const state = Uint32Array.from(initial);
+  const paddedLength = Math.ceil((data.length + 9) / SHA256_BLOCK_BYTES) * SHA256_BLOCK_BYTES;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  const bitLength = (absorbedBytes + data.length) * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const schedule = new Uint32Array(64);
+  for (let offset = 0; offset < paddedLength; offset += SHA256_BLOCK_BYTES) {
+    readWords(padded, schedule, offset);
+    sha256Block(state, schedule);
+  }
+  return wordsToBytes(state);
+};
+
+const absorbBlock = (block: Uint8Array): Uint32Array => {
+  const state = Uint32Array.from(SHA256_INITIAL_STATE);
+  const schedule = new Uint32Array(64);
+  readWords(block, schedule);
+  sha256Block(state, schedule);
+  return state;
+};
+
+export const pbkdf2Sha256 = async (
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+): Promise<Uint8Array> => {
+  if (iterations < 1) throw new Error('PBKDF2 needs at least one iteration');
+
+  // The padded key blocks are absorbed once, so every further HMAC costs two
+  // compressions, run on words without allocating.
+  const blockKey = new Uint8Array(SHA256_BLOCK_BYTES);
+  blockKey.set(password.length > SHA256_BLOCK_BYTES ? sha256From(SHA256_INITIAL_STATE, password) : password);
+  const innerState = absorbBlock(blockKey.map((byte) => byte ^ 0x36));
+  const outerState = absorbBlock(blockKey.map((byte) => byte ^ 0x5c));
+  const state = new Uint32Array(8);
+  const schedule = new Uint32Array(64);
+
+  const output = new Uint8Array(length);
+  for (let block = 1, offset = 0; offset < length; block++, offset += 32) {
+    const counter = Uint8Array.from([block >>> 24, (block >>> 16) & 0xff, (block >>> 8) & 0xff, block & 0xff]);
+    const first = sha256From(
+      outerState,
+      sha256From(innerState, concatBytes(salt, counter), SHA256_BLOCK_BYTES),
+      SHA256_BLOCK_BYTES,
+    );
+    const u = new Uint32Array(8);
+    readWords(first, u, 0, 8);
+    const t = Uint32Array.from(u);
+
+    for (let round = 1; round < iterations; round++) {
+      state.set(innerState);
+      schedule.set(u);
+      schedule.set(DIGEST_BLOCK_PADDING, 8);
+      sha256Block(state, schedule);
+
+      schedule.set(state);
+      schedule.set(DIGEST_BLOCK_PADDING, 8);
+      state.set(outerState);
+      sha256Block(state, schedule);
+
+      u.set(state);
+      for (let i = 0; i < 8; i++) t[i] ^= u[i];
+      if (round % PBKDF2_ROUNDS_PER_YIELD === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+    output.set(wordsToBytes(t).subarray(0, Math.min(32, length - offset)), offset);
+  }
+  return output;
+};
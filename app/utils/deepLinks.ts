@@ -0,0 +1,56 @@
+// Links that open a session's results, optionally scrolled to one term:
+//
+//   shariaa-analyzer://results/<session_id>?term_id=<term_id>
+//
+// Notifications carry the same target either as a `url` in their data or as
+// `sessionId` and `termId` fields.
+
+export const DEEP_LINK_SCHEME = 'shariaa-analyzer';
+
+export interface ResultsLink {
+  sessionId: string;
+  termId?: string;
+}
+
+// Hermes' URL lacks searchParams, so links are parsed by hand.
+const RESULTS_LINK_PATTERN = new RegExp(`^${DEEP_LINK_SCHEME}:\\/{2,3}results\\/([^/?#]+)\\/?(?:\\?([^#]*))?`);
+
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+export const buildResultsLink = (sessionId: string, termId?: string): string =>
+  `${DEEP_LINK_SCHEME}://results/${encodeURIComponent(sessionId)}` +
+  (termId ? `?term_id=${encodeURIComponent(termId)}` : '');
+
+export const parseResultsLink = (url: string): ResultsLink | null => {
+  const match = url.trim().match(RESULTS_LINK_PATTERN);
+  if (!match) return null;
+
+  const link: ResultsLink = { sessionId: decode(match[1]) };
+  (match[2] || '').split('&').forEach((pair) => {
+    const [key, value = ''] = pair.split('=');
+    if ((key === 'term_id' || key === 'termId') && value) {
+      link.termId = decode(value);
+    }
+  });
+  return link;
+};
+
+export const resultsLinkFromNotification = (data: Record<string, unknown> | null | undefined): ResultsLink | null => {
+  if (!data) return null;
+  if (typeof data.url === 'string') {
+    const link = parseResultsLink(data.url);
+    if (link) return link;
+  }
+  if (typeof data.sessionId !== 'string' || !data.sessionId) return null;
+
+  const termId = data.termId ?? data.term_id;
+  return typeof termId === 'string' && termId
+    ? { sessionId: data.sessionId, termId }
+    : { sessionId: data.sessionId };
+};
@@ -6,6 +6,8 @@ import * as FileSystem from 'expo-file-system';
 import { Platform, Alert } from 'react-native';
 // @ts-ignore
 import RNHTMLtoPDF from 'react-native-html-to-pdf';
+import { getTermSeverity, TERM_SEVERITIES, SEVERITY_COLORS } from './termSeverity';
+import type { TermSeverity } from './termSeverity';
 
 // FIX: Removed unused imports for PDFViewer and generatePDF from api.ts.
 
@@ -20,11 +22,25 @@ export interface EnrichedTerm {
   modified_term: string | null;
   reference_number: string | null;
   session_id: string;
+  severity?: TermSeverity | null;
   // Fields added on the client
   interactionCount?: number;
   lastModified?: string;
 }
 
+// Compliance figures printed above the terms, with their translated labels.
+export interface PdfReportSummary {
+  compliancePercentage: number;
+  weightedCompliancePercentage: number;
+  openIssuesBySeverity: Record<TermSeverity, number>;
+  labels: {
+    compliance: string;
+    weighted: string;
+    openIssues: string;
+    severity: Record<TermSeverity, string>;
+  };
+}
+
 // --- NEW FUNCTION TO GENERATE PDF FROM TERMS ---
 const escapeHtml = (unsafe: string): string => {
   if (typeof unsafe !== 'string') return '';
@@ -36,6 +52,24 @@ const escapeHtml = (unsafe: string): string => {
     .replace(/'/g, '');
 };
 
+const renderSummary = (summary: PdfReportSummary): string => {
+  const issues = TERM_SEVERITIES.filter(severity => summary.openIssuesBySeverity[severity] > 0)
+    .map(
+      severity => `
+        <span class="severity" style="border-color: ${SEVERITY_COLORS[severity]}; color: ${SEVERITY_COLORS[severity]};">
+          ${summary.openIssuesBySeverity[severity]} ${escapeHtml(summary.labels.severity[severity])}
+        </span>`
+    )
+    .join('');
+  return `
+    <div class="summary">
+      <p><strong>${escapeHtml(summary.labels.compliance)}:</strong> ${Math.round(summary.compliancePercentage)}%</p>
+      <p><strong>${escapeHtml(summary.labels.weighted)}:</strong> ${Math.round(summary.weightedCompliancePercentage)}%</p>
+      ${issues ? `<p><strong>${escapeHtml(summary.labels.openIssues)}:</strong> ${issues}</p>` : ''}
+    </div>
+  `;
+};
+
 /**
  * Generates a PDF from a list of structured analysis terms.
  * This is the new function for creating marked/modified contracts.
@@ -45,7 +79,8 @@ export const generatePdfFromTerms = async (
   terms: EnrichedTerm[],
   isRTL: boolean,
   fileName: string,
-  documentTitle: string
+  documentTitle: string,
+  summary?: PdfReportSummary
 ): Promise<string | null> => {
   try {
     const htmlContent = `
@@ -91,11 +126,28 @@ export const generatePdfFromTerms = async (
             font-size: 11px;
             margin-top: 8px;
           }
+          .summary {
+            margin-bottom: 24px;
+            padding: 12px;
+            border-radius: 8px;
+            background-color: #f8fafc;
+            border: 1px solid #e2e8f0;
+          }
+          .severity {
+            display: inline-block;
+            margin: 0 4px 4px 0;
+            padding: 0 8px;
+            border: 1px solid;
+            border-radius: 10px;
+            font-size: 11px;
+            font-weight: 700;
+          }
           p { margin: 0; }
         </style>
       </head>
       <body>
         <h1>${escapeHtml(documentTitle)}</h1>
+        ${summary ? renderSummary(summary) : ''}
         ${terms
           .map(term => {
             const termText = escapeHtml(term.modified_term || term.term_text);
@@ -105,8 +157,13 @@ export const generatePdfFromTerms = async (
                 : '';
             const complianceClass = term.is_valid_sharia ? 'compliant' : 'non-compliant';
             const modifiedClass = term.modified_term ? 'modified' : '';
+            const severity = summary && !term.is_valid_sharia ? getTermSeverity(term) : null;
+            const severityBadge = severity
+              ? `<span class="severity" style="border-color: ${SEVERITY_COLORS[severity]}; color: ${SEVERITY_COLORS[severity]};">${escapeHtml(summary!.labels.severity[severity])}</span>`
+              : '';
             return `
               <div class="term ${complianceClass} ${modifiedClass}">
+                ${severityBadge}
                 <p>${termText}</p>
                 ${originalTermText}
               </div>
@@ -338,10 +395,11 @@ export const generatePdf = async (
   terms: EnrichedTerm[],
   isRTL: boolean,
   fileName: string = 'contract_document',
-  documentTitle: string = 'Contract Document'
+  documentTitle: string = 'Contract Document',
+  summary?: PdfReportSummary
 ): Promise<string | null> => {
   try {
-    const pdfUri = await generatePdfFromTerms(terms, isRTL, fileName, documentTitle);
+    const pdfUri = await generatePdfFromTerms(terms, isRTL, fileName, documentTitle, summary);
     if (!pdfUri) {
       throw new Error('Failed to generate PDF from terms');
     }
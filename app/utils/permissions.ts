@@ -0,0 +1,55 @@
+import type { User, UserRole } from '../services/api';
+
+// --- Roles and permissions ---
+// The role comes from the signed-in account as the server returns it; it is
+// never chosen on the device. Screens check capabilities instead of roles so
+// a role can gain or lose a capability in one place. The server enforces the
+// same rules; these only decide what the app offers.
+
+export interface Permissions {
+  // Expert feedback on the AI analysis of a term.
+  canSubmitExpertFeedback: boolean;
+  // Marking a term compliant or non-compliant against the AI verdict.
+  canOverrideCompliance: boolean;
+  // Working through the expert review queue.
+  canReviewRequests: boolean;
+  // Sending a contract or terms to the expert review queue.
+  canRequestExpertReview: boolean;
+  // Switching to the regular user's view of the app.
+  canPreviewAsRegularUser: boolean;
+}
+
+export type Capability = keyof Permissions;
+
+const ROLE_PERMISSIONS: Record<UserRole, Permissions> = {
+  regular_user: {
+    canSubmitExpertFeedback: false,
+    canOverrideCompliance: false,
+    canReviewRequests: false,
+    canRequestExpertReview: true,
+    canPreviewAsRegularUser: false,
+  },
+  shariah_expert: {
+    canSubmitExpertFeedback: true,
+    canOverrideCompliance: true,
+    canReviewRequests: true,
+    canRequestExpertReview: false,
+    canPreviewAsRegularUser: true,
+  },
+};
+
+// Guests and accounts without a known role get the least privileges.
+export const getAccountRole = (user: User | null | undefined): UserRole =>
+  user?.role && user.role in ROLE_PERMISSIONS ? user.role : 'regular_user';
+
+// The role the app acts as. Previewing can only drop to the regular user's
+// role, and only for accounts allowed to preview.
+export const getEffectiveRole = (accountRole: UserRole, previewAsRegularUser: boolean): UserRole =>
+  previewAsRegularUser && ROLE_PERMISSIONS[accountRole].canPreviewAsRegularUser
+    ? 'regular_user'
+    : accountRole;
+
+export const getPermissions = (role: UserRole): Permissions => ROLE_PERMISSIONS[role];
+
+export const hasCapability = (role: UserRole, capability: Capability): boolean =>
+  ROLE_PERMISSIONS[role][capability];
@@ -2,8 +2,15 @@ import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
-import { SessionDetailsApiResponse } from '../services/api';
+import { ExpertReviewRequest, SessionDetailsApiResponse } from '../services/api';
+import type { QaThreads, TermRevisions } from '../../types/session';
+import type { OutboxEntry } from '../services/OutboxService';
+import type { SessionSyncBase, SyncConflict } from '../services/SessionSyncService';
+import type { ResumableUploadState } from '../services/ResumableUpload';
+import type { AnalysisBatch } from '../services/BatchAnalysisService';
 import * as Crypto from 'expo-crypto';
+import DocumentStore from '../services/DocumentStore';
+import type SearchIndexService from '../services/SearchIndexService';
 
 // Maximum storage size for SecureStore (2KB limit)
 const MAX_SECURE_STORE_SIZE = 2048;
@@ -308,6 +315,202 @@ const getStorage = (dataSize?: number): StorageInterface => {
   };
 };
 
+// --- Document store ---
+// On native platforms sessions and other large values live in the encrypted
+// file-backed DocumentStore. The web build keeps using localStorage.
+const SESSIONS_COLLECTION = 'sessions';
+const LARGE_ITEMS_COLLECTION = 'large_items';
+
+let documentStorePromise: Promise<DocumentStore | null> | null = null;
+
+// Opens the store and moves any legacy session data into it. Resolves to null
+// where the store is unavailable or fails to open, so callers fall back to
+// key-value storage; the next successful open picks those writes up.
+const openDocumentStore = (): Promise<DocumentStore | null> => {
+  const store = DocumentStore.getInstance();
+  if (!store.isSupported()) return Promise.resolve(null);
+
+  if (!documentStorePromise) {
+    documentStorePromise = store
+      .open()
+      .then(() => migrateLegacySessions(store))
+      .then(() => store)
+      .catch((error) => {
+        console.error('❌ Failed to open document store, using key-value storage:', error);
+        documentStorePromise = null;
+        return null;
+      });
+  }
+  return documentStorePromise;
+};
+
+const parseStoredJson = (dataString: string | null): any => {
+  if (!dataString) return null;
+  try {
+    return JSON.parse(dataString);
+  } catch {
+    return null;
+  }
+};
+
+// Reads a value written by the old chunked `storage.setLargeItem`.
+const readChunkedItem = async (key: string): Promise<string | null> => {
+  const chunkCountStr = await storage.getItemAsync(`${key}_chunks`);
+  if (!chunkCountStr) return null;
+
+  const chunkCount = parseInt(chunkCountStr);
+  const chunks = [];
+
+  for (let i = 0; i < chunkCount; i++) {
+    const chunk = await storage.getItemAsync(`${key}_chunk_${i}`);
+    if (chunk === null) {
+      console.warn(`⚠️ Missing chunk ${i} for key: ${key}`);
+      return null;
+    }
+    chunks.push(chunk);
+  }
+
+  return chunks.join('');
+};
+
+const removeChunkedItem = async (key: string): Promise<void> => {
+  const chunkCountStr = await storage.getItemAsync(`${key}_chunks`);
+  if (!chunkCountStr) return;
+
+  const chunkCount = parseInt(chunkCountStr);
+  for (let i = 0; i < chunkCount; i++) {
+    await storage.deleteItemAsync(`${key}_chunk_${i}`);
+  }
+  await storage.deleteItemAsync(`${key}_chunks`);
+};
+
+// Finds a session in the places older versions stored it: AsyncStorage,
+// SecureStore, SecureStore chunks and, as a last resort, the copy embedded in
+// its offline analysis.
+const readLegacySession = async (
+  sessionId: string,
+  includeOfflineCopy: boolean
+): Promise<SessionDetailsApiResponse | null> => {
+  const key = `session_${sessionId}`;
+  const sources: Array<() => Promise<any>> = [
+    async () => parseStoredJson(await nativeStorage.getItem(key)),
+    async () => parseStoredJson(await getStorage().getItem(key)),
+    async () => parseStoredJson(await readChunkedItem(key)),
+  ];
+  if (includeOfflineCopy) {
+    sources.push(async () =>
+      parseStoredJson(await nativeStorage.getItem(`offline_analysis_${sessionId}`))?.fullSessionData
+    );
+  }
+
+  for (const source of sources) {
+    try {
+      const session = await source();
+      if (session && session.session_id === sessionId) {
+        return session;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to read legacy session ${sessionId}:`, error);
+    }
+  }
+  return null;
+};
+
+const removeLegacySession = async (sessionId: string): Promise<void> => {
+  const key = `session_${sessionId}`;
+  await nativeStorage.removeItem(key);
+  await getStorage().removeItem(key);
+  await removeChunkedItem(key);
+
+  // The offline analysis no longer carries a full copy of the session.
+  const analysis = parseStoredJson(await nativeStorage.getItem(`offline_analysis_${sessionId}`));
+  if (analysis?.fullSessionData) {
+    delete analysis.fullSessionData;
+    await nativeStorage.setItem(`offline_analysis_${sessionId}`, JSON.stringify(analysis));
+  }
+};
+
+// Moves legacy session data into the document store. The first run scans
+// every index older versions kept; later runs only pick up sessions written
+// to AsyncStorage while the store could not be opened. Legacy copies are
+// deleted only once the session is safely in the store.
+const migrateLegacySessions = async (store: DocumentStore): Promise<void> => {
+  const fullScan = !(await nativeStorage.getItem(storageKeys.DOCUMENT_STORE_MIGRATED));
+  const sessionIds = new Set<string>();
+  const addIds = (indexData: string | null) => {
+    const ids = parseStoredJson(indexData);
+    if (Array.isArray(ids)) {
+      ids.forEach((id) => typeof id === 'string' && id && sessionIds.add(id));
+    }
+  };
+
+  if (fullScan) {
+    addIds(await getStorage().getItem(storageKeys.SESSIONS_INDEX));
+    addIds(await nativeStorage.getItem(storageKeys.SESSIONS_INDEX));
+    addIds(await nativeStorage.getItem(storageKeys.OFFLINE_ANALYSES));
+  }
+
+  const asyncKeys = await AsyncStorage.getAllKeys();
+  asyncKeys.forEach((key) => {
+    if (key.startsWith('session_') && !/_chunk_\d+$/.test(key)) {
+      sessionIds.add(key.slice('session_'.length).replace(/_chunks$/, ''));
+    }
+  });
+
+  let migrated = 0;
+  let failed = 0;
+
+  for (const sessionId of sessionIds) {
+    try {
+      const inStore = await store.has(SESSIONS_COLLECTION, sessionId);
+      // A legacy copy that still exists was written after the last migration,
+      // so it wins over the one in the store.
+      const legacySession = await readLegacySession(sessionId, !inStore);
+
+      if (legacySession) {
+        await store.put(SESSIONS_COLLECTION, sessionId, legacySession);
+        migrated++;
+      } else if (!inStore) {
+        // Not a session (e.g. `session_interactions`) or nothing left to move.
+        continue;
+      }
+
+      await removeLegacySession(sessionId);
+    } catch (error) {
+      failed++;
+      console.error(`❌ Failed to migrate session ${sessionId} to document store:`, error);
+    }
+  }
+
+  if (failed > 0) {
+    console.warn(`⚠️ ${failed} sessions kept in legacy storage, will retry on next launch`);
+    return;
+  }
+
+  if (fullScan) {
+    await getStorage().removeItem(storageKeys.SESSIONS_INDEX);
+    await nativeStorage.removeItem(storageKeys.SESSIONS_INDEX);
+    await nativeStorage.setItem(storageKeys.DOCUMENT_STORE_MIGRATED, new Date().toISOString());
+  }
+
+  if (migrated > 0) {
+    console.log(`✅ Migrated ${migrated} sessions to the document store`);
+  }
+};
+
+// The search index reads sessions through this module, so it is loaded lazily.
+// Index failures never fail the storage operation itself.
+const updateSearchIndex = async (
+  update: (index: SearchIndexService) => void | Promise<void>
+): Promise<void> => {
+  try {
+    const { default: SearchIndex } = await import('../services/SearchIndexService');
+    await update(SearchIndex.getInstance());
+  } catch (error) {
+    console.warn('⚠️ Failed to update search index:', error);
+  }
+};
+
 // Enhanced store session data with validation and full persistence
 export const storeSessionData = async (
   sessionData: SessionDetailsApiResponse
@@ -328,9 +531,13 @@ export const storeSessionData = async (
     
     // Use nativeStorage for large session data to avoid size limits
     const storageInterface = dataString.length > MAX_SECURE_STORE_SIZE ? nativeStorage : getStorage(dataString.length);
-    const storageKey = `session_${sessionData.session_id}`;
+    const documentStore = await openDocumentStore();
 
-    await storageInterface.setItem(storageKey, dataString);
+    if (documentStore) {
+      await documentStore.put(SESSIONS_COLLECTION, sessionData.session_id, sessionData);
+    } else {
+      await storageInterface.setItem(`session_${sessionData.session_id}`, dataString);
+    }
 
     // Store device-specific session mapping
     const deviceSessionsKey = `device_sessions_${deviceId}`;
@@ -344,12 +551,17 @@ export const storeSessionData = async (
       await storageInterface.setItem(deviceSessionsKey, JSON.stringify(trimmedSessions));
     }
 
-    // Update sessions index for quick lookup
-    await updateSessionsIndex(sessionData.session_id);
+    // Update sessions index for quick lookup; the document store keeps its own
+    if (!documentStore) {
+      await updateSessionsIndex(sessionData.session_id);
+    }
 
     // Store as offline analysis for history screen
     await storeOfflineAnalysis(sessionData);
 
+    // Keep full-text search current
+    await updateSearchIndex((index) => index.scheduleIndex(sessionData));
+
     // Store full restoration data
     const restorationData = {
       sessionId: sessionData.session_id,
@@ -429,7 +641,9 @@ export const storeOfflineAnalysis = async (
       termsCount: sessionData.analysis_results?.length || 0,
       issuesCount: sessionData.analysis_results?.filter(term => !term.is_valid_sharia).length || 0,
       language: sessionData.detected_contract_language || 'en',
-      fullSessionData: sessionData,
+      // With the document store the session is already stored encrypted, so
+      // it is not duplicated here; getOfflineAnalyses loads it back.
+      fullSessionData: DocumentStore.getInstance().isSupported() ? undefined : sessionData,
       isOfflineOnly: false,
     };
 
@@ -582,6 +796,9 @@ export const getOfflineAnalyses = async (): Promise<OfflineContractAnalysis[]> =
 
           // Validate analysis data
           if (analysis.sessionId && analysis.originalFilename) {
+            if (!analysis.fullSessionData) {
+              analysis.fullSessionData = (await getSessionData(sessionId)) ?? undefined;
+            }
             analyses.push(analysis);
           } else {
             console.warn('📚 Invalid analysis data for session:', sessionId);
@@ -661,6 +878,18 @@ export const getSessionData = async (
 
     console.log('📚 Retrieving session data for:', sessionId);
 
+    const documentStore = await openDocumentStore();
+    if (documentStore) {
+      const storedSession = await documentStore.get<SessionDetailsApiResponse>(
+        SESSIONS_COLLECTION,
+        sessionId
+      );
+      if (storedSession) {
+        console.log('✅ Session data retrieved from document store');
+        return storedSession;
+      }
+    }
+
     const storageKey = `session_${sessionId}`;
     
     // Try both storage methods due to size constraints
@@ -697,10 +926,295 @@ export const getSessionData = async (
   }
 };
 
+// Values that grow without bound and carry contract text (Q&A, revisions,
+// outbox, sync state, review snapshots). On native they are encrypted in the
+// document store; AsyncStorage only holds them while the store cannot open.
+// Every store write removes the AsyncStorage copy, so a copy found there is
+// newer than the stored one and moves over on the next read.
+const largeDataStorage = (): StorageInterface => {
+  if (Platform.OS === 'web') return webStorage;
+
+  return {
+    getItem: async (key: string) => {
+      const documentStore = await openDocumentStore();
+      if (!documentStore) return nativeStorage.getItem(key);
+
+      const plaintext = await nativeStorage.getItem(key);
+      if (plaintext === null) {
+        return documentStore.get<string>(LARGE_ITEMS_COLLECTION, key);
+      }
+      await documentStore.put(LARGE_ITEMS_COLLECTION, key, plaintext);
+      await nativeStorage.removeItem(key);
+      return plaintext;
+    },
+    setItem: async (key: string, value: string) => {
+      const documentStore = await openDocumentStore();
+      if (!documentStore) return nativeStorage.setItem(key, value);
+
+      await documentStore.put(LARGE_ITEMS_COLLECTION, key, value);
+      await nativeStorage.removeItem(key);
+    },
+    removeItem: async (key: string) => {
+      const documentStore = await openDocumentStore();
+      await documentStore?.remove(LARGE_ITEMS_COLLECTION, key);
+      await nativeStorage.removeItem(key);
+    },
+  };
+};
+
+// Q&A conversation threads are stored per session next to the session data.
+const qaThreadsKey = (sessionId: string) => `qa_threads_${sessionId}`;
+
+export const storeQaThreads = async (
+  sessionId: string,
+  threads: QaThreads
+): Promise<void> => {
+  try {
+    if (!sessionId) {
+      throw new Error('Session ID is required to store Q&A threads');
+    }
+    const dataString = JSON.stringify(threads);
+    await largeDataStorage().setItem(qaThreadsKey(sessionId), dataString);
+    console.log('💬 Q&A threads stored for session:', sessionId);
+  } catch (error) {
+    console.error('❌ Failed to store Q&A threads:', error);
+  }
+};
+
+export const getQaThreads = async (sessionId: string): Promise<QaThreads> => {
+  try {
+    if (!sessionId) return {};
+    const dataString = await largeDataStorage().getItem(qaThreadsKey(sessionId));
+    if (!dataString) return {};
+    const parsed = JSON.parse(dataString);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.error('❌ Failed to retrieve Q&A threads:', error);
+    return {};
+  }
+};
+
+export const removeQaThreads = async (sessionId: string): Promise<void> => {
+  try {
+    await largeDataStorage().removeItem(qaThreadsKey(sessionId));
+  } catch (error) {
+    console.warn('⚠️ Failed to remove Q&A threads:', error);
+  }
+};
+
+// Term revision logs are stored per session, like the Q&A threads.
+const termRevisionsKey = (sessionId: string) => `term_revisions_${sessionId}`;
+
+export const storeTermRevisions = async (
+  sessionId: string,
+  revisions: TermRevisions
+): Promise<void> => {
+  try {
+    if (!sessionId) {
+      throw new Error('Session ID is required to store term revisions');
+    }
+    await largeDataStorage().setItem(termRevisionsKey(sessionId), JSON.stringify(revisions));
+    console.log('🕘 Term revisions stored for session:', sessionId);
+  } catch (error) {
+    console.error('❌ Failed to store term revisions:', error);
+  }
+};
+
+export const getTermRevisions = async (sessionId: string): Promise<TermRevisions> => {
+  try {
+    if (!sessionId) return {};
+    const dataString = await largeDataStorage().getItem(termRevisionsKey(sessionId));
+    if (!dataString) return {};
+    const parsed = JSON.parse(dataString);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.error('❌ Failed to retrieve term revisions:', error);
+    return {};
+  }
+};
+
+export const removeTermRevisions = async (sessionId: string): Promise<void> => {
+  try {
+    await largeDataStorage().removeItem(termRevisionsKey(sessionId));
+  } catch (error) {
+    console.warn('⚠️ Failed to remove term revisions:', error);
+  }
+};
+
+// Offline outbox: term mutations waiting to be replayed, oldest first.
+export const storeOutboxEntries = async (entries: OutboxEntry[]): Promise<void> => {
+  try {
+    await largeDataStorage().setItem(storageKeys.MUTATION_OUTBOX, JSON.stringify(entries));
+  } catch (error) {
+    console.error('❌ Failed to store outbox entries:', error);
+  }
+};
+
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  try {
+    const dataString = await largeDataStorage().getItem(storageKeys.MUTATION_OUTBOX);
+    if (!dataString) return [];
+    const parsed = JSON.parse(dataString);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('❌ Failed to retrieve outbox entries:', error);
+    return [];
+  }
+};
+
+// Session sync: the term values both sides last agreed on (the base of the
+// three-way merge), unresolved conflicts and the server cursor.
+const syncBaseKey = (sessionId: string) => `sync_base_${sessionId}`;
+
+export const storeSyncBase = async (base: SessionSyncBase): Promise<void> => {
+  try {
+    await largeDataStorage().setItem(syncBaseKey(base.sessionId), JSON.stringify(base));
+  } catch (error) {
+    console.error('❌ Failed to store sync base:', error);
+  }
+};
+
+export const getSyncBase = async (sessionId: string): Promise<SessionSyncBase | null> => {
+  try {
+    const dataString = await largeDataStorage().getItem(syncBaseKey(sessionId));
+    return dataString ? JSON.parse(dataString) : null;
+  } catch (error) {
+    console.error('❌ Failed to retrieve sync base:', error);
+    return null;
+  }
+};
+
+export const removeSyncBase = async (sessionId: string): Promise<void> => {
+  try {
+    await largeDataStorage().removeItem(syncBaseKey(sessionId));
+  } catch (error) {
+    console.warn('⚠️ Failed to remove sync base:', error);
+  }
+};
+
+export const storeSyncConflicts = async (conflicts: SyncConflict[]): Promise<void> => {
+  try {
+    await largeDataStorage().setItem(storageKeys.SYNC_CONFLICTS, JSON.stringify(conflicts));
+  } catch (error) {
+    console.error('❌ Failed to store sync conflicts:', error);
+  }
+};
+
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
+  try {
+    const dataString = await largeDataStorage().getItem(storageKeys.SYNC_CONFLICTS);
+    const parsed = dataString ? JSON.parse(dataString) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('❌ Failed to retrieve sync conflicts:', error);
+    return [];
+  }
+};
+
+export const storeExpertReviewRequests = async (
+  requests: ExpertReviewRequest[],
+  key: string = storageKeys.EXPERT_REVIEW_REQUESTS
+): Promise<void> => {
+  try {
+    await largeDataStorage().setItem(key, JSON.stringify(requests));
+  } catch (error) {
+    console.error('❌ Failed to store expert review requests:', error);
+  }
+};
+
+export const getExpertReviewRequests = async (
+  key: string = storageKeys.EXPERT_REVIEW_REQUESTS
+): Promise<ExpertReviewRequest[]> => {
+  try {
+    const dataString = await largeDataStorage().getItem(key);
+    const parsed = dataString ? JSON.parse(dataString) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('❌ Failed to retrieve expert review requests:', error);
+    return [];
+  }
+};
+
+export const storeResumableUploads = async (uploads: ResumableUploadState[]): Promise<void> => {
+  try {
+    await largeDataStorage().setItem(storageKeys.RESUMABLE_UPLOADS, JSON.stringify(uploads));
+  } catch (error) {
+    console.error('❌ Failed to store resumable uploads:', error);
+  }
+};
+
+export const getResumableUploads = async (): Promise<ResumableUploadState[]> => {
+  try {
+    const dataString = await largeDataStorage().getItem(storageKeys.RESUMABLE_UPLOADS);
+    const parsed = dataString ? JSON.parse(dataString) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('❌ Failed to retrieve resumable uploads:', error);
+    return [];
+  }
+};
+
+export const storeAnalysisBatches = async (batches: AnalysisBatch[]): Promise<void> => {
+  try {
+    await largeDataStorage().setItem(storageKeys.ANALYSIS_BATCHES, JSON.stringify(batches));
+  } catch (error) {
+    console.error('❌ Failed to store analysis batches:', error);
+  }
+};
+
+export const getAnalysisBatches = async (): Promise<AnalysisBatch[]> => {
+  try {
+    const dataString = await largeDataStorage().getItem(storageKeys.ANALYSIS_BATCHES);
+    const parsed = dataString ? JSON.parse(dataString) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('❌ Failed to retrieve analysis batches:', error);
+    return [];
+  }
+};
+
+export const storeSyncCursor = async (cursor: string | null): Promise<void> => {
+  try {
+    if (cursor) {
+      await storage.setItemAsync(storageKeys.SYNC_CURSOR, cursor);
+    } else {
+      await storage.deleteItemAsync(storageKeys.SYNC_CURSOR);
+    }
+  } catch (error) {
+    console.error('❌ Failed to store sync cursor:', error);
+  }
+};
+
+export const getSyncCursor = async (): Promise<string | null> => {
+  try {
+    return await storage.getItemAsync(storageKeys.SYNC_CURSOR);
+  } catch (error) {
+    console.error('❌ Failed to retrieve sync cursor:', error);
+    return null;
+  }
+};
+
 // Enhanced get all stored sessions with validation
 export const getAllStoredSessions = async (): Promise<SessionDetailsApiResponse[]> => {
   try {
     console.log('📚 Loading all stored sessions...');
+
+    const documentStore = await openDocumentStore();
+    if (documentStore) {
+      const documents = await documentStore.list(SESSIONS_COLLECTION);
+      const sessions: SessionDetailsApiResponse[] = [];
+
+      for (const { id } of documents) {
+        const sessionData = await documentStore.get<SessionDetailsApiResponse>(SESSIONS_COLLECTION, id);
+        if (sessionData) {
+          sessions.push(sessionData);
+        }
+      }
+
+      console.log('✅ Successfully loaded stored sessions:', sessions.length);
+      return sessions;
+    }
+
     const storage = getStorage();
     const indexData = await storage.getItem('sessions_index');
 
@@ -750,11 +1264,22 @@ export const removeSessionData = async (sessionId: string): Promise<void> => {
     const storage = getStorage();
 
     // Remove session data
+    const documentStore = await openDocumentStore();
+    await documentStore?.remove(SESSIONS_COLLECTION, sessionId);
     await storage.removeItem(`session_${sessionId}`);
 
     // Remove offline analysis
     await nativeStorage.removeItem(`offline_analysis_${sessionId}`);
 
+    // Remove Q&A conversation threads
+    await removeQaThreads(sessionId);
+
+    // Remove the sync base so a re-downloaded copy starts fresh
+    await removeSyncBase(sessionId);
+
+    // Drop it from full-text search
+    await updateSearchIndex((index) => index.removeSession(sessionId));
+
     // Update sessions index
     const indexData = await storage.getItem('sessions_index');
     if (indexData) {
@@ -785,9 +1310,17 @@ export const clearAllStoredSessions = async (): Promise<void> => {
 
     const storage = getStorage();
     const indexData = await storage.getItem('sessions_index');
+    const sessionIds: string[] = indexData ? JSON.parse(indexData) : [];
 
-    if (indexData) {
-      const sessionIds: string[] = JSON.parse(indexData);
+    const documentStore = await openDocumentStore();
+    if (documentStore) {
+      const documents = await documentStore.list(SESSIONS_COLLECTION);
+      documents.forEach(({ id }) => {
+        if (!sessionIds.includes(id)) sessionIds.push(id);
+      });
+    }
+
+    if (sessionIds.length > 0) {
       console.log('🗑️ Found sessions to clear:', sessionIds.length);
 
       // Remove all session data
@@ -796,6 +1329,8 @@ export const clearAllStoredSessions = async (): Promise<void> => {
           try {
             await storage.removeItem(`session_${sessionId}`);
             await nativeStorage.removeItem(`offline_analysis_${sessionId}`);
+            await removeQaThreads(sessionId);
+            await removeSyncBase(sessionId);
           } catch (error) {
             console.warn(`🗑️ Failed to remove session ${sessionId}:`, error);
           }
@@ -803,6 +1338,8 @@ export const clearAllStoredSessions = async (): Promise<void> => {
       }
 
       // Clear sessions index
+      await documentStore?.clear(SESSIONS_COLLECTION);
+      await updateSearchIndex((index) => index.clear());
       await storage.removeItem('sessions_index');
       await nativeStorage.removeItem('offline_analyses_index');
 
@@ -909,10 +1446,20 @@ export const storage = {
     }
   },
 
-  // Handle large data by chunking it
+  // Large values go to the encrypted document store. Without it (web) they
+  // are split into SecureStore-sized chunks.
   async setLargeItem(key: string, value: any): Promise<boolean> {
     try {
       const stringValue = typeof value === 'string' ? value : JSON.stringify(value);
+
+      const documentStore = await openDocumentStore();
+      if (documentStore) {
+        await documentStore.put(LARGE_ITEMS_COLLECTION, key, stringValue);
+        await removeChunkedItem(key);
+        console.log(`✅ Large data stored in document store for key: ${key}`);
+        return true;
+      }
+
       const chunks = [];
       const chunkSize = 2000; // Safe chunk size for SecureStore
 
@@ -939,23 +1486,22 @@ export const storage = {
 
   async getLargeItem(key: string): Promise<any> {
     try {
-      const chunkCountStr = await this.getItemAsync(`${key}_chunks`);
-      if (!chunkCountStr) return null;
-
-      const chunkCount = parseInt(chunkCountStr);
-      const chunks = [];
-
-      // Retrieve all chunks
-      for (let i = 0; i < chunkCount; i++) {
-        const chunk = await this.getItemAsync(`${key}_chunk_${i}`);
-        if (chunk === null) {
-          console.warn(`⚠️ Missing chunk ${i} for key: ${key}`);
-          return null;
+      const documentStore = await openDocumentStore();
+      let reconstructed = documentStore
+        ? await documentStore.get<string>(LARGE_ITEMS_COLLECTION, key)
+        : null;
+
+      if (reconstructed === null) {
+        reconstructed = await readChunkedItem(key);
+        if (reconstructed === null) return null;
+
+        // Move values written before the document store existed.
+        if (documentStore) {
+          await documentStore.put(LARGE_ITEMS_COLLECTION, key, reconstructed);
+          await removeChunkedItem(key);
         }
-        chunks.push(chunk);
       }
 
-      const reconstructed = chunks.join('');
       try {
         return JSON.parse(reconstructed);
       } catch {
@@ -974,8 +1520,19 @@ export const storageKeys = {
 
   // Auth related keys
   AUTH_TOKEN: 'auth_token',
+  AUTH_REFRESH_TOKEN: 'auth_refresh_token',
+  // Epoch milliseconds at which the access token stops being accepted.
+  AUTH_TOKEN_EXPIRES_AT: 'auth_token_expires_at',
   USER_DATA: 'user_data',
 
+  // App lock keys
+  APP_LOCK_SETTINGS: 'app_lock_settings',
+  // Salted hash of the app PIN, never the PIN itself.
+  APP_LOCK_PIN: 'app_lock_pin',
+  // Failed unlock attempts, kept across restarts so quitting does not reset
+  // the lockout.
+  APP_LOCK_FAILURES: 'app_lock_failures',
+
   // Theme related keys
   THEME: 'theme_preference',
 
@@ -984,7 +1541,10 @@ export const storageKeys = {
   SHARIAA_LANGUAGE: 'shariaa_language',
 
   // User and role related keys
+  // Legacy: the role picked on the device, removed by storage migration 5.
   USER_ROLE: 'user_role',
+  // Set while an expert previews the app as a regular user.
+  ROLE_PREVIEW: 'role_preview',
 
   // Session related keys
   SHARIAA_SESSIONS: 'shariaa_sessions',
@@ -997,6 +1557,65 @@ export const storageKeys = {
   CONTRACT_HISTORY: 'contract_history',
   OFFLINE_ANALYSES: 'offline_analyses_index',
   SESSIONS_INDEX: 'sessions_index',
+  LOCAL_CONTRACTS: 'contracts_local',
+  DOCUMENT_STORE_MIGRATED: 'document_store_migrated',
+
+  // Schema migration keys
+  STORAGE_SCHEMA_VERSION: 'storage_schema_version',
+  STORAGE_MIGRATION_BACKUP: 'storage_migration_backup',
+
+  // Offline sync keys
+  MUTATION_OUTBOX: 'mutation_outbox',
+  SYNC_CURSOR: 'session_sync_cursor',
+  SYNC_CONFLICTS: 'session_sync_conflicts',
+  EXPERT_REVIEW_REQUESTS: 'expert_review_requests',
+  // Backing store of the on-device review backend used in demo builds.
+  EXPERT_REVIEW_LOCAL_BACKEND: 'expert_review_local_backend',
+
+  // Chunked uploads that can be resumed after the app restarts
+  RESUMABLE_UPLOADS: 'resumable_uploads',
+  // Multi-file analyses with the status of every file
+  ANALYSIS_BATCHES: 'analysis_batches',
+};
+
+// --- Migration storage ---
+// Key-value access for the schema migrations in storageMigrations.ts. Unlike
+// `storage`, failures throw so a failed step can be rolled back. Keys stay in
+// the backend the app reads them from: the offline analyses index lives in
+// AsyncStorage, everything else in SecureStore, with values too large for it
+// in AsyncStorage.
+const ASYNC_STORAGE_KEYS = new Set<string>([storageKeys.OFFLINE_ANALYSES]);
+
+// SecureStore without the silent AsyncStorage fallback of getStorage(), so a
+// failed migration write is noticed and rolled back.
+const strictSecureStorage: StorageInterface = {
+  getItem: (key: string) => SecureStore.getItemAsync(sanitizeKey(key)),
+  setItem: (key: string, value: string) =>
+    SecureStore.setItemAsync(sanitizeKey(key), validateValue(value)),
+  removeItem: (key: string) => SecureStore.deleteItemAsync(sanitizeKey(key)),
+};
+
+export const migrationStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    if (Platform.OS === 'web') return webStorage.getItem(key);
+    if (ASYNC_STORAGE_KEYS.has(key)) return nativeStorage.getItem(key);
+    return (await strictSecureStorage.getItem(key)) ?? (await nativeStorage.getItem(key));
+  },
+
+  setItem: async (key: string, value: string): Promise<void> => {
+    if (Platform.OS === 'web') return webStorage.setItem(key, value);
+    if (ASYNC_STORAGE_KEYS.has(key)) return nativeStorage.setItem(key, value);
+    // A value that changes size class moves backend; drop the old copy first.
+    await migrationStorage.removeItem(key);
+    const backend = value.length > MAX_SECURE_STORE_SIZE ? nativeStorage : strictSecureStorage;
+    await backend.setItem(key, value);
+  },
+
+  removeItem: async (key: string): Promise<void> => {
+    if (Platform.OS === 'web') return webStorage.removeItem(key);
+    if (!ASYNC_STORAGE_KEYS.has(key)) await strictSecureStorage.removeItem(key);
+    await nativeStorage.removeItem(key);
+  },
 };
 
 // Storage validation utility for debugging
@@ -1127,73 +1746,14 @@ export const getOrCreateDeviceId = async (): Promise<string> => {
 };
 
 // Enhanced session sync functions
+// Two-way sync with per-term merge, see SessionSyncService. `apiBaseUrl` is
+// kept for existing callers; requests go to the configured API_BASE_URL.
 export const syncSessionsWithBackend = async (apiBaseUrl: string): Promise<boolean> => {
   try {
-    console.log('🔄 Starting session sync with backend...');
-
-    const deviceId = await getOrCreateDeviceId();
-    const authToken = await storage.getItemAsync(storageKeys.AUTH_TOKEN);
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Device-ID': deviceId,
-    };
-
-    if (authToken) {
-      headers['Authorization'] = `Bearer ${authToken}`;
-    }
-
-    // Fetch remote sessions
-    const response = await fetch(`${apiBaseUrl}/sessions?device_id=${deviceId}`, {
-      method: 'GET',
-      headers,
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    const remoteSessions: SessionDetailsApiResponse[] = await response.json();
-    console.log(`📥 Fetched ${remoteSessions.length} sessions from backend`);
-
-    // Get local sessions
-    const localSessions = await getAllStoredSessions();
-    console.log(`📱 Found ${localSessions.length} local sessions`);
-
-    // Merge sessions (prioritize local, add missing remote)
-    const mergedSessions = [...localSessions];
-
-    for (const remoteSession of remoteSessions) {
-      const existsLocally = localSessions.some(
-        local => local.session_id === remoteSession.session_id
-      );
-
-      if (!existsLocally) {
-        mergedSessions.push(remoteSession);
-        await storeSessionData(remoteSession);
-        console.log(`📥 Added remote session: ${remoteSession.session_id}`);
-      }
-    }
-
-    // Upload local sessions that don't exist remotely
-    for (const localSession of localSessions) {
-      const existsRemotely = remoteSessions.some(
-        remote => remote.session_id === localSession.session_id
-      );
-
-      if (!existsRemotely) {
-        try {
-          await uploadSessionToBackend(localSession, apiBaseUrl, deviceId);
-          console.log(`📤 Uploaded local session: ${localSession.session_id}`);
-        } catch (uploadError) {
-          console.warn(`⚠️ Failed to upload session ${localSession.session_id}:`, uploadError);
-        }
-      }
-    }
-
-    console.log('✅ Session sync completed successfully');
+    const { default: SessionSyncService } = await import('../services/SessionSyncService');
+    const result = await SessionSyncService.getInstance().sync();
+    console.log('✅ Session sync completed successfully', result);
     return true;
-
   } catch (error) {
     console.error('❌ Session sync failed:', error);
     return false;
@@ -1240,22 +1800,15 @@ export const uploadSessionToBackend = async (
   }
 };
 
-// Network connectivity check
+// Network connectivity check: whether our backend is reachable. The probe
+// result is cached and shared by ConnectivityService.
 export const checkNetworkConnectivity = async (): Promise<boolean> => {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 2000); // 2 ثواني timeout
-
   try {
-    const response = await fetch('https://www.google.com', {
-      method: 'HEAD',
-      signal: controller.signal,
-    });
-
-    return response.ok;
+    const { default: ConnectivityService } = await import('../services/ConnectivityService');
+    return await ConnectivityService.getInstance().check();
   } catch (error) {
+    console.warn('⚠️ Connectivity check failed:', error);
     return false;
-  } finally {
-    clearTimeout(timeoutId); // دايمًا ننضف الـ timeout
   }
 };
 
@@ -0,0 +1,403 @@
+import { migrationStorage, storageKeys } from './storage';
+import type { SessionInteraction } from '../contexts/SessionContext';
+import type { LocalContract, StoredSessionSummary } from '../../types/session';
+
+// --- Storage schema migrations ---
+// Persisted values change shape between releases. Each migration step moves
+// them from one schema version to the next; the version reached is stored
+// under `storageKeys.STORAGE_SCHEMA_VERSION`. Steps run in order at startup,
+// before any provider reads storage. The keys a step touches are backed up
+// first and restored if the step fails, so a failed step leaves the data as
+// the previous version wrote it. Steps must be idempotent: after a crash the
+// same step runs again on already (partly) migrated data.
+
+export interface MigrationStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  // Every key the step may write or remove; these are backed up.
+  keys: string[];
+  migrate: (store: MigrationStorage) => Promise<void>;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  // Set when a step failed and was rolled back.
+  failedVersion?: number;
+  error?: unknown;
+}
+
+export class StorageMigrationError extends Error {
+  readonly version?: number;
+  readonly details?: unknown;
+
+  constructor(message: string, version?: number, details?: unknown) {
+    super(message);
+    this.name = 'StorageMigrationError';
+    this.version = version;
+    this.details = details;
+  }
+}
+
+interface MigrationBackup {
+  version: number;
+  createdAt: string;
+  // null marks a key that did not exist before the step.
+  values: Record<string, string | null>;
+}
+
+// Parsed JSON, undefined for a missing key and null for an unreadable value.
+const readJson = async (store: MigrationStorage, key: string): Promise<unknown> => {
+  const raw = await store.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+const writeJsonIfChanged = async (
+  store: MigrationStorage,
+  key: string,
+  previous: unknown,
+  next: unknown
+): Promise<void> => {
+  if (JSON.stringify(previous) !== JSON.stringify(next)) {
+    await store.setItem(key, JSON.stringify(next));
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+// --- Steps ---
+
+// Id lists must be arrays of unique, non-empty strings. Older builds could
+// leave duplicates, nulls or a half-written value behind.
+const normalizeIdLists: StorageMigration = {
+  version: 1,
+  description: 'Normalize offline analyses and sessions id lists',
+  keys: [storageKeys.OFFLINE_ANALYSES, storageKeys.SESSIONS_INDEX],
+  migrate: async (store) => {
+    for (const key of [storageKeys.OFFLINE_ANALYSES, storageKeys.SESSIONS_INDEX]) {
+      const value = await readJson(store, key);
+      if (value === undefined) continue;
+
+      if (!Array.isArray(value)) {
+        console.warn(`⚠️ Migration: Dropping unreadable id list "${key}"`);
+        await store.removeItem(key);
+        continue;
+      }
+
+      const ids = Array.from(new Set(value.map(nonEmptyString).filter(Boolean)));
+      await writeJsonIfChanged(store, key, value, ids);
+    }
+  },
+};
+
+// SessionContext keeps this many summaries under SHARIAA_SESSIONS.
+const MAX_SESSION_SUMMARIES = 20;
+
+// Accepts every shape older builds wrote to SHARIAA_SESSIONS: SessionContext
+// summaries, full SessionDetailsApiResponse objects (api.saveSessionLocally)
+// and the legacy `SessionDetails` of types/session.ts (id, createdAt,
+// fileName, complianceScore).
+const toSessionSummary = (entry: unknown): StoredSessionSummary | null => {
+  if (!isRecord(entry)) return null;
+  const sessionId = nonEmptyString(entry.session_id) ?? nonEmptyString(entry.id);
+  if (!sessionId) return null;
+
+  const compliance = entry.compliance_percentage ?? entry.complianceScore;
+  const summary: StoredSessionSummary = {
+    session_id: sessionId,
+    original_filename: nonEmptyString(entry.original_filename) ?? nonEmptyString(entry.fileName) ?? '',
+    analysis_timestamp:
+      nonEmptyString(entry.analysis_timestamp) ?? nonEmptyString(entry.createdAt) ?? '',
+    compliance_percentage: typeof compliance === 'number' && isFinite(compliance) ? compliance : 0,
+    totalInteractions: typeof entry.totalInteractions === 'number' ? entry.totalInteractions : 0,
+    lastInteractionTime: nonEmptyString(entry.lastInteractionTime) ?? '',
+  };
+
+  if (nonEmptyString(entry._id)) summary._id = entry._id;
+  if (nonEmptyString(entry.detected_contract_language)) {
+    summary.detected_contract_language = entry.detected_contract_language;
+  }
+  if (nonEmptyString(entry.original_format)) summary.original_format = entry.original_format;
+  if (entry.isBookmarked === true) summary.isBookmarked = true;
+
+  // Only the per-term flags are kept, never term texts.
+  if (Array.isArray(entry.analysis_results)) {
+    summary.analysis_results = entry.analysis_results
+      .filter((term: unknown) => isRecord(term) && nonEmptyString(term.term_id))
+      .map((term: Record<string, any>) => ({
+        term_id: term.term_id,
+        is_valid_sharia: term.is_valid_sharia,
+        is_confirmed_by_user: term.is_confirmed_by_user,
+        has_expert_feedback: term.has_expert_feedback,
+        expert_override_is_valid_sharia: term.expert_override_is_valid_sharia,
+      }));
+  }
+
+  return summary;
+};
+
+const normalizeSessionSummaries: StorageMigration = {
+  version: 2,
+  description: 'Convert stored sessions to StoredSessionSummary',
+  keys: [storageKeys.SHARIAA_SESSIONS],
+  migrate: async (store) => {
+    const value = await readJson(store, storageKeys.SHARIAA_SESSIONS);
+    if (value === undefined) return;
+
+    if (!Array.isArray(value)) {
+      console.warn('⚠️ Migration: Dropping unreadable session summaries');
+      await store.removeItem(storageKeys.SHARIAA_SESSIONS);
+      return;
+    }
+
+    const seen = new Set<string>();
+    const summaries = value
+      .map(toSessionSummary)
+      .filter((summary): summary is StoredSessionSummary => {
+        if (!summary || seen.has(summary.session_id)) return false;
+        seen.add(summary.session_id);
+        return true;
+      })
+      .slice(0, MAX_SESSION_SUMMARIES);
+
+    await writeJsonIfChanged(store, storageKeys.SHARIAA_SESSIONS, value, summaries);
+  },
+};
+
+const INTERACTION_TYPES: SessionInteraction['type'][] = [
+  'question_asked',
+  'term_modified',
+  'contract_generated',
+  'expert_feedback',
+];
+
+// Interactions from older builds used `session_id` / `term_id`.
+const toInteraction = (entry: unknown): SessionInteraction | null => {
+  if (!isRecord(entry)) return null;
+  const sessionId = nonEmptyString(entry.sessionId) ?? nonEmptyString(entry.session_id);
+  const timestamp = nonEmptyString(entry.timestamp) ?? nonEmptyString(entry.createdAt);
+  if (!sessionId || !timestamp || !INTERACTION_TYPES.includes(entry.type)) return null;
+
+  const interaction: SessionInteraction = { sessionId, timestamp, type: entry.type };
+  const termId = nonEmptyString(entry.termId) ?? nonEmptyString(entry.term_id);
+  if (termId) interaction.termId = termId;
+  if (entry.data !== undefined) interaction.data = entry.data;
+  return interaction;
+};
+
+const normalizeInteractions: StorageMigration = {
+  version: 3,
+  description: 'Normalize session interactions',
+  keys: [storageKeys.SESSION_INTERACTIONS],
+  migrate: async (store) => {
+    const value = await readJson(store, storageKeys.SESSION_INTERACTIONS);
+    if (value === undefined) return;
+
+    if (!Array.isArray(value)) {
+      console.warn('⚠️ Migration: Dropping unreadable session interactions');
+      await store.removeItem(storageKeys.SESSION_INTERACTIONS);
+      return;
+    }
+
+    const interactions = value
+      .map(toInteraction)
+      .filter((interaction): interaction is SessionInteraction => interaction !== null);
+    await writeJsonIfChanged(store, storageKeys.SESSION_INTERACTIONS, value, interactions);
+  },
+};
+
+// Contract lists were once kept under CONTRACT_HISTORY; ContractContext now
+// reads LOCAL_CONTRACTS only. Entries already there win.
+const mergeContractHistory: StorageMigration = {
+  version: 4,
+  description: 'Merge contract history into local contracts',
+  keys: [storageKeys.CONTRACT_HISTORY, storageKeys.LOCAL_CONTRACTS],
+  migrate: async (store) => {
+    const history = await readJson(store, storageKeys.CONTRACT_HISTORY);
+    if (history === undefined) return;
+
+    if (Array.isArray(history)) {
+      const current = await readJson(store, storageKeys.LOCAL_CONTRACTS);
+      const contracts: LocalContract[] = Array.isArray(current) ? current : [];
+      const knownIds = new Set(contracts.map((contract) => contract?.id));
+
+      const moved = history.filter(
+        (entry: unknown): entry is LocalContract =>
+          isRecord(entry) &&
+          !!nonEmptyString(entry.id) &&
+          !!nonEmptyString(entry.sessionId) &&
+          !knownIds.has(entry.id)
+      );
+      if (moved.length > 0) {
+        await store.setItem(storageKeys.LOCAL_CONTRACTS, JSON.stringify([...contracts, ...moved]));
+      }
+    }
+
+    await store.removeItem(storageKeys.CONTRACT_HISTORY);
+  },
+};
+
+// The role used to be picked on the device and stored under USER_ROLE; it now
+// comes from the signed-in account, so the stored choice is dropped.
+const dropLocalUserRole: StorageMigration = {
+  version: 5,
+  description: 'Drop the locally chosen user role',
+  keys: [storageKeys.USER_ROLE],
+  migrate: async (store) => {
+    if ((await store.getItem(storageKeys.USER_ROLE)) !== null) {
+      await store.removeItem(storageKeys.USER_ROLE);
+    }
+  },
+};
+
+// Append new steps with the next version number; never reorder or edit a
+// released step.
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  normalizeIdLists,
+  normalizeSessionSummaries,
+  normalizeInteractions,
+  mergeContractHistory,
+  dropLocalUserRole,
+];
+
+export const LATEST_STORAGE_SCHEMA_VERSION =
+  STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+// --- Runner ---
+
+const validateMigrations = (migrations: StorageMigration[]) => {
+  migrations.forEach((migration, i) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new StorageMigrationError(
+        `Invalid migration version: ${migration.version}`,
+        migration.version
+      );
+    }
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new StorageMigrationError(
+        `Migrations out of order at version ${migration.version}`,
+        migration.version
+      );
+    }
+  });
+};
+
+const readSchemaVersion = async (store: MigrationStorage): Promise<number> => {
+  const stored = await store.getItem(storageKeys.STORAGE_SCHEMA_VERSION);
+  const version = stored ? parseInt(stored, 10) : 0;
+  return Number.isInteger(version) && version > 0 ? version : 0;
+};
+
+const restoreBackup = async (store: MigrationStorage, backup: MigrationBackup) => {
+  for (const [key, value] of Object.entries(backup.values)) {
+    if (value === null) {
+      await store.removeItem(key);
+    } else {
+      await store.setItem(key, value);
+    }
+  }
+};
+
+// A backup still present at startup means the app stopped during a step. If
+// that step had not recorded its version yet, its partial writes are undone.
+const recoverInterruptedMigration = async (
+  store: MigrationStorage,
+  currentVersion: number
+): Promise<void> => {
+  const raw = await store.getItem(storageKeys.STORAGE_MIGRATION_BACKUP);
+  if (!raw) return;
+
+  let backup: MigrationBackup | null = null;
+  try {
+    backup = JSON.parse(raw);
+  } catch {
+    console.warn('⚠️ Migration: Discarding unreadable backup');
+  }
+
+  if (backup && isRecord(backup.values) && backup.version > currentVersion) {
+    console.warn(`🔄 Migration: Restoring backup of interrupted step ${backup.version}`);
+    await restoreBackup(store, backup);
+  }
+  await store.removeItem(storageKeys.STORAGE_MIGRATION_BACKUP);
+};
+
+// Brings stored data up to the latest schema version. Never throws for a
+// failing step: the step is rolled back, the version stays where it was and
+// the report says which step failed; it is retried on the next launch.
+export const runStorageMigrations = async (
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS,
+  store: MigrationStorage = migrationStorage
+): Promise<MigrationReport> => {
+  validateMigrations(migrations);
+
+  const fromVersion = await readSchemaVersion(store);
+  await recoverInterruptedMigration(store, fromVersion);
+
+  const latestVersion = migrations.length ? migrations[migrations.length - 1].version : 0;
+  const report: MigrationReport = { fromVersion, toVersion: fromVersion, applied: [] };
+
+  if (fromVersion > latestVersion) {
+    // Written by a newer build; leave it alone rather than guess.
+    console.warn(
+      `⚠️ Migration: Storage schema ${fromVersion} is newer than this build (${latestVersion})`
+    );
+    return report;
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= report.toVersion) continue;
+
+    const backup: MigrationBackup = {
+      version: migration.version,
+      createdAt: new Date().toISOString(),
+      values: {},
+    };
+    for (const key of migration.keys) {
+      backup.values[key] = await store.getItem(key);
+    }
+    await store.setItem(storageKeys.STORAGE_MIGRATION_BACKUP, JSON.stringify(backup));
+
+    try {
+      console.log(`🔧 Migration ${migration.version}: ${migration.description}`);
+      await migration.migrate(store);
+      await store.setItem(storageKeys.STORAGE_SCHEMA_VERSION, String(migration.version));
+    } catch (error) {
+      console.error(`❌ Migration ${migration.version} failed, rolling back:`, error);
+      try {
+        await restoreBackup(store, backup);
+        await store.removeItem(storageKeys.STORAGE_MIGRATION_BACKUP);
+      } catch (restoreError) {
+        // The backup stays in place and is restored on the next launch.
+        console.error('❌ Migration rollback failed:', restoreError);
+      }
+      report.failedVersion = migration.version;
+      report.error = error;
+      return report;
+    }
+
+    await store.removeItem(storageKeys.STORAGE_MIGRATION_BACKUP);
+    report.toVersion = migration.version;
+    report.applied.push(migration.version);
+  }
+
+  if (report.applied.length > 0) {
+    console.log(`✅ Storage migrated from version ${fromVersion} to ${report.toVersion}`);
+  }
+  return report;
+};
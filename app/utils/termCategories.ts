@@ -0,0 +1,52 @@
+import { normalizeText } from './textSearch';
+
+// Rough category of a term's Sharia issue, read from the analysis' free-text
+// explanation. The backend does not classify issues, so this is keyword
+// matching over English and Arabic wording; anything unmatched is 'other'.
+
+export type IssueCategory =
+  | 'riba'
+  | 'late_penalty'
+  | 'gharar'
+  | 'maysir'
+  | 'prohibited_subject'
+  | 'ownership'
+  | 'other';
+
+// Display order of the categories, most common first.
+export const ISSUE_CATEGORIES: IssueCategory[] = [
+  'riba',
+  'late_penalty',
+  'gharar',
+  'maysir',
+  'prohibited_subject',
+  'ownership',
+  'other',
+];
+
+// Checked in order, so interest charged on late payment counts as riba.
+// Arabic keywords are in normalized form (see normalizeArabic).
+const CATEGORY_KEYWORDS: Array<[Exclude<IssueCategory, 'other'>, string[]]> = [
+  ['riba', ['riba', 'interest', 'usury', 'usurious', 'ربا', 'ربوي', 'فائده', 'فوائد']],
+  ['late_penalty', ['late payment', 'penalt', 'fine', 'delay', 'غرامه', 'غرامات', 'تاخير', 'شرط جزايي']],
+  ['gharar', ['gharar', 'uncertain', 'ambigu', 'unknown', 'unspecified', 'غرر', 'جهاله', 'غموض', 'مجهول']],
+  ['maysir', ['maysir', 'gambl', 'speculat', 'lottery', 'wager', 'ميسر', 'قمار', 'مقامره', 'رهان']],
+  ['prohibited_subject', ['alcohol', 'pork', 'haram', 'prohibited', 'forbidden', 'خمر', 'خنزير', 'محرم']],
+  ['ownership', ['ownership', 'possession', 'not own', 'does not own', 'تملك', 'ملكيه', 'قبض', 'حيازه', 'لا يملك']],
+];
+
+// Latin keywords must start a word ("fine" is not in "define"); Arabic ones
+// may follow attached prefixes such as "بال", so they match anywhere.
+export const matchesKeyword = (text: string, keyword: string): boolean =>
+  /[a-z]/.test(keyword)
+    ? new RegExp(`(^|[^a-z])${keyword}`).test(text)
+    : text.includes(keyword);
+
+export const classifyIssue = (issue?: string | null): IssueCategory => {
+  if (!issue?.trim()) return 'other';
+  const text = normalizeText(issue);
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) =>
+    keywords.some((keyword) => matchesKeyword(text, keyword))
+  );
+  return match ? match[0] : 'other';
+};
@@ -0,0 +1,115 @@
+import { classifyIssue, matchesKeyword } from './termCategories';
+import type { IssueCategory } from './termCategories';
+import { normalizeText } from './textSearch';
+import type { TermSeverity } from '../services/api';
+
+export type { TermSeverity };
+
+// Most severe first.
+export const TERM_SEVERITIES: TermSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// How much a term counts towards the weighted score. Terms without an issue
+// weigh as much as a low-severity one.
+export const SEVERITY_WEIGHTS: Record<TermSeverity, number> = {
+  critical: 10,
+  high: 5,
+  medium: 2,
+  low: 1,
+};
+const NO_ISSUE_WEIGHT = 1;
+
+// The fields severity is read from; any analysis term fits.
+export interface SeverityInput {
+  is_valid_sharia?: boolean;
+  sharia_issue?: string | null;
+  reference_number?: string | null;
+  severity?: TermSeverity | null;
+}
+
+const CATEGORY_SEVERITY: Record<IssueCategory, TermSeverity> = {
+  riba: 'critical',
+  maysir: 'critical',
+  prohibited_subject: 'critical',
+  gharar: 'high',
+  late_penalty: 'high',
+  ownership: 'high',
+  other: 'medium',
+};
+
+// Drafting problems rather than prohibitions; normalized form.
+const LOW_SEVERITY_KEYWORDS = [
+  'wording', 'formatting', 'drafting', 'typo', 'clarity', 'clarif', 'rephras',
+  'صياغه', 'تنسيق', 'توضيح',
+];
+
+// A clause resting on a Quranic text is at least a high-severity issue.
+const QURAN_REFERENCE_KEYWORDS = ['quran', "qur'an", 'surah', 'سوره', 'قران', 'الايه'];
+
+const mentionsAny = (text: string, keywords: string[]): boolean =>
+  keywords.some((keyword) => matchesKeyword(text, keyword));
+
+const isTermSeverity = (value: unknown): value is TermSeverity =>
+  typeof value === 'string' && (TERM_SEVERITIES as string[]).includes(value);
+
+const moreSevere = (a: TermSeverity, b: TermSeverity): TermSeverity =>
+  TERM_SEVERITIES.indexOf(a) <= TERM_SEVERITIES.indexOf(b) ? a : b;
+
+// Severity of the issue the analysis found in a term: the backend's when it
+// sends one, otherwise a rules-based guess from the issue text and its
+// reference. Null when the analysis found no issue.
+export const getTermSeverity = (term: SeverityInput): TermSeverity | null => {
+  if (isTermSeverity(term.severity)) return term.severity;
+  if (term.is_valid_sharia !== false && !term.sharia_issue?.trim()) return null;
+
+  const issue = normalizeText(term.sharia_issue || '');
+  const category = classifyIssue(term.sharia_issue);
+  let severity = CATEGORY_SEVERITY[category];
+  if (category === 'other' && mentionsAny(issue, LOW_SEVERITY_KEYWORDS)) {
+    severity = 'low';
+  }
+
+  const reference = normalizeText(term.reference_number || '');
+  if (mentionsAny(reference, QURAN_REFERENCE_KEYWORDS)) {
+    severity = moreSevere(severity, 'high');
+  }
+  return severity;
+};
+
+export const severityWeight = (severity: TermSeverity | null): number =>
+  severity ? SEVERITY_WEIGHTS[severity] : NO_ISSUE_WEIGHT;
+
+// Share of the total weight held by compliant terms, as a percentage, so one
+// riba clause costs more than several drafting remarks. Zero without terms.
+export const computeWeightedCompliance = <T extends SeverityInput>(
+  terms: T[],
+  isCompliant: (term: T) => boolean = (term) => term.is_valid_sharia !== false
+): number => {
+  let total = 0;
+  let compliant = 0;
+  terms.forEach((term) => {
+    const weight = severityWeight(getTermSeverity(term));
+    total += weight;
+    if (isCompliant(term)) compliant += weight;
+  });
+  return total > 0 ? (compliant / total) * 100 : 0;
+};
+
+// Open issues per severity, most severe first.
+export const countIssuesBySeverity = <T extends SeverityInput>(
+  terms: T[],
+  isCompliant: (term: T) => boolean = (term) => term.is_valid_sharia !== false
+): Record<TermSeverity, number> => {
+  const counts: Record<TermSeverity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+  terms.forEach((term) => {
+    if (isCompliant(term)) return;
+    counts[getTermSeverity(term) ?? 'medium']++;
+  });
+  return counts;
+};
+
+export const SEVERITY_COLORS: Record<TermSeverity, string> = {
+  critical: '#dc2626',
+  high: '#f97316',
+  medium: '#f59e0b',
+  low: '#3b82f6',
+};
@@ -0,0 +1,186 @@
+// Word-level diff for comparing versions of a contract term. Words are runs
+// of Latin or Arabic letters and digits with their combining marks, so Arabic
+// words keep their diacritics and are never split inside; punctuation is
+// compared on its own and whitespace is carried along with the word before
+// it. Results are in logical (reading) order; the renderer handles RTL
+// layout.
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+interface DiffToken {
+  text: string;
+  // What is compared; see toCompareKey.
+  key: string;
+  // Whitespace following the token, rendered but not compared.
+  trailing: string;
+}
+
+// Latin and Arabic-script letters and digits, Arabic combining marks
+// included, joined by in-word apostrophes and hyphens ("don't", "co-owner").
+// Arabic punctuation and the bidi mark fall outside the word ranges.
+const WORD_CHARS =
+  'A-Za-z0-9\\u00C0-\\u024F\\u0610-\\u061A\\u0620-\\u0669\\u066E-\\u06D3\\u06D5-\\u06FF' +
+  '\\u0750-\\u077F\\u08A0-\\u08FF\\uFB50-\\uFDFF\\uFE70-\\uFEFC';
+const TOKEN_PATTERN = new RegExp(
+  `[${WORD_CHARS}]+(?:['\\u2019-][${WORD_CHARS}]+)*|[^\\s${WORD_CHARS}]`,
+  'g'
+);
+const STRONG_CHAR = /[A-Za-z\u00C0-\u024F\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+const TATWEEL = /\u0640/g;
+
+// Above this many cells the LCS table gets too expensive for a phone; the
+// changed middle is then reported as one replacement.
+const MAX_DIFF_CELLS = 1000000;
+
+// Tatweel only stretches a word for display, so it never counts as a change.
+const toCompareKey = (word: string): string => word.replace(TATWEEL, '').normalize('NFC');
+
+// Direction of a text by its first strong character, as the Unicode bidi
+// algorithm decides paragraph direction.
+export const isRtlText = (text: string): boolean => {
+  const firstStrong = text.match(STRONG_CHAR);
+  return !!firstStrong && RTL_CHAR.test(firstStrong[0]);
+};
+
+export const tokenizeForDiff = (text: string): { leading: string; tokens: DiffToken[] } => {
+  const tokens: DiffToken[] = [];
+  const leading = text.match(/^\s*/)?.[0] ?? '';
+  TOKEN_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const trailing = text.slice(end).match(/^\s*/)?.[0] ?? '';
+    tokens.push({ text: match[0], key: toCompareKey(match[0]), trailing });
+  }
+  return { leading, tokens };
+};
+
+// Longest common subsequence over the token keys; returns per-token
+// operations for the two sequences in order.
+const diffTokens = (a: DiffToken[], b: DiffToken[]): Array<[DiffOperation, DiffToken]> => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].key === b[prefix].key) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].key === b[b.length - 1 - suffix].key
+  ) {
+    suffix++;
+  }
+
+  const ops: Array<[DiffOperation, DiffToken]> = [];
+  for (let i = 0; i < prefix; i++) ops.push(['equal', b[i]]);
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach((token) => ops.push(['delete', token]));
+    midB.forEach((token) => ops.push(['insert', token]));
+  } else {
+    // lengths[i][j]: LCS length of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] =
+          midA[i].key === midB[j].key
+            ? lengths[(i + 1) * cols + j + 1] + 1
+            : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i].key === midB[j].key) {
+        ops.push(['equal', midB[j]]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        ops.push(['delete', midA[i++]]);
+      } else {
+        ops.push(['insert', midB[j++]]);
+      }
+    }
+    while (i < midA.length) ops.push(['delete', midA[i++]]);
+    while (j < midB.length) ops.push(['insert', midB[j++]]);
+  }
+
+  for (let i = b.length - suffix; i < b.length; i++) ops.push(['equal', b[i]]);
+  return ops;
+};
+
+// Compares two texts word by word. Adjacent segments of the same type are
+// merged, and deletions come before insertions within a changed run, so a
+// replaced phrase reads as "old → new".
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenizeForDiff(before || '');
+  const b = tokenizeForDiff(after || '');
+  const segments: DiffSegment[] = [];
+
+  const push = (type: DiffOperation, text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  push('equal', b.leading);
+
+  let deleted = '';
+  let inserted = '';
+  const flushChange = () => {
+    push('delete', deleted);
+    push('insert', inserted);
+    deleted = '';
+    inserted = '';
+  };
+
+  for (const [type, token] of diffTokens(a.tokens, b.tokens)) {
+    if (type === 'delete') {
+      deleted += token.text + token.trailing;
+    } else if (type === 'insert') {
+      inserted += token.text + token.trailing;
+    } else {
+      flushChange();
+      push('equal', token.text + token.trailing);
+    }
+  }
+  flushChange();
+
+  return segments;
+};
+
+// Counts words, not characters, so punctuation-only edits stay small.
+export const getDiffStats = (segments: DiffSegment[]): DiffStats => {
+  const stats: DiffStats = { added: 0, removed: 0, unchanged: 0 };
+  segments.forEach((segment) => {
+    const words = tokenizeForDiff(segment.text).tokens.length;
+    if (segment.type === 'insert') stats.added += words;
+    else if (segment.type === 'delete') stats.removed += words;
+    else stats.unchanged += words;
+  });
+  return stats;
+};
+
+export const hasChanges = (segments: DiffSegment[]): boolean =>
+  segments.some((segment) => segment.type !== 'equal');
@@ -0,0 +1,264 @@
+// Text normalization and stemming for local full-text search. Index and
+// query go through the same pipeline, so "الغرر", "غرر" and "بالغرر" meet on
+// one stem, as do "interest", "interests" and "interested".
+
+export interface SearchToken {
+  // Normalized, stemmed form used for matching.
+  term: string;
+  // Position of the source word in the original text, for snippets.
+  start: number;
+  end: number;
+}
+
+// Letters and digits of Latin and Arabic scripts, including Arabic
+// presentation forms. Arabic punctuation is blanked out before matching.
+const WORD_PATTERN = /[A-Za-z0-9\u00C0-\u024F\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFC]+/g;
+const ARABIC_PUNCTUATION = /[\u060C\u061B\u061F\u066A-\u066D\u06D4]/g;
+
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+const ARABIC_LETTER = /[\u0600-\u06FF]/;
+
+const STOP_WORDS = new Set([
+  // English
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'shall', 'that', 'the', 'this', 'to', 'was', 'will', 'with',
+  // Arabic, after normalization
+  'في', 'من', 'علي', 'الي', 'عن', 'ان', 'او', 'ما', 'لا', 'مع', 'هذا', 'هذه', 'ذلك', 'التي',
+  'الذي', 'كل', 'قد', 'ثم', 'و',
+]);
+
+// --- Normalization ---
+
+// Folds spelling variants that Arabic readers treat as the same word:
+// diacritics and tatweel are dropped, hamza-carrying alefs become a bare alef,
+// alef maqsura becomes ya, ta marbuta becomes ha, and Arabic-Indic digits
+// become ASCII.
+export const normalizeArabic = (text: string): string =>
+  text
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627')
+    .replace(/\u0649/g, '\u064A')
+    .replace(/\u0629/g, '\u0647')
+    .replace(/\u0624/g, '\u0648')
+    .replace(/\u0626/g, '\u064A')
+    .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0));
+
+export const normalizeText = (text: string): string =>
+  normalizeArabic(text.toLowerCase()).replace(ARABIC_PUNCTUATION, ' ');
+
+// --- Arabic light stemming (after Larkey's light10) ---
+
+const ARABIC_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+const ARABIC_SUFFIXES = ['ها', 'ان', 'ات', 'ون', 'ين', 'يه', 'ه', 'ي'];
+
+export const stemArabic = (word: string): string => {
+  let stem = word;
+
+  if (stem.length >= 4 && stem.startsWith('و')) {
+    stem = stem.slice(1);
+  }
+
+  for (const prefix of ARABIC_PREFIXES) {
+    if (stem.startsWith(prefix) && stem.length - prefix.length >= 2) {
+      stem = stem.slice(prefix.length);
+      break;
+    }
+  }
+
+  for (const suffix of ARABIC_SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 2) {
+      stem = stem.slice(0, -suffix.length);
+    }
+  }
+
+  return stem;
+};
+
+// --- English stemming (Porter, 1980) ---
+
+const isConsonant = (word: string, i: number): boolean => {
+  const char = word[i];
+  if ('aeiou'.includes(char)) return false;
+  if (char === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+};
+
+// Number of vowel-consonant sequences in the stem ("m" in the paper).
+const measure = (stem: string): number => {
+  let count = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    count++;
+  }
+  return count;
+};
+
+const containsVowel = (stem: string): boolean => {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+};
+
+const endsWithDoubleConsonant = (word: string): boolean =>
+  word.length >= 2 &&
+  word[word.length - 1] === word[word.length - 2] &&
+  isConsonant(word, word.length - 1);
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y.
+const endsWithCvc = (word: string): boolean => {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1])
+  );
+};
+
+// Applies the first rule whose suffix matches, if its stem passes `condition`.
+const replaceSuffix = (
+  word: string,
+  rules: Array<[string, string]>,
+  condition: (stem: string) => boolean
+): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+};
+
+const STEP2_RULES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log'],
+].sort((a, b) => b[0].length - a[0].length) as Array<[string, string]>;
+
+const STEP3_RULES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''],
+  ['ness', ''],
+];
+
+const STEP4_SUFFIXES = [
+  'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ion', 'ism', 'ate', 'iti',
+  'ous', 'ive', 'ize', 'al', 'er', 'ic', 'ou',
+];
+
+export const stemEnglish = (word: string): string => {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (!w.endsWith('ss') && w.endsWith('s')) w = w.slice(0, -1);
+
+  // Step 1b: -ed and -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : null;
+    if (suffix && containsVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (w.endsWith('y') && containsVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Steps 2 and 3: double and single suffixes
+  w = replaceSuffix(w, STEP2_RULES, (stem) => measure(stem) > 0);
+  w = replaceSuffix(w, STEP3_RULES, (stem) => measure(stem) > 0);
+
+  // Step 4: remaining suffixes on long stems
+  for (const suffix of STEP4_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const stem = w.slice(0, -suffix.length);
+      const allowed = suffix === 'ion' ? /[st]$/.test(stem) : true;
+      if (allowed && measure(stem) > 1) w = stem;
+      break;
+    }
+  }
+
+  // Step 5: final -e and -ll
+  if (w.endsWith('e')) {
+    const stem = w.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) w = stem;
+  }
+  if (w.endsWith('ll') && measure(w) > 1) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+};
+
+// --- Tokenization ---
+
+// Normalizes and stems a single word; empty for stop words.
+export const toSearchTerm = (word: string): string => {
+  const normalized = normalizeText(word).trim();
+  if (!normalized || STOP_WORDS.has(normalized)) return '';
+  const stem = ARABIC_LETTER.test(normalized) ? stemArabic(normalized) : stemEnglish(normalized);
+  // Also catches stop words behind a prefix, e.g. "وهذا".
+  return STOP_WORDS.has(stem) ? '' : stem;
+};
+
+export const tokenize = (text: string): SearchToken[] => {
+  if (!text) return [];
+  const tokens: SearchToken[] = [];
+  const source = text.replace(ARABIC_PUNCTUATION, ' ');
+
+  WORD_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = WORD_PATTERN.exec(source)) !== null) {
+    const term = toSearchTerm(match[0]);
+    if (term) {
+      tokens.push({ term, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return tokens;
+};
+
+// Unique search terms of a text, in first-seen order.
+export const searchTerms = (text: string): string[] =>
+  Array.from(new Set(tokenize(text).map((token) => token.term)));
+
+// Cuts a window of the original text around the first word whose term
+// satisfies `matches`, for display under a search result.
+export const buildSnippet = (
+  text: string,
+  matches: (term: string) => boolean,
+  radius = 60
+): string | null => {
+  const hit = tokenize(text).find((token) => matches(token.term));
+  if (!hit) return null;
+
+  const start = Math.max(0, hit.start - radius);
+  const end = Math.min(text.length, hit.end + radius);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
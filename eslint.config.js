@@ -0,0 +1,12 @@
+// https://docs.expo.dev/guides/using-eslint/
+const { defineConfig } = require("eslint/config");
+const expoConfig = require("eslint-config-expo/flat");
+
+module.exports = defineConfig([
+  expoConfig,
+  {
+    // The drizzle schema belongs to the server and its packages are not
+    // installed here.
+    ignores: ["dist/*", "attached_assets/*", "drizzle.config.ts", "shared/*"],
+  },
+]);
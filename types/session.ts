@@ -16,6 +16,28 @@ export interface SessionDetails {
   pdf_preview_info?: any;
 }
 
+// What SessionContext keeps per session under `storageKeys.SHARIAA_SESSIONS`:
+// a summary, never the full SessionDetailsApiResponse.
+export interface StoredSessionSummary {
+  _id?: string;
+  session_id: string;
+  original_filename: string;
+  analysis_timestamp: string;
+  compliance_percentage: number;
+  detected_contract_language?: string;
+  original_format?: string;
+  analysis_results?: {
+    term_id: string;
+    is_valid_sharia?: boolean;
+    is_confirmed_by_user?: boolean;
+    has_expert_feedback?: boolean;
+    expert_override_is_valid_sharia?: boolean | null;
+  }[];
+  totalInteractions: number;
+  lastInteractionTime: string;
+  isBookmarked?: boolean;
+}
+
 export interface LocalContract {
   id: string;
   name: string;
@@ -29,4 +51,69 @@ export interface LocalContract {
   fileSize?: string;
   lastViewed?: string;
   isProcessing?: boolean;
-}
\ No newline at end of file
+  // How an analysis that never produced results ended.
+  status?: "failed" | "cancelled";
+  cancelledAt?: string;
+}
+
+// One question/answer turn of a Q&A conversation.
+export interface QaMessage {
+  id: string;
+  question: string;
+  answer: string;
+  askedAt: string;
+  answeredAt?: string;
+  termId?: string;
+  // Snapshot of the term the question was about, as it read when asked.
+  termText?: string;
+  // The user stopped the answer before it finished streaming.
+  stopped?: boolean;
+}
+
+// Conversation threads of one session, keyed by term_id or "__general__"
+// for questions about the contract as a whole.
+export type QaThreads = Record<string, QaMessage[]>;
+
+// Where the text of a term revision came from.
+export type TermRevisionSource =
+  | "original"
+  | "ai_suggestion"
+  | "user_edit"
+  | "qa_answer"
+  | "expert_correction"
+  | "revert";
+
+// What happened to the text: analyzed as part of the contract, proposed,
+// reviewed by the server, or confirmed into the contract.
+export type TermRevisionAction = "analyzed" | "suggested" | "reviewed" | "confirmed";
+
+export interface TermRevisionAuthor {
+  id?: string;
+  name?: string;
+  role: "regular_user" | "shariah_expert" | "system";
+}
+
+// One entry of a term's revision log. Entries are never changed once
+// written; reverting appends a new one.
+export interface TermRevision {
+  id: string;
+  termId: string;
+  text: string;
+  source: TermRevisionSource;
+  action: TermRevisionAction;
+  createdAt: string;
+  // Missing for confirmations made before revisions were recorded.
+  author?: TermRevisionAuthor;
+  // The server's ruling on the text, once reviewed.
+  isValidSharia?: boolean | null;
+  shariaIssue?: string | null;
+  // For reverts, the revision whose text was restored.
+  revertedFromId?: string;
+  // Recorded while offline; the backend has not seen it yet.
+  queued?: boolean;
+  // Set when the change was part of a bulk action on several terms.
+  batchId?: string;
+}
+
+// Revision logs of one session, keyed by term_id, oldest first.
+export type TermRevisions = Record<string, TermRevision[]>;